@@ -1,14 +1,18 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import Header from './components/Header';
 import ControlPanel from './components/ControlPanel';
 import Gallery from './components/Gallery';
 import CaptionStudio from './components/CaptionStudio';
 import StoryStudio from './components/StoryStudio';
+import ModelStudio from './components/ModelStudio';
 import LandingPage from './components/LandingPage';
 import Sidebar from './components/Sidebar';
 import { GenerationConfig, ModelType, AspectRatio, ImageResolution, GeneratedContent, GenerationMode } from './types';
 // Fix: Removed non-existent export 'generateStory' to resolve module error
-import { generateImage } from './services/geminiService';
+import { generateImage, generateFlipbook, generateVideo, generateSpeech, generateDialogSpeech, revoiceRecording } from './services/geminiService';
+import { listAssets, saveAsset, deleteAsset } from './services/assetService';
+
+const ASSET_PAGE_SIZE = 24;
 
 const App: React.FC = () => {
   const [showLanding, setShowLanding] = useState(true);
@@ -16,6 +20,8 @@ const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [generatedContent, setGeneratedContent] = useState<GeneratedContent[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [libraryTotal, setLibraryTotal] = useState(0);
+  const [libraryLoaded, setLibraryLoaded] = useState(0);
   
   const [config, setConfig] = useState<GenerationConfig>({
     mode: GenerationMode.IMAGE,
@@ -25,11 +31,15 @@ const App: React.FC = () => {
     resolution: ImageResolution.RES_1K,
     stylePrompts: [],
     voice: 'puck',
+    speechMode: 'text',
+    dialogTurns: [],
+    dialogGapMs: 350,
     isRigging: false,
     boneConfigurations: [],
     animationDuration: 3,
     animationFormat: 'mp4',
     animationQuality: 'standard',
+    animationKeyframes: [],
     storyScenes: [{ id: '1', prompt: '', order: 0 }],
     storySubjects: [],
     storyEnvironments: [],
@@ -43,11 +53,125 @@ const App: React.FC = () => {
     captionSegments: []
   });
 
-  const handleGenerate = useCallback(async () => {
-    if (config.mode === GenerationMode.CAPTIONS || config.mode === GenerationMode.STORY) {
-        return;
+  const loadLibraryPage = useCallback(async (offset: number) => {
+    try {
+      const page = await listAssets({ offset, limit: ASSET_PAGE_SIZE });
+      setGeneratedContent(prev => {
+        const known = new Set(prev.map(item => item.id));
+        return [...prev, ...page.items.filter(item => !known.has(item.id))];
+      });
+      setLibraryTotal(page.total);
+      setLibraryLoaded(offset + page.items.length);
+    } catch (err) {
+      console.error("Failed to load asset library", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLibraryPage(0);
+  }, [loadLibraryPage]);
+
+  // Swap freshly generated data-URL items for their stored copies; unsaved items still display
+  const persistItems = useCallback(async (items: GeneratedContent[]) => {
+    await Promise.all(items.map(async (item) => {
+      try {
+        const saved = await saveAsset(item);
+        setGeneratedContent(prev => prev.map(existing => existing.id === item.id ? saved : existing));
+        setLibraryTotal(total => total + 1);
+        setLibraryLoaded(loaded => loaded + 1);
+      } catch (err) {
+        console.error("Failed to save to asset library", err);
+      }
+    }));
+  }, []);
+
+  const handleDeleteItem = useCallback(async (item: GeneratedContent) => {
+    try {
+      await deleteAsset(item.id);
+      setGeneratedContent(prev => prev.filter(existing => existing.id !== item.id));
+      setLibraryTotal(total => Math.max(0, total - 1));
+      setLibraryLoaded(loaded => Math.max(0, loaded - 1));
+    } catch (err: any) {
+      setError(err.message || "Failed to delete item.");
+    }
+  }, []);
+
+  const handleAnimate = useCallback(async () => {
+    if (!config.referenceImage) {
+      setError("Upload a source image to animate.");
+      return;
+    }
+
+    // Show a pending card immediately and fill it with frames as the server streams them
+    const pendingId = `${Date.now()}-flipbook-pending`;
+    setGeneratedContent(prev => [{
+      id: pendingId,
+      type: 'animation',
+      url: config.referenceImage!,
+      frames: [],
+      prompt: config.prompt,
+      model: ModelType.FLASH_IMAGE,
+      timestamp: Date.now(),
+      mode: config.mode,
+      aspectRatio: config.aspectRatio,
+      isPending: true
+    }, ...prev]);
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const animation = await generateFlipbook(config, undefined, (frame) => {
+        setGeneratedContent(prev => prev.map(item => item.id === pendingId ? { ...item, frames: [...(item.frames || []), frame] } : item));
+      });
+      const finished = { ...animation, mode: config.mode };
+      setGeneratedContent(prev => prev.map(item => item.id === pendingId ? finished : item));
+      persistItems([finished]);
+    } catch (err: any) {
+      console.error(err);
+      setGeneratedContent(prev => prev.filter(item => item.id !== pendingId));
+      setError(err.message || "Failed to animate image. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [config, persistItems]);
+
+  const handleVideo = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      // The server stores finished videos itself, so the item already has a library URL
+      const video = await generateVideo(config);
+      setGeneratedContent(prev => [video, ...prev]);
+      setLibraryTotal(total => total + 1);
+      setLibraryLoaded(loaded => loaded + 1);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to generate video. Please try again.");
+    } finally {
+      setIsLoading(false);
     }
+  }, [config]);
 
+  const handleSpeech = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const clip = config.speechMode === 'dialog' ? await generateDialogSpeech(config)
+        : config.speechMode === 'mic' ? await revoiceRecording(config)
+        : await generateSpeech(config);
+      const tagged = { ...clip, mode: GenerationMode.AUDIO };
+      setGeneratedContent(prev => [tagged, ...prev]);
+      persistItems([tagged]);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to generate speech. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [config, persistItems]);
+
+  const handleImages = useCallback(async () => {
     const hasPrompt = config.prompt.trim().length > 0;
     const isRiggingValid = config.isRigging && (config.boneConfigurations?.length || 0) > 0;
 
@@ -55,21 +179,57 @@ const App: React.FC = () => {
     
     setIsLoading(true);
     setError(null);
-    
+
+    // Show each image as the server streams it; the finished batch replaces these cards
+    const pendingPrefix = `${Date.now()}-image-pending`;
+    const isStreamed = (item: GeneratedContent) => item.id.startsWith(pendingPrefix);
+
     try {
-      const newImages = await generateImage(config);
+      const newImages = await generateImage(config, (url, index) => {
+        setGeneratedContent(prev => [{
+          id: `${pendingPrefix}-${index}`,
+          type: 'image',
+          url,
+          prompt: config.prompt,
+          model: config.model || ModelType.FLASH_IMAGE,
+          timestamp: Date.now(),
+          mode: config.mode,
+          aspectRatio: config.aspectRatio,
+          isPending: true
+        }, ...prev]);
+      });
       const taggedImages = newImages.map(img => ({
         ...img,
         mode: config.mode
       }));
-      setGeneratedContent(prev => [...taggedImages, ...prev]);
+      setGeneratedContent(prev => [...taggedImages, ...prev.filter(item => !isStreamed(item))]);
+      persistItems(taggedImages);
     } catch (err: any) {
       console.error(err);
+      setGeneratedContent(prev => prev.filter(item => !isStreamed(item)));
       setError(err.message || "Failed to generate content. Please try again.");
     } finally {
       setIsLoading(false);
     }
-  }, [config]);
+  }, [config, persistItems]);
+
+  const handleGenerate = useCallback(async () => {
+    switch (config.mode) {
+      case GenerationMode.CAPTIONS:
+      case GenerationMode.STORY:
+      case GenerationMode.MODEL_3D:
+        // These studios run their own generation flows
+        return;
+      case GenerationMode.ANIMATOR:
+        return handleAnimate();
+      case GenerationMode.VIDEO:
+        return handleVideo();
+      case GenerationMode.AUDIO:
+        return handleSpeech();
+      default:
+        return handleImages();
+    }
+  }, [config.mode, handleAnimate, handleVideo, handleSpeech, handleImages]);
 
   const handleEditImage = (item: GeneratedContent) => {
     let mode = GenerationMode.IMAGE;
@@ -156,11 +316,34 @@ const App: React.FC = () => {
               setConfig={setConfig}
               onExit={() => setConfig(prev => ({...prev, mode: GenerationMode.IMAGE}))}
             />
+          ) : config.mode === GenerationMode.MODEL_3D ? (
+            <ModelStudio
+              config={config}
+              setConfig={setConfig}
+              onExit={() => setConfig(prev => ({...prev, mode: GenerationMode.IMAGE}))}
+              onAnimationRendered={(item) => {
+                setGeneratedContent(prev => [item, ...prev]);
+                setLibraryTotal(total => total + 1);
+                setLibraryLoaded(loaded => loaded + 1);
+              }}
+            />
           ) : (
             <Gallery 
               items={filteredContent} 
               isLoading={isLoading} 
               onEditImage={handleEditImage}
+              onDeleteItem={handleDeleteItem}
+              onOpenInCaptions={(item) => {
+                setConfig(prev => ({
+                  ...prev,
+                  mode: GenerationMode.CAPTIONS,
+                  captionAudioUrl: item.url,
+                  captionSegments: item.segments,
+                  captionScript: item.segments?.map(seg => seg.text).join(" ")
+                }));
+              }}
+              hasMore={libraryLoaded < libraryTotal}
+              onLoadMore={() => loadLibraryPage(libraryLoaded)}
               onSelectPrompt={(selectedPrompt, mode) => {
                 setConfig(prev => ({
                   ...prev,
@@ -173,7 +356,7 @@ const App: React.FC = () => {
         </div>
 
         {/* Right parameters Panel */}
-        {config.mode !== GenerationMode.CAPTIONS && config.mode !== GenerationMode.STORY && (
+        {config.mode !== GenerationMode.CAPTIONS && config.mode !== GenerationMode.STORY && config.mode !== GenerationMode.MODEL_3D && (
           <ControlPanel 
             config={config} 
             setConfig={setConfig} 
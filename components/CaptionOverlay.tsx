@@ -0,0 +1,102 @@
+import React from 'react';
+import { CaptionRenderStyle, CaptionSegment } from '../types';
+import { CAPTION_LINE_HEIGHT, CaptionLook, captionFill, captionLook, captionMotion, fillColorAt, layoutCaption, typewriterCharDelays } from '../shared/captions/render';
+import { resolveSpeakers, speakerStyle } from '../shared/captions/speakers';
+import { activeWordColor, activeWordIndex, bounceScale, segmentWords, WORD_ANIMATIONS, wordProgress } from '../shared/captions/words';
+
+interface CaptionOverlayProps {
+  segment: CaptionSegment;
+  // With speakers resolved across all segments, so each keeps the colour the exports give it
+  style: CaptionRenderStyle;
+  // Size of the frame the caption is drawn over, in CSS pixels
+  frame: { width: number; height: number };
+  // Playback time in seconds; without one the caption is drawn fully shown, as while editing
+  time?: number;
+}
+
+// Outline, shadow and glow as drop-shadow filters, which also edge gradient text clipped to its background
+const lookFilter = (look: CaptionLook, fontSize: number, fill: string) => {
+  const filters: string[] = [];
+  const stroke = look.stroke * fontSize, strokeColor = look.strokeColor === 'fill' ? fill : '#000000';
+  if (stroke) [[1, 0], [-1, 0], [0, 1], [0, -1]].forEach(([x, y]) => filters.push(`drop-shadow(${x * stroke}px ${y * stroke}px 0 ${strokeColor})`));
+  if (look.shadow) filters.push(`drop-shadow(${look.shadow * fontSize}px ${look.shadow * fontSize}px 0 rgba(0,0,0,${look.shadowOpacity}))`);
+  if (look.glow) filters.push(`drop-shadow(0 0 ${look.glow * fontSize}px ${fill})`);
+  return filters.length ? filters.join(' ') : undefined;
+};
+
+const TRANSLATE: Record<CaptionRenderStyle['position'], string> = { top: '0', center: '-50%', bottom: '-100%' };
+
+/**
+ * One caption drawn the way the ASS export burns it in: the same wrapping, safe zone, look and
+ * animation timings, all from the shared caption layout.
+ */
+const CaptionOverlay: React.FC<CaptionOverlayProps> = ({ segment, style: captionStyle, frame, time }) => {
+  const style = speakerStyle(captionStyle, resolveSpeakers([segment], captionStyle), segment.speaker);
+  const layout = layoutCaption(segment.text, style, frame);
+  const look = captionLook(style);
+  const fill = captionFill(style);
+  const laid = { ...segment, text: layout.lines.map(line => line.join(' ')).join('\n') };
+  const at = time ?? Infinity;
+  const motion = time === undefined ? captionMotion('none', 0, 0) : captionMotion(segment.animation, (time - segment.startTime) * 1000, (segment.endTime - time) * 1000);
+
+  const byWord = WORD_ANIMATIONS.includes(segment.animation || 'none') && (segment.animation !== 'typewriter' || !!segment.words);
+  const words = byWord ? segmentWords(laid) : [];
+  const active = activeWordIndex(words, at);
+  const delays = segment.animation === 'typewriter' && !segment.words ? typewriterCharDelays(laid) : undefined;
+  // Karaoke colours each word on its own, so the block itself carries no gradient
+  const gradient = fill.length > 1 && segment.animation !== 'karaoke';
+
+  const renderWord = (text: string, i: number) => {
+    const word = words[i];
+    const css: React.CSSProperties = { display: 'inline-block' };
+    if (segment.animation === 'highlight' && i === active && at < word.endTime) css.color = activeWordColor(fill[0]);
+    if (segment.animation === 'bounce') css.transform = `scale(${bounceScale(word, at)})`;
+    if (segment.animation === 'typewriter' && i > active) css.visibility = 'hidden';
+    if (segment.animation === 'karaoke') {
+      // Unspoken words are the fill colour at 40% opacity, like the ASS export's secondary alpha
+      const color = fillColorAt(fill, (i + 0.5) / words.length), filled = wordProgress(word, at) * 100;
+      Object.assign(css, { color: 'transparent', WebkitBackgroundClip: 'text', backgroundClip: 'text', backgroundImage: `linear-gradient(90deg, ${color} ${filled}%, ${color}66 ${filled}%)` });
+    }
+    return <span key={i} style={css}>{text}</span>;
+  };
+
+  let wordIndex = 0, charIndex = 0;
+  const lines = layout.lines.map((line, l) => {
+    const text = line.join(' ');
+    let content: React.ReactNode = text;
+    if (byWord) {
+      content = line.map((word, i) => <React.Fragment key={i}>{i > 0 && ' '}{renderWord(word, wordIndex++)}</React.Fragment>);
+    } else if (delays) {
+      const chars = [...text];
+      const shown = chars.filter((_, i) => delays[charIndex + i] <= (at - segment.startTime) * 1000).length;
+      content = <>{chars.slice(0, shown).join('')}<span style={{ visibility: 'hidden' }}>{chars.slice(shown).join('')}</span></>;
+      // Skip the line break between lines
+      charIndex += chars.length + 1;
+    }
+    return <div key={l} style={{ whiteSpace: 'pre' }}>{content}</div>;
+  });
+
+  return (
+    <div className="absolute pointer-events-none text-center" style={{
+      left: layout.anchor.x,
+      top: layout.anchor.y,
+      transform: `translate(-50%, ${TRANSLATE[style.position] || TRANSLATE.bottom}) translateY(${motion.offsetY * layout.fontSize}px) scale(${motion.scale})`,
+      transformOrigin: style.position === 'top' ? 'top center' : style.position === 'center' ? 'center' : 'bottom center',
+      opacity: motion.opacity,
+      filter: lookFilter(look, layout.fontSize, fill[0]),
+    }}>
+      <div style={{
+        fontFamily: style.font,
+        fontWeight: look.weight,
+        fontSize: layout.fontSize,
+        lineHeight: CAPTION_LINE_HEIGHT,
+        color: gradient ? 'transparent' : fill[0],
+        ...(gradient ? { backgroundImage: `linear-gradient(90deg, ${fill.join(', ')})`, WebkitBackgroundClip: 'text', backgroundClip: 'text' } : {}),
+      }}>
+        {lines}
+      </div>
+    </div>
+  );
+};
+
+export default CaptionOverlay;
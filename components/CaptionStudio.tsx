@@ -1,12 +1,21 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GenerationConfig, CaptionSegment, ModelType, GenerationMode, CaptionAnimation, AspectRatio } from '../types';
+import React, { useState, useRef, useEffect, useCallback, useReducer } from 'react';
+import { GenerationConfig, CaptionSegment, ModelType, GenerationMode, CaptionAnimation, AspectRatio, VideoExportFormat, CaptionExportFormat, CaptionRenderStyle, CaptionImportWarning, CaptionPlatform, CaptionSegmentIssue, CaptionSpeaker, CaptionTrack, CAPTION_COLORS, CAPTION_LANGUAGES } from '../types';
 import { 
   Upload, X, Mic, FileVideo, Check, Play, Pause, Download, 
   Sparkles, Loader2, MessageSquare, Volume2, Settings, Palette, 
   Trash2, Plus, Zap, ChevronRight, Layout, ImageIcon, Clock, Minus,
-  TypeIcon, Wand2
+  TypeIcon, Wand2, Scissors, Undo2, Redo2, ChevronDown, Globe
 } from './Icons';
-import { GoogleGenAI, Type } from "@google/genai";
+import { transcribeAudio } from '../services/geminiService';
+import { exportVideo, getExportFormats } from '../services/exportService';
+import { exportCaptions, importCaptions, translateCaptions } from '../services/captionService';
+import CaptionOverlay from './CaptionOverlay';
+import {
+  CaptionLimits, DEFAULT_CAPTION_LIMITS, mergeWithNext, nudgeSegment, offsetSegments, reflowSegments,
+  resolveOverlaps, scaleSegmentSpeed, snapToWordStart, splitSegment, validateSegments,
+} from '../shared/captions/edit';
+import { alignTrack, captionLanguageName, setTrackText, untranslatedIds } from '../shared/captions/translate';
+import { nextSpeakerId, resolveSpeakers, segmentSpeakers } from '../shared/captions/speakers';
 
 interface CaptionStudioProps {
   config: GenerationConfig;
@@ -14,21 +23,6 @@ interface CaptionStudioProps {
   onExit: () => void;
 }
 
-const CAPTION_COLORS = [
-  { name: 'White', value: 'Pure White', class: 'bg-white', hex: '#ffffff' },
-  { name: 'Black', value: 'Matte Black', class: 'bg-black', hex: '#000000' },
-  { name: 'Red', value: 'Crimson Red', class: 'bg-red-600', hex: '#dc2626' },
-  { name: 'Blue', value: 'Electric Blue', class: 'bg-blue-500', hex: '#3b82f6' },
-  { name: 'Gold', value: 'Metallic Gold', class: 'bg-amber-500', hex: '#fbbf24' },
-  { name: 'Neon', value: 'Cyber Lime', class: 'bg-lime-400', hex: '#a3e635' },
-  { name: 'Pink', value: 'Vivid Pink', class: 'bg-pink-500', hex: '#ec4899' },
-  { name: 'Purple', value: 'Deep Purple', class: 'bg-purple-600', hex: '#9333ea' },
-  { name: 'Orange', value: 'Sunset Orange', class: 'bg-orange-500', hex: '#f97316' },
-  { name: 'Grad1', value: 'Sunset Gradient', class: 'bg-gradient-to-r from-orange-400 to-red-500', hex: 'gradient-sunset' },
-  { name: 'Grad2', value: 'Ocean Gradient', class: 'bg-gradient-to-r from-cyan-400 to-blue-500', hex: 'gradient-ocean' },
-  { name: 'Grad3', value: 'Cyber Gradient', class: 'bg-gradient-to-r from-purple-400 to-pink-500', hex: 'gradient-cyber' },
-];
-
 const CAPTION_FONTS = [
   { id: 'Inter', name: 'Inter (Sans)' },
   { id: 'Roboto', name: 'Roboto' },
@@ -43,6 +37,15 @@ const CAPTION_STYLES = [
   { id: 'neon', name: 'Neon Glow' },
   { id: '3d', name: '3D Extruded' },
   { id: 'minimalist', name: 'Modern Clean' },
+  { id: 'gradient', name: 'Gradient Fill' },
+];
+
+const CAPTION_PLATFORMS: { id: CaptionPlatform; name: string }[] = [
+  { id: 'generic', name: 'Generic' },
+  { id: 'tiktok', name: 'TikTok' },
+  { id: 'reels', name: 'Reels' },
+  { id: 'shorts', name: 'Shorts' },
+  { id: 'youtube', name: 'YouTube' },
 ];
 
 const ANIMATIONS: { id: CaptionAnimation; label: string }[] = [
@@ -52,39 +55,137 @@ const ANIMATIONS: { id: CaptionAnimation; label: string }[] = [
   { id: 'slide-up', label: 'Slide Up' },
   { id: 'zoom-in', label: 'Zoom In' },
   { id: 'typewriter', label: 'Typewriter' },
+  { id: 'highlight', label: 'Word Highlight' },
+  { id: 'bounce', label: 'Word Bounce' },
+  { id: 'karaoke', label: 'Karaoke Fill' },
 ];
 
+const CAPTION_FILE_FORMATS: CaptionExportFormat[] = ['srt', 'vtt', 'ass', 'json'];
+
+const HISTORY_LIMIT = 100;
+
+// Undo history of the segment list. Consecutive edits with the same key, like typing into one
+// segment, collapse into a single step
+interface SegmentHistory {
+  past: CaptionSegment[][];
+  present: CaptionSegment[];
+  future: CaptionSegment[][];
+  lastKey?: string;
+}
+
+type SegmentHistoryAction =
+  | { type: 'edit'; update: (segments: CaptionSegment[]) => CaptionSegment[]; key?: string }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const segmentHistoryReducer = (state: SegmentHistory, action: SegmentHistoryAction): SegmentHistory => {
+  switch (action.type) {
+    case 'edit': {
+      const next = action.update(state.present);
+      if (next === state.present) return state;
+      if (action.key && action.key === state.lastKey) return { ...state, present: next };
+      return { past: [...state.past, state.present].slice(-HISTORY_LIMIT), present: next, future: [], lastKey: action.key };
+    }
+    case 'undo':
+      if (!state.past.length) return state;
+      return { past: state.past.slice(0, -1), present: state.past[state.past.length - 1], future: [state.present, ...state.future] };
+    case 'redo':
+      if (!state.future.length) return state;
+      return { past: [...state.past, state.present], present: state.future[0], future: state.future.slice(1) };
+  }
+};
+
 const CaptionStudio: React.FC<CaptionStudioProps> = ({ config, setConfig, onExit }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
-  const [exportProgress, setExportProgress] = useState(0);
+  const [exportFormat, setExportFormat] = useState<VideoExportFormat>('mp4');
+  const [exportFormats, setExportFormats] = useState<VideoExportFormat[]>([]);
+  const [captionFormat, setCaptionFormat] = useState<CaptionExportFormat>('srt');
   const [activeTab, setActiveTab] = useState<'setup' | 'style'>('setup');
   const [statusMessage, setStatusMessage] = useState("");
   
   const [audioUrl, setAudioUrl] = useState<string | null>(config.captionAudioUrl || null);
   const [videoUrl, setVideoUrl] = useState<string | null>(config.captionVideoUrl || null);
   const [script, setScript] = useState(config.captionScript || "");
-  const [segments, setSegments] = useState<CaptionSegment[]>(config.captionSegments || []);
+  const [history, dispatchHistory] = useReducer(segmentHistoryReducer, { past: [], present: config.captionSegments || [], future: [] });
+  const segments = history.present;
+  const [ripple, setRipple] = useState(false);
+  const [limits, setLimits] = useState<CaptionLimits>(DEFAULT_CAPTION_LIMITS);
+  const [timeOffset, setTimeOffset] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [tracks, setTracks] = useState<CaptionTrack[]>(config.captionTracks || []);
+  // Language of the track being previewed and exported; empty for the source captions
+  const [activeTrack, setActiveTrack] = useState('');
+  const [targetLanguages, setTargetLanguages] = useState<string[]>([]);
+  const [isTranslating, setIsTranslating] = useState(false);
   const [activeSegmentIndex, setActiveSegmentIndex] = useState(0);
   const [videoDuration, setVideoDuration] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importWarnings, setImportWarnings] = useState<CaptionImportWarning[]>([]);
+  const [previewTime, setPreviewTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [previewFrame, setPreviewFrame] = useState({ width: 0, height: 0 });
   
   const videoInputRef = useRef<HTMLInputElement>(null);
   const videoPlayerRef = useRef<HTMLVideoElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const previewFrameRef = useRef<HTMLDivElement>(null);
+  // Last cursor position in each segment's text box, for splitting
+  const cursorRef = useRef<Record<string, number>>({});
+
+  const editSegments = useCallback((update: (prev: CaptionSegment[]) => CaptionSegment[], key?: string) => {
+    dispatchHistory({ type: 'edit', update, key });
+  }, []);
 
+  // Ctrl/Cmd+Z and Shift+Ctrl/Cmd+Z (or Ctrl+Y); text fields keep their own undo
   useEffect(() => {
-    setConfig(prev => ({ ...prev, captionSegments: segments, captionScript: script }));
-  }, [segments, script, setConfig]);
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement)?.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        dispatchHistory({ type: key === 'y' || e.shiftKey ? 'redo' : 'undo' });
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
-  const getSupportedMimeType = () => {
-    const types = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4;codecs=h264', 'video/mp4'];
-    for (const type of types) if (MediaRecorder.isTypeSupported(type)) return type;
-    return 'video/webm';
-  };
+  useEffect(() => {
+    getExportFormats().then(formats => {
+      setExportFormats(formats);
+      if (!formats.includes('mp4')) setExportFormat(formats[0] || 'gif');
+    }).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    setConfig(prev => ({ ...prev, captionSegments: segments, captionTracks: tracks, captionScript: script }));
+  }, [segments, tracks, script, setConfig]);
+
+  // Captions are laid out against the preview frame's size, as exports are against the video's
+  useEffect(() => {
+    const el = previewFrameRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setPreviewFrame({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // timeupdate only fires a few times a second; word animations need the time every frame
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function tick() {
+      if (videoPlayerRef.current) setPreviewTime(videoPlayerRef.current.currentTime);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
 
   const handleTimeUpdate = useCallback(() => {
     if (!videoPlayerRef.current || segments.length === 0) return;
     const currentTime = videoPlayerRef.current.currentTime;
+    setPreviewTime(currentTime);
     const index = segments.findIndex(seg => currentTime >= seg.startTime && currentTime <= seg.endTime);
     if (index !== -1 && index !== activeSegmentIndex) {
       setActiveSegmentIndex(index);
@@ -166,52 +267,17 @@ const CaptionStudio: React.FC<CaptionStudioProps> = ({ config, setConfig, onExit
       setAudioUrl(audioUrl);
       setStatusMessage("AI Transcribing...");
       
-      const reader = new FileReader();
-      const base64Audio = await new Promise<string>((resolve) => {
-        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-        reader.readAsDataURL(audioBlob);
-      });
-      
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [
-          { 
-            parts: [ 
-              { inlineData: { mimeType: 'audio/wav', data: base64Audio } }, 
-              { text: "Analyze this audio. Transcribe speech into segments. Format: JSON array of {'text', 'startTime', 'endTime'}." } 
-            ] 
-          }
-        ],
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                text: { type: Type.STRING },
-                startTime: { type: Type.NUMBER },
-                endTime: { type: Type.NUMBER }
-              },
-              required: ["text", "startTime", "endTime"]
-            }
-          }
-        }
-      });
-      
-      let rawText = response.text || "[]";
-      const data = JSON.parse(rawText.trim());
-      const formatted = data.map((item: any, i: number) => ({
-        id: `seg-${Date.now()}-${i}`,
-        text: item.text,
-        startTime: item.startTime,
-        endTime: item.endTime,
+      const data = await transcribeAudio(audioBlob);
+      const formatted: CaptionSegment[] = data.map(seg => ({
+        ...seg,
         animation: config.defaultCaptionAnimation || 'fade'
       }));
       
-      setSegments(formatted);
-      setScript(formatted.map((s: any) => s.text).join(" "));
+      editSegments(() => formatted);
+      // New segment ids, so earlier translations no longer line up
+      setTracks([]);
+      setActiveTrack('');
+      setScript(formatted.map(s => s.text).join(" "));
       setConfig(prev => ({ ...prev, captionSegments: formatted, captionAudioUrl: audioUrl }));
       setStatusMessage("Captions synchronized!");
       setTimeout(() => setStatusMessage(""), 3000);
@@ -223,125 +289,181 @@ const CaptionStudio: React.FC<CaptionStudioProps> = ({ config, setConfig, onExit
     }
   };
 
+  const handleImportSubtitles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (segments.length > 0 && !confirm("Replace the current caption segments with the imported subtitles?")) return;
+
+    setIsImporting(true);
+    setStatusMessage("Importing subtitles...");
+    try {
+      const { segments: imported, style, warnings } = await importCaptions(file);
+      const formatted = imported.map(seg => ({ ...seg, animation: seg.animation || config.defaultCaptionAnimation || 'fade' }));
+      editSegments(() => formatted);
+      // New segment ids, so earlier translations no longer line up
+      setTracks([]);
+      setActiveTrack('');
+      setScript(formatted.map(s => s.text).join(" "));
+      setActiveSegmentIndex(0);
+      setImportWarnings(warnings);
+      const color = CAPTION_COLORS.find(c => c.hex === style.color)?.value;
+      setConfig(prev => ({
+        ...prev,
+        captionSegments: formatted,
+        ...(style.font ? { captionFont: style.font } : {}),
+        ...(color ? { captionColor: color } : {}),
+        ...(style.style ? { captionStyle: style.style } : {}),
+        ...(style.size ? { captionSize: style.size } : {}),
+        ...(style.position ? { captionPosition: style.position } : {}),
+        ...(style.platform ? { captionPlatform: style.platform } : {}),
+        captionSpeakers: style.speakers || [],
+      }));
+      setStatusMessage(`Imported ${formatted.length} captions${warnings.length ? ` with ${warnings.length} warnings` : ''}`);
+    } catch (err: any) {
+      console.error("Subtitle import failed", err);
+      setImportWarnings([]);
+      setStatusMessage(err.message || "Subtitle import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const adjustTime = (id: string, field: 'startTime' | 'endTime', delta: number) => {
-    setSegments(prev => prev.map(seg => {
-      if (seg.id === id) {
-        const newVal = Math.round((seg[field] + delta) * 10) / 10;
-        return { ...seg, [field]: Math.max(0, newVal) };
-      }
-      return seg;
-    }));
+    editSegments(prev => nudgeSegment(prev, id, field, delta, ripple));
   };
 
-  const formatSRTTime = (seconds: number) => {
-    const date = new Date(0);
-    date.setSeconds(Math.floor(seconds));
-    const hh = date.getUTCHours().toString().padStart(2, '0');
-    const mm = date.getUTCMinutes().toString().padStart(2, '0');
-    const ss = date.getUTCSeconds().toString().padStart(2, '0');
-    const ms = Math.floor((seconds % 1) * 1000).toString().padStart(3, '0');
-    return `${hh}:${mm}:${ss},${ms}`;
+  // Splits where the cursor was left, moved back to the start of the word it sits in
+  const handleSplit = (seg: CaptionSegment) => {
+    const cursor = cursorRef.current[seg.id] ?? Math.floor(seg.text.length / 2);
+    editSegments(prev => splitSegment(prev, seg.id, snapToWordStart(seg.text, cursor)));
   };
 
-  const handleDownloadSRT = (e: React.MouseEvent) => {
-    e.preventDefault();
-    if (segments.length === 0) return;
+  const track = tracks.find(t => t.language === activeTrack);
+  const shownSegments = track ? alignTrack(segments, track) : segments;
+  const missingTranslations = track ? untranslatedIds(segments, track) : [];
 
-    const srtContent = segments.map((seg, i) => {
-      const index = i + 1;
-      const start = formatSRTTime(seg.startTime);
-      const end = formatSRTTime(seg.endTime);
-      return `${index}\n${start} --> ${end}\n${seg.text}\n`;
-    }).join('\n');
-
-    const blob = new Blob([srtContent], { type: 'text/srt' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.style.display = 'none';
-    a.href = url;
-    a.download = `lumina-captions-${Date.now()}.srt`;
-    document.body.appendChild(a);
-    a.click();
-    setTimeout(() => {
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-    }, 100);
+  const handleSegmentText = (seg: CaptionSegment, text: string) => {
+    if (track) setTracks(prev => prev.map(t => t === track ? setTrackText(t, seg, text) : t));
+    else editSegments(prev => prev.map(s => s.id === seg.id ? { ...s, text } : s), `text-${seg.id}`);
   };
 
-  const handleExportVideo = async (e: React.MouseEvent) => {
+  const handleTranslate = async () => {
+    if (!targetLanguages.length || !segments.length || isTranslating) return;
+    setIsTranslating(true);
+    try {
+      const translated = await translateCaptions(segments, targetLanguages, setStatusMessage);
+      setTracks(prev => [...prev.filter(t => !targetLanguages.includes(t.language)), ...translated]);
+      setActiveTrack(translated[0]?.language || '');
+      setStatusMessage(`Translated into ${translated.length} language${translated.length === 1 ? '' : 's'}`);
+      setTimeout(() => setStatusMessage(""), 3000);
+    } catch (err: any) {
+      console.error("Caption translation failed", err);
+      setStatusMessage(err.message || "Translation failed");
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const removeTrack = (language: string) => {
+    setTracks(prev => prev.filter(t => t.language !== language));
+    if (activeTrack === language) setActiveTrack('');
+  };
+
+  const issues = validateSegments(segments, limits);
+  const issuesFor = (id: string): CaptionSegmentIssue[] => issues.filter(issue => issue.id === id);
+
+  const captionStyle = (): CaptionRenderStyle => {
+    const style: CaptionRenderStyle = {
+      font: config.captionFont || 'Inter',
+      color: CAPTION_COLORS.find(c => c.value === (config.captionColor || 'Pure White'))?.hex || '#ffffff',
+      style: config.captionStyle || 'bold',
+      size: config.captionSize || 'large',
+      position: config.captionPosition || 'bottom',
+      platform: config.captionPlatform || 'generic',
+      speakers: config.captionSpeakers,
+    };
+    // Resolved over every segment, since the preview only sees one at a time
+    return { ...style, speakers: resolveSpeakers(segments, style) };
+  };
+
+  const speakers = captionStyle().speakers || [];
+  const speakerSwatch = (id?: string) => CAPTION_COLORS.find(c => c.hex === speakers.find(s => s.id === id)?.color)?.class || 'bg-zinc-700';
+
+  const updateSpeaker = (id: string, patch: Partial<CaptionSpeaker>) => {
+    setConfig(prev => {
+      const list = prev.captionSpeakers || [];
+      return { ...prev, captionSpeakers: list.some(s => s.id === id) ? list.map(s => s.id === id ? { ...s, ...patch } : s) : [...list, { id, ...patch }] };
+    });
+  };
+
+  const removeSpeaker = (id: string) => {
+    setConfig(prev => ({ ...prev, captionSpeakers: (prev.captionSpeakers || []).filter(s => s.id !== id) }));
+  };
+
+  const setSegmentSpeaker = (seg: CaptionSegment, value: string) => {
+    const speaker = value === '__new' ? nextSpeakerId(segments, config.captionSpeakers) : value;
+    editSegments(prev => prev.map(s => {
+      if (s.id !== seg.id) return s;
+      const next = { ...s, speaker };
+      if (!speaker) delete next.speaker;
+      return next;
+    }));
+  };
+
+  const handleDownloadCaptions = async (e: React.MouseEvent) => {
     e.preventDefault();
-    if (!videoPlayerRef.current || !videoUrl || isExporting) return;
-    
-    setIsExporting(true);
-    setExportProgress(0);
-    
-    const video = videoPlayerRef.current;
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    
-    const mimeType = getSupportedMimeType();
-    const stream = canvas.captureStream(30);
-    const recorder = new MediaRecorder(stream, { mimeType });
-    const chunks: Blob[] = [];
-    
-    recorder.ondataavailable = (ev) => { if (ev.data.size > 0) chunks.push(ev.data); };
-    recorder.onstop = () => {
-      const blob = new Blob(chunks, { type: mimeType });
+    if (segments.length === 0) return;
+    const player = videoPlayerRef.current;
+    try {
+      const { blob, filename } = await exportCaptions(shownSegments, captionFormat, {
+        style: captionStyle(),
+        video: player?.videoWidth ? { width: player.videoWidth, height: player.videoHeight } : undefined,
+        name: `lumina-captions-${activeTrack ? `${activeTrack}-` : ''}${Date.now()}`,
+      });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
+      a.style.display = 'none';
       a.href = url;
-      a.download = `lumina-export-${Date.now()}.webm`;
+      a.download = filename;
+      document.body.appendChild(a);
       a.click();
-      setIsExporting(false);
-    };
-
-    video.currentTime = 0;
-    recorder.start();
-    video.play();
-
-    const drawLoop = () => {
-      if (!isExporting || video.ended) {
-        if (recorder.state === 'recording') recorder.stop();
-        return;
-      }
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      const currentTime = video.currentTime;
-      const currentSeg = segments.find(s => currentTime >= s.startTime && currentTime <= s.endTime);
-      if (currentSeg) {
-        renderCaptionsToCanvas(ctx, currentSeg, currentTime, canvas.width, canvas.height);
-      }
-      setExportProgress((currentTime / video.duration) * 100);
-      requestAnimationFrame(drawLoop);
-    };
-    drawLoop();
+      setTimeout(() => {
+          document.body.removeChild(a);
+          URL.revokeObjectURL(url);
+      }, 100);
+    } catch (err: any) {
+      console.error("Caption download failed", err);
+      setStatusMessage(err.message || "Caption download failed");
+    }
   };
 
-  const renderCaptionsToCanvas = (ctx: CanvasRenderingContext2D, segment: CaptionSegment, currentTime: number, canvasWidth: number, canvasHeight: number) => {
-    const text = segment.text;
-    const font = config.captionFont || 'Inter';
-    const color = CAPTION_COLORS.find(c => c.value === (config.captionColor || 'Pure White'))?.hex || '#ffffff';
-    const size = config.captionSize === 'small' ? 24 : config.captionSize === 'medium' ? 36 : config.captionSize === 'xl' ? 64 : 48;
-    const pos = config.captionPosition || 'bottom';
-    
-    ctx.font = `bold ${size}px ${font}`;
-    ctx.fillStyle = color;
-    ctx.textAlign = 'center';
-    
-    const x = canvasWidth / 2;
-    let y = canvasHeight * 0.8;
-    if (pos === 'top') y = canvasHeight * 0.2;
-    if (pos === 'center') y = canvasHeight * 0.5;
-
-    ctx.fillText(text, x, y);
+  const handleExportVideo = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (!videoUrl || isExporting) return;
+
+    setIsExporting(true);
+    setStatusMessage(`Preparing ${exportFormat.toUpperCase()} export...`);
+    try {
+      await exportVideo({
+        format: exportFormat,
+        video: videoUrl,
+        segments: shownSegments,
+        captionStyle: captionStyle(),
+        name: `lumina-export-${Date.now()}`,
+      }, setStatusMessage);
+      setStatusMessage("Export complete");
+    } catch (err: any) {
+      console.error("Caption export failed", err);
+      setStatusMessage(err.message || "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const handleClearAll = () => {
     if (confirm("Clear all caption segments?")) {
-      setSegments([]);
+      editSegments(() => []);
     }
   };
 
@@ -356,9 +478,23 @@ const CaptionStudio: React.FC<CaptionStudioProps> = ({ config, setConfig, onExit
             </div>
         </div>
         <div className="flex items-center gap-3">
-            <button onClick={handleDownloadSRT} disabled={segments.length === 0} className="px-4 py-2 text-[10px] font-black uppercase text-zinc-300 hover:text-white transition-colors bg-zinc-800 rounded-xl border border-zinc-700 disabled:opacity-50">Download SRT</button>
+            {tracks.length > 0 && (
+              <select value={activeTrack} onChange={(e) => setActiveTrack(e.target.value)} title="Caption track to preview and export" className="bg-zinc-900 border border-zinc-800 rounded-xl py-2 px-3 text-[10px] font-black uppercase text-zinc-300 outline-none focus:border-indigo-500">
+                <option value="">Original</option>
+                {tracks.map(t => <option key={t.language} value={t.language}>{captionLanguageName(t.language)}</option>)}
+              </select>
+            )}
+            <div className="flex items-center bg-zinc-800 rounded-xl border border-zinc-700">
+                <select value={captionFormat} onChange={(e) => setCaptionFormat(e.target.value as CaptionExportFormat)} className="bg-transparent py-2 pl-3 pr-1 text-[10px] font-black uppercase text-zinc-300 outline-none">
+                    {CAPTION_FILE_FORMATS.map(f => <option key={f} value={f}>{f.toUpperCase()}</option>)}
+                </select>
+                <button onClick={handleDownloadCaptions} disabled={segments.length === 0} className="px-4 py-2 text-[10px] font-black uppercase text-zinc-300 hover:text-white transition-colors border-l border-zinc-700 disabled:opacity-50">Download Captions</button>
+            </div>
             <button onClick={onExit} className="px-4 py-2 text-[10px] font-black uppercase text-zinc-500 hover:text-white transition-colors bg-zinc-900 rounded-xl border border-zinc-800">Exit</button>
-            <button onClick={handleExportVideo} disabled={!videoUrl || isExporting} className="flex items-center gap-2 px-6 py-3 rounded-2xl font-black text-[10px] uppercase transition-all bg-indigo-600 text-white hover:bg-indigo-500 shadow-xl disabled:bg-zinc-800 disabled:text-zinc-600">
+            <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as VideoExportFormat)} disabled={isExporting} className="bg-zinc-900 border border-zinc-800 rounded-xl py-2 px-3 text-[10px] font-black uppercase text-zinc-300 outline-none focus:border-indigo-500">
+                {exportFormats.map(f => <option key={f} value={f}>{f.toUpperCase()}</option>)}
+            </select>
+            <button onClick={handleExportVideo} disabled={!videoUrl || isExporting || !exportFormats.includes(exportFormat)} className="flex items-center gap-2 px-6 py-3 rounded-2xl font-black text-[10px] uppercase transition-all bg-indigo-600 text-white hover:bg-indigo-500 shadow-xl disabled:bg-zinc-800 disabled:text-zinc-600">
                 {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} Export
             </button>
         </div>
@@ -379,6 +515,19 @@ const CaptionStudio: React.FC<CaptionStudioProps> = ({ config, setConfig, onExit
                                 {videoUrl ? (<><Check className="w-8 h-8 text-indigo-500" /><span className="text-xs font-bold text-zinc-400">Source Ready</span></>) : (<><FileVideo className="w-10 h-10 text-zinc-700" /><span className="text-[10px] font-black uppercase text-zinc-600">Click to Upload</span></>)}
                                 <input ref={videoInputRef} type="file" accept="video/*" className="hidden" onChange={handleVideoUpload} />
                             </div>
+                            <button onClick={() => subtitleInputRef.current?.click()} disabled={isImporting} className="w-full py-3 bg-zinc-900 hover:bg-zinc-800 text-zinc-300 border border-zinc-800 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-3 transition-all disabled:opacity-50">
+                                {isImporting ? <Loader2 className="w-4 h-4 animate-spin"/> : <Upload className="w-4 h-4"/>} Import Subtitles
+                            </button>
+                            <input ref={subtitleInputRef} type="file" accept=".srt,.vtt,.ass,.ssa,.json" className="hidden" onChange={handleImportSubtitles} />
+                            {importWarnings.length > 0 && (
+                              <div className="p-3 bg-amber-500/5 border border-amber-500/20 rounded-2xl space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                                <div className="flex items-center justify-between">
+                                  <span className="text-[9px] font-black uppercase tracking-widest text-amber-500">Import Warnings ({importWarnings.length})</span>
+                                  <button onClick={() => setImportWarnings([])} className="text-zinc-600 hover:text-white"><X className="w-3 h-3"/></button>
+                                </div>
+                                {importWarnings.map((w, i) => <p key={i} className="text-[10px] text-zinc-400"><span className="font-mono text-amber-500/80">L{w.line}</span> {w.message}</p>)}
+                              </div>
+                            )}
                         </div>
                         {videoUrl && (
                           <div className="space-y-3">
@@ -391,17 +540,93 @@ const CaptionStudio: React.FC<CaptionStudioProps> = ({ config, setConfig, onExit
                             </button>
                           </div>
                         )}
+                        {segments.length > 0 && (
+                          <div className="space-y-4">
+                            <label className="text-[10px] font-bold text-zinc-600 uppercase tracking-widest">Timing Tools</label>
+                            <div className="grid grid-cols-2 gap-3">
+                              <div className="space-y-1.5">
+                                <span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Offset (s)</span>
+                                <div className="flex gap-1">
+                                  <input type="number" step={0.1} value={timeOffset} onChange={(e) => setTimeOffset(Number(e.target.value))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2 px-3 text-xs text-white outline-none focus:border-indigo-500" />
+                                  <button onClick={() => editSegments(prev => offsetSegments(prev, timeOffset))} disabled={!timeOffset} className="px-3 bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 rounded-xl text-[9px] font-black uppercase text-zinc-300 disabled:opacity-50">Apply</button>
+                                </div>
+                              </div>
+                              <div className="space-y-1.5">
+                                <span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Speed (x)</span>
+                                <div className="flex gap-1">
+                                  <input type="number" step={0.05} min={0.1} value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2 px-3 text-xs text-white outline-none focus:border-indigo-500" />
+                                  <button onClick={() => editSegments(prev => scaleSegmentSpeed(prev, speed))} disabled={!(speed > 0) || speed === 1} className="px-3 bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 rounded-xl text-[9px] font-black uppercase text-zinc-300 disabled:opacity-50">Apply</button>
+                                </div>
+                              </div>
+                            </div>
+                            <div className="grid grid-cols-3 gap-3">
+                              <div className="space-y-1.5"><span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Chars/Line</span><input type="number" min={10} value={limits.maxCharsPerLine} onChange={(e) => setLimits(prev => ({ ...prev, maxCharsPerLine: Number(e.target.value) }))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2 px-3 text-xs text-white outline-none focus:border-indigo-500" /></div>
+                              <div className="space-y-1.5"><span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Lines</span><input type="number" min={1} value={limits.maxLines} onChange={(e) => setLimits(prev => ({ ...prev, maxLines: Number(e.target.value) }))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2 px-3 text-xs text-white outline-none focus:border-indigo-500" /></div>
+                              <div className="space-y-1.5"><span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Max (s)</span><input type="number" min={1} step={0.5} value={limits.maxDuration} onChange={(e) => setLimits(prev => ({ ...prev, maxDuration: Number(e.target.value) }))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2 px-3 text-xs text-white outline-none focus:border-indigo-500" /></div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                              <button onClick={() => editSegments(prev => reflowSegments(prev, limits))} className="py-3 bg-zinc-900 hover:bg-zinc-800 text-zinc-300 border border-zinc-800 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 transition-all"><Wand2 className="w-4 h-4"/> Reflow</button>
+                              <button onClick={() => editSegments(resolveOverlaps)} className="py-3 bg-zinc-900 hover:bg-zinc-800 text-zinc-300 border border-zinc-800 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 transition-all"><Check className="w-4 h-4"/> Fix Overlaps</button>
+                            </div>
+                            {issues.length > 0 && <p className="text-[10px] text-zinc-500">{issues.filter(x => x.severity === 'error').length} errors, {issues.filter(x => x.severity === 'warning').length} warnings in the segment list</p>}
+                          </div>
+                        )}
+                        {segments.length > 0 && (
+                          <div className="space-y-4">
+                            <label className="text-[10px] font-bold text-zinc-600 uppercase tracking-widest">Translate</label>
+                            <div className="flex flex-wrap gap-1.5">
+                              {CAPTION_LANGUAGES.map(l => (
+                                <button key={l.code} onClick={() => setTargetLanguages(prev => prev.includes(l.code) ? prev.filter(c => c !== l.code) : [...prev, l.code])} className={`px-2 py-1 rounded-lg border text-[9px] font-black uppercase transition-all ${targetLanguages.includes(l.code) ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-300' : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}>{l.name}</button>
+                              ))}
+                            </div>
+                            <button onClick={handleTranslate} disabled={!targetLanguages.length || isTranslating} className="w-full py-3 bg-zinc-900 hover:bg-zinc-800 text-zinc-300 border border-zinc-800 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-3 transition-all disabled:opacity-50">
+                                {isTranslating ? <Loader2 className="w-4 h-4 animate-spin"/> : <Globe className="w-4 h-4"/>} {isTranslating ? "Translating..." : `Translate${targetLanguages.length ? ` (${targetLanguages.length})` : ''}`}
+                            </button>
+                            {tracks.map(t => {
+                              const missing = untranslatedIds(segments, t).length;
+                              return (
+                                <div key={t.language} onClick={() => setActiveTrack(t.language)} className={`flex items-center justify-between px-3 py-2 rounded-xl border cursor-pointer transition-all ${activeTrack === t.language ? 'bg-indigo-600/5 border-indigo-600/40' : 'bg-zinc-900/40 border-zinc-800/50 hover:border-zinc-700'}`}>
+                                  <span className="text-[10px] font-bold text-zinc-300">{captionLanguageName(t.language)}{missing > 0 && <span className="ml-2 text-amber-500">{missing} untranslated</span>}</span>
+                                  <button onClick={(e) => { e.stopPropagation(); removeTrack(t.language); }} className="text-zinc-600 hover:text-red-500"><X className="w-3 h-3"/></button>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
                     </div>
                 ) : (
                     <div className="space-y-6">
                         <div className="space-y-4">
                             <div className="space-y-1.5"><span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Font Family</span><select value={config.captionFont || 'Inter'} onChange={(e) => setConfig(prev => ({...prev, captionFont: e.target.value}))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-3 px-4 text-xs text-white outline-none focus:border-indigo-500">{CAPTION_FONTS.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}</select></div>
                             <div className="space-y-1.5"><span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Graphics Style</span><select value={config.captionStyle || 'bold'} onChange={(e) => setConfig(prev => ({...prev, captionStyle: e.target.value as any}))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-3 px-4 text-xs text-white outline-none focus:border-indigo-500">{CAPTION_STYLES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}</select></div>
+                            <div className="space-y-1.5"><span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Safe Zone</span><select value={config.captionPlatform || 'generic'} onChange={(e) => setConfig(prev => ({...prev, captionPlatform: e.target.value as CaptionPlatform}))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-3 px-4 text-xs text-white outline-none focus:border-indigo-500">{CAPTION_PLATFORMS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</select></div>
                             <div className="grid grid-cols-2 gap-4">
-                                <div className="space-y-1.5"><span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Safe Zone</span><select value={config.captionPosition || 'bottom'} onChange={(e) => setConfig(prev => ({...prev, captionPosition: e.target.value as any}))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-3 px-4 text-xs text-white outline-none focus:border-indigo-500"><option value="top">Top</option><option value="center">Center</option><option value="bottom">Bottom</option></select></div>
+                                <div className="space-y-1.5"><span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Position</span><select value={config.captionPosition || 'bottom'} onChange={(e) => setConfig(prev => ({...prev, captionPosition: e.target.value as any}))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-3 px-4 text-xs text-white outline-none focus:border-indigo-500"><option value="top">Top</option><option value="center">Center</option><option value="bottom">Bottom</option></select></div>
                                 <div className="space-y-1.5"><span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Scale</span><select value={config.captionSize || 'large'} onChange={(e) => setConfig(prev => ({...prev, captionSize: e.target.value as any}))} className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-3 px-4 text-xs text-white outline-none focus:border-indigo-500"><option value="small">S</option><option value="medium">M</option><option value="large">L</option><option value="xl">XL</option></select></div>
                             </div>
                         </div>
+                        {speakers.length > 0 && (
+                          <div className="space-y-4">
+                            <label className="text-[10px] font-bold text-zinc-600 uppercase tracking-widest">Speakers</label>
+                            {speakers.map(sp => (
+                              <div key={sp.id} className="p-3 bg-zinc-900/40 border border-zinc-800/50 rounded-2xl space-y-2">
+                                <div className="flex items-center gap-2">
+                                  <span className={`w-3 h-3 rounded-full shrink-0 ${speakerSwatch(sp.id)}`} />
+                                  <input value={config.captionSpeakers?.find(s => s.id === sp.id)?.name ?? ''} placeholder={sp.id} onChange={(e) => updateSpeaker(sp.id, { name: e.target.value })} className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded-lg py-1.5 px-2 text-xs text-white outline-none focus:border-indigo-500" />
+                                  <select value={config.captionSpeakers?.find(s => s.id === sp.id)?.position || ''} onChange={(e) => updateSpeaker(sp.id, { position: (e.target.value || undefined) as CaptionSpeaker['position'] })} className="bg-zinc-950 border border-zinc-800 rounded-lg py-1.5 px-2 text-[10px] text-zinc-300 outline-none focus:border-indigo-500">
+                                    <option value="">Default</option><option value="top">Top</option><option value="center">Center</option><option value="bottom">Bottom</option>
+                                  </select>
+                                  {!segmentSpeakers(segments).includes(sp.id) && <button onClick={() => removeSpeaker(sp.id)} title="No segment uses this speaker" className="text-zinc-600 hover:text-red-500"><X className="w-3 h-3"/></button>}
+                                </div>
+                                <div className="flex flex-wrap gap-1.5">
+                                  {CAPTION_COLORS.map(c => (
+                                    <button key={c.hex} onClick={() => updateSpeaker(sp.id, { color: c.hex })} title={c.value} className={`w-5 h-5 rounded-full ${c.class} ${sp.color === c.hex ? 'ring-2 ring-indigo-500 ring-offset-2 ring-offset-zinc-950' : 'opacity-60 hover:opacity-100'}`} />
+                                  ))}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                     </div>
                 )}
             </div>
@@ -410,18 +635,10 @@ const CaptionStudio: React.FC<CaptionStudioProps> = ({ config, setConfig, onExit
         <div className="flex-1 bg-zinc-950 flex flex-col relative">
             <div className="flex-1 flex items-center justify-center p-6 lg:p-10 bg-zinc-900/10">
                 <div className="relative aspect-[9/16] h-[95%] max-h-[720px] bg-zinc-900 rounded-[40px] border-[10px] border-zinc-900 shadow-2xl overflow-hidden flex flex-col ring-1 ring-zinc-800">
-                    {videoUrl ? (<video ref={videoPlayerRef} src={videoUrl} onTimeUpdate={handleTimeUpdate} onLoadedMetadata={() => setVideoDuration(videoPlayerRef.current?.duration || 0)} className="absolute inset-0 w-full h-full object-cover" playsInline loop controls />) : (<div className="absolute inset-0 flex items-center justify-center text-zinc-800 flex-col gap-4"><FileVideo className="w-12 h-12 opacity-10" /><p className="text-[10px] font-black uppercase tracking-[0.3em]">Awaiting Source</p></div>)}
-                    <div className={`absolute inset-0 flex justify-center pointer-events-none z-10 ${config.captionPosition === 'top' ? 'items-start pt-16' : config.captionPosition === 'center' ? 'items-center' : 'items-end pb-16'}`}>
-                        {segments[activeSegmentIndex] && (
-                          <div className="text-center px-6 max-w-[90%]" style={{ 
-                            fontFamily: config.captionFont, 
-                            color: CAPTION_COLORS.find(c => c.value === (config.captionColor || 'Pure White'))?.hex || '#ffffff',
-                            fontSize: config.captionSize === 'small' ? '1.5rem' : config.captionSize === 'medium' ? '2rem' : config.captionSize === 'xl' ? '4rem' : '3rem',
-                            fontWeight: '900',
-                            textShadow: config.captionStyle === 'outline' ? '2px 2px 0 #000, -2px -2px 0 #000, 2px -2px 0 #000, -2px 2px 0 #000' : 'none'
-                          }}>
-                            {segments[activeSegmentIndex].text}
-                          </div>
+                    {videoUrl ? (<video ref={videoPlayerRef} src={videoUrl} onTimeUpdate={handleTimeUpdate} onPlay={() => setIsPlaying(true)} onPause={() => setIsPlaying(false)} onLoadedMetadata={() => setVideoDuration(videoPlayerRef.current?.duration || 0)} className="absolute inset-0 w-full h-full object-cover" playsInline loop controls />) : (<div className="absolute inset-0 flex items-center justify-center text-zinc-800 flex-col gap-4"><FileVideo className="w-12 h-12 opacity-10" /><p className="text-[10px] font-black uppercase tracking-[0.3em]">Awaiting Source</p></div>)}
+                    <div ref={previewFrameRef} className="absolute inset-0 pointer-events-none z-10">
+                        {shownSegments[activeSegmentIndex] && previewFrame.width > 0 && (
+                          <CaptionOverlay segment={shownSegments[activeSegmentIndex]} style={captionStyle()} frame={previewFrame} time={isPlaying ? previewTime : undefined} />
                         )}
                     </div>
                 </div>
@@ -431,16 +648,36 @@ const CaptionStudio: React.FC<CaptionStudioProps> = ({ config, setConfig, onExit
         <div className="w-80 lg:w-96 border-l border-zinc-800 flex flex-col bg-zinc-950">
              <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
                 <span className="text-[10px] font-black text-zinc-600 uppercase tracking-widest">Segments ({segments.length})</span>
-                <button onClick={() => setSegments([...segments, { id: `seg-${Date.now()}`, text: "New segment", startTime: segments.length > 0 ? segments[segments.length-1].endTime : 0, endTime: (segments.length > 0 ? segments[segments.length-1].endTime : 0) + 2, animation: 'fade' }])} className="w-8 h-8 flex items-center justify-center bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white transition-all"><Plus className="w-4 h-4"/></button>
+                <div className="flex items-center gap-2">
+                <button onClick={() => dispatchHistory({ type: 'undo' })} disabled={!history.past.length} title="Undo (Ctrl+Z)" className="w-8 h-8 flex items-center justify-center bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 rounded-lg text-zinc-400 transition-all disabled:opacity-30"><Undo2 className="w-4 h-4"/></button>
+                <button onClick={() => dispatchHistory({ type: 'redo' })} disabled={!history.future.length} title="Redo (Ctrl+Shift+Z)" className="w-8 h-8 flex items-center justify-center bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 rounded-lg text-zinc-400 transition-all disabled:opacity-30"><Redo2 className="w-4 h-4"/></button>
+                <button onClick={() => setRipple(r => !r)} title="Ripple: timing changes move every later segment too" className={`h-8 px-2 rounded-lg border text-[9px] font-black uppercase transition-all ${ripple ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-300' : 'bg-zinc-900 border-zinc-800 text-zinc-500'}`}>Ripple</button>
+                <button onClick={() => editSegments(prev => [...prev, { id: `seg-${Date.now()}`, text: "New segment", startTime: segments.length > 0 ? segments[segments.length-1].endTime : 0, endTime: (segments.length > 0 ? segments[segments.length-1].endTime : 0) + 2, animation: 'fade' }])} className="w-8 h-8 flex items-center justify-center bg-indigo-600 hover:bg-indigo-500 rounded-lg text-white transition-all"><Plus className="w-4 h-4"/></button>
+                </div>
              </div>
              <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
                 {segments.map((seg, i) => (
                     <div key={seg.id} onClick={() => { setActiveSegmentIndex(i); if (videoPlayerRef.current) videoPlayerRef.current.currentTime = seg.startTime; }} className={`p-4 rounded-3xl border transition-all cursor-pointer ${activeSegmentIndex === i ? 'bg-indigo-600/5 border-indigo-600/40' : 'bg-zinc-900/40 border-zinc-800/50 hover:border-zinc-700'}`}>
                         <div className="flex items-center justify-between mb-2">
                             <span className={`w-5 h-5 flex items-center justify-center rounded-lg text-[10px] font-black ${activeSegmentIndex === i ? 'bg-indigo-600 text-white' : 'bg-zinc-800 text-zinc-500'}`}>{i + 1}</span>
-                            <button onClick={(e) => { e.stopPropagation(); setSegments(segments.filter(s => s.id !== seg.id)); }} className="text-zinc-700 hover:text-red-500"><Trash2 className="w-3 h-3"/></button>
+                            <div className="flex items-center gap-2">
+                              <button onClick={(e) => { e.stopPropagation(); handleSplit(seg); }} disabled={!!track} title={track ? "Switch to the original track to split" : "Split at cursor"} className="text-zinc-700 hover:text-indigo-400 disabled:opacity-30"><Scissors className="w-3 h-3"/></button>
+                              <button onClick={(e) => { e.stopPropagation(); editSegments(prev => mergeWithNext(prev, seg.id)); }} disabled={i === segments.length - 1} title="Merge with next" className="text-zinc-700 hover:text-indigo-400 disabled:opacity-30"><ChevronDown className="w-3 h-3"/></button>
+                              <button onClick={(e) => { e.stopPropagation(); editSegments(prev => prev.filter(s => s.id !== seg.id)); }} className="text-zinc-700 hover:text-red-500"><Trash2 className="w-3 h-3"/></button>
+                            </div>
+                        </div>
+                        <textarea value={shownSegments[i].text} onClick={(e) => e.stopPropagation()} onSelect={(e) => { cursorRef.current[seg.id] = e.currentTarget.selectionStart; }} onChange={(e) => handleSegmentText(seg, e.target.value)} className={`w-full bg-transparent border-none text-xs font-bold focus:outline-none resize-none leading-relaxed ${activeSegmentIndex === i ? 'text-white' : 'text-zinc-500'}`} rows={2} />
+                        <div className="flex items-center gap-2 mt-1">
+                          <span className={`w-2 h-2 rounded-full shrink-0 ${seg.speaker ? speakerSwatch(seg.speaker) : 'bg-transparent border border-zinc-700'}`} />
+                          <select value={seg.speaker || ''} onClick={(e) => e.stopPropagation()} onChange={(e) => setSegmentSpeaker(seg, e.target.value)} className="w-full bg-zinc-950 border border-zinc-800 rounded py-1 px-2 text-[9px] font-black uppercase text-zinc-400 outline-none focus:border-indigo-500">
+                            <option value="">No speaker</option>
+                            {speakers.map(sp => <option key={sp.id} value={sp.id}>{sp.name}</option>)}
+                            <option value="__new">+ New speaker</option>
+                          </select>
                         </div>
-                        <textarea value={seg.text} onClick={(e) => e.stopPropagation()} onChange={(e) => setSegments(segments.map(s => s.id === seg.id ? { ...s, text: e.target.value } : s))} className={`w-full bg-transparent border-none text-xs font-bold focus:outline-none resize-none leading-relaxed ${activeSegmentIndex === i ? 'text-white' : 'text-zinc-500'}`} rows={2} />
+                        <select value={seg.animation || 'none'} onClick={(e) => e.stopPropagation()} onChange={(e) => editSegments(prev => prev.map(s => s.id === seg.id ? { ...s, animation: e.target.value as CaptionAnimation } : s))} className="w-full mt-1 bg-zinc-950 border border-zinc-800 rounded py-1 px-2 text-[9px] font-black uppercase text-zinc-400 outline-none focus:border-indigo-500">
+                          {ANIMATIONS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                        </select>
                         <div className="flex items-center gap-2 mt-2">
                           <div className="flex-1 bg-zinc-950 border border-zinc-800 rounded p-1 flex items-center gap-1">
                             <button onClick={(e) => { e.stopPropagation(); adjustTime(seg.id, 'startTime', -0.1); }}><Minus className="w-3 h-3"/></button>
@@ -453,6 +690,10 @@ const CaptionStudio: React.FC<CaptionStudioProps> = ({ config, setConfig, onExit
                             <button onClick={(e) => { e.stopPropagation(); adjustTime(seg.id, 'endTime', 0.1); }}><Plus className="w-3 h-3"/></button>
                           </div>
                         </div>
+                        {missingTranslations.includes(seg.id) && <p className="mt-2 text-[9px] font-bold text-amber-500">Not translated into {captionLanguageName(activeTrack)}</p>}
+                        {issuesFor(seg.id).map((issue, k) => (
+                          <p key={k} className={`mt-2 text-[9px] font-bold ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-500'}`}>{issue.message}</p>
+                        ))}
                     </div>
                 ))}
              </div>
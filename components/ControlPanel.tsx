@@ -1,8 +1,8 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { ModelType, AspectRatio, GenerationConfig, GenerationMode, VoiceName, ModelPose, ModelView, ModelMaterial, Bone, BoneConfiguration, AnimationFormat, AnimationQuality, StoryScene, StoryEntity, ThumbnailNiche } from '../types';
-import { Zap, Layers, Palette, Copy, ImageIcon, Mic, Volume2, Layout, Upload, X, Square, Trash2, Box, Move, Bone as BoneIcon, Film, Settings, Clock, FileVideo, Cube, Hexagon, BookOpen, Plus, Minus, FilmStrip, MessageSquare, Users, MapPin, PenTool, Users as UserIcon, Check, Link, Loader2, Sparkles, Wand2, ChevronRight, ChevronDown, TypeIcon, Film as MovieIcon, Gamepad2, Heart, Monitor, Book } from './Icons';
-import { suggestCaption, enhancePrompt } from '../services/geminiService';
+import { ModelType, AspectRatio, ImageResolution, IMAGE_MODEL_RESOLUTIONS, VIDEO_RESOLUTIONS, GenerationConfig, GenerationMode, VoiceName, DialogTurn, ModelPose, ModelView, ModelMaterial, Bone, BoneConfiguration, AnimationFormat, AnimationQuality, FrameInterpolation, LoopMode, StoryScene, StoryEntity, ThumbnailNiche } from '../types';
+import { Zap, Layers, Palette, Copy, ImageIcon, Mic, Volume2, Layout, Upload, X, Square, Trash2, Box, Move, Bone as BoneIcon, Film, Settings, Clock, FileVideo, Cube, Hexagon, BookOpen, Plus, Minus, FilmStrip, MessageSquare, Users, MapPin, PenTool, Users as UserIcon, Check, Link, Loader2, Sparkles, Wand2, ChevronRight, ChevronDown, TypeIcon, Film as MovieIcon, Gamepad2, Heart, Monitor, Book, Play } from './Icons';
+import { suggestCaption, enhancePrompt, generateSpeech, transcribeAudio } from '../services/geminiService';
 
 interface ControlPanelProps {
   config: GenerationConfig;
@@ -37,6 +37,7 @@ const CAPTION_STYLES = [
   { id: 'neon', name: 'Neon Glow' },
   { id: '3d', name: '3D Extruded' },
   { id: 'minimalist', name: 'Modern Clean' },
+  { id: 'gradient', name: 'Gradient Fill' },
 ];
 
 const PLATFORMS = [
@@ -74,6 +75,56 @@ const VOICES: { id: VoiceName; name: string; gender: string }[] = [
   { id: 'orus', name: 'Orus', gender: 'Male (Narrative)' },
 ];
 
+const SPEECH_MODES: { id: NonNullable<GenerationConfig['speechMode']>; name: string }[] = [
+  { id: 'text', name: 'Script' },
+  { id: 'mic', name: 'Mic' },
+  { id: 'dialog', name: 'Dialog' },
+];
+
+const MOTION_PROFILES: { id: NonNullable<GenerationConfig['motionProfile']>; name: string }[] = [
+  { id: 'fluid', name: 'Fluid' },
+  { id: 'subtle', name: 'Subtle' },
+  { id: 'epic', name: 'Epic' },
+  { id: 'jitter', name: 'Jitter' },
+];
+
+const FRAME_DENSITIES: { id: NonNullable<GenerationConfig['frameDensity']>; name: string; frames: number }[] = [
+  { id: 'economy', name: 'Economy', frames: 6 },
+  { id: 'balanced', name: 'Balanced', frames: 10 },
+  { id: 'ultra', name: 'Ultra', frames: 14 },
+];
+
+const FRAME_INTERPOLATIONS: { id: FrameInterpolation; name: string }[] = [
+  { id: 'off', name: 'Off' },
+  { id: 'crossfade', name: 'Crossfade' },
+  { id: 'flow', name: 'Motion Flow' },
+];
+
+const TARGET_FPS = [6, 12, 24];
+
+const LOOP_MODES: { id: LoopMode; name: string; description: string }[] = [
+  { id: 'auto', name: 'Auto', description: 'Wraps clean seams, ping-pongs the rest' },
+  { id: 'wrap', name: 'Wrap', description: 'Plays the frames in order and repeats' },
+  { id: 'ping-pong', name: 'Ping-Pong', description: 'Plays forward, then in reverse' },
+  { id: 'trim', name: 'Trim', description: 'Drops the frame that breaks the loop most' },
+  { id: 'crossfade', name: 'Fade Tail', description: 'Blends the last frames into the first' },
+];
+// Interpolated clips always generate economy's keyframes, half a second apart, and loop back to the first
+const INTERPOLATION_KEYFRAMES = 6;
+const KEYFRAME_SPACING_SECONDS = 0.5;
+
+const VIDEO_ASPECTS: { id: AspectRatio; label: string }[] = [
+  { id: AspectRatio.LANDSCAPE_16_9, label: '16:9 Landscape' },
+  { id: AspectRatio.PORTRAIT_9_16, label: '9:16 Portrait' },
+];
+
+
+const IMAGE_ENGINES: { id: ModelType; name: string }[] = [
+  { id: ModelType.FLASH_IMAGE, name: 'Flash 2.5' },
+  { id: ModelType.PRO_IMAGE, name: 'Pro 3' },
+  { id: ModelType.IMAGEN, name: 'Imagen 4' },
+];
+
 const ControlPanel: React.FC<ControlPanelProps> = ({ config, setConfig, isLoading, onGenerate }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null);
@@ -81,6 +132,10 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, setConfig, isLoadin
   const timerRef = useRef<number | null>(null);
   const [isSuggestingCaption, setIsSuggestingCaption] = useState(false);
   const [isEnhancingPrompt, setIsEnhancingPrompt] = useState(false);
+  const sourceInputRef = useRef<HTMLInputElement>(null);
+  const [previewingVoice, setPreviewingVoice] = useState<VoiceName | null>(null);
+  const previewUrlsRef = useRef<Partial<Record<VoiceName, string>>>({});
+  const [isTranscribing, setIsTranscribing] = useState(false);
 
   const handleEnhancePrompt = async () => {
     if (!config.prompt.trim()) return;
@@ -103,6 +158,11 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, setConfig, isLoadin
     } else if (config.mode === GenerationMode.LOGO) setConfig(prev => ({ ...prev, aspectRatio: AspectRatio.SQUARE }));
     else if (config.mode === GenerationMode.STORY) setConfig(prev => ({ ...prev, aspectRatio: AspectRatio.LANDSCAPE_16_9 }));
     else if (config.mode === GenerationMode.CAPTIONS) setConfig(prev => ({ ...prev, aspectRatio: AspectRatio.PORTRAIT_9_16 }));
+    else if (config.mode === GenerationMode.VIDEO) setConfig(prev => ({
+      ...prev,
+      aspectRatio: prev.aspectRatio === AspectRatio.PORTRAIT_9_16 ? prev.aspectRatio : AspectRatio.LANDSCAPE_16_9,
+      videoResolution: prev.videoResolution || '720p'
+    }));
     
     if (!config.count) setConfig(prev => ({ ...prev, count: 1 }));
   }, [config.mode, setConfig]);
@@ -124,6 +184,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, setConfig, isLoadin
 
   const handlePromptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => { setConfig(prev => ({ ...prev, prompt: e.target.value })); };
   
+  // Fall back to the engine's default size when it can't render the current resolution
+  const selectImageModel = (model: ModelType) => {
+    setConfig(prev => {
+      const supported = IMAGE_MODEL_RESOLUTIONS[model] || [ImageResolution.RES_1K];
+      return { ...prev, model, resolution: supported.includes(prev.resolution) ? prev.resolution : supported[0] };
+    });
+  };
+
   const toggleStyle = (stylePrompt: string) => {
     setConfig(prev => {
       const currentStyles = prev.stylePrompts || [];
@@ -159,6 +227,161 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, setConfig, isLoadin
 
   const stopRecording = () => { if (mediaRecorder && isRecording) { mediaRecorder.stop(); setIsRecording(false); } };
 
+  // Samples are synthesized once per voice and replayed from cache afterwards
+  const handlePreviewVoice = async (voice: VoiceName) => {
+    if (previewingVoice) return;
+    setPreviewingVoice(voice);
+    try {
+      let url = previewUrlsRef.current[voice];
+      if (!url) {
+        const name = VOICES.find(v => v.id === voice)?.name || voice;
+        const sample = await generateSpeech({ ...config, prompt: `Hi, I'm ${name}. This is how your script will sound.`, voice });
+        url = previewUrlsRef.current[voice] = sample.url;
+      }
+      const audio = new Audio(url);
+      audio.onended = () => setPreviewingVoice(null);
+      await audio.play();
+    } catch (error) {
+      console.error(error);
+      setPreviewingVoice(null);
+    }
+  };
+
+  const handleTranscribeRecording = async () => {
+    if (!config.audioInput) return;
+    setIsTranscribing(true);
+    try {
+      const blob = await (await fetch(config.audioInput)).blob();
+      const segments = await transcribeAudio(blob);
+      setConfig(prev => ({ ...prev, prompt: segments.map(seg => seg.text).join(" "), speechMode: 'text' }));
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message || "Failed to transcribe recording.");
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const updateDialogTurn = (id: string, changes: Partial<DialogTurn>) => {
+    setConfig(prev => ({ ...prev, dialogTurns: (prev.dialogTurns || []).map(turn => turn.id === id ? { ...turn, ...changes } : turn) }));
+  };
+
+  const addDialogTurn = () => {
+    setConfig(prev => {
+      const turns = prev.dialogTurns || [];
+      // Alternate between the last two voices so a new line defaults to the other speaker
+      const voice = turns.length >= 2 ? turns[turns.length - 2].voice : turns.length === 1 ? 'kore' : (prev.voice || 'puck');
+      return { ...prev, dialogTurns: [...turns, { id: `${Date.now()}`, voice, text: '' }] };
+    });
+  };
+
+  const removeDialogTurn = (id: string) => {
+    setConfig(prev => ({ ...prev, dialogTurns: (prev.dialogTurns || []).filter(turn => turn.id !== id) }));
+  };
+
+  const hasDialogLines = (config.dialogTurns || []).some(turn => turn.text.trim());
+  const canGenerate =
+    config.mode === GenerationMode.AUDIO ? (config.speechMode === 'dialog' ? hasDialogLines : config.speechMode === 'mic' ? !!config.audioInput && !isRecording : !!config.prompt.trim()) :
+    config.mode === GenerationMode.CAPTIONS || config.mode === GenerationMode.STORY ? true :
+    (config.mode !== GenerationMode.ANIMATOR || !!config.referenceImage) && (!!config.prompt.trim() || !!config.audioInput);
+
+  const renderVoicePicker = () => (
+    <div className="space-y-3">
+      <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Volume2 className="w-3 h-3" /> Voice</label>
+      <div className="grid grid-cols-2 gap-2">
+        {VOICES.map(v => (
+          <div key={v.id} className={`flex items-center justify-between px-3 py-2.5 rounded-xl border transition-all ${config.voice === v.id ? 'bg-indigo-600 border-indigo-500' : 'bg-zinc-950 border-zinc-800 hover:border-zinc-700'}`}>
+            <button onClick={() => setConfig(prev => ({ ...prev, voice: v.id }))} className="flex-1 text-left">
+              <span className={`block text-[10px] font-black uppercase ${config.voice === v.id ? 'text-white' : 'text-zinc-300'}`}>{v.name}</span>
+              <span className={`block text-[8px] font-bold uppercase ${config.voice === v.id ? 'text-indigo-200' : 'text-zinc-600'}`}>{v.gender}</span>
+            </button>
+            <button onClick={() => handlePreviewVoice(v.id)} disabled={!!previewingVoice} title="Preview voice" className="p-1.5 rounded-lg text-zinc-400 hover:text-white disabled:opacity-40">
+              {previewingVoice === v.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Play className="w-3 h-3" />}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderAudioControls = () => (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="flex bg-zinc-950 p-1 rounded-xl border border-zinc-800">
+        {SPEECH_MODES.map(m => (
+          <button key={m.id} onClick={() => setConfig(prev => ({ ...prev, speechMode: m.id }))} className={`flex-1 py-2 text-[10px] font-black uppercase rounded-lg transition-all ${(config.speechMode || 'text') === m.id ? 'bg-indigo-600 text-white shadow-lg' : 'text-zinc-600 hover:text-zinc-400'}`}>
+            {m.name}
+          </button>
+        ))}
+      </div>
+
+      {(config.speechMode || 'text') === 'text' && (
+        <>
+          <div className="space-y-3">
+            <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><TypeIcon className="w-3 h-3" /> Script</label>
+            <textarea value={config.prompt} onChange={handlePromptChange} placeholder="Type what the voice should say..." className="w-full h-40 bg-zinc-950 border border-zinc-800 focus:border-indigo-500 rounded-2xl p-4 text-sm text-white resize-none outline-none transition-colors placeholder:text-zinc-600 font-medium" />
+          </div>
+          {renderVoicePicker()}
+        </>
+      )}
+
+      {config.speechMode === 'mic' && (
+        <div className="space-y-4">
+          <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Mic className="w-3 h-3" /> Recording</label>
+          <button onClick={isRecording ? stopRecording : startRecording} className={`w-full py-6 rounded-2xl border-2 border-dashed flex flex-col items-center gap-2 transition-all ${isRecording ? 'border-red-500/60 bg-red-500/5 text-red-400' : 'border-zinc-800 hover:border-indigo-500/50 bg-zinc-950 text-zinc-500'}`}>
+            {isRecording ? <Square className="w-6 h-6" /> : <Mic className="w-6 h-6" />}
+            <span className="text-[9px] font-black uppercase tracking-widest">
+              {isRecording ? `Recording ${Math.floor(recordingDuration / 60)}:${String(recordingDuration % 60).padStart(2, '0')} - tap to stop` : config.audioInput ? 'Record again' : 'Tap to record'}
+            </span>
+          </button>
+          {config.audioInput && !isRecording && (
+            <>
+              <audio controls src={config.audioInput} className="w-full h-8" />
+              <button onClick={handleTranscribeRecording} disabled={isTranscribing} className="w-full py-2.5 rounded-xl bg-zinc-900 border border-zinc-800 hover:border-indigo-500/50 text-[10px] font-black uppercase tracking-widest text-zinc-300 flex items-center justify-center gap-2 disabled:opacity-50">
+                {isTranscribing ? <Loader2 className="w-3 h-3 animate-spin" /> : <TypeIcon className="w-3 h-3" />}
+                {isTranscribing ? 'Transcribing...' : 'Use as Script'}
+              </button>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Wand2 className="w-3 h-3" /> Restyle (Optional)</label>
+                <input value={config.revoiceStyle || ''} onChange={(e) => setConfig(prev => ({ ...prev, revoiceStyle: e.target.value }))} placeholder="e.g. warmer, drop filler words" className="w-full bg-zinc-950 border border-zinc-800 focus:border-indigo-500 rounded-xl py-2.5 px-3 text-xs text-white outline-none placeholder:text-zinc-600" />
+                <p className="text-[9px] text-zinc-600 font-medium">Generate re-voices your take sentence by sentence, keeping its original pacing.</p>
+              </div>
+              {renderVoicePicker()}
+            </>
+          )}
+        </div>
+      )}
+
+      {config.speechMode === 'dialog' && (
+        <div className="space-y-4">
+          <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Users className="w-3 h-3" /> Dialog Lines</label>
+          {(config.dialogTurns || []).map((turn, i) => (
+            <div key={turn.id} className="space-y-2 p-3 rounded-xl bg-zinc-950 border border-zinc-800">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[9px] font-black uppercase text-zinc-600">Line {i + 1}</span>
+                <select value={turn.voice} onChange={(e) => updateDialogTurn(turn.id, { voice: e.target.value as VoiceName })} className="flex-1 bg-zinc-900 border border-zinc-800 rounded-lg py-1 px-2 text-[10px] text-white outline-none focus:border-indigo-500">
+                  {VOICES.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+                </select>
+                <button onClick={() => removeDialogTurn(turn.id)} className="p-1 text-zinc-600 hover:text-red-400"><Trash2 className="w-3 h-3" /></button>
+              </div>
+              <textarea value={turn.text} onChange={(e) => updateDialogTurn(turn.id, { text: e.target.value })} placeholder="What this speaker says..." className="w-full h-16 bg-zinc-900 border border-zinc-800 focus:border-indigo-500 rounded-lg p-2 text-xs text-white resize-none outline-none placeholder:text-zinc-600" />
+            </div>
+          ))}
+          <button onClick={addDialogTurn} className="w-full py-2.5 rounded-xl border border-dashed border-zinc-800 hover:border-indigo-500/50 text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-zinc-300 flex items-center justify-center gap-2">
+            <Plus className="w-3 h-3" /> Add Line
+          </button>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] text-zinc-500 uppercase font-black tracking-widest">Pause Between Lines</span>
+              <span className="text-[10px] text-zinc-400 font-bold">{config.dialogGapMs ?? 350}ms</span>
+            </div>
+            <input type="range" min={0} max={2000} step={50} value={config.dialogGapMs ?? 350} onChange={(e) => setConfig(prev => ({ ...prev, dialogGapMs: Number(e.target.value) }))} className="w-full accent-indigo-500" />
+            <p className="text-[9px] text-zinc-600 font-medium">Two-voice dialogs are rendered in one pass and pace themselves; the pause applies when lines are voiced one by one.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
   const renderStoryControls = () => (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-2 duration-300 flex flex-col items-center justify-center py-20 text-center">
       <div className="w-16 h-16 bg-indigo-500/10 rounded-2xl flex items-center justify-center text-indigo-500 mb-4 border border-indigo-500/20">
@@ -169,6 +392,170 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, setConfig, isLoadin
     </div>
   );
 
+  const handleSourceUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setConfig(prev => ({ ...prev, referenceImage: reader.result as string }));
+    reader.readAsDataURL(file);
+    e.target.value = '';
+  };
+
+  const interpolating = !!config.frameInterpolation && config.frameInterpolation !== 'off';
+  const targetFps = config.targetFps || 12;
+
+  const renderAnimatorControls = () => (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><ImageIcon className="w-3 h-3" /> Source Still</label>
+          {config.referenceImage && (
+            <button onClick={() => setConfig(prev => ({ ...prev, referenceImage: null }))} className="text-[10px] text-zinc-600 hover:text-red-400 font-black uppercase tracking-widest">Clear</button>
+          )}
+        </div>
+        <div onClick={() => sourceInputRef.current?.click()} className={`aspect-square rounded-2xl overflow-hidden border-2 border-dashed cursor-pointer flex items-center justify-center transition-all ${config.referenceImage ? 'border-indigo-500/30 bg-zinc-900' : 'border-zinc-800 hover:border-indigo-500/50 bg-zinc-950'}`}>
+          {config.referenceImage ? (
+            <img src={config.referenceImage} className="w-full h-full object-contain" />
+          ) : (
+            <div className="flex flex-col items-center gap-2 text-zinc-600">
+              <Upload className="w-6 h-6" />
+              <span className="text-[9px] font-black uppercase tracking-widest">Upload Image</span>
+            </div>
+          )}
+        </div>
+        <input ref={sourceInputRef} type="file" accept="image/*" className="hidden" onChange={handleSourceUpload} />
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2">Motion Description</label>
+        <textarea value={config.prompt} onChange={handlePromptChange} placeholder="Hair drifting in the wind, slow blink..." className="w-full h-24 bg-zinc-950 border border-zinc-800 focus:border-indigo-500 rounded-2xl p-4 text-sm text-white resize-none outline-none transition-colors placeholder:text-zinc-600 font-medium" />
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Move className="w-3 h-3" /> Motion Profile</label>
+        <div className="grid grid-cols-4 gap-1.5">
+          {MOTION_PROFILES.map(p => (
+            <button key={p.id} onClick={() => setConfig(prev => ({ ...prev, motionProfile: p.id }))} className={`py-2 text-[9px] font-black uppercase rounded-lg border transition-all ${(config.motionProfile || 'fluid') === p.id ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-zinc-950 border-zinc-800 text-zinc-600 hover:text-zinc-400'}`}>
+              {p.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Film className="w-3 h-3" /> Frame Density</label>
+        <div className="grid grid-cols-3 gap-1.5">
+          {FRAME_DENSITIES.map(d => (
+            <button key={d.id} onClick={() => setConfig(prev => ({ ...prev, frameDensity: d.id }))} className={`py-2 rounded-lg border flex flex-col items-center transition-all ${(config.frameDensity || 'balanced') === d.id ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-zinc-950 border-zinc-800 text-zinc-600 hover:text-zinc-400'}`}>
+              <span className="text-[9px] font-black uppercase">{d.name}</span>
+              <span className="text-[8px] font-bold opacity-60">{interpolating ? `${Math.min(120, Math.round(d.frames * KEYFRAME_SPACING_SECONDS * targetFps))} frames` : `${d.frames} frames`}</span>
+            </button>
+          ))}
+        </div>
+        <p className="text-[9px] text-zinc-600 font-bold">
+          {interpolating
+            ? `${INTERPOLATION_KEYFRAMES} generated keyframes at any density; in-betweens are synthesized on the server.`
+            : 'One generation call per frame.'}
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Layers className="w-3 h-3" /> Frame Interpolation</label>
+        <div className="grid grid-cols-3 gap-1.5">
+          {FRAME_INTERPOLATIONS.map(m => (
+            <button key={m.id} onClick={() => setConfig(prev => ({ ...prev, frameInterpolation: m.id }))} className={`py-2 text-[9px] font-black uppercase rounded-lg border transition-all ${(config.frameInterpolation || 'off') === m.id ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-zinc-950 border-zinc-800 text-zinc-600 hover:text-zinc-400'}`}>
+              {m.name}
+            </button>
+          ))}
+        </div>
+        {interpolating && (
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] font-black text-zinc-500 uppercase tracking-widest">Target FPS</span>
+            <div className="flex gap-1.5">
+              {TARGET_FPS.map(fps => (
+                <button key={fps} onClick={() => setConfig(prev => ({ ...prev, targetFps: fps }))} className={`px-3 py-1.5 text-[9px] font-black rounded-lg border transition-all ${targetFps === fps ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-zinc-950 border-zinc-800 text-zinc-600 hover:text-zinc-400'}`}>
+                  {fps}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Clock className="w-3 h-3" /> Loop</label>
+        <div className="grid grid-cols-5 gap-1.5">
+          {LOOP_MODES.map(m => (
+            <button key={m.id} title={m.description} onClick={() => setConfig(prev => ({ ...prev, loopMode: m.id }))} className={`py-2 text-[8px] font-black uppercase rounded-lg border transition-all ${(config.loopMode || 'auto') === m.id ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-zinc-950 border-zinc-800 text-zinc-600 hover:text-zinc-400'}`}>
+              {m.name}
+            </button>
+          ))}
+        </div>
+        <p className="text-[9px] text-zinc-600 font-bold">{LOOP_MODES.find(m => m.id === (config.loopMode || 'auto'))?.description}</p>
+      </div>
+    </div>
+  );
+
+  const renderVideoControls = () => (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><FileVideo className="w-3 h-3" /> Scene Description</label>
+        <textarea value={config.prompt} onChange={handlePromptChange} placeholder="A slow dolly shot through a neon-lit market in the rain..." className="w-full h-32 bg-zinc-950 border border-zinc-800 focus:border-indigo-500 rounded-2xl p-4 text-sm text-white resize-none outline-none transition-colors placeholder:text-zinc-600 font-medium" />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><ImageIcon className="w-3 h-3" /> First Frame (Optional)</label>
+          {config.referenceImage && (
+            <button onClick={() => setConfig(prev => ({ ...prev, referenceImage: null }))} className="text-[10px] text-zinc-600 hover:text-red-400 font-black uppercase tracking-widest">Clear</button>
+          )}
+        </div>
+        <div onClick={() => sourceInputRef.current?.click()} className={`aspect-video rounded-2xl overflow-hidden border-2 border-dashed cursor-pointer flex items-center justify-center transition-all ${config.referenceImage ? 'border-indigo-500/30 bg-zinc-900' : 'border-zinc-800 hover:border-indigo-500/50 bg-zinc-950'}`}>
+          {config.referenceImage ? (
+            <img src={config.referenceImage} className="w-full h-full object-contain" />
+          ) : (
+            <div className="flex flex-col items-center gap-2 text-zinc-600">
+              <Upload className="w-6 h-6" />
+              <span className="text-[9px] font-black uppercase tracking-widest">Upload Image</span>
+            </div>
+          )}
+        </div>
+        <input ref={sourceInputRef} type="file" accept="image/*" className="hidden" onChange={handleSourceUpload} />
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Layout className="w-3 h-3" /> Frame</label>
+        <div className="grid grid-cols-2 gap-1.5">
+          {VIDEO_ASPECTS.map(a => (
+            <button key={a.id} onClick={() => setConfig(prev => ({ ...prev, aspectRatio: a.id, videoResolution: a.id === AspectRatio.PORTRAIT_9_16 ? '720p' : prev.videoResolution }))} className={`py-2 text-[9px] font-black uppercase rounded-lg border transition-all ${config.aspectRatio === a.id ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg' : 'bg-zinc-950 border-zinc-800 text-zinc-600 hover:text-zinc-400'}`}>
+              {a.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Monitor className="w-3 h-3" /> Resolution</label>
+        <div className="flex gap-2">
+          {VIDEO_RESOLUTIONS.map(res => {
+            // Veo only renders 1080p in landscape
+            const supported = res === '720p' || config.aspectRatio === AspectRatio.LANDSCAPE_16_9;
+            return (
+              <button 
+                key={res} 
+                disabled={!supported}
+                onClick={() => setConfig(prev => ({ ...prev, videoResolution: res }))}
+                className={`flex-1 py-2 text-[10px] font-black rounded-lg border transition-all disabled:opacity-30 disabled:cursor-not-allowed ${(config.videoResolution || '720p') === res ? 'bg-indigo-600 border-white text-white shadow-lg' : 'bg-zinc-950 border-zinc-800 text-zinc-600 hover:text-zinc-400'}`}
+              >
+                {res}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+
   const renderImageControls = () => (
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-300">
       {config.mode !== GenerationMode.THUMBNAIL && (
@@ -177,22 +564,39 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, setConfig, isLoadin
             <Zap className="w-3 h-3" /> Engine Selection
           </label>
           <div className="flex bg-zinc-950 p-1 rounded-xl border border-zinc-800">
-            <button 
-              onClick={() => setConfig(prev => ({ ...prev, model: ModelType.FLASH_IMAGE }))} 
-              className={`flex-1 py-2 text-[10px] font-black uppercase rounded-lg transition-all ${config.model === ModelType.FLASH_IMAGE ? 'bg-indigo-600 text-white shadow-lg' : 'text-zinc-600 hover:text-zinc-400'}`}
-            >
-              Flash 2.5
-            </button>
-            <button 
-              onClick={() => setConfig(prev => ({ ...prev, model: ModelType.IMAGEN }))} 
-              className={`flex-1 py-2 text-[10px] font-black uppercase rounded-lg transition-all ${config.model === ModelType.IMAGEN ? 'bg-indigo-600 text-white shadow-lg' : 'text-zinc-600 hover:text-zinc-400'}`}
-            >
-              Imagen 4
-            </button>
+            {IMAGE_ENGINES.map(engine => (
+              <button 
+                key={engine.id}
+                onClick={() => selectImageModel(engine.id)} 
+                className={`flex-1 py-2 text-[10px] font-black uppercase rounded-lg transition-all ${config.model === engine.id ? 'bg-indigo-600 text-white shadow-lg' : 'text-zinc-600 hover:text-zinc-400'}`}
+              >
+                {engine.name}
+              </button>
+            ))}
           </div>
         </div>
       )}
 
+      <div className="space-y-3">
+        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Monitor className="w-3 h-3" /> Resolution</label>
+        <div className="flex gap-2">
+          {Object.values(ImageResolution).map(res => {
+            const supported = (IMAGE_MODEL_RESOLUTIONS[config.model] || [ImageResolution.RES_1K]).includes(res);
+            return (
+              <button 
+                key={res} 
+                disabled={!supported}
+                onClick={() => setConfig(prev => ({ ...prev, resolution: res }))}
+                title={supported ? undefined : 'Not supported by the selected engine'}
+                className={`flex-1 py-2 text-[10px] font-black rounded-lg border transition-all disabled:opacity-30 disabled:cursor-not-allowed ${config.resolution === res ? 'bg-indigo-600 border-white text-white shadow-lg' : 'bg-zinc-950 border-zinc-800 text-zinc-600 hover:text-zinc-400'}`}
+              >
+                {res}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
       {config.mode === GenerationMode.THUMBNAIL && (
         <div className="space-y-6">
           <div className="space-y-3">
@@ -424,6 +828,9 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, setConfig, isLoadin
             {config.mode === GenerationMode.LOGO && 'Logo Parameters'}
             {config.mode === GenerationMode.STORY && 'Story Parameters'}
             {config.mode === GenerationMode.CAPTIONS && 'Caption Settings'}
+            {config.mode === GenerationMode.ANIMATOR && 'Motion Animator'}
+            {config.mode === GenerationMode.VIDEO && 'Video Studio'}
+            {config.mode === GenerationMode.AUDIO && 'Audio Studio'}
           </span>
         </div>
         <div className="flex items-center gap-1">
@@ -433,13 +840,13 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, setConfig, isLoadin
       </div>
 
       <div className="flex flex-col gap-6 p-6 overflow-y-auto custom-scrollbar flex-1 bg-zinc-950/20">
-        {config.mode === GenerationMode.STORY ? renderStoryControls() : (config.mode === GenerationMode.IMAGE || config.mode === GenerationMode.LOGO || config.mode === GenerationMode.THUMBNAIL) ? renderImageControls() : <div className="flex flex-col items-center justify-center py-20 text-center space-y-4 opacity-50"><Box className="w-12 h-12 text-zinc-700"/><p className="text-[10px] font-black uppercase tracking-widest">Workspace Active</p></div>}
+        {config.mode === GenerationMode.STORY ? renderStoryControls() : config.mode === GenerationMode.ANIMATOR ? renderAnimatorControls() : config.mode === GenerationMode.VIDEO ? renderVideoControls() : config.mode === GenerationMode.AUDIO ? renderAudioControls() : (config.mode === GenerationMode.IMAGE || config.mode === GenerationMode.LOGO || config.mode === GenerationMode.THUMBNAIL) ? renderImageControls() : <div className="flex flex-col items-center justify-center py-20 text-center space-y-4 opacity-50"><Box className="w-12 h-12 text-zinc-700"/><p className="text-[10px] font-black uppercase tracking-widest">Workspace Active</p></div>}
       </div>
 
       <div className="p-6 bg-zinc-950 border-t border-zinc-800">
         <button 
           onClick={onGenerate} 
-          disabled={isLoading || (config.mode !== GenerationMode.CAPTIONS && config.mode !== GenerationMode.STORY && !config.prompt.trim() && !config.audioInput)} 
+          disabled={isLoading || !canGenerate} 
           className={`w-full py-4 rounded-xl font-black text-[10px] uppercase tracking-widest flex items-center justify-center gap-2.5 transition-all duration-300 transform active:scale-95 ${
             isLoading 
               ? 'bg-zinc-900 border border-zinc-800 text-zinc-600 cursor-not-allowed shadow-none' 
@@ -1,16 +1,30 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { GeneratedContent, GenerationMode } from '../types';
-import { Download, Loader2, Copy, Volume2, Play, Pause, Film, FileVideo, PenTool, Sparkles, Wand2, BookOpen, Hexagon, Layout, ImageIcon, ChevronRight, Zap } from './Icons';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { GeneratedContent, GenerationMode, VideoExportFormat } from '../types';
+import { exportVideo, getExportFormats } from '../services/exportService';
+import { playbackOrder } from '../shared/loop';
+import { Download, Loader2, Copy, Trash2, Volume2, Play, Pause, Film, FileVideo, PenTool, Sparkles, Wand2, BookOpen, Hexagon, Layout, ImageIcon, ChevronRight, ChevronDown, Zap, MessageSquare } from './Icons';
 
 interface GalleryProps {
   items: GeneratedContent[];
   isLoading: boolean;
   onEditImage?: (item: GeneratedContent) => void;
   onSelectPrompt?: (prompt: string, mode: GenerationMode) => void;
+  onDeleteItem?: (item: GeneratedContent) => void;
+  // Audio items with timed segments (e.g. dialog) can seed Caption Studio
+  onOpenInCaptions?: (item: GeneratedContent) => void;
+  // More saved items exist in the asset library than are currently loaded
+  hasMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-const AnimationPlayer: React.FC<{ frames: string[], thumbnail: string, duration?: number }> = ({ frames, thumbnail, duration = 3 }) => {
+const EXPORT_FORMATS: { id: VideoExportFormat; label: string }[] = [
+    { id: 'gif', label: 'GIF' },
+    { id: 'apng', label: 'APNG' },
+    { id: 'mp4', label: 'MP4' },
+];
+
+const AnimationPlayer: React.FC<{ frames: string[], thumbnail: string, duration?: number, isPending?: boolean, loopMode?: GeneratedContent['loopMode'] }> = ({ frames, thumbnail, duration = 3, isPending = false, loopMode }) => {
     const [isPlaying, setIsPlaying] = useState(false);
     const [currentFrame, setCurrentFrame] = useState(0);
     const intervalRef = useRef<number | null>(null);
@@ -18,12 +32,16 @@ const AnimationPlayer: React.FC<{ frames: string[], thumbnail: string, duration?
     // Calculate interval based on duration and frame count
     // duration (seconds) * 1000 = ms
     // interval = ms / frames
-    const frameInterval = Math.max(100, (duration * 1000) / frames.length);
+    const frameInterval = Math.max(40, (duration * 1000) / Math.max(1, frames.length));
+
+    // While frames are still streaming in, cycle through whatever has arrived so far
+    const isPreviewing = isPending && frames.length > 0;
+    const sequence = useMemo(() => playbackOrder(frames.length, loopMode), [frames.length, loopMode]);
 
     useEffect(() => {
-        if (isPlaying) {
+        if (isPlaying || isPreviewing) {
             intervalRef.current = window.setInterval(() => {
-                setCurrentFrame(prev => (prev + 1) % frames.length);
+                setCurrentFrame(prev => (prev + 1) % sequence.length);
             }, frameInterval);
         } else {
             if (intervalRef.current) clearInterval(intervalRef.current);
@@ -31,7 +49,7 @@ const AnimationPlayer: React.FC<{ frames: string[], thumbnail: string, duration?
         return () => {
             if (intervalRef.current) clearInterval(intervalRef.current);
         };
-    }, [isPlaying, frames.length, frameInterval]);
+    }, [isPlaying, isPreviewing, sequence.length, frameInterval]);
 
     const togglePlay = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -41,10 +59,16 @@ const AnimationPlayer: React.FC<{ frames: string[], thumbnail: string, duration?
     return (
         <div className="relative w-full h-full bg-zinc-900 group">
              <img 
-                src={isPlaying ? frames[currentFrame] : thumbnail} 
+                src={(isPlaying || isPreviewing) ? frames[sequence[currentFrame % sequence.length]] : thumbnail} 
                 alt="Animation Frame" 
-                className="w-full h-full object-contain"
+                className={`w-full h-full object-contain ${isPending && frames.length === 0 ? 'opacity-40' : ''}`}
             />
+            {isPending ? (
+                <div className="absolute inset-x-0 bottom-0 p-3 flex items-center gap-2 bg-gradient-to-t from-black/80 to-transparent">
+                    <Loader2 className="w-3.5 h-3.5 text-indigo-400 animate-spin" />
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-white">{frames.length} frames received</span>
+                </div>
+            ) : (
             <div className="absolute inset-0 flex items-center justify-center bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
                  <button 
                     onClick={togglePlay}
@@ -53,16 +77,23 @@ const AnimationPlayer: React.FC<{ frames: string[], thumbnail: string, duration?
                      {isPlaying ? <Pause className="w-5 h-5 fill-current" /> : <Play className="w-5 h-5 fill-current ml-0.5" />}
                  </button>
             </div>
+            )}
             {/* Tag */}
             <div className="absolute top-2 right-2 bg-black/60 backdrop-blur-sm px-2 py-1 rounded text-[10px] text-white flex items-center gap-1 font-bold tracking-wider">
-                <Film className="w-3 h-3" /> {duration}s SEQ
+                <Film className="w-3 h-3" /> {duration}s {loopMode === 'ping-pong' ? 'PING-PONG' : 'SEQ'}
             </div>
         </div>
     );
 };
 
-const Gallery: React.FC<GalleryProps> = ({ items, isLoading, onEditImage, onSelectPrompt }) => {
+const Gallery: React.FC<GalleryProps> = ({ items, isLoading, onEditImage, onSelectPrompt, onDeleteItem, onOpenInCaptions, hasMore, onLoadMore }) => {
   const [isExporting, setIsExporting] = useState<string | null>(null);
+  const [exportStatus, setExportStatus] = useState('');
+  const [exportFormats, setExportFormats] = useState<VideoExportFormat[]>(['gif', 'apng']);
+
+  useEffect(() => {
+    getExportFormats().then(setExportFormats).catch(() => {});
+  }, []);
 
   // Fix: Expanded the allowed types to include 'video' to prevent type mismatch in handleDownloadAll on line 154
   const handleDownload = (url: string, id: string, type: 'image' | 'audio' | 'animation' | 'caption-set' | 'video') => {
@@ -81,78 +112,23 @@ const Gallery: React.FC<GalleryProps> = ({ items, isLoading, onEditImage, onSele
     document.body.removeChild(link);
   };
 
-  const handleExportVideo = async (item: GeneratedContent) => {
+  const handleExportVideo = async (item: GeneratedContent, format: VideoExportFormat) => {
       if (!item.frames || item.frames.length === 0) return;
       setIsExporting(item.id);
-
+      setExportStatus(`Preparing ${format.toUpperCase()}...`);
       try {
-          // Create a hidden canvas to render the frames
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          const img = new Image();
-          
-          // Load first image to set dimensions
-          await new Promise((resolve) => {
-              img.onload = resolve;
-              img.src = item.frames![0];
-          });
-          
-          canvas.width = img.width;
-          canvas.height = img.height;
-          
-          // Setup MediaRecorder
-          const stream = canvas.captureStream(30); // 30 FPS stream
-          const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
-          const chunks: BlobPart[] = [];
-          
-          recorder.ondataavailable = (e) => chunks.push(e.data);
-          recorder.onstop = () => {
-              const blob = new Blob(chunks, { type: 'video/webm' });
-              const url = URL.createObjectURL(blob);
-              const link = document.createElement('a');
-              link.href = url;
-              link.download = `lumina-animation-${item.id}.webm`;
-              document.body.appendChild(link);
-              link.click();
-              document.body.removeChild(link);
-              setIsExporting(null);
-          };
-
-          recorder.start();
-
-          // Draw frames to canvas
-          // We want the total video to match the requested duration
-          const durationMs = (item.duration || 3) * 1000;
-          const frameDuration = durationMs / item.frames.length;
-          const startTime = Date.now();
-          
-          let frameIndex = 0;
-          
-          const drawFrame = async () => {
-             if (frameIndex >= item.frames!.length) {
-                 recorder.stop();
-                 return;
-             }
-
-             const frameImg = new Image();
-             frameImg.src = item.frames![frameIndex];
-             await new Promise(r => frameImg.onload = r);
-             
-             if (ctx) ctx.drawImage(frameImg, 0, 0);
-             
-             // Wait for the duration of this frame before drawing next
-             setTimeout(() => {
-                 frameIndex++;
-                 drawFrame();
-             }, frameDuration);
-          };
-
-          drawFrame();
-
-      } catch (err) {
+          // Frames play at the item's own pace: its duration spread evenly over the forward pass
+          const fps = item.frames.length / (item.duration || 3);
+          await exportVideo(
+              { format, frames: item.frames, fps, loopMode: item.loopMode, name: `lumina-animation-${item.id}` },
+              setExportStatus
+          );
+      } catch (err: any) {
           console.error("Export failed", err);
-          alert("Failed to export video. Your browser may not support WebM recording.");
+          alert(err.message || "Failed to export animation.");
+      } finally {
           setIsExporting(null);
+          setExportStatus('');
       }
   };
 
@@ -294,7 +270,7 @@ const Gallery: React.FC<GalleryProps> = ({ items, isLoading, onEditImage, onSele
 
       <div className="flex-1 overflow-y-auto p-4 lg:p-8">
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-2 gap-6 max-w-7xl mx-auto">
-            {isLoading && (
+            {isLoading && !items.some(item => item.isPending) && (
                 <div className="aspect-square rounded-2xl bg-zinc-900 border border-zinc-800 flex items-center justify-center animate-pulse">
                     <div className="flex flex-col items-center gap-2">
                         <Loader2 className="w-8 h-8 text-indigo-500 animate-spin" />
@@ -305,27 +281,43 @@ const Gallery: React.FC<GalleryProps> = ({ items, isLoading, onEditImage, onSele
             
             {items.map((item) => (
                 <div key={item.id} className={`group relative rounded-2xl overflow-hidden bg-zinc-950 border border-zinc-800 shadow-2xl transition-all hover:border-indigo-500/50 ${item.type === 'audio' ? 'aspect-auto' : ''}`}>
+                    {onDeleteItem && !item.isPending && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); if (confirm("Delete this item from your library?")) onDeleteItem(item); }}
+                            className="absolute top-3 right-3 z-20 p-2 rounded-full bg-black/60 border border-white/10 text-zinc-400 hover:text-red-400 hover:border-red-500/40 opacity-0 group-hover:opacity-100 transition-all backdrop-blur-sm"
+                            title="Delete from library"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    )}
                     
                     {/* ANIMATION CONTENT */}
                     {item.type === 'animation' && item.frames && (
                          <div className={`w-full h-full bg-zinc-900 aspect-square`}>
-                             <AnimationPlayer frames={item.frames} thumbnail={item.url} duration={item.duration} />
+                             <AnimationPlayer frames={item.frames} thumbnail={item.url} duration={item.duration} isPending={item.isPending} loopMode={item.loopMode} />
                              
-                             <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/90 to-transparent p-4 opacity-0 group-hover:opacity-100 transition-opacity flex items-end justify-between">
+                             {!item.isPending && <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/90 to-transparent p-4 opacity-0 group-hover:opacity-100 transition-opacity flex items-end justify-between">
                                 <p className="text-white text-xs font-medium line-clamp-1 flex-1 mr-2">{item.prompt}</p>
-                                <button 
-                                    onClick={(e) => { e.stopPropagation(); handleExportVideo(item); }}
-                                    disabled={isExporting === item.id}
-                                    className="px-3 py-1.5 bg-white text-black text-xs font-bold rounded-full hover:bg-zinc-200 transition-colors flex items-center gap-1.5"
-                                >
-                                    {isExporting === item.id ? (
-                                        <Loader2 className="w-3 h-3 animate-spin" />
-                                    ) : (
-                                        <FileVideo className="w-3 h-3" />
-                                    )}
-                                    {isExporting === item.id ? 'Exporting...' : 'Save Video'}
-                                </button>
-                             </div>
+                                {isExporting === item.id ? (
+                                    <span className="px-3 py-1.5 bg-white text-black text-xs font-bold rounded-full flex items-center gap-1.5 max-w-[55%] truncate">
+                                        <Loader2 className="w-3 h-3 animate-spin shrink-0" /> {exportStatus || 'Exporting...'}
+                                    </span>
+                                ) : (
+                                    <div className="flex items-center gap-1">
+                                        <FileVideo className="w-3 h-3 text-white/70" />
+                                        {EXPORT_FORMATS.filter(f => exportFormats.includes(f.id)).map(f => (
+                                            <button
+                                                key={f.id}
+                                                onClick={(e) => { e.stopPropagation(); handleExportVideo(item, f.id); }}
+                                                disabled={isExporting !== null}
+                                                className="px-2.5 py-1.5 bg-white text-black text-[10px] font-bold rounded-full hover:bg-zinc-200 transition-colors disabled:opacity-50"
+                                            >
+                                                {f.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                             </div>}
                          </div>
                     )}
 
@@ -341,7 +333,7 @@ const Gallery: React.FC<GalleryProps> = ({ items, isLoading, onEditImage, onSele
                                 />
                             </div>
                             
-                            <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col justify-end p-6">
+                            {!item.isPending && <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col justify-end p-6">
                                 <p className="text-white text-sm font-medium line-clamp-2 mb-4 drop-shadow-md">
                                     {item.prompt}
                                 </p>
@@ -372,7 +364,7 @@ const Gallery: React.FC<GalleryProps> = ({ items, isLoading, onEditImage, onSele
                                         </button>
                                     </div>
                                 </div>
-                            </div>
+                            </div>}
                         </>
                     )}
 
@@ -407,12 +399,23 @@ const Gallery: React.FC<GalleryProps> = ({ items, isLoading, onEditImage, onSele
                                 
                                 <div className="flex items-center justify-between pt-2 border-t border-zinc-800">
                                      <span className="text-xs text-zinc-500">Voice: <span className="text-zinc-300">{item.voice}</span></span>
-                                     <button 
-                                        onClick={() => handleDownload(item.url, item.id, 'audio')}
-                                        className="text-xs flex items-center gap-1.5 text-zinc-400 hover:text-white transition-colors"
-                                    >
-                                        <Download className="w-3.5 h-3.5" /> Save WAV
-                                    </button>
+                                     <div className="flex items-center gap-3">
+                                        {item.segments?.length && onOpenInCaptions ? (
+                                            <button 
+                                                onClick={() => onOpenInCaptions(item)}
+                                                className="text-xs flex items-center gap-1.5 text-zinc-400 hover:text-white transition-colors"
+                                                title="Open timed turns in Caption Studio"
+                                            >
+                                                <MessageSquare className="w-3.5 h-3.5" /> Captions
+                                            </button>
+                                        ) : null}
+                                        <button 
+                                            onClick={() => handleDownload(item.url, item.id, 'audio')}
+                                            className="text-xs flex items-center gap-1.5 text-zinc-400 hover:text-white transition-colors"
+                                        >
+                                            <Download className="w-3.5 h-3.5" /> Save WAV
+                                        </button>
+                                     </div>
                                 </div>
                              </div>
                         </div>
@@ -440,6 +443,17 @@ const Gallery: React.FC<GalleryProps> = ({ items, isLoading, onEditImage, onSele
                 </div>
             ))}
         </div>
+
+        {hasMore && onLoadMore && (
+            <div className="flex justify-center pt-8">
+                <button
+                    onClick={onLoadMore}
+                    className="text-xs flex items-center gap-2 px-4 py-2 bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 rounded-lg text-zinc-300 transition-colors"
+                >
+                    <ChevronDown className="w-3 h-3" /> Load More
+                </button>
+            </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,509 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { GenerationConfig, GeneratedContent, Export3DFormat, RepairedMesh, MeshRig, ModelPose, ModelView, Bone, Vector3, AnimationFormat, AnimationQuality } from '../types';
+import { Cube, Download, Loader2, Sparkles, Rotate3D, ShieldCheck, Bone as BoneIcon, Film, Keyframe, Plus, Trash2 } from './Icons';
+import { generate3DMesh } from '../services/geminiService';
+import { exportMesh, poseMesh, renderMeshAnimation, MeshPoseOptions } from '../services/meshService';
+
+interface ModelStudioProps {
+  config: GenerationConfig;
+  setConfig: React.Dispatch<React.SetStateAction<GenerationConfig>>;
+  onExit: () => void;
+  // Called with rendered animations, which the server has already saved to the library
+  onAnimationRendered: (item: GeneratedContent) => void;
+}
+
+const POSES: { id: ModelPose; label: string }[] = [
+  { id: 'standing', label: 'Standing' },
+  { id: 't-pose', label: 'T-Pose' },
+  { id: 'walking', label: 'Walking' },
+  { id: 'running', label: 'Running' },
+  { id: 'action', label: 'Action' },
+  { id: 'sitting', label: 'Sitting' },
+];
+
+const BONES: { id: Bone; label: string }[] = [
+  { id: 'head', label: 'Head' },
+  { id: 'torso', label: 'Torso' },
+  { id: 'left-arm', label: 'Left Arm' },
+  { id: 'right-arm', label: 'Right Arm' },
+  { id: 'left-leg', label: 'Left Leg' },
+  { id: 'right-leg', label: 'Right Leg' },
+];
+
+const VIEWS: { id: ModelView; label: string }[] = [
+  { id: 'front', label: 'Front' },
+  { id: 'isometric', label: 'Isometric' },
+  { id: 'side', label: 'Side' },
+  { id: 'back', label: 'Back' },
+  { id: 'top', label: 'Top' },
+];
+
+const ANIMATION_FORMATS: { id: AnimationFormat; label: string }[] = [
+  { id: 'gif', label: 'GIF' },
+  { id: 'mp4', label: 'MP4 Frames' },
+];
+
+const ANIMATION_QUALITIES: { id: AnimationQuality; label: string }[] = [
+  { id: 'standard', label: 'Standard' },
+  { id: 'high', label: 'High' },
+];
+
+// Matches the server's MAX_ANIMATION_SECONDS
+const MAX_ANIMATION_SECONDS = 8;
+
+const EXPORT_FORMATS: { id: Export3DFormat; label: string; desc: string }[] = [
+  { id: 'gltf', label: 'glTF', desc: 'Binary .glb' },
+  { id: 'obj', label: 'OBJ', desc: 'OBJ + MTL zip' },
+];
+
+// Light direction in view space (towards the viewer, up and to the left)
+const LIGHT = [-0.4, 0.6, 0.7].map(v => v / Math.hypot(-0.4, 0.6, 0.7));
+const AMBIENT = 0.35;
+
+const shade = (hex: string, intensity: number) => {
+  const channels = [1, 3, 5].map(i => Math.round(parseInt(hex.slice(i, i + 2), 16) * intensity));
+  return `rgb(${channels.join(',')})`;
+};
+
+/**
+ * Flat-shaded painter's-algorithm preview: orbit by yaw/pitch around the mesh centre,
+ * cull faces pointing away from the camera, then fill back to front.
+ */
+const drawMesh = (canvas: HTMLCanvasElement, mesh: RepairedMesh, yaw: number, pitch: number, zoom: number, rig?: MeshRig) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  ctx.clearRect(0, 0, width, height);
+  if (mesh.vertices.length === 0) return;
+
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+  mesh.vertices.forEach(v => v.forEach((c, k) => { min[k] = Math.min(min[k], c); max[k] = Math.max(max[k], c); }));
+  const center = min.map((m, k) => (m + max[k]) / 2);
+  const radius = Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2 || 1;
+
+  const [cy, sy, cp, sp] = [Math.cos(yaw), Math.sin(yaw), Math.cos(pitch), Math.sin(pitch)];
+  const rotate = ([x, y, z]: number[]) => {
+    const x1 = x * cy + z * sy, z1 = -x * sy + z * cy;
+    return [x1, y * cp - z1 * sp, y * sp + z1 * cp];
+  };
+  const cameraDistance = radius * 3;
+  const scale = (Math.min(width, height) / (radius * 2.4)) * zoom;
+  const view = mesh.vertices.map(v => rotate(v.map((c, k) => c - center[k])));
+  const project = ([x, y, z]: number[]) => {
+    const perspective = cameraDistance / (cameraDistance - z);
+    return [width / 2 + x * scale * perspective, height / 2 - y * scale * perspective];
+  };
+
+  const visible = mesh.faces.flatMap((face, i) => {
+    const n = rotate(mesh.normals[i]);
+    const corners = face.slice(0, 3).map(v => view[v as number]);
+    const centroid = [0, 1, 2].map(k => (corners[0][k] + corners[1][k] + corners[2][k]) / 3);
+    const toCamera = [-centroid[0], -centroid[1], cameraDistance - centroid[2]];
+    if (n[0] * toCamera[0] + n[1] * toCamera[1] + n[2] * toCamera[2] <= 0) return [];
+    const light = Math.max(0, n[0] * LIGHT[0] + n[1] * LIGHT[1] + n[2] * LIGHT[2]);
+    return [{ corners, depth: centroid[2], color: shade(face[3], AMBIENT + (1 - AMBIENT) * light) }];
+  });
+
+  visible.sort((a, b) => a.depth - b.depth).forEach(({ corners, color }) => {
+    ctx.beginPath();
+    corners.map(project).forEach(([x, y], i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+    ctx.closePath();
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+    ctx.fill();
+    // Stroking in the fill colour hides hairline seams between adjacent triangles
+    ctx.stroke();
+  });
+
+  // Skeleton overlay, drawn on top so joints stay visible through the body
+  rig?.bones.forEach(({ head, tail }) => {
+    const [from, to] = [head, tail].map(p => project(rotate([p.x - center[0], p.y - center[1], p.z - center[2]])));
+    ctx.strokeStyle = 'rgba(129, 140, 248, 0.9)';
+    ctx.lineWidth = 2 * (window.devicePixelRatio || 1);
+    ctx.beginPath();
+    ctx.moveTo(from[0], from[1]);
+    ctx.lineTo(to[0], to[1]);
+    ctx.stroke();
+    ctx.fillStyle = '#e0e7ff';
+    ctx.beginPath();
+    ctx.arc(from[0], from[1], 3 * (window.devicePixelRatio || 1), 0, Math.PI * 2);
+    ctx.fill();
+  });
+  ctx.lineWidth = 1;
+};
+
+const ModelStudio: React.FC<ModelStudioProps> = ({ config, setConfig, onExit, onAnimationRendered }) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRendering, setIsRendering] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<Export3DFormat | null>(null);
+  const [statusMessage, setStatusMessage] = useState("");
+  const [mesh, setMesh] = useState<RepairedMesh | null>(null);
+  const [orbit, setOrbit] = useState({ yaw: 0.6, pitch: 0.25, zoom: 1 });
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  const [posed, setPosed] = useState<{ mesh: RepairedMesh; rig: MeshRig } | null>(null);
+  const [selectedBone, setSelectedBone] = useState<Bone>('left-arm');
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Keep the canvas backing store matched to its on-screen size
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => {
+      const ratio = window.devicePixelRatio || 1;
+      setCanvasSize({ width: container.clientWidth * ratio, height: container.clientHeight * ratio });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const poseOptions: MeshPoseOptions | null = config.isRigging
+    ? { pose: config.modelPose, bones: config.bonePoses }
+    : null;
+
+  // Re-pose on the server whenever the rig settings change; debounced so slider drags don't flood it
+  useEffect(() => {
+    if (!mesh || !poseOptions) {
+      setPosed(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await poseMesh(mesh, poseOptions);
+        if (!cancelled) setPosed(result);
+      } catch (err: any) {
+        if (!cancelled) setStatusMessage(err.message || "Posing failed");
+      }
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mesh, config.isRigging, config.modelPose, config.bonePoses]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !mesh) return;
+    canvas.width = canvasSize.width;
+    canvas.height = canvasSize.height;
+    drawMesh(canvas, posed?.mesh || mesh, orbit.yaw, orbit.pitch, orbit.zoom, posed?.rig);
+  }, [mesh, posed, orbit, canvasSize]);
+
+  const boneRotation = (bone: Bone): Vector3 =>
+    config.bonePoses?.find(p => p.bone === bone)?.rotation || { x: 0, y: 0, z: 0 };
+
+  const updateBoneRotation = (bone: Bone, axis: keyof Vector3, degrees: number) => {
+    setConfig(prev => {
+      const others = (prev.bonePoses || []).filter(p => p.bone !== bone);
+      const current = prev.bonePoses?.find(p => p.bone === bone)?.rotation || { x: 0, y: 0, z: 0 };
+      return { ...prev, bonePoses: [...others, { bone, rotation: { ...current, [axis]: degrees } }] };
+    });
+  };
+
+  const handleGenerate = async () => {
+    if (!config.prompt.trim()) return;
+    setIsLoading(true);
+    setStatusMessage("Generating mesh...");
+    try {
+      const result = await generate3DMesh(config.prompt);
+      if (result.faces.length === 0) {
+        setStatusMessage("No usable geometry returned");
+        return;
+      }
+      setMesh(result);
+      setStatusMessage(`${result.faces.length} triangles`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleExport = async (format: Export3DFormat) => {
+    if (!mesh) return;
+    setExportingFormat(format);
+    try {
+      const { blob, filename } = await exportMesh(mesh, format, config.prompt.slice(0, 40), poseOptions || {});
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      setTimeout(() => {
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }, 100);
+    } catch (err: any) {
+      alert(err.message || "Export failed");
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const duration = config.animationDuration || 3;
+  const keyframes = config.animationKeyframes || [];
+
+  // Snapshots the current preset and bone rotations one second after the last keyframe
+  const addKeyframe = () => {
+    setConfig(prev => {
+      const existing = prev.animationKeyframes || [];
+      const time = existing.length ? Math.min(prev.animationDuration || 3, Math.max(...existing.map(k => k.time)) + 1) : 0;
+      return {
+        ...prev,
+        animationKeyframes: [...existing, { id: `${Date.now()}`, time, pose: prev.modelPose, bones: prev.bonePoses || [] }],
+      };
+    });
+  };
+
+  const updateKeyframeTime = (id: string, time: number) => {
+    setConfig(prev => ({
+      ...prev,
+      animationKeyframes: (prev.animationKeyframes || []).map(k => k.id === id ? { ...k, time } : k),
+    }));
+  };
+
+  const removeKeyframe = (id: string) => {
+    setConfig(prev => ({ ...prev, animationKeyframes: (prev.animationKeyframes || []).filter(k => k.id !== id) }));
+  };
+
+  const handleRenderAnimation = async () => {
+    if (!mesh) return;
+    setIsRendering(true);
+    try {
+      const item = await renderMeshAnimation(mesh, config, setStatusMessage);
+      onAnimationRendered(item);
+      setStatusMessage(`Rendered ${item.frames?.length || 0} frames to the gallery`);
+    } catch (err: any) {
+      setStatusMessage(err.message || "Render failed");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const dx = e.clientX - dragRef.current.x;
+    const dy = e.clientY - dragRef.current.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setOrbit(prev => ({
+      ...prev,
+      yaw: prev.yaw + dx * 0.01,
+      pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, prev.pitch + dy * 0.01)),
+    }));
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    setOrbit(prev => ({ ...prev, zoom: Math.max(0.3, Math.min(4, prev.zoom * (e.deltaY > 0 ? 0.9 : 1.1))) }));
+  };
+
+  const report = mesh?.report;
+  const repairs = report ? report.droppedVertices + report.droppedFaces + report.triangulatedFaces + report.flippedFaces : 0;
+
+  return (
+    <div className="flex flex-col h-full bg-[#09090b] text-zinc-300 overflow-hidden relative">
+      <div className="h-16 border-b border-zinc-800 bg-zinc-950 flex items-center justify-between px-6 shrink-0 z-50">
+        <div className="flex items-center gap-3">
+            <div className="bg-indigo-600 p-2 rounded-xl text-white shadow-xl shadow-indigo-500/10"><Cube className="w-5 h-5" /></div>
+            <div>
+                <h1 className="font-bold text-sm lg:text-base text-white">Model <span className="text-indigo-500">Studio</span></h1>
+                <p className="text-[10px] text-zinc-600 uppercase font-black tracking-widest">{statusMessage || "Studio Active"}</p>
+            </div>
+        </div>
+        <div className="flex items-center gap-3">
+            {EXPORT_FORMATS.map(format => (
+              <button key={format.id} onClick={() => handleExport(format.id)} disabled={!mesh || !!exportingFormat} title={format.desc} className="flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase text-zinc-300 hover:text-white transition-colors bg-zinc-800 rounded-xl border border-zinc-700 disabled:opacity-50">
+                {exportingFormat === format.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />} {format.label}
+              </button>
+            ))}
+            <button onClick={onExit} className="px-4 py-2 text-[10px] font-black uppercase text-zinc-500 hover:text-white transition-colors bg-zinc-900 rounded-xl border border-zinc-800">Exit</button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="w-80 lg:w-96 border-r border-zinc-800 flex flex-col bg-zinc-950/40 p-6 space-y-6 overflow-y-auto">
+            <div className="space-y-3">
+                <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Describe the Model</label>
+                <textarea
+                  value={config.prompt}
+                  onChange={(e) => setConfig(prev => ({ ...prev, prompt: e.target.value }))}
+                  placeholder="e.g. a knight in blocky armour with a red cape"
+                  className="w-full h-28 bg-zinc-950 border border-zinc-800 focus:border-indigo-500 rounded-xl p-3 text-xs text-white outline-none resize-none placeholder:text-zinc-600"
+                />
+                <button onClick={handleGenerate} disabled={isLoading || !config.prompt.trim()} className="w-full py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 disabled:bg-zinc-800 disabled:text-zinc-600">
+                  {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                  {isLoading ? 'Generating...' : 'Generate Mesh'}
+                </button>
+            </div>
+
+            {report && (
+              <div className="space-y-3">
+                <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><ShieldCheck className="w-3 h-3" /> Geometry Check</label>
+                <div className="grid grid-cols-2 gap-2 text-[10px]">
+                  <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-3"><div className="text-white font-bold text-sm">{mesh!.vertices.length}</div><div className="text-zinc-500 uppercase font-black tracking-widest text-[9px]">Vertices</div></div>
+                  <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-3"><div className="text-white font-bold text-sm">{mesh!.faces.length}</div><div className="text-zinc-500 uppercase font-black tracking-widest text-[9px]">Triangles</div></div>
+                </div>
+                {repairs === 0 ? (
+                  <p className="text-[10px] text-emerald-400 font-medium">Geometry was clean; no repairs needed.</p>
+                ) : (
+                  <ul className="text-[10px] text-zinc-400 space-y-1">
+                    {report.droppedVertices > 0 && <li>Removed {report.droppedVertices} invalid or unused vertices</li>}
+                    {report.droppedFaces > 0 && <li>Dropped {report.droppedFaces} out-of-range or degenerate faces</li>}
+                    {report.triangulatedFaces > 0 && <li>Triangulated {report.triangulatedFaces} polygons</li>}
+                    {report.flippedFaces > 0 && <li>Flipped {report.flippedFaces} inward-facing triangles</li>}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {mesh && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><BoneIcon className="w-3 h-3" /> Rig & Pose</label>
+                  <button
+                    onClick={() => setConfig(prev => ({ ...prev, isRigging: !prev.isRigging }))}
+                    className={`w-9 h-5 rounded-full transition-colors relative ${config.isRigging ? 'bg-indigo-600' : 'bg-zinc-800'}`}
+                  >
+                    <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-all ${config.isRigging ? 'left-4' : 'left-0.5'}`} />
+                  </button>
+                </div>
+                {config.isRigging && (
+                  <>
+                    <div className="grid grid-cols-3 gap-2">
+                      {POSES.map(pose => (
+                        <button
+                          key={pose.id}
+                          onClick={() => setConfig(prev => ({ ...prev, modelPose: prev.modelPose === pose.id ? undefined : pose.id }))}
+                          className={`py-2 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all ${config.modelPose === pose.id ? 'bg-indigo-600/10 border-indigo-500 text-indigo-300' : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+                        >{pose.label}</button>
+                      ))}
+                    </div>
+                    <select
+                      value={selectedBone}
+                      onChange={(e) => setSelectedBone(e.target.value as Bone)}
+                      className="w-full bg-zinc-950 border border-zinc-800 rounded-xl py-2 px-3 text-xs text-white outline-none"
+                    >
+                      {BONES.map(bone => <option key={bone.id} value={bone.id}>{bone.label}</option>)}
+                    </select>
+                    {(['x', 'y', 'z'] as const).map(axis => (
+                      <div key={axis} className="flex items-center gap-3">
+                        <span className="w-4 text-[10px] font-black uppercase text-zinc-500">{axis}</span>
+                        <input
+                          type="range" min={-180} max={180} step={1}
+                          value={boneRotation(selectedBone)[axis]}
+                          onChange={(e) => updateBoneRotation(selectedBone, axis, Number(e.target.value))}
+                          className="flex-1 accent-indigo-500"
+                        />
+                        <span className="w-10 text-right text-[10px] font-mono text-zinc-400">{boneRotation(selectedBone)[axis]}°</span>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => setConfig(prev => ({ ...prev, bonePoses: [] }))}
+                      disabled={!config.bonePoses?.length}
+                      className="w-full py-2 rounded-xl bg-zinc-900 border border-zinc-800 text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white disabled:opacity-40"
+                    >Reset Bone Rotations</button>
+                    <p className="text-[9px] text-zinc-600 font-medium">Bone rotations add to the preset. Exports use the posed mesh.</p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {mesh && (
+              <div className="space-y-3">
+                <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2"><Film className="w-3 h-3" /> Animate</label>
+                <div className="grid grid-cols-5 gap-1">
+                  {VIEWS.map(view => (
+                    <button
+                      key={view.id}
+                      onClick={() => setConfig(prev => ({ ...prev, modelView: view.id }))}
+                      className={`py-2 rounded-lg text-[8px] font-black uppercase tracking-wider border transition-all ${(config.modelView || 'isometric') === view.id ? 'bg-indigo-600/10 border-indigo-500 text-indigo-300' : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+                    >{view.label}</button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-[10px] font-black uppercase text-zinc-500">Length</span>
+                  <input
+                    type="range" min={1} max={MAX_ANIMATION_SECONDS} step={0.5}
+                    value={duration}
+                    onChange={(e) => setConfig(prev => ({ ...prev, animationDuration: Number(e.target.value) }))}
+                    className="flex-1 accent-indigo-500"
+                  />
+                  <span className="w-8 text-right text-[10px] font-mono text-zinc-400">{duration}s</span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="flex bg-zinc-900 border border-zinc-800 rounded-xl p-1">
+                    {ANIMATION_FORMATS.map(format => (
+                      <button key={format.id} onClick={() => setConfig(prev => ({ ...prev, animationFormat: format.id }))} className={`flex-1 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-wider ${config.animationFormat === format.id ? 'bg-zinc-700 text-white' : 'text-zinc-500'}`}>{format.label}</button>
+                    ))}
+                  </div>
+                  <div className="flex bg-zinc-900 border border-zinc-800 rounded-xl p-1">
+                    {ANIMATION_QUALITIES.map(quality => (
+                      <button key={quality.id} onClick={() => setConfig(prev => ({ ...prev, animationQuality: quality.id }))} className={`flex-1 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-wider ${config.animationQuality === quality.id ? 'bg-zinc-700 text-white' : 'text-zinc-500'}`}>{quality.label}</button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {keyframes.map(keyframe => (
+                    <div key={keyframe.id} className="flex items-center gap-2 bg-zinc-900 border border-zinc-800 rounded-xl px-3 py-2">
+                      <Keyframe className="w-3 h-3 text-indigo-400 shrink-0" />
+                      <input
+                        type="number" min={0} max={duration} step={0.1}
+                        value={keyframe.time}
+                        onChange={(e) => updateKeyframeTime(keyframe.id, Number(e.target.value))}
+                        className="w-14 bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-[10px] font-mono text-white outline-none"
+                      />
+                      <span className="flex-1 text-[10px] text-zinc-400 truncate">
+                        {POSES.find(p => p.id === keyframe.pose)?.label || 'Rest'}{keyframe.bones.length ? ` + ${keyframe.bones.length} bone${keyframe.bones.length > 1 ? 's' : ''}` : ''}
+                      </span>
+                      <button onClick={() => removeKeyframe(keyframe.id)} className="text-zinc-600 hover:text-red-400"><Trash2 className="w-3 h-3" /></button>
+                    </div>
+                  ))}
+                  <button onClick={addKeyframe} className="w-full py-2 rounded-xl bg-zinc-900 border border-dashed border-zinc-700 text-[9px] font-black uppercase tracking-widest text-zinc-400 hover:text-white flex items-center justify-center gap-2">
+                    <Plus className="w-3 h-3" /> Keyframe Current Pose
+                  </button>
+                  {keyframes.length === 0 && (
+                    <p className="text-[9px] text-zinc-600 font-medium">Without keyframes the clip eases from rest into the selected pose and back.</p>
+                  )}
+                </div>
+
+                <button onClick={handleRenderAnimation} disabled={isRendering} className="w-full py-3 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 disabled:bg-zinc-800 disabled:text-zinc-600">
+                  {isRendering ? <Loader2 className="w-4 h-4 animate-spin" /> : <Film className="w-4 h-4" />}
+                  {isRendering ? 'Rendering...' : 'Render Animation'}
+                </button>
+              </div>
+            )}
+        </div>
+
+        <div
+          ref={containerRef}
+          className="flex-1 relative bg-[radial-gradient(circle_at_center,#18181b_0%,#09090b_70%)] cursor-grab active:cursor-grabbing touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+          onWheel={handleWheel}
+        >
+          <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+          {!mesh && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-zinc-600 gap-3 pointer-events-none">
+              {isLoading ? <Loader2 className="w-10 h-10 animate-spin text-indigo-500" /> : <Rotate3D className="w-10 h-10" />}
+              <p className="text-[10px] font-black uppercase tracking-widest">{isLoading ? 'Building geometry' : 'Generate a mesh to preview it here'}</p>
+            </div>
+          )}
+          {mesh && (
+            <p className="absolute bottom-4 left-1/2 -translate-x-1/2 text-[9px] font-black uppercase tracking-widest text-zinc-600 pointer-events-none">Drag to orbit · Scroll to zoom</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelStudio;
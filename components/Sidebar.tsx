@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { GenerationMode } from '../types';
 import { 
-  ImageIcon, Layout, BookOpen, MessageSquare, Hexagon,
+  ImageIcon, Layout, BookOpen, MessageSquare, Hexagon, Film, FileVideo, Mic, Cube,
   Sparkles, Settings, ChevronRight
 } from './Icons';
 
@@ -29,6 +29,10 @@ const Sidebar: React.FC<SidebarProps> = ({
     { id: GenerationMode.STORY, name: 'Story Studio', icon: BookOpen, desc: 'Complete scene sequencing' },
     { id: GenerationMode.CAPTIONS, name: 'Caption Master', icon: MessageSquare, desc: 'AI short-form caption templates' },
     { id: GenerationMode.LOGO, name: 'Logo Designer', icon: Hexagon, desc: 'Minimalist brand geometry' },
+    { id: GenerationMode.ANIMATOR, name: 'Motion Animator', icon: Film, desc: 'Bring a still to life as a loop' },
+    { id: GenerationMode.VIDEO, name: 'Video Studio', icon: FileVideo, desc: 'Text and image to video with Veo' },
+    { id: GenerationMode.AUDIO, name: 'Audio Studio', icon: Mic, desc: 'Voiceovers, narration and dialog' },
+    { id: GenerationMode.MODEL_3D, name: 'Model 3D', icon: Cube, desc: 'Low-poly meshes with OBJ and glTF export' },
   ];
 
   return (
@@ -1,11 +1,14 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GenerationConfig, StoryEntity, GeneratedContent, AspectRatio, ModelType, Bone, BoneConfiguration, ModelPose, ModelView } from '../types';
+import { GenerationConfig, StoryEntity, GeneratedContent, AspectRatio, ModelType, Bone, BoneConfiguration, ModelPose, ModelView, ReferenceImage, StoryScene, StoryboardFrame, StoryboardExportFormat } from '../types';
 import { 
   Plus, X, Layout, Users, MapPin, PenTool, Download, 
-  ImageIcon, ChevronRight, Sparkles, Settings, Loader2, Rotate3D, Trash2, Check, Upload, Minus, Bone as BoneIcon, Wand2, Layers, Palette, Eye, Move
+  ImageIcon, ChevronRight, Sparkles, Settings, Loader2, Rotate3D, Trash2, Check, Upload, Minus, Bone as BoneIcon, Wand2, Layers, Palette, Eye, Move,
+  ChevronUp, ChevronDown, RefreshCw, FilmStrip, BookOpen
 } from './Icons';
 import { generateImage } from '../services/geminiService';
+import { exportStoryboard, generateStoryboard } from '../services/storyService';
+import { activeEntities, MAX_STORYBOARD_SCENES, orderedScenes, storyGuidelines, storyReferences } from '../shared/story';
 
 interface StoryStudioProps {
   config: GenerationConfig;
@@ -49,9 +52,20 @@ const STYLES = [
   { id: 'pixel-art', name: 'Pixel Art', prompt: 'pixel art, 16-bit, retro game style, dithering, low res' },
 ];
 
+const aspectStyle = (aspectRatio?: string) =>
+  aspectRatio === AspectRatio.PORTRAIT_9_16 ? '9/16' : aspectRatio === AspectRatio.SQUARE ? '1/1' : '16/9';
+
 const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [results, setResults] = useState<GeneratedContent[]>([]);
+
+  // Storyboard State: frames are matched to scenes by id, so reordering scenes reorders the board
+  const [view, setView] = useState<'variants' | 'storyboard'>('variants');
+  const [storyboard, setStoryboard] = useState<StoryboardFrame[]>([]);
+  // 'all' while the whole sequence renders, or the id of the scene being regenerated
+  const [sequencing, setSequencing] = useState<string | null>(null);
+  const [sequenceProgress, setSequenceProgress] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
   const [showAspectPicker, setShowAspectPicker] = useState(false);
   const [showCountPicker, setShowCountPicker] = useState(false);
   const [isSidebarHidden, setIsSidebarHidden] = useState(false);
@@ -72,6 +86,7 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
     if (!config.storyArtStyles) setConfig(prev => ({ ...prev, storyArtStyles: [] }));
     if (!config.count) setConfig(prev => ({ ...prev, count: 4 }));
     if (!config.stylePrompts) setConfig(prev => ({ ...prev, stylePrompts: [] }));
+    if (!config.storyScenes?.length) setConfig(prev => ({ ...prev, storyScenes: [{ id: '1', prompt: '', order: 0 }] }));
   }, [setConfig]);
 
   const toggleStylePreset = (stylePrompt: string) => {
@@ -86,10 +101,8 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
   };
 
   const handleGenerate = async (isCorrection: boolean = false) => {
-    const activeSubjects = (config.storySubjects || []).filter(s => s.isActive);
-    const activeScenes = (config.storyEnvironments || []).filter(e => e.isActive);
-    const activeStyles = (config.storyArtStyles || []).filter(s => s.isActive);
-    const activePresets = config.stylePrompts || [];
+    const activeSubjects = activeEntities(config.storySubjects);
+    const activeScenes = activeEntities(config.storyEnvironments);
 
     if (!config.prompt.trim() && activeSubjects.length === 0 && activeScenes.length === 0 && !isCorrection) {
       alert("Please describe your vision or select ingredients from your pools!");
@@ -99,7 +112,7 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
     setIsLoading(true);
     try {
       let finalPrompt = "";
-      let referenceImages: string[] = [];
+      let referenceImages: ReferenceImage[] = [];
 
       if (isCorrection && editingResult) {
           const rigChanges = boneConfigs.map(b => `${b.bone.replace('-', ' ')} ${b.action}`).join(", ");
@@ -113,30 +126,10 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
           ${bgChange ? `Scene changes: ${bgChange}.` : ""}
           Strictly maintain the character's core appearance and the established art style.
           Context: ${config.prompt}`;
-          referenceImages = [editingResult.url];
+          referenceImages = [{ role: 'subject', dataUrl: editingResult.url }];
       } else {
-          const subjectText = activeSubjects.map(s => s.text).join(", ");
-          const sceneText = activeScenes.map(e => e.text).join(", ");
-          const styleText = activeStyles.map(s => s.text).join(", ");
-          const presetText = activePresets.join(", ");
-          
-          let contextStr = "COMPOSITION GUIDELINES:\n";
-          if (activeSubjects.length > 0) contextStr += `- Main characters: ${subjectText}\n`;
-          if (activeScenes.length > 0) contextStr += `- Setting: ${sceneText}\n`;
-          
-          let styleInstructions = "";
-          if (activeStyles.length > 0) styleInstructions += `- Reference Styles: Replicate the aesthetic from these uploads: ${styleText}. `;
-          if (presetText) styleInstructions += `- Style Presets: Apply these artistic qualities: ${presetText}.`;
-          
-          if (styleInstructions) contextStr += `STYLE: ${styleInstructions}\n`;
-          
-          finalPrompt = `${contextStr}\nUSER REQUEST: ${config.prompt}\n\nTask: Synthesis of high-detail cinematic imagery. Aspect Ratio: ${config.aspectRatio}.`;
-          
-          referenceImages = [
-              ...activeSubjects.map(s => s.image).filter((img): img is string => !!img),
-              ...activeScenes.map(e => e.image).filter((img): img is string => !!img),
-              ...activeStyles.map(s => s.image).filter((img): img is string => !!img)
-          ];
+          finalPrompt = `${storyGuidelines(config)}\nUSER REQUEST: ${config.prompt}\n\nTask: Synthesis of high-detail cinematic imagery. Aspect Ratio: ${config.aspectRatio}.`;
+          referenceImages = storyReferences(config);
       }
 
       const newImages = await generateImage({
@@ -155,15 +148,111 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
           setBackgroundEditPrompt("");
       } else {
           setResults(newImages);
+          setView('variants');
       }
     } catch (err) {
       console.error(err);
-      alert("Synthesis failed. Ensure your prompt is descriptive and try again.");
+      alert(err instanceof Error && err.message ? `Synthesis failed: ${err.message}` : "Synthesis failed. Ensure your prompt is descriptive and try again.");
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Scenes are edited in order and renumbered 0..n-1 on every change
+  const editScenes = (update: (scenes: StoryScene[]) => StoryScene[]) =>
+    setConfig(prev => ({
+      ...prev,
+      storyScenes: update([...(prev.storyScenes || [])].sort((a, b) => a.order - b.order)).map((scene, order) => ({ ...scene, order }))
+    }));
+
+  const addScene = () => editScenes(list => list.length >= MAX_STORYBOARD_SCENES ? list : [...list, { id: `scene-${Date.now()}`, prompt: '', order: list.length }]);
+  const removeScene = (id: string) => editScenes(list => list.length > 1 ? list.filter(scene => scene.id !== id) : list);
+  const setScenePrompt = (id: string, prompt: string) => editScenes(list => list.map(scene => scene.id === id ? { ...scene, prompt } : scene));
+  const moveScene = (id: string, delta: number) => editScenes(list => {
+    const from = list.findIndex(scene => scene.id === id), to = from + delta;
+    if (from < 0 || to < 0 || to >= list.length) return list;
+    const next = [...list];
+    [next[from], next[to]] = [next[to], next[from]];
+    return next;
+  });
+
+  const sceneList = [...(config.storyScenes || [])].sort((a, b) => a.order - b.order);
+  const boardScenes = orderedScenes(config.storyScenes);
+  const frameFor = (sceneId: string) => storyboard.find(frame => frame.sceneId === sceneId);
+  // Rendered frames in the current scene order, numbered by their position on the board
+  const boardFrames = boardScenes
+    .map((scene, index) => { const frame = frameFor(scene.id); return frame && { ...frame, index }; })
+    .filter((frame): frame is StoryboardFrame => !!frame);
+
+  const handleGenerateStoryboard = async () => {
+    const scenes = orderedScenes(config.storyScenes);
+    if (scenes.length === 0) {
+      alert("Describe at least one scene to build a storyboard!");
+      return;
+    }
+    setView('storyboard');
+    setStoryboard([]);
+    setSequencing('all');
+    try {
+      const frames = await generateStoryboard(config, {}, {
+        // Frames stream in as each scene lands, so the board fills left to right
+        onFrame: (url, index) => {
+          const scene = scenes[index];
+          if (scene) setStoryboard(prev => [...prev.filter(f => f.sceneId !== scene.id), { sceneId: scene.id, index, prompt: scene.prompt.trim(), url, aspectRatio: config.aspectRatio }]);
+        },
+        onProgress: setSequenceProgress
+      });
+      setStoryboard(frames);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error && err.message ? `Storyboard failed: ${err.message}` : "Storyboard failed. Check your scenes and try again.");
+    } finally {
+      setSequencing(null);
+      setSequenceProgress("");
+    }
+  };
+
+  // Re-renders one scene, chained to the nearest earlier frame so it stays in continuity
+  const handleRegenerateScene = async (sceneId: string) => {
+    const index = boardScenes.findIndex(scene => scene.id === sceneId);
+    const previous = boardScenes.slice(0, index).reverse().map(scene => frameFor(scene.id)).find(Boolean);
+    setSequencing(sceneId);
+    try {
+      const [frame] = await generateStoryboard(config, { sceneId, previousFrame: previous?.url }, { onProgress: setSequenceProgress });
+      setStoryboard(prev => [...prev.filter(f => f.sceneId !== sceneId), frame]);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error && err.message ? `Scene failed: ${err.message}` : "Scene failed. Try again.");
+    } finally {
+      setSequencing(null);
+      setSequenceProgress("");
+    }
+  };
+
+  const handleExportStoryboard = async (format: StoryboardExportFormat) => {
+    if (boardFrames.length === 0) return;
+    setIsExporting(true);
+    try {
+      const { blob, filename } = await exportStoryboard(boardFrames, format, config.prompt.trim().slice(0, 60) || 'Storyboard');
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      setTimeout(() => {
+          document.body.removeChild(a);
+          URL.revokeObjectURL(url);
+      }, 100);
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error && err.message ? `Export failed: ${err.message}` : "Export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleTriggerUpload = (type: 'subject' | 'scene' | 'style') => {
     setUploadTarget(type);
     fileInputRef.current?.click();
@@ -253,6 +342,11 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
             </div>
             <h1 className="text-xs font-black tracking-[0.2em] uppercase">LuminaGen <span className="text-indigo-500 italic">Story</span></h1>
           </div>
+          <div className="flex items-center bg-zinc-950 border border-zinc-800 rounded-lg p-0.5">
+            {(['variants', 'storyboard'] as const).map(v => (
+              <button key={v} onClick={() => setView(v)} className={`px-3 py-1 rounded-md text-[8px] font-black uppercase tracking-widest transition-all ${view === v ? 'bg-indigo-600 text-white' : 'text-zinc-600 hover:text-white'}`}>{v}</button>
+            ))}
+          </div>
         </div>
         <button onClick={onExit} className="p-2 text-zinc-500 hover:text-white transition-all bg-zinc-800 border border-zinc-700/50 rounded-lg"><X className="w-4 h-4" /></button>
       </div>
@@ -288,6 +382,36 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
                     ))}
                 </div>
             </div>
+
+            {/* Scene Sequence */}
+            <div className="p-4 border-b border-zinc-800 space-y-3">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-[9px] font-black uppercase tracking-[0.2em] text-zinc-600">Scene Sequence</h3>
+                    <button onClick={addScene} disabled={sceneList.length >= MAX_STORYBOARD_SCENES} className="p-1 bg-indigo-600/10 text-indigo-500 rounded hover:bg-indigo-600 hover:text-white transition-all disabled:opacity-30"><Plus className="w-3 h-3" /></button>
+                </div>
+                <div className="space-y-2">
+                    {sceneList.map((scene, i) => {
+                        const position = boardScenes.indexOf(scene);
+                        return (
+                            <div key={scene.id} className="p-2 rounded-xl border bg-zinc-950 border-zinc-800 space-y-1.5 focus-within:border-indigo-600/50 transition-all">
+                                <div className="flex items-center justify-between">
+                                    <span className={`text-[8px] font-black uppercase tracking-widest ${position >= 0 ? 'text-indigo-400' : 'text-zinc-700'}`}>{position >= 0 ? `Scene ${position + 1}` : 'Empty Scene'}</span>
+                                    <div className="flex items-center gap-0.5 text-zinc-600">
+                                        <button onClick={() => moveScene(scene.id, -1)} disabled={i === 0} className="p-0.5 hover:text-white disabled:opacity-20 transition-colors" title="Move up"><ChevronUp className="w-3 h-3" /></button>
+                                        <button onClick={() => moveScene(scene.id, 1)} disabled={i === sceneList.length - 1} className="p-0.5 hover:text-white disabled:opacity-20 transition-colors" title="Move down"><ChevronDown className="w-3 h-3" /></button>
+                                        <button onClick={() => removeScene(scene.id)} disabled={sceneList.length === 1} className="p-0.5 hover:text-red-500 disabled:opacity-20 transition-colors" title="Remove scene"><Trash2 className="w-3 h-3" /></button>
+                                    </div>
+                                </div>
+                                <textarea value={scene.prompt} onChange={(e) => setScenePrompt(scene.id, e.target.value)} placeholder="What happens in this scene..." className="w-full h-14 bg-transparent text-[10px] text-white outline-none resize-none placeholder:text-zinc-700" />
+                            </div>
+                        );
+                    })}
+                </div>
+                <button onClick={handleGenerateStoryboard} disabled={isLoading || !!sequencing} className="w-full py-3 bg-indigo-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-indigo-500 shadow-xl shadow-indigo-600/10 active:scale-95 disabled:opacity-50 flex items-center justify-center gap-2">
+                    {sequencing === 'all' ? <Loader2 className="w-3 h-3 animate-spin" /> : <FilmStrip className="w-3 h-3" />} {sequencing === 'all' ? "Rendering..." : "Build Storyboard"}
+                </button>
+                <p className="text-[8px] text-zinc-700 font-bold leading-relaxed">Scenes render in order with the active pools. Each frame is passed to the next as a reference to keep characters and style consistent.</p>
+            </div>
           </div>
         )}
 
@@ -299,7 +423,7 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
             <div className="absolute inset-0 z-[60] bg-zinc-950/98 backdrop-blur-3xl p-8 flex items-center justify-center animate-in fade-in duration-300">
                 <div className="flex flex-col lg:flex-row gap-8 max-w-6xl w-full max-h-full overflow-y-auto lg:overflow-visible">
                     <div className="flex-1 flex flex-col gap-4">
-                        <div className={`relative rounded-[32px] overflow-hidden border-2 border-indigo-600/40 bg-black flex items-center justify-center shadow-[0_0_80px_rgba(79,70,229,0.1)]`} style={{ aspectRatio: editingResult.aspectRatio === AspectRatio.PORTRAIT_9_16 ? '9/16' : editingResult.aspectRatio === AspectRatio.SQUARE ? '1/1' : '16/9' }}>
+                        <div className={`relative rounded-[32px] overflow-hidden border-2 border-indigo-600/40 bg-black flex items-center justify-center shadow-[0_0_80px_rgba(79,70,229,0.1)]`} style={{ aspectRatio: aspectStyle(editingResult.aspectRatio) }}>
                             <img src={editingResult.url} className="w-full h-full object-contain" />
                         </div>
                         <p className="text-[9px] text-zinc-700 uppercase font-black tracking-widest text-center">Reference Master Visual</p>
@@ -380,10 +504,78 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
 
           {/* Results Display */}
           <div className="flex-1 overflow-y-auto p-12 custom-scrollbar">
+            {view === 'storyboard' ? (
+              <div className="max-w-6xl mx-auto w-full pb-20 space-y-6">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <h2 className="text-[9px] font-black uppercase tracking-[0.3em] text-zinc-600">Storyboard</h2>
+                    <p className="text-[10px] font-bold text-zinc-500">{sequencing ? (sequenceProgress || "Queued...") : `${boardFrames.length}/${boardScenes.length} scenes rendered`}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => handleExportStoryboard('pdf')} disabled={boardFrames.length === 0 || isExporting || !!sequencing} className="px-4 py-2.5 bg-zinc-800 border border-zinc-700 rounded-xl text-[8px] font-black uppercase tracking-widest text-zinc-300 hover:text-white hover:border-indigo-500 transition-all disabled:opacity-30 flex items-center gap-2">
+                      <BookOpen className="w-3 h-3" /> Contact Sheet
+                    </button>
+                    <button onClick={() => handleExportStoryboard('strip')} disabled={boardFrames.length === 0 || isExporting || !!sequencing} className="px-4 py-2.5 bg-zinc-800 border border-zinc-700 rounded-xl text-[8px] font-black uppercase tracking-widest text-zinc-300 hover:text-white hover:border-indigo-500 transition-all disabled:opacity-30 flex items-center gap-2">
+                      {isExporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <FilmStrip className="w-3 h-3" />} Image Strip
+                    </button>
+                  </div>
+                </div>
+
+                {boardScenes.length === 0 ? (
+                  <div className="py-24 border border-dashed border-zinc-800 rounded-[32px] flex flex-col items-center justify-center gap-3">
+                    <FilmStrip className="w-6 h-6 text-indigo-500/30" />
+                    <span className="text-[8px] font-black uppercase tracking-[0.3em] text-zinc-700">Describe scenes in the sequence panel</span>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {boardScenes.map((scene, index) => {
+                      const frame = frameFor(scene.id);
+                      const rendering = sequencing === scene.id || (sequencing === 'all' && !frame);
+                      return (
+                        <div key={scene.id} className="bg-zinc-900/60 border border-zinc-800/50 rounded-[28px] overflow-hidden shadow-2xl">
+                          <div className="group relative bg-black flex items-center justify-center" style={{ aspectRatio: aspectStyle(frame?.aspectRatio || config.aspectRatio) }}>
+                            {frame ? (
+                              <img src={frame.url} alt={`Scene ${index + 1}`} className={`w-full h-full object-contain transition-opacity ${sequencing === scene.id ? 'opacity-30' : ''}`} />
+                            ) : (
+                              <ImageIcon className="w-5 h-5 opacity-10 text-indigo-500" />
+                            )}
+                            {rendering && <div className="absolute inset-0 flex items-center justify-center"><Loader2 className="w-6 h-6 text-indigo-500 animate-spin" /></div>}
+                            {frame && !sequencing && (
+                              <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-all flex items-center justify-center gap-4 backdrop-blur-md">
+                                <button onClick={() => {
+                                  const link = document.createElement('a');
+                                  link.href = frame.url;
+                                  link.download = `lumina-storyboard-${index + 1}.png`;
+                                  link.click();
+                                }} className="w-10 h-10 bg-white text-black rounded-full flex items-center justify-center shadow-xl hover:bg-indigo-600 hover:text-white transition-all transform hover:scale-110">
+                                  <Download className="w-4 h-4" />
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                          <div className="p-4 space-y-1.5">
+                            <div className="flex items-center justify-between gap-2">
+                              <div className="flex items-center gap-2">
+                                <span className="text-[8px] font-black uppercase tracking-widest text-indigo-400">Scene {index + 1}</span>
+                                {frame && frame.prompt !== scene.prompt.trim() && <span className="px-1.5 py-0.5 bg-amber-500/10 text-amber-400 rounded text-[7px] font-black uppercase tracking-widest">Edited</span>}
+                              </div>
+                              <button onClick={() => handleRegenerateScene(scene.id)} disabled={isLoading || !!sequencing} className="p-1.5 text-zinc-600 hover:text-indigo-400 disabled:opacity-30 transition-colors" title={frame ? "Regenerate scene" : "Render scene"}>
+                                <RefreshCw className={`w-3.5 h-3.5 ${sequencing === scene.id ? 'animate-spin' : ''}`} />
+                              </button>
+                            </div>
+                            <p className="text-[10px] text-zinc-400 leading-relaxed line-clamp-3">{scene.prompt}</p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ) : (
             <div className={`grid grid-cols-1 lg:grid-cols-2 gap-10 max-w-5xl mx-auto w-full pb-20`}>
               {results.length > 0 ? (
                 results.map((img, idx) => (
-                  <div key={img.id} className={`group relative rounded-[40px] overflow-hidden bg-zinc-900 border border-zinc-800/50 shadow-2xl transition-all flex items-center justify-center`} style={{ aspectRatio: img.aspectRatio === AspectRatio.PORTRAIT_9_16 ? '9/16' : img.aspectRatio === AspectRatio.SQUARE ? '1/1' : '16/9' }}>
+                  <div key={img.id} className={`group relative rounded-[40px] overflow-hidden bg-zinc-900 border border-zinc-800/50 shadow-2xl transition-all flex items-center justify-center`} style={{ aspectRatio: aspectStyle(img.aspectRatio) }}>
                      <img src={img.url} alt="Master Output" className="w-full h-full object-contain" />
                      <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-all flex items-center justify-center gap-6 backdrop-blur-md">
                         <button onClick={() => {
@@ -406,7 +598,7 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
                 ))
               ) : (
                 Array.from({ length: config.count || 4 }).map((_, i) => (
-                  <div key={i} className={`bg-zinc-900/40 rounded-[40px] flex items-center justify-center border border-zinc-800/30 shadow-inner group relative overflow-hidden`} style={{ aspectRatio: config.aspectRatio === AspectRatio.PORTRAIT_9_16 ? '9/16' : config.aspectRatio === AspectRatio.SQUARE ? '1/1' : '16/9' }}>
+                  <div key={i} className={`bg-zinc-900/40 rounded-[40px] flex items-center justify-center border border-zinc-800/30 shadow-inner group relative overflow-hidden`} style={{ aspectRatio: aspectStyle(config.aspectRatio) }}>
                      <div className="z-10 flex flex-col items-center gap-3">
                         <div className="w-10 h-10 bg-indigo-600/5 rounded-full flex items-center justify-center border border-indigo-500/10 group-hover:scale-110 transition-all duration-500">
                           <ImageIcon className="w-5 h-5 opacity-10 text-indigo-500" />
@@ -417,6 +609,7 @@ const StoryStudio: React.FC<StoryStudioProps> = ({ config, setConfig, onExit })
                 ))
               )}
             </div>
+            )}
             
             {isLoading && !editingResult && (
               <div className="absolute inset-0 bg-zinc-950/70 backdrop-blur-xl z-[55] flex flex-col items-center justify-center gap-8">
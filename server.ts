@@ -6,9 +6,29 @@ import {
   serverEnhancePrompt,
   serverGenerate3DMesh,
   serverGenerateSpeechBase64,
+  serverGenerateDialogSpeech,
   serverGenerateFlipbook,
+  validateFlipbookConfig,
   serverGenerateImageBase64,
+  serverTranscribeAudio,
+  serverRevoiceSpeech,
+  serverTranslateCaptions,
+  resolveReferenceImages,
+  validateImageConfig,
+  serverGenerateStoryboard,
+  validateStoryboardConfig,
+  serverGenerateVideo,
+  validateVideoConfig,
+  TRANSCRIBE_MIME_TYPES,
 } from "./server/gemini";
+import { enqueueJob, getJob, getJobResult, cancelJob, subscribeToJob } from "./server/jobs";
+import { AssetNotFoundError, getAssetStore, parseAssetUrl } from "./server/assets";
+import { availableExportFormats, getExport, runVideoExport, validateVideoExport } from "./server/exports";
+import { EXPORT_3D_FORMATS, exportMesh, poseMesh, renderMeshAnimation, repairMesh } from "./server/mesh";
+import { CAPTION_EXPORT_FORMATS, exportCaptions, importCaptions, validateCaptionSegments } from "./server/captions";
+import { STORYBOARD_EXPORT_FORMATS, exportStoryboard, validateStoryboardFrames } from "./server/story";
+import { isBase64DataUrl } from "./server/media/mime";
+import { AssetQuery, CAPTION_LANGUAGES, GenerationMode, ModelType } from "./types";
 
 async function startServer() {
   const app = express();
@@ -52,36 +72,417 @@ async function startServer() {
     }
   });
 
-  app.post("/api/gemini/generateSpeech", async (req, res) => {
+  // Mesh JSON + optional pose preset and bone rotations -> posed mesh and its skeleton
+  app.post("/api/mesh/pose", (req, res) => {
+    const { mesh, pose, bones } = req.body;
     try {
-      const { prompt, voice } = req.body;
-      const base64Audio = await serverGenerateSpeechBase64(prompt, voice);
-      res.json({ dataBase64: base64Audio });
+      res.json(poseMesh(repairMesh(mesh), pose, bones));
     } catch (err: any) {
-      console.error("API Error generateSpeech:", err);
-      res.status(500).json({ error: err.message || "Failed to generate speech" });
+      res.status(400).json({ error: err.message });
     }
   });
 
-  app.post("/api/gemini/generateFlipbook", async (req, res) => {
+  // Mesh JSON + config -> keyframed turntable of the rigged mesh, saved to the library as an animation
+  app.post("/api/mesh/animate", (req, res) => {
+    const { mesh, config } = req.body;
+    let repaired;
     try {
-      const { config } = req.body;
-      const frames = await serverGenerateFlipbook(config);
-      res.json({ frames });
+      repaired = repairMesh(mesh);
+      if (repaired.faces.length === 0) throw new Error("Mesh has no valid faces to animate");
     } catch (err: any) {
-      console.error("API Error generateFlipbook:", err);
-      res.status(500).json({ error: err.message || "Failed to generate flipbook" });
+      res.status(400).json({ error: err.message });
+      return;
     }
+    const job = enqueueJob("renderAnimation", async (ctx) => {
+      const { frames, gif, duration } = await renderMeshAnimation(repaired, {
+        keyframes: config?.animationKeyframes,
+        pose: config?.modelPose,
+        bones: config?.bonePoses,
+        duration: config?.animationDuration,
+        format: config?.animationFormat,
+        quality: config?.animationQuality,
+        view: config?.modelView,
+      }, ctx);
+      // MP4 output is the frame sequence itself; the gallery's video export encodes it
+      const item = await getAssetStore().save({
+        id: `${Date.now()}-mesh-animation`,
+        type: 'animation',
+        url: gif || frames[0],
+        frames,
+        prompt: config?.prompt || '',
+        model: 'mesh-renderer',
+        timestamp: Date.now(),
+        mode: GenerationMode.MODEL_3D,
+        aspectRatio: '1:1',
+        duration,
+      });
+      return { item };
+    });
+    res.status(202).json(job);
+  });
+
+  // Mesh JSON -> OBJ+MTL zip or binary glTF download, posed first when a pose or bone rotations are given
+  app.post("/api/mesh/export", (req, res) => {
+    const { mesh, format, name, pose, bones } = req.body;
+    if (!EXPORT_3D_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Unsupported export format. Expected one of: ${EXPORT_3D_FORMATS.join(', ')}` });
+      return;
+    }
+    let file;
+    try {
+      // Clients may send edited geometry, so repair again rather than trusting it
+      const repaired = repairMesh(mesh);
+      file = exportMesh(pose || bones?.length ? poseMesh(repaired, pose, bones).mesh : repaired, format, name);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    res.setHeader("Content-Type", file.mimeType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.send(file.data);
+  });
+
+  app.post("/api/captions/export", (req, res) => {
+    const { segments, format, style, video, name } = req.body;
+    if (!CAPTION_EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Unsupported caption format. Expected one of: ${CAPTION_EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    let file;
+    try {
+      file = exportCaptions(validateCaptionSegments(segments), format, { style, video, name });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    res.setHeader("Content-Type", file.mimeType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.send(file.data);
+  });
+
+  app.post("/api/captions/import", (req, res) => {
+    const { text, filename } = req.body;
+    if (typeof text !== 'string' || !text.trim()) {
+      res.status(400).json({ error: "Send the subtitle file's text." });
+      return;
+    }
+    try {
+      res.json(importCaptions(text, filename));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  // Caption segments -> one translated track per language, with the source ids and timings
+  app.post("/api/captions/translate", (req, res) => {
+    const { segments, languages } = req.body;
+    let source;
+    try {
+      source = validateCaptionSegments(segments);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    const codes = CAPTION_LANGUAGES.map(l => l.code);
+    if (source.length === 0 || !Array.isArray(languages) || languages.length === 0 || !languages.every(l => codes.includes(l))) {
+      res.status(400).json({ error: `Send caption segments and at least one language from: ${codes.join(', ')}` });
+      return;
+    }
+    const job = enqueueJob("translateCaptions", async (ctx) => ({ tracks: await serverTranslateCaptions(source, [...new Set<string>(languages)], ctx) }));
+    res.status(202).json(job);
+  });
+
+  app.get("/api/export/formats", async (_req, res) => {
+    res.json({ formats: await availableExportFormats() });
+  });
+
+  // Frame sequences or captioned videos -> GIF, APNG or MP4, downloaded from /api/exports/:id when done
+  app.post("/api/export/video", async (req, res) => {
+    try {
+      await validateVideoExport(req.body);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    const job = enqueueJob("exportVideo", (ctx) => runVideoExport(req.body, ctx));
+    res.status(202).json(job);
+  });
+
+  app.get("/api/exports/:id", (req, res) => {
+    const file = getExport(req.params.id);
+    if (!file) {
+      res.status(404).json({ error: "Export not found or expired" });
+      return;
+    }
+    res.setHeader("Content-Type", file.mimeType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.send(file.data);
+  });
+
+  // Raw audio upload (WAV or WebM body) -> CaptionSegment[]
+  app.post("/api/gemini/transcribe", express.raw({ type: TRANSCRIBE_MIME_TYPES, limit: "50mb" }), async (req, res) => {
+    const mimeType = (req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+    if (!TRANSCRIBE_MIME_TYPES.includes(mimeType) || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(415).json({ error: "Upload a WAV or WebM audio body to transcribe" });
+      return;
+    }
+    try {
+      const segments = await serverTranscribeAudio(req.body.toString("base64"), mimeType, { wordTimings: true, diarize: true });
+      res.json({ segments });
+    } catch (err: any) {
+      console.error("API Error transcribe:", err);
+      res.status(500).json({ error: err.message || "Failed to transcribe audio" });
+    }
+  });
+
+  // Speech-to-speech takes the recording as the raw body and voice/style as query parameters
+  app.post("/api/gemini/revoice", express.raw({ type: TRANSCRIBE_MIME_TYPES, limit: "50mb" }), (req, res) => {
+    const mimeType = (req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+    if (!TRANSCRIBE_MIME_TYPES.includes(mimeType) || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(415).json({ error: "Upload a WAV or WebM recording to re-voice" });
+      return;
+    }
+    const voice = typeof req.query.voice === "string" ? req.query.voice : "zephyr";
+    const style = typeof req.query.style === "string" ? req.query.style : undefined;
+    const audioBase64 = req.body.toString("base64");
+    const job = enqueueJob("revoice", (ctx) => serverRevoiceSpeech(audioBase64, mimeType, { voice, style }, ctx));
+    res.status(202).json(job);
+  });
+
+  // Long-running generations are queued as jobs; clients poll /api/jobs/:id for completion.
+  app.post("/api/gemini/generateSpeech", (req, res) => {
+    const { prompt, voice } = req.body;
+    const job = enqueueJob("generateSpeech", async (ctx) => {
+      const base64Audio = await serverGenerateSpeechBase64(prompt, voice, ctx);
+      return { dataBase64: base64Audio };
+    });
+    res.status(202).json(job);
+  });
+
+  app.post("/api/gemini/generateDialog", (req, res) => {
+    const { turns, gapMs } = req.body;
+    if (!Array.isArray(turns) || turns.length === 0) {
+      res.status(400).json({ error: "At least one dialog turn is required" });
+      return;
+    }
+    const job = enqueueJob("generateDialog", (ctx) => serverGenerateDialogSpeech(turns, gapMs, ctx));
+    res.status(202).json(job);
+  });
+
+  app.post("/api/gemini/generateFlipbook", (req, res) => {
+    const { config } = req.body;
+    try {
+      validateFlipbookConfig(config);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    const job = enqueueJob("generateFlipbook", (ctx) => serverGenerateFlipbook(config, ctx));
+    res.status(202).json(job);
   });
 
   app.post("/api/gemini/generateImage", async (req, res) => {
+    const { config } = req.body;
+    let references;
+    try {
+      // Reject unsupported resolutions and oversized or undecodable reference sets up front instead of failing inside the job
+      validateImageConfig(config);
+      references = await resolveReferenceImages(config);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    const job = enqueueJob("generateImage", async (ctx) => {
+      const imagesBytes = await serverGenerateImageBase64(config, references, ctx);
+      return { imagesBytes };
+    });
+    res.status(202).json(job);
+  });
+
+  // Ordered story scenes -> one frame per scene, each chained to the frame before it.
+  // With sceneId, only that scene is rendered again, chained to previousFrame
+  app.post("/api/story/storyboard", (req, res) => {
+    const { config, sceneId, previousFrame } = req.body;
+    try {
+      validateStoryboardConfig(config, { sceneId });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    const job = enqueueJob("generateStoryboard", async (ctx) => ({ frames: await serverGenerateStoryboard(config, { sceneId, previousFrame }, ctx) }));
+    res.status(202).json(job);
+  });
+
+  app.post("/api/story/export", (req, res) => {
+    const { frames, format, name } = req.body;
+    if (!STORYBOARD_EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Unsupported storyboard format. Expected one of: ${STORYBOARD_EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    let file;
+    try {
+      file = exportStoryboard(validateStoryboardFrames(frames), format, name);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    res.setHeader("Content-Type", file.mimeType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.send(file.data);
+  });
+
+  app.post("/api/gemini/generateVideo", (req, res) => {
+    const { config } = req.body;
+    try {
+      validateVideoConfig(config);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    const job = enqueueJob("generateVideo", async (ctx) => {
+      const videoBase64 = await serverGenerateVideo(config, ctx);
+      // Videos are too large to round-trip as data URLs, so they go straight into the asset library
+      const item = await getAssetStore().save({
+        id: `${Date.now()}-video`,
+        type: 'video',
+        url: `data:video/mp4;base64,${videoBase64}`,
+        prompt: config.prompt,
+        model: ModelType.VEO,
+        timestamp: Date.now(),
+        mode: GenerationMode.VIDEO,
+        aspectRatio: config.aspectRatio,
+      });
+      return { item };
+    });
+    res.status(202).json(job);
+  });
+
+  // --- Job routes ---
+  app.get("/api/jobs/:id", (req, res) => {
+    const job = getJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    res.json(job);
+  });
+
+  app.get("/api/jobs/:id/result", (req, res) => {
+    const job = getJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+    } else if (job.status === 'succeeded') {
+      res.json(getJobResult(job.id));
+    } else if (job.status === 'failed') {
+      res.status(500).json({ error: job.error || "Job failed" });
+    } else {
+      res.status(409).json({ error: `Job is ${job.status}` });
+    }
+  });
+
+  // Server-Sent Events: replays past events, then streams frames/retries until a final "done" event
+  app.get("/api/jobs/:id/events", (req, res) => {
+    if (!getJob(req.params.id)) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const unsubscribe = subscribeToJob(req.params.id, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.type === 'done') res.end();
+    });
+    req.on("close", () => unsubscribe?.());
+  });
+
+  app.post("/api/jobs/:id/cancel", (req, res) => {
+    const job = cancelJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    res.json(job);
+  });
+
+  // --- Asset library routes ---
+  app.get("/api/assets", async (req, res) => {
+    try {
+      const { mode, type, offset, limit } = req.query as Record<string, string | undefined>;
+      const page = await getAssetStore().list({
+        mode: mode as AssetQuery['mode'],
+        type: type as AssetQuery['type'],
+        offset: offset ? Number(offset) : undefined,
+        limit: limit ? Number(limit) : undefined,
+      });
+      res.json(page);
+    } catch (err: any) {
+      console.error("API Error listAssets:", err);
+      res.status(500).json({ error: err.message || "Failed to list assets" });
+    }
+  });
+
+  app.post("/api/assets", async (req, res) => {
+    const { item } = req.body;
+    if (!item?.type || typeof item.url !== "string") {
+      res.status(400).json({ error: "An item with a type and url is required" });
+      return;
+    }
+    const media = [item.url, ...(Array.isArray(item.frames) ? item.frames : [])].filter(source => source !== "");
+    if (!media.every(source => typeof source === "string" && (isBase64DataUrl(source) || parseAssetUrl(source)))) {
+      res.status(400).json({ error: "Item media must be base64 data: URLs or /api/assets URLs" });
+      return;
+    }
+    try {
+      const saved = await getAssetStore().save(item);
+      res.status(201).json(saved);
+    } catch (err: any) {
+      if (err instanceof AssetNotFoundError) {
+        res.status(404).json({ error: err.message });
+        return;
+      }
+      console.error("API Error saveAsset:", err);
+      res.status(500).json({ error: err.message || "Failed to save asset" });
+    }
+  });
+
+  app.get("/api/assets/:id/meta", async (req, res) => {
+    const item = await getAssetStore().get(req.params.id);
+    if (!item) {
+      res.status(404).json({ error: "Asset not found" });
+      return;
+    }
+    res.json(item);
+  });
+
+  const sendAssetFile = async (res: express.Response, id: string, frameIndex?: number) => {
+    const file = await getAssetStore().readFile(id, frameIndex);
+    if (!file) {
+      res.status(404).json({ error: "Asset not found" });
+      return;
+    }
+    // Asset files never change once written, so browsers may cache them indefinitely
+    res.set({ "Content-Type": file.mimeType, "Cache-Control": "public, max-age=31536000, immutable" });
+    res.send(file.bytes);
+  };
+
+  app.get("/api/assets/:id", (req, res) => sendAssetFile(res, req.params.id));
+
+  app.get("/api/assets/:id/frames/:index", (req, res) => sendAssetFile(res, req.params.id, Number(req.params.index)));
+
+  app.delete("/api/assets/:id", async (req, res) => {
     try {
-      const { config } = req.body;
-      const imagesBytes = await serverGenerateImageBase64(config);
-      res.json({ imagesBytes });
+      const deleted = await getAssetStore().delete(req.params.id);
+      if (!deleted) {
+        res.status(404).json({ error: "Asset not found" });
+        return;
+      }
+      res.status(204).end();
     } catch (err: any) {
-      console.error("API Error generateImage:", err);
-      res.status(500).json({ error: err.message || "Failed to generate image" });
+      console.error("API Error deleteAsset:", err);
+      res.status(500).json({ error: err.message || "Failed to delete asset" });
     }
   });
 
@@ -0,0 +1,171 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { AssetQuery, GeneratedContent } from "../../types";
+import { decodeDataUrl, extensionForMimeType } from "../media/mime";
+import { AssetNotFoundError, AssetStore } from "./types";
+import { assetFrameUrl, assetUrl, parseAssetUrl } from "./urls";
+
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+interface StoredFileRef {
+  name: string;
+  mimeType: string;
+}
+
+// One entry in index.json: everything from GeneratedContent except the media itself
+interface AssetRecord extends Omit<GeneratedContent, 'url' | 'frames' | 'isPending'> {
+  file?: StoredFileRef;
+  frames: StoredFileRef[];
+}
+
+type RecordMeta = Omit<AssetRecord, 'id' | 'file' | 'frames'>;
+
+// Metadata copied from a saved item; anything else in the request body is dropped
+const pickMeta = ({ type, prompt, model, timestamp, mode, aspectRatio, voice, duration, segments, loopMode, loopSeamScore }: GeneratedContent): RecordMeta =>
+  ({ type, prompt, model, timestamp, mode, aspectRatio, voice, duration, segments, loopMode, loopSeamScore });
+
+const toContent = ({ file, frames, ...meta }: AssetRecord): GeneratedContent => ({
+  ...meta,
+  url: file ? assetUrl(meta.id) : '',
+  ...(frames.length ? { frames: frames.map((_, i) => assetFrameUrl(meta.id, i)) } : {}),
+});
+
+const matchesQuery = (record: AssetRecord, { mode, type }: AssetQuery) =>
+  (!mode || record.mode === mode) && (!type || record.type === type);
+
+/**
+ * Stores each asset's media under <rootDir>/<id>/ and keeps metadata in <rootDir>/index.json,
+ * newest first. Index writes are serialized and replace the file atomically; a failed write
+ * rolls the in-memory index back.
+ */
+export const createFileSystemAssetStore = (rootDir: string): AssetStore => {
+  const indexPath = path.join(rootDir, 'index.json');
+  let records: AssetRecord[] | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const loadIndex = async (): Promise<AssetRecord[]> => {
+    if (records) return records;
+    try {
+      records = JSON.parse(await fs.readFile(indexPath, 'utf8'));
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') throw err;
+      records = [];
+    }
+    return records!;
+  };
+
+  // A failed write rejects its caller but doesn't block the writes queued after it
+  const persistIndex = () => {
+    const write = writeQueue.then(async () => {
+      await fs.mkdir(rootDir, { recursive: true });
+      const tmpPath = `${indexPath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(records));
+      await fs.rename(tmpPath, indexPath);
+    });
+    writeQueue = write.catch(() => {});
+    return write;
+  };
+
+  const findRecord = async (id: string) => (await loadIndex()).find(record => record.id === id);
+
+  const readRef = async (id: string, frameIndex?: number) => {
+    const record = await findRecord(id);
+    const ref = frameIndex === undefined ? record?.file : record?.frames[frameIndex];
+    return ref && { ref, path: path.join(rootDir, id, ref.name) };
+  };
+
+  // Media is a data: URL, or an asset URL whose file is copied into the new asset
+  const writeMedia = async (dir: string, baseName: string, source: string): Promise<StoredFileRef> => {
+    const asset = parseAssetUrl(source);
+    const stored = asset && await readRef(asset.id, asset.frameIndex);
+    const { mimeType, bytes } = stored
+      ? { mimeType: stored.ref.mimeType, bytes: await fs.readFile(stored.path) }
+      : decodeDataUrl(source);
+    const name = `${baseName}.${extensionForMimeType(mimeType)}`;
+    await fs.writeFile(path.join(dir, name), bytes);
+    return { name, mimeType };
+  };
+
+  return {
+    async save(item) {
+      // Items that already live in the store come back unchanged
+      const stored = parseAssetUrl(item.url);
+      const existing = stored && stored.frameIndex === undefined && await findRecord(stored.id);
+      if (existing) return toContent(existing);
+
+      const { url, frames = [] } = item;
+      for (const source of [url, ...frames]) {
+        const asset = source ? parseAssetUrl(source) : undefined;
+        if (asset && !await readRef(asset.id, asset.frameIndex)) throw new AssetNotFoundError(source);
+      }
+      const id = randomUUID();
+      const dir = path.join(rootDir, id);
+      await fs.mkdir(dir, { recursive: true });
+
+      try {
+        const frameRefs: StoredFileRef[] = [];
+        for (const [i, frame] of frames.entries()) {
+          frameRefs.push(await writeMedia(dir, `frame-${String(i).padStart(3, '0')}`, frame));
+        }
+        // Animations use their first frame as the cover; don't store it twice
+        const file = !url ? undefined
+          : url === frames[0] ? frameRefs[0]
+          : await writeMedia(dir, 'main', url);
+
+        const record: AssetRecord = { ...pickMeta(item), id, file, frames: frameRefs };
+        const index = await loadIndex();
+        index.unshift(record);
+        try {
+          await persistIndex();
+        } catch (err) {
+          index.splice(index.indexOf(record), 1);
+          throw err;
+        }
+        return toContent(record);
+      } catch (err) {
+        await fs.rm(dir, { recursive: true, force: true });
+        throw err;
+      }
+    },
+
+    async get(id) {
+      const record = await findRecord(id);
+      return record && toContent(record);
+    },
+
+    async list(query = {}) {
+      const offset = Math.max(0, Math.floor(query.offset || 0));
+      const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.limit || DEFAULT_PAGE_SIZE)));
+      const matches = (await loadIndex()).filter(record => matchesQuery(record, query));
+      return {
+        items: matches.slice(offset, offset + limit).map(toContent),
+        total: matches.length,
+        offset,
+        limit,
+      };
+    },
+
+    async readFile(id, frameIndex) {
+      const stored = await readRef(id, frameIndex);
+      if (!stored) return undefined;
+      return { mimeType: stored.ref.mimeType, bytes: await fs.readFile(stored.path) };
+    },
+
+    async delete(id) {
+      const index = await loadIndex();
+      const position = index.findIndex(record => record.id === id);
+      if (position === -1) return false;
+      const [record] = index.splice(position, 1);
+      try {
+        await persistIndex();
+      } catch (err) {
+        index.splice(position, 0, record);
+        throw err;
+      }
+      await fs.rm(path.join(rootDir, id), { recursive: true, force: true });
+      return true;
+    },
+  };
+};
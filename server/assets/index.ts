@@ -0,0 +1,19 @@
+import path from "path";
+import { createFileSystemAssetStore } from "./filesystem";
+import { AssetStore } from "./types";
+
+export * from "./types";
+export * from "./urls";
+
+let activeStore: AssetStore | null = null;
+
+/**
+ * Returns the asset store rooted at ASSET_STORAGE_DIR (default: ./data/assets).
+ */
+export const getAssetStore = (): AssetStore => {
+  if (activeStore) return activeStore;
+  const rootDir = path.resolve(process.env.ASSET_STORAGE_DIR || path.join('data', 'assets'));
+  activeStore = createFileSystemAssetStore(rootDir);
+  console.log(`Asset storage: ${rootDir}`);
+  return activeStore;
+};
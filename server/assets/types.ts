@@ -0,0 +1,27 @@
+import { AssetPage, AssetQuery, GeneratedContent } from "../../types";
+
+export interface StoredFile {
+  mimeType: string;
+  bytes: Buffer;
+}
+
+// Thrown when a saved item points at an /api/assets URL whose asset or frame no longer exists
+export class AssetNotFoundError extends Error {
+  constructor(url: string) {
+    super(`${url} no longer exists in the asset library`);
+    this.name = 'AssetNotFoundError';
+  }
+}
+
+/**
+ * Persistent storage for generated content. Media is stored as files and exposed through
+ * /api/assets URLs, so saved items never carry data: URLs back to the client.
+ */
+export interface AssetStore {
+  save(item: GeneratedContent): Promise<GeneratedContent>;
+  get(id: string): Promise<GeneratedContent | undefined>;
+  list(query?: AssetQuery): Promise<AssetPage>;
+  // frameIndex selects an animation frame; omit it for the asset's main file
+  readFile(id: string, frameIndex?: number): Promise<StoredFile | undefined>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,12 @@
+// Stable public URLs for stored assets; served by the /api/assets routes in server.ts
+export const assetUrl = (id: string) => `/api/assets/${id}`;
+export const assetFrameUrl = (id: string, index: number) => `/api/assets/${id}/frames/${index}`;
+
+/**
+ * Extracts the asset id and optional frame index from an asset URL, or undefined for any other URL.
+ */
+export const parseAssetUrl = (url: string): { id: string; frameIndex?: number } | undefined => {
+  const match = /^\/api\/assets\/([\w-]+)(?:\/frames\/(\d+))?$/.exec(url);
+  if (!match) return undefined;
+  return { id: match[1], frameIndex: match[2] === undefined ? undefined : Number(match[2]) };
+};
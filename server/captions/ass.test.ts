@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { CaptionRenderStyle, CaptionSegment } from "../../types";
+import { captionsToAss } from "./ass";
+
+const VIDEO = { width: 1080, height: 1920 };
+
+const segments: CaptionSegment[] = [
+  { id: 'b', text: 'Second line', startTime: 2.5, endTime: 4.005 },
+  { id: 'a', text: 'Hello world', startTime: 0, endTime: 1.2345 },
+];
+
+const style: CaptionRenderStyle = { font: 'Inter', color: '#ffff00', style: 'bold', size: 'medium', position: 'bottom' };
+
+const lines = (ass: string, prefix: string) => ass.split('\n').filter(line => line.startsWith(prefix));
+
+describe("captionsToAss", () => {
+  it("sizes the script to the video", () => {
+    expect(captionsToAss(segments, style, VIDEO)).toContain('PlayResX: 1080\nPlayResY: 1920\n');
+  });
+
+  it("writes a default style with colours as &HAABBGGRR, bold and safe-zone margins", () => {
+    expect(lines(captionsToAss(segments, style, VIDEO), 'Style: ')).toEqual([
+      'Style: Default,Inter,64,&H0000FFFF,&H0000FFFF,&H00000000,&HFF000000,-1,0,0,0,100,100,0,0,1,0,0,2,54,54,384,1',
+    ]);
+  });
+
+  it("aligns top and center captions by numpad position", () => {
+    const alignment = (position: CaptionRenderStyle['position']) =>
+      lines(captionsToAss(segments, { ...style, position }, VIDEO), 'Style: Default,')[0].split(',').slice(18, 22);
+    expect(alignment('top')).toEqual(['8', '54', '54', '288']);
+    expect(alignment('center')).toEqual(['5', '54', '54', '0']);
+  });
+
+  it("writes dialogue in start-time order with centisecond times", () => {
+    expect(lines(captionsToAss(segments, style, VIDEO), 'Dialogue: ')).toEqual([
+      'Dialogue: 0,0:00:00.00,0:00:01.23,Default,,0,0,0,,Hello world',
+      'Dialogue: 0,0:00:02.50,0:00:04.01,Default,,0,0,0,,Second line',
+    ]);
+  });
+
+  it("adds entrance animation tags", () => {
+    const [dialogue] = lines(captionsToAss([{ ...segments[1], animation: 'fade' }], style, VIDEO), 'Dialogue: ');
+    expect(dialogue).toMatch(/,,\{\\fad\(\d+,\d+\)\}Hello world$/);
+  });
+
+  it("writes a style per speaker and names them on their lines", () => {
+    const spoken = [{ ...segments[0], speaker: 'b' }, { ...segments[1], speaker: 'a' }];
+    const ass = captionsToAss(spoken, { ...style, speakers: [{ id: 'a', name: 'Ana, host' }, { id: 'b', color: '#22d3ee' }] }, VIDEO);
+    expect(lines(ass, 'Style: ').map(line => line.split(',').slice(0, 4).join(','))).toEqual([
+      'Style: Default,Inter,64,&H0000FFFF',
+      'Style: Ana host,Inter,64,&H0000FFFF',
+      'Style: b,Inter,64,&H00EED322',
+    ]);
+    expect(lines(ass, 'Dialogue: ')).toEqual([
+      'Dialogue: 0,0:00:00.00,0:00:01.23,Ana host,Ana host,0,0,0,,Hello world',
+      'Dialogue: 0,0:00:02.50,0:00:04.01,b,b,0,0,0,,Second line',
+    ]);
+  });
+
+  it("keeps speaker style names apart from Default and each other", () => {
+    const spoken = [{ ...segments[0], speaker: 'b' }, { ...segments[1], speaker: 'a' }];
+    const ass = captionsToAss(spoken, { ...style, speakers: [{ id: 'a', name: 'Default' }, { id: 'b', name: 'Default' }] }, VIDEO);
+    expect(lines(ass, 'Style: ').map(line => line.split(',')[0])).toEqual(['Style: Default', 'Style: Default 2', 'Style: Default 3']);
+  });
+});
+
@@ -0,0 +1,399 @@
+import { CAPTION_COLORS, CaptionAnimation, CaptionImportWarning, CaptionPlatform, CaptionRenderStyle, CaptionSegment, CaptionSpeaker, CaptionWord } from "../../types";
+import { nearestCaptionColor, numpadPosition, ParsedCaptions, ParsedCue, parseTimestamp, splitLines } from "./cues";
+import {
+  CAPTION_FADE_MS, CAPTION_FONT_SIZES, CAPTION_POP, CAPTION_REFERENCE_SIZE, CAPTION_SAFE_ZONES, CAPTION_SLIDE_UP, CAPTION_ZOOM_IN,
+  CaptionLayout, captionFill, captionFontSize, captionLook, fillColorAt, layoutCaption, SafeZone, typewriterCharDelays,
+} from "../../shared/captions/render";
+import { resolveSpeakers, ResolvedSpeaker, speakerStyle } from "../../shared/captions/speakers";
+import { formatAssTime } from "./time";
+import { activeWordColor, BOUNCE_RISE_MS, BOUNCE_SCALE, BOUNCE_SETTLE_MS, segmentWords, splitWords } from "../../shared/captions/words";
+
+// Numpad-style alignment: bottom centre, middle centre, top centre
+const ALIGNMENT: Record<CaptionRenderStyle['position'], number> = { bottom: 2, center: 5, top: 8 };
+
+// ASS has no gradient fill, so gradients repaint the fill in this many clipped vertical strips
+const GRADIENT_STRIPS = 16;
+
+/**
+ * First and last fill colours for a caption colour: a hex value, a gradient id or a CAPTION_COLORS
+ * name. Solid colours have the same colour twice.
+ */
+export const resolveCaptionColors = (color: string): { primary: string; secondary: string } => {
+  const stops = captionFill({ color, style: 'bold' });
+  return { primary: stops[0], secondary: stops[stops.length - 1] };
+};
+
+// ASS colours are &HAABBGGRR with 00 meaning opaque
+const assColor = (hex: string, alpha = 0) => {
+  const [r, g, b] = [1, 3, 5].map(i => hex.slice(i, i + 2).toUpperCase());
+  return `&H${alpha.toString(16).padStart(2, '0').toUpperCase()}${b}${g}${r}`;
+};
+
+// Colour override value, &HBBGGRR&
+const overrideColor = (hex: string) => `&H${assColor(hex).slice(4)}&`;
+
+// Plain text with override braces neutralised and line breaks as \N
+const escapeText = (text: string) => text.replace(/\{/g, '(').replace(/\}/g, ')').replace(/\r?\n/g, '\\N');
+
+/**
+ * Override tags for a segment's entrance animation, from the same timings as the preview. Slide-up
+ * moves the caption to its layout anchor, so it needs the layout.
+ */
+const animationTags = (segment: CaptionSegment, layout: CaptionLayout): string => {
+  const scaleIn = ({ from, ms }: { from: number; ms: number }) =>
+    `\\fscx${Math.round(from * 100)}\\fscy${Math.round(from * 100)}\\t(0,${ms},\\fscx100\\fscy100)`;
+  const { x, y } = layout.anchor;
+  switch (segment.animation) {
+    case 'fade': return `\\fad(${CAPTION_FADE_MS},${CAPTION_FADE_MS})`;
+    case 'pop': return scaleIn(CAPTION_POP);
+    case 'zoom-in': return scaleIn(CAPTION_ZOOM_IN);
+    case 'slide-up': return `\\move(${x},${y + Math.round(CAPTION_SLIDE_UP.offset * layout.fontSize)},${x},${y},0,${CAPTION_SLIDE_UP.ms})\\fad(${CAPTION_SLIDE_UP.ms},0)`;
+    default: return '';
+  }
+};
+
+/**
+ * The segment's text with an override block before every word, built from the word's start and
+ * end in milliseconds from the line start. Line breaks between words are kept.
+ */
+const taggedWords = (segment: CaptionSegment, tags: (start: number, end: number) => string): string => {
+  const words = segmentWords(segment);
+  const offset = (time: number) => Math.round((time - segment.startTime) * 1000);
+  let i = 0;
+  return segment.text.trim().split(/(\s+)/).map(token => {
+    if (!token) return '';
+    if (/^\s+$/.test(token)) return token.includes('\n') ? '\\N' : ' ';
+    const word = words[i++];
+    return `{${tags(offset(word.startTime), offset(word.endTime))}}${escapeText(token)}`;
+  }).join('');
+};
+
+// Reveals word by word with word timings, otherwise one character at a time
+const typewriterText = (segment: CaptionSegment): string => {
+  if (segment.words) return taggedWords(segment, start => `\\alpha&HFF&\\t(${start},${start + 1},\\alpha&H00&)`);
+  const delays = typewriterCharDelays(segment);
+  return [...segment.text].map((ch, i) => `{\\alpha&HFF&\\t(${delays[i]},${delays[i] + 1},\\alpha&H00&)}${escapeText(ch)}`).join('');
+};
+
+// Each word fills left to right while spoken; \k covers any silence before it, in centiseconds
+const karaokeText = (segment: CaptionSegment): string => {
+  let cursor = 0;
+  return taggedWords(segment, (start, end) => {
+    const from = Math.max(cursor, Math.round(start / 10)), to = Math.max(from, Math.round(end / 10));
+    const gap = from - cursor;
+    cursor = to;
+    return `${gap > 0 ? `\\k${gap}` : ''}\\kf${to - from}`;
+  });
+};
+
+/**
+ * Line text for a segment's animation: word-by-word override blocks for the word animations,
+ * plain escaped text otherwise. Primary is the caption's fill colour.
+ */
+const animatedText = (segment: CaptionSegment, primary: string): string => {
+  switch (segment.animation) {
+    case 'typewriter': return typewriterText(segment);
+    case 'karaoke': return karaokeText(segment);
+    case 'highlight': return taggedWords(segment, (start, end) =>
+      `\\t(${start},${start + 1},\\1c${overrideColor(activeWordColor(primary))})\\t(${end},${end + 1},\\1c${overrideColor(primary)})`);
+    case 'bounce': {
+      const [peak, top, settled] = [Math.round(BOUNCE_SCALE * 100), BOUNCE_RISE_MS, BOUNCE_RISE_MS + BOUNCE_SETTLE_MS];
+      return taggedWords(segment, start =>
+        `\\t(${start},${start + top},\\fscx${peak}\\fscy${peak})\\t(${start + top},${start + settled},\\fscx100\\fscy100)`);
+    }
+    default: return escapeText(segment.text);
+  }
+};
+
+// Style and actor names can't hold commas
+const assName = (name: string) => name.replace(/\s*,\s*/g, ' ').trim();
+
+// One style name per speaker, kept apart from Default and from each other
+const speakerStyleNames = (speakers: ResolvedSpeaker[]): Map<string, string> => {
+  const names = new Map<string, string>();
+  const taken = new Set(['Default']);
+  for (const speaker of speakers) {
+    const base = assName(speaker.name) || 'Speaker';
+    let name = base;
+    for (let n = 2; taken.has(name); n++) name = `${base} ${n}`;
+    taken.add(name);
+    names.set(speaker.id, name);
+  }
+  return names;
+};
+
+/**
+ * Serializes caption segments as an ASS script sized to the video. Lines are wrapped and placed by
+ * the shared caption layout, styles carry the look (one per speaker, named after them), and
+ * per-line tags the animations. Gradient fills are drawn as an outline layer with clipped fill
+ * strips above it.
+ */
+export const captionsToAss = (segments: CaptionSegment[], style: CaptionRenderStyle, video: { width: number; height: number }): string => {
+  const look = captionLook(style);
+  const size = captionFontSize(style.size, video);
+  const px = (em: number) => Math.round(em * size * 10) / 10;
+  const { margins } = layoutCaption('', style, video);
+  const backAlpha = Math.round((1 - look.shadowOpacity) * 255);
+  const speakers = resolveSpeakers(segments, style);
+  const styleNames = speakerStyleNames(speakers);
+
+  const styleLine = (name: string, lineStyle: CaptionRenderStyle) => {
+    const fill = captionFill(lineStyle);
+    const [primary, secondary] = [fill[0], fill[fill.length - 1]];
+    const outlineColor = look.strokeColor === 'fill' ? primary : '#000000';
+    const alignment = ALIGNMENT[lineStyle.position] || ALIGNMENT.bottom;
+    const marginV = lineStyle.position === 'top' ? margins.top : lineStyle.position === 'center' ? 0 : margins.bottom;
+    return `Style: ${name},${style.font || 'Inter'},${size},${assColor(primary)},${assColor(secondary)},${assColor(outlineColor)},${assColor('#000000', backAlpha)},${look.weight >= 700 ? -1 : 0},0,0,0,100,100,0,0,1,${px(look.stroke)},${px(look.shadow)},${alignment},${margins.left},${margins.right},${marginV},1`;
+  };
+
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${video.width}`,
+    `PlayResY: ${video.height}`,
+    // Lines are already broken where the preview breaks them
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    styleLine('Default', style),
+    ...speakers.map(speaker => styleLine(styleNames.get(speaker.id)!, speakerStyle(style, speakers, speaker.id))),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = [...segments]
+    .filter(seg => seg.endTime > seg.startTime && seg.text.trim())
+    .sort((a, b) => a.startTime - b.startTime)
+    .flatMap(seg => {
+      const lineStyle = speakerStyle(style, speakers, seg.speaker);
+      const fill = captionFill(lineStyle);
+      const primary = fill[0];
+      const speaker = speakers.find(s => s.id === seg.speaker);
+      const styleName = speaker ? styleNames.get(speaker.id) : 'Default';
+      const layout = layoutCaption(seg.text, lineStyle, video);
+      const laid = { ...seg, text: layout.lines.map(line => line.join(' ')).join('\n') };
+      const animation = animationTags(laid, layout);
+      // Tags in `after` win over the animation's, as later tags do in ASS
+      const dialogue = (layer: number, color: string, before: string, after = '') => {
+        // Karaoke words start out in a translucent caption colour, so the fill reads as progress
+        const karaoke = seg.animation === 'karaoke' ? `\\2c${overrideColor(color)}\\2a&H99&` : '';
+        const tags = before + animation + karaoke + after;
+        return `Dialogue: ${layer},${formatAssTime(seg.startTime)},${formatAssTime(seg.endTime)},${styleName},${speaker ? assName(speaker.name) : ''},0,0,0,,${tags ? `{${tags}}` : ''}${animatedText(laid, color)}`;
+      };
+      const glow = look.glow ? `\\blur${px(look.glow / 2)}` : '';
+      if (fill.length === 1) return [dialogue(0, primary, glow)];
+
+      // The base layer keeps the outline, shadow and glow but no fill; the strips paint the gradient across the widest line
+      const left = layout.anchor.x - layout.width / 2, strip = layout.width / GRADIENT_STRIPS;
+      const strips = Array.from({ length: GRADIENT_STRIPS }, (_, i) => {
+        const x1 = i === 0 ? 0 : Math.round(left + i * strip), x2 = i === GRADIENT_STRIPS - 1 ? video.width : Math.round(left + (i + 1) * strip);
+        const color = fillColorAt(fill, (i + 0.5) / GRADIENT_STRIPS);
+        return dialogue(1, color, `\\bord0\\shad0\\clip(${x1},0,${x2},${video.height})\\1c${overrideColor(color)}`);
+      });
+      return [dialogue(0, primary, glow, '\\1a&HFF&\\2a&HFF&'), ...strips];
+    });
+
+  return [...header, ...events, ''].join('\n');
+};
+
+// Script resolution assumed when [Script Info] gives none, as in libass
+const DEFAULT_PLAY_RES = { width: 384, height: 288 };
+
+// Column order assumed when a section has no Format line
+const DEFAULT_STYLE_FORMAT = 'name,fontname,fontsize,primarycolour,secondarycolour,outlinecolour,backcolour,bold,italic,underline,strikeout,scalex,scaley,spacing,angle,borderstyle,outline,shadow,alignment,marginl,marginr,marginv,encoding';
+const DEFAULT_EVENT_FORMAT = 'layer,start,end,style,name,marginl,marginr,marginv,effect,text';
+
+// &HAABBGGRR (or SSA's decimal BGR) as #rrggbb
+const parseAssColor = (value = ''): string | undefined => {
+  const hex = /^&H([0-9a-f]{1,8})&?$/i.exec(value.trim());
+  const bgr = hex ? parseInt(hex[1], 16) : /^-?\d+$/.test(value.trim()) ? Number(value) : NaN;
+  if (Number.isNaN(bgr)) return undefined;
+  return '#' + [bgr & 0xff, (bgr >>> 8) & 0xff, (bgr >>> 16) & 0xff].map(c => c.toString(16).padStart(2, '0')).join('');
+};
+
+// SSA v4 alignment: 1-3 bottom, plus 4 for top and 8 for middle
+const legacyPosition = (alignment: number): CaptionRenderStyle['position'] | undefined =>
+  alignment >= 9 ? 'center' : alignment >= 5 ? 'top' : alignment >= 1 ? 'bottom' : undefined;
+
+// Picks the closest caption look from the border and shadow settings relative to the font size, mirroring CAPTION_LOOKS
+const styleLook = (fields: Record<string, string>, primary?: string): CaptionRenderStyle['style'] => {
+  const fontSize = Number(fields.fontsize) || CAPTION_FONT_SIZES.large;
+  const outline = (Number(fields.outline) || 0) / fontSize, shadow = (Number(fields.shadow) || 0) / fontSize;
+  if (outline > 0 && primary && parseAssColor(fields.outlinecolour) === primary) return 'neon';
+  if (shadow >= 0.06) return '3d';
+  if (outline > 0) return 'outline';
+  return Number(fields.bold) === 0 ? 'minimalist' : 'bold';
+};
+
+// Closest CAPTION_FONT_SIZES entry, after scaling the script's shorter side to the reference frame
+const sizeFor = (fontSize: number, playRes: { width: number; height: number }): CaptionRenderStyle['size'] => {
+  const scaled = fontSize * CAPTION_REFERENCE_SIZE / Math.min(playRes.width, playRes.height);
+  return (Object.entries(CAPTION_FONT_SIZES) as [CaptionRenderStyle['size'], number][])
+    .reduce((best, entry) => Math.abs(entry[1] - scaled) < Math.abs(best[1] - scaled) ? entry : best)[0];
+};
+
+// Safe zone whose side margins come closest to the style's
+const platformFor = (fields: Record<string, string>, playRes: { width: number; height: number }): CaptionPlatform => {
+  const left = Number(fields.marginl) / playRes.width, right = Number(fields.marginr) / playRes.width;
+  return (Object.entries(CAPTION_SAFE_ZONES) as [CaptionPlatform, SafeZone][])
+    .reduce((best, entry) => {
+      const distance = (zone: SafeZone) => Math.abs(zone.left - left) + Math.abs(zone.right - right);
+      return distance(entry[1]) < distance(best[1]) ? entry : best;
+    })[0];
+};
+
+const styleFromFields = (fields: Record<string, string>, legacy: boolean, playRes?: { width: number; height: number }): Partial<CaptionRenderStyle> => {
+  const primary = parseAssColor(fields.primarycolour);
+  const secondary = parseAssColor(fields.secondarycolour);
+  const alignment = Number(fields.alignment);
+  const position = legacy ? legacyPosition(alignment) : numpadPosition(alignment);
+  return {
+    ...(fields.fontname ? { font: fields.fontname.replace(/^@/, '') } : {}),
+    ...(Number(fields.fontsize) > 0 ? { size: sizeFor(Number(fields.fontsize), playRes || DEFAULT_PLAY_RES) } : {}),
+    ...(primary ? { color: nearestCaptionColor(primary, secondary) } : {}),
+    ...(position ? { position } : {}),
+    ...(playRes && Number(fields.marginl) >= 0 && Number(fields.marginr) >= 0 ? { platform: platformFor(fields, playRes) } : {}),
+    style: styleLook(fields, primary),
+  };
+};
+
+// Reverses animationTags and animatedText as far as the override tags allow
+const animationFromTags = (text: string): CaptionAnimation | undefined => {
+  if (/\\(?:kf|ko|k|K)\d/.test(text)) return 'karaoke';
+  if ((text.match(/\{\\t\(\d+,\d+,\\1?c&/gi) || []).length > 1) return 'highlight';
+  if ((text.match(/\{\\t\(\d+,\d+,\\fscx/gi) || []).length > 1) return 'bounce';
+  if ((text.match(/\{\\alpha&HFF&\\t\(/gi) || []).length > 1) return 'typewriter';
+  const tags = /^\{([^}]*)\}/.exec(text)?.[1] || '';
+  if (/\\move\(/.test(tags)) return 'slide-up';
+  const scale = /\\fscx(\d+)/.exec(tags);
+  if (scale && /\\t\(/.test(tags)) return Number(scale[1]) >= 60 ? 'pop' : 'zoom-in';
+  if (/\\fade?\(/.test(tags)) return 'fade';
+  return undefined;
+};
+
+const plainText = (text: string) => text.replace(/\{[^}]*\}/g, '').replace(/\\[Nn]/g, '\n').replace(/\\h/g, ' ').trim();
+
+/**
+ * Word timings from per-word override blocks: \k durations for karaoke, otherwise each word starts
+ * at its first \t and ends where the next word starts (or, for highlight, at its second \t).
+ * Undefined unless the blocks line up one to one with the line's words.
+ */
+const wordsFromTags = (text: string, animation: CaptionAnimation | undefined, startTime: number, endTime: number): CaptionWord[] | undefined => {
+  if (!animation) return undefined;
+  const words: CaptionWord[] = [];
+  let cursor = startTime;
+  for (const [, tags, body] of text.matchAll(/\{([^}]*)\}([^{]*)/g)) {
+    const word = plainText(body);
+    if (animation === 'karaoke') {
+      const durations = [...tags.matchAll(/\\(?:kf|ko|k|K)(\d+)/g)].map(m => Number(m[1]) / 100);
+      if (!durations.length) continue;
+      cursor += durations.slice(0, -1).reduce((sum, d) => sum + d, 0);
+      if (word) words.push({ text: word, startTime: cursor, endTime: cursor + durations[durations.length - 1] });
+      cursor += durations[durations.length - 1];
+      continue;
+    }
+    const times = [...tags.matchAll(/\\t\((\d+),/g)].map(m => startTime + Number(m[1]) / 1000);
+    if (!word || !times.length) continue;
+    if (words.length && animation !== 'highlight') words[words.length - 1].endTime = times[0];
+    words.push({ text: word, startTime: times[0], endTime: animation === 'highlight' && times[1] !== undefined ? times[1] : endTime });
+  }
+  return words.length && words.length === splitWords(plainText(text)).length ? words : undefined;
+};
+
+const splitFields = (value: string, format: string[]): Record<string, string> => {
+  const parts = value.split(',');
+  // The last column (Text for events) may itself contain commas
+  const values = [...parts.slice(0, format.length - 1), parts.slice(format.length - 1).join(',')];
+  return Object.fromEntries(format.map((key, i) => [key, (values[i] ?? '').trim()]));
+};
+
+/**
+ * Reads ASS and SSA scripts. The caption style comes from the most used style, and each line's
+ * position and animation from its style and override tags. The Name (actor) column is the line's
+ * speaker, coloured by the style their first line uses. Comments and non-dialogue events are skipped.
+ */
+export const parseAss = (text: string): ParsedCaptions => {
+  const cues: ParsedCue[] = [];
+  const warnings: CaptionImportWarning[] = [];
+  // Styles are read once the whole file is in, since PlayRes may come after them
+  const styles = new Map<string, { fields: Record<string, string>; legacy: boolean }>();
+  const styleUse = new Map<string, number>();
+  const speakerStyles = new Map<string, string>();
+  const playRes: { width?: number; height?: number } = {};
+  let gradientStrips = false;
+  let section = '';
+  const resolved = (name?: string) => {
+    const entry = name === undefined ? undefined : styles.get(name);
+    return entry && styleFromFields(entry.fields, entry.legacy, playRes.width && playRes.height ? { width: playRes.width, height: playRes.height } : undefined);
+  };
+  let styleFormat = DEFAULT_STYLE_FORMAT.split(','), eventFormat = DEFAULT_EVENT_FORMAT.split(',');
+
+  splitLines(text).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith(';')) return;
+    const header = /^\[(.+)\]$/.exec(line);
+    if (header) {
+      section = header[1].toLowerCase();
+      return;
+    }
+    const colon = line.indexOf(':');
+    if (colon < 0) {
+      // Embedded [Fonts] and [Graphics] data has no keys
+      if (section === 'events' || section.endsWith('styles')) warnings.push({ line: i + 1, message: "Unrecognised line; ignored" });
+      return;
+    }
+    const key = line.slice(0, colon).trim().toLowerCase(), value = line.slice(colon + 1).trim();
+    const format = () => value.split(',').map(column => column.trim().toLowerCase());
+
+    if (section === 'script info') {
+      if (key === 'playresx' && Number(value) > 0) playRes.width = Number(value);
+      if (key === 'playresy' && Number(value) > 0) playRes.height = Number(value);
+    } else if (section === 'v4+ styles' || section === 'v4 styles') {
+      if (key === 'format') styleFormat = format();
+      else if (key === 'style') {
+        const fields = splitFields(value, styleFormat);
+        styles.set(fields.name, { fields, legacy: section === 'v4 styles' });
+      }
+    } else if (section === 'events') {
+      if (key === 'format') eventFormat = format();
+      if (key !== 'dialogue') return;
+      const fields = splitFields(value, eventFormat);
+      const startTime = parseTimestamp(fields.start), endTime = parseTimestamp(fields.end);
+      if (startTime === undefined || endTime === undefined) {
+        warnings.push({ line: i + 1, message: "Unreadable start or end time; line skipped" });
+        return;
+      }
+      // Gradient fill strips repeat a line drawn on layer 0
+      if (Number(fields.layer) > 0 && /^\{[^}]*\\clip\(/.test(fields.text)) {
+        gradientStrips = true;
+        return;
+      }
+      const styleName = fields.style.replace(/^\*/, '') || 'Default';
+      if (!styles.has(styleName) && !styleUse.has(styleName)) warnings.push({ line: i + 1, message: `Unknown style "${styleName}"` });
+      styleUse.set(styleName, (styleUse.get(styleName) || 0) + 1);
+      const override = /\\an(\d)/.exec(fields.text) || /\\a(\d+)/.exec(fields.text);
+      const position = override
+        ? (override[0].startsWith('\\an') ? numpadPosition(Number(override[1])) : legacyPosition(Number(override[1])))
+        : resolved(styleName)?.position;
+      const animation = animationFromTags(fields.text);
+      const words = wordsFromTags(fields.text, animation, startTime, endTime);
+      const speaker = fields.name || undefined;
+      if (speaker && !speakerStyles.has(speaker)) speakerStyles.set(speaker, styleName);
+      cues.push({ line: i + 1, startTime, endTime, text: plainText(fields.text), animation, position, ...(words ? { words } : {}), ...(speaker ? { speaker } : {}) });
+    }
+  });
+
+  const main = [...styleUse].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const style = resolved(main) || resolved([...styles.keys()][0]) || {};
+  // Strips over a solid colour are the gradient look; a gradient colour already shows in the style's colours
+  const gradientLook = gradientStrips && !CAPTION_COLORS.some(c => c.stops && c.hex === style.color);
+  // Positions are settled per speaker once every cue is in; only colours come from the styles
+  const speakers: CaptionSpeaker[] = [...speakerStyles].map(([id, styleName]) => {
+    const color = resolved(styleName)?.color;
+    return { id, ...(color && color !== style.color ? { color } : {}) };
+  });
+  return { cues, style: { ...style, ...(gradientLook ? { style: 'gradient' as const } : {}), ...(speakers.length ? { speakers } : {}) }, warnings };
+};
@@ -0,0 +1,190 @@
+import { CAPTION_COLORS, CaptionAnimation, CaptionImportWarning, CaptionRenderStyle, CaptionSegment, CaptionWord } from "../../types";
+import { resolveWordTimings } from "../../shared/captions/words";
+
+// A cue as a parser reads it, before ordering and overlap checks
+export interface ParsedCue {
+  // 1-based line of the cue's timing line, for warnings
+  line: number;
+  startTime: number;
+  endTime: number;
+  text: string;
+  animation?: CaptionAnimation;
+  position?: CaptionRenderStyle['position'];
+  // Word timings the format carries, such as ASS karaoke tags
+  words?: CaptionWord[];
+  // Speaker label, from a WebVTT voice tag or the ASS Name column
+  speaker?: string;
+}
+
+export interface ParsedCaptions {
+  cues: ParsedCue[];
+  style: Partial<CaptionRenderStyle>;
+  warnings: CaptionImportWarning[];
+}
+
+/**
+ * Source lines with the BOM and carriage returns removed. Index i is line i + 1.
+ */
+export const splitLines = (text: string): string[] => text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+// [h:]mm:ss[.,fraction]; the fraction is a decimal, so "1,5" is 1.5 seconds
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/;
+
+/**
+ * Seconds for an SRT, WebVTT or ASS timestamp, or undefined when it doesn't parse.
+ */
+export const parseTimestamp = (value: string): number | undefined => {
+  const match = TIMESTAMP.exec(value.trim());
+  if (!match) return undefined;
+  const [, h, m, s, fraction] = match;
+  if (Number(m) > 59 || Number(s) > 59) return undefined;
+  return Number(h || 0) * 3600 + Number(m) * 60 + Number(s) + (fraction ? Number(`0.${fraction}`) : 0);
+};
+
+export interface CueBlock {
+  // Line of the timing line, or of the block's first line when it has none
+  line: number;
+  timing?: string;
+  // Lines before the timing line: an SRT index, a WebVTT identifier, or a NOTE/STYLE body
+  lead: string[];
+  text: string[];
+  // Set when the block began without the blank line that should separate it from the previous cue
+  unseparated?: boolean;
+}
+
+/**
+ * Splits SRT or WebVTT lines into blank-line separated blocks. A second timing line inside a block
+ * starts a new one, taking a bare number above it along as its index.
+ */
+export const readCueBlocks = (lines: string[]): CueBlock[] => {
+  const blocks: CueBlock[] = [];
+  let current: CueBlock | undefined;
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) {
+      current = undefined;
+      return;
+    }
+    if (line.includes('-->') && current?.timing) {
+      const index = /^\d+$/.test(current.text[current.text.length - 1] || '') ? [current.text.pop()!] : [];
+      current = { line: i + 1, timing: line, lead: index, text: [], unseparated: true };
+      blocks.push(current);
+      return;
+    }
+    if (!current) {
+      current = { line: i + 1, lead: [], text: [] };
+      blocks.push(current);
+    }
+    if (line.includes('-->')) {
+      current.timing = line;
+      current.line = i + 1;
+    } else if (current.timing) current.text.push(line);
+    else current.lead.push(line);
+  });
+  return blocks;
+};
+
+/**
+ * Start and end seconds from a "start --> end [settings]" line, plus whatever follows the end time.
+ */
+export const parseTimingLine = (line: string): { startTime: number; endTime: number; settings: string } | undefined => {
+  const match = /^(\S+)\s*-->\s*(\S+)\s*(.*)$/.exec(line);
+  if (!match) return undefined;
+  const startTime = parseTimestamp(match[1]), endTime = parseTimestamp(match[2]);
+  return startTime === undefined || endTime === undefined ? undefined : { startTime, endTime, settings: match[3] };
+};
+
+/**
+ * Caption position for an ASS numpad alignment (1-3 bottom, 4-6 middle, 7-9 top).
+ */
+export const numpadPosition = (alignment: number): CaptionRenderStyle['position'] | undefined =>
+  alignment >= 7 && alignment <= 9 ? 'top' : alignment >= 4 && alignment <= 6 ? 'center' : alignment >= 1 && alignment <= 3 ? 'bottom' : undefined;
+
+const toRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+/**
+ * The CAPTION_COLORS entry closest to a colour, as its hex (or gradient id when both stops match).
+ */
+export const nearestCaptionColor = (hex: string, secondary?: string): string => {
+  const gradient = CAPTION_COLORS.find(c => c.stops && c.stops[0] === hex.toLowerCase() && c.stops[c.stops.length - 1] === secondary?.toLowerCase());
+  if (gradient) return gradient.hex;
+  const target = toRgb(hex);
+  let best = CAPTION_COLORS[0].hex, bestDistance = Infinity;
+  for (const color of CAPTION_COLORS) {
+    if (color.stops) continue;
+    const distance = toRgb(color.hex).reduce((sum, channel, i) => sum + (channel - target[i]) ** 2, 0);
+    if (distance < bestDistance) { bestDistance = distance; best = color.hex; }
+  }
+  return best;
+};
+
+const round3 = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// Most frequent position among the cues, if any has one
+const commonPosition = (cues: ParsedCue[]): CaptionRenderStyle['position'] | undefined => {
+  const counts = new Map<CaptionRenderStyle['position'], number>();
+  for (const cue of cues) if (cue.position) counts.set(cue.position, (counts.get(cue.position) || 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * Turns parsed cues into segments: drops empty and backwards cues, sorts by start time, trims a
+ * cue that runs into the next one, and settles on the most common per-cue position. A speaker
+ * whose cues mostly sit elsewhere gets that position as an override.
+ */
+export const finalizeCues = (parsed: ParsedCaptions): { segments: CaptionSegment[]; style: Partial<CaptionRenderStyle>; warnings: CaptionImportWarning[] } => {
+  const warnings = [...parsed.warnings];
+  const cues = parsed.cues.filter(cue => {
+    if (!cue.text.trim()) {
+      warnings.push({ line: cue.line, message: "Cue has no text; skipped" });
+      return false;
+    }
+    if (cue.endTime <= cue.startTime) {
+      warnings.push({ line: cue.line, message: "Cue ends before it starts; skipped" });
+      return false;
+    }
+    return true;
+  });
+
+  if (cues.some((cue, i) => i > 0 && cue.startTime < cues[i - 1].startTime)) {
+    warnings.push({ line: cues[0]?.line ?? 1, message: "Cues are out of order; sorted by start time" });
+    cues.sort((a, b) => a.startTime - b.startTime);
+  }
+  for (let i = 1; i < cues.length; i++) {
+    const prev = cues[i - 1], cue = cues[i];
+    if (cue.startTime >= prev.endTime) continue;
+    // Trim the earlier cue when that still leaves it on screen; a cue starting at the same time is left overlapping
+    if (cue.startTime > prev.startTime) {
+      warnings.push({ line: cue.line, message: `Cue overlaps the previous one by ${round3(prev.endTime - cue.startTime)}s; previous cue shortened` });
+      prev.endTime = cue.startTime;
+    } else {
+      warnings.push({ line: cue.line, message: "Cue starts together with the previous one; both kept" });
+    }
+  }
+
+  const style = { ...parsed.style };
+  const position = commonPosition(cues);
+  if (position) style.position = position;
+  const speakerIds = [...new Set(cues.map(cue => cue.speaker).filter((id): id is string => !!id))];
+  if (speakerIds.length) {
+    style.speakers = speakerIds.map(id => {
+      const own = commonPosition(cues.filter(cue => cue.speaker === id));
+      return { ...parsed.style.speakers?.find(s => s.id === id), id, ...(own && own !== style.position ? { position: own } : {}) };
+    });
+  }
+
+  const batchId = Date.now();
+  const segments = cues.map((cue, i) => {
+    const segment: CaptionSegment = {
+      id: `seg-${batchId}-${i}`,
+      text: cue.text,
+      startTime: round3(cue.startTime),
+      endTime: round3(cue.endTime),
+      ...(cue.animation ? { animation: cue.animation } : {}),
+      ...(cue.speaker ? { speaker: cue.speaker } : {}),
+    };
+    // Trimming an overlap can cut into the words, so they are clamped to the final times
+    return cue.words ? { ...segment, words: resolveWordTimings(segment, cue.words).map(w => ({ ...w, startTime: round3(w.startTime), endTime: round3(w.endTime) })) } : segment;
+  });
+  return { segments, style, warnings: warnings.sort((a, b) => a.line - b.line) };
+};
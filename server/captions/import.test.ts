@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { CaptionRenderStyle, CaptionSegment } from "../../types";
+import { captionsToAss, parseAss } from "./ass";
+import { detectCaptionFormat, importCaptions } from "./import";
+import { captionsToSrt, parseSrt } from "./srt";
+import { captionsToVtt, parseVtt } from "./vtt";
+
+const segments: CaptionSegment[] = [
+  { id: 'a', text: 'Hello\nworld', startTime: 0, endTime: 1.25 },
+  { id: 'b', text: 'Fish & <chips>', startTime: 2.5, endTime: 4 },
+];
+
+const style: CaptionRenderStyle = { font: 'Inter', color: '#fbbf24', style: 'bold', size: 'medium', position: 'top' };
+
+const cueTimes = (cues: { startTime: number; endTime: number; text: string }[]) =>
+  cues.map(({ startTime, endTime, text }) => ({ startTime, endTime, text }));
+
+describe("detectCaptionFormat", () => {
+  it("goes by the extension, then by the content", () => {
+    expect(detectCaptionFormat('', 'clip.SSA')).toBe('ass');
+    expect(detectCaptionFormat('\uFEFFWEBVTT\n', 'clip.txt')).toBe('vtt');
+    expect(detectCaptionFormat('[Script Info]\n')).toBe('ass');
+    expect(detectCaptionFormat('{"format": "luminagen-captions"}')).toBe('json');
+    expect(detectCaptionFormat('1\n00:00:01,000 --> 00:00:02,000\nHi\n')).toBe('srt');
+  });
+});
+
+describe("parseSrt", () => {
+  it("reads back captionsToSrt output without warnings", () => {
+    const { cues, warnings } = parseSrt(captionsToSrt(segments));
+    expect(warnings).toEqual([]);
+    // SRT has no escaping, so angle brackets read as formatting tags
+    expect(cueTimes(cues)).toEqual([
+      { startTime: 0, endTime: 1.25, text: 'Hello\nworld' },
+      { startTime: 2.5, endTime: 4, text: 'Fish &' },
+    ]);
+  });
+
+  it("warns about missing numbers, missing blank lines, stray text and bad timings", () => {
+    const { cues, warnings } = parseSrt([
+      'Stray text',
+      '',
+      '00:00:01,000 --> 00:00:02,000',
+      'No number',
+      '2',
+      '00:00:03,000 --> 00:00:04,000',
+      'Unseparated',
+      '',
+      '3',
+      'soon --> 00:00:06,000',
+      'Bad timing',
+    ].join('\n'));
+    expect(warnings).toEqual([
+      { line: 1, message: "Text outside a cue; ignored" },
+      { line: 3, message: "Cue has no number" },
+      { line: 6, message: "Missing blank line before this cue" },
+      { line: 10, message: "Unreadable timing line; cue skipped" },
+    ]);
+    expect(cues.map(cue => cue.text)).toEqual(['No number', 'Unseparated']);
+  });
+
+  it("strips formatting tags and reads {\\an} positions", () => {
+    const { cues } = parseSrt('1\n00:00:01,000 --> 00:00:02,000\n{\\an8}<i>Up</i> top\n');
+    expect(cues[0]).toMatchObject({ text: 'Up top', position: 'top' });
+  });
+});
+
+describe("parseVtt", () => {
+  it("reads back captionsToVtt output, positions and style without warnings", () => {
+    const { cues, style: parsed, warnings } = parseVtt(captionsToVtt(segments, style));
+    expect(warnings).toEqual([]);
+    expect(cueTimes(cues)).toEqual([
+      { startTime: 0, endTime: 1.25, text: 'Hello\nworld' },
+      { startTime: 2.5, endTime: 4, text: 'Fish & <chips>' },
+    ]);
+    expect(cues.map(cue => cue.position)).toEqual(['top', 'top']);
+    expect(parsed).toMatchObject({ color: '#fbbf24', font: 'Inter' });
+  });
+
+  it("reads speakers from voice tags and their colours from STYLE rules", () => {
+    const spoken = [{ ...segments[0], speaker: 'Ana' }, { ...segments[1], speaker: 'Ben' }];
+    const { cues, style: parsed } = parseVtt(captionsToVtt(spoken, { ...style, color: '#ffffff' }));
+    expect(cues.map(cue => cue.speaker)).toEqual(['Ana', 'Ben']);
+    expect(parsed.speakers).toEqual([{ id: 'Ana', color: '#ffffff' }, { id: 'Ben', color: '#fbbf24' }]);
+    expect(parseVtt('WEBVTT\n\n00:00:01.000 --> 00:00:02.000\n<v.loud Cy>Hey</v>\n').cues[0]).toMatchObject({ speaker: 'Cy', text: 'Hey' });
+  });
+
+  it("warns about a missing header, unexpected text and bad timings, and skips NOTE blocks", () => {
+    const { cues, warnings } = parseVtt([
+      '00:00:01.000 --> 00:00:02.000',
+      'No header',
+      '',
+      'NOTE a comment',
+      '',
+      'Stray',
+      '',
+      'id',
+      'extra',
+      '00:00:03.000 --> 00:00:04.000',
+      'Extra lead',
+      '',
+      '00:00:05.000 --> nope',
+      'Bad timing',
+    ].join('\n'));
+    expect(warnings).toEqual([
+      { line: 1, message: "Missing WEBVTT header" },
+      { line: 6, message: "Text outside a cue; ignored" },
+      { line: 8, message: "Unexpected text before the timing line; ignored" },
+      { line: 13, message: "Unreadable timing line; cue skipped" },
+    ]);
+    expect(cues.map(cue => cue.text)).toEqual(['No header', 'Extra lead']);
+  });
+
+  it("warns when the header runs straight into a cue", () => {
+    const { cues, warnings } = parseVtt('WEBVTT\n00:00:01.000 --> 00:00:02.000\nHi\n');
+    expect(warnings).toEqual([{ line: 2, message: "Missing blank line after the WEBVTT header" }]);
+    expect(cues.map(cue => cue.text)).toEqual(['Hi']);
+  });
+});
+
+describe("parseAss", () => {
+  it("reads back captionsToAss output without warnings", () => {
+    const { cues, style: parsed, warnings } = parseAss(captionsToAss(segments, style, { width: 1080, height: 1920 }));
+    expect(warnings).toEqual([]);
+    expect(cueTimes(cues)).toEqual([
+      { startTime: 0, endTime: 1.25, text: 'Hello\nworld' },
+      { startTime: 2.5, endTime: 4, text: 'Fish & <chips>' },
+    ]);
+    expect(parsed).toMatchObject({ font: 'Inter', color: '#fbbf24', size: 'medium', position: 'top', style: 'bold' });
+  });
+
+  it("snaps style colours to the nearest caption colour", () => {
+    const { style: parsed } = parseAss(captionsToAss(segments, { ...style, color: '#ffff00' }, { width: 1080, height: 1920 }));
+    expect(parsed.color).toBe('#fbbf24');
+  });
+
+  it("warns about unknown styles, unreadable times and unrecognised lines", () => {
+    const { cues, warnings } = parseAss([
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Missing,,0,0,0,,Hi',
+      'Dialogue: 0,later,0:00:03.00,Missing,,0,0,0,,Skipped',
+      'garbage',
+      'Comment: 0,0:00:04.00,0:00:05.00,Missing,,0,0,0,,Ignored',
+    ].join('\n'));
+    expect(warnings).toEqual([
+      { line: 3, message: 'Unknown style "Missing"' },
+      { line: 4, message: "Unreadable start or end time; line skipped" },
+      { line: 5, message: "Unrecognised line; ignored" },
+    ]);
+    expect(cues.map(cue => cue.text)).toEqual(['Hi']);
+  });
+});
+
+describe("importCaptions", () => {
+  it("sorts cues, trims overlaps and skips empty or backwards cues, with warnings", () => {
+    const { format, segments: imported, warnings } = importCaptions([
+      '1', '00:00:05,000 --> 00:00:07,000', 'Late', '',
+      '2', '00:00:01,000 --> 00:00:06,000', 'Early', '',
+      '3', '00:00:08,000 --> 00:00:07,500', 'Backwards', '',
+    ].join('\n'), 'clip.srt');
+    expect(format).toBe('srt');
+    expect(imported.map(({ text, startTime, endTime }) => ({ text, startTime, endTime }))).toEqual([
+      { text: 'Early', startTime: 1, endTime: 5 },
+      { text: 'Late', startTime: 5, endTime: 7 },
+    ]);
+    expect(warnings).toEqual([
+      { line: 2, message: "Cues are out of order; sorted by start time" },
+      { line: 2, message: "Cue overlaps the previous one by 1s; previous cue shortened" },
+      { line: 10, message: "Cue ends before it starts; skipped" },
+    ]);
+  });
+
+  it("keeps each speaker's position when it differs from the rest", () => {
+    const spoken = [{ ...segments[0], speaker: 'Ana' }, { ...segments[1], speaker: 'Ben' }];
+    const vtt = captionsToVtt(spoken, { ...style, position: 'bottom', speakers: [{ id: 'Ben', position: 'top' }] });
+    const { style: imported } = importCaptions(vtt, 'clip.vtt');
+    expect(imported.speakers).toEqual([{ id: 'Ana', color: '#fbbf24' }, { id: 'Ben', color: '#3b82f6', position: 'top' }]);
+  });
+
+  it("reads ASS speakers from the Name column, coloured by their style", () => {
+    const spoken = [{ ...segments[0], speaker: 'Ana' }, { ...segments[1], speaker: 'Ben' }];
+    const { segments: imported, style: parsed } = importCaptions(captionsToAss(spoken, style, { width: 1080, height: 1920 }), 'clip.ass');
+    expect(imported.map(seg => seg.speaker)).toEqual(['Ana', 'Ben']);
+    expect(parsed.speakers).toEqual([{ id: 'Ana' }, { id: 'Ben', color: '#3b82f6' }]);
+  });
+
+  it("fails a file with no usable cues, naming the first problem", () => {
+    expect(() => importCaptions('WEBVTT\n\n00:00:01.000 --> soon\nHi\n', 'clip.vtt'))
+      .toThrow("No captions found in the VTT file (line 3: Unreadable timing line; cue skipped)");
+  });
+});
@@ -0,0 +1,40 @@
+import { CaptionExportFormat, CaptionImportResult } from "../../types";
+import { parseAss } from "./ass";
+import { finalizeCues } from "./cues";
+import { parseCaptionJson } from "./json";
+import { parseSrt } from "./srt";
+import { parseVtt } from "./vtt";
+
+/**
+ * Subtitle format from the file extension, falling back to the content for unknown extensions.
+ */
+export const detectCaptionFormat = (text: string, filename = ''): CaptionExportFormat => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'srt' || extension === 'vtt' || extension === 'ass' || extension === 'json') return extension;
+  if (extension === 'ssa') return 'ass';
+  const head = text.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('{')) return 'json';
+  if (/^\[(Script Info|V4\+? Styles|Events)\]/im.test(head)) return 'ass';
+  return 'srt';
+};
+
+/**
+ * Parses an SRT, WebVTT, ASS/SSA or caption JSON file into segments and whatever caption style it
+ * carries. Problems that don't stop the import come back as line-numbered warnings; a file with
+ * no usable cues is an error.
+ */
+export const importCaptions = (text: string, filename?: string): CaptionImportResult => {
+  const format = detectCaptionFormat(text, filename);
+  if (format === 'json') {
+    const { segments, style } = parseCaptionJson(text);
+    return { format, segments, style: style || {}, warnings: [] };
+  }
+  const parsed = format === 'vtt' ? parseVtt(text) : format === 'ass' ? parseAss(text) : parseSrt(text);
+  const { segments, style, warnings } = finalizeCues(parsed);
+  if (segments.length === 0) {
+    const first = warnings[0];
+    throw new Error(`No captions found in the ${format.toUpperCase()} file${first ? ` (line ${first.line}: ${first.message})` : ''}`);
+  }
+  return { format, segments, style, warnings };
+};
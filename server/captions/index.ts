@@ -0,0 +1,66 @@
+import { CaptionExportFormat, CaptionRenderStyle, CaptionSegment } from "../../types";
+import { safeBaseName } from "../media/mime";
+import { captionsToAss } from "./ass";
+import { captionsToJson } from "./json";
+import { captionsToSrt } from "./srt";
+import { captionsToVtt } from "./vtt";
+
+export * from "./ass";
+export * from "../../shared/captions/edit";
+export * from "./import";
+export * from "./json";
+export * from "../../shared/captions/render";
+export * from "../../shared/captions/speakers";
+export * from "./srt";
+export * from "./time";
+export * from "../../shared/captions/translate";
+export * from "./vtt";
+export * from "../../shared/captions/words";
+
+export const CAPTION_EXPORT_FORMATS: CaptionExportFormat[] = ['srt', 'vtt', 'ass', 'json'];
+
+const MIME_TYPES: Record<CaptionExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa',
+  json: 'application/json',
+};
+
+// Caption Studio previews in portrait, so a standalone ASS file is laid out for 1080x1920 unless told otherwise
+const DEFAULT_ASS_VIDEO = { width: 1080, height: 1920 };
+
+export interface CaptionExportOptions {
+  style?: CaptionRenderStyle;
+  // Frame size the ASS script is laid out for
+  video?: { width: number; height: number };
+  name?: string;
+}
+
+export const validateCaptionSegments = (segments: unknown): CaptionSegment[] => {
+  if (!Array.isArray(segments)) throw new Error("Caption segments must be a list.");
+  segments.forEach((seg, i) => {
+    if (typeof seg?.text !== 'string' || !Number.isFinite(seg.startTime) || !Number.isFinite(seg.endTime)) {
+      throw new Error(`Caption segment ${i + 1} needs text, startTime and endTime.`);
+    }
+  });
+  return segments;
+};
+
+/**
+ * Serializes caption segments for download. ASS needs a style; VTT uses one for cue placement
+ * and colour when given; SRT is plain text; JSON round-trips segments and style losslessly.
+ */
+export const exportCaptions = (segments: CaptionSegment[], format: CaptionExportFormat, options: CaptionExportOptions = {}): { data: Buffer; mimeType: string; filename: string } => {
+  let text: string;
+  switch (format) {
+    case 'srt': text = captionsToSrt(segments); break;
+    case 'vtt': text = captionsToVtt(segments, options.style); break;
+    case 'ass':
+      if (!options.style) throw new Error("ASS export needs a caption style.");
+      text = captionsToAss(segments, options.style, options.video || DEFAULT_ASS_VIDEO);
+      break;
+    case 'json': text = captionsToJson({ segments, style: options.style }); break;
+    default: throw new Error(`Unsupported caption format. Expected one of: ${CAPTION_EXPORT_FORMATS.join(', ')}`);
+  }
+  return { data: Buffer.from(text, 'utf8'), mimeType: `${MIME_TYPES[format]}; charset=utf-8`, filename: `${safeBaseName(options.name, 'captions')}.${format}` };
+};
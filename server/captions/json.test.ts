@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { CaptionRenderStyle, CaptionSegment } from "../../types";
+import { captionsToJson, parseCaptionJson } from "./json";
+
+const segments: CaptionSegment[] = [
+  { id: 'seg-2', text: 'Out of order', startTime: 3.14159, endTime: 4.2, animation: 'pop' },
+  { id: 'seg-1', text: 'Hello world', startTime: 0.1234567, endTime: 1.5, animation: 'fade' },
+];
+
+const style: CaptionRenderStyle = { font: 'Inter', color: 'gradient-sunset', style: 'neon', size: 'large', position: 'top' };
+
+describe("caption JSON", () => {
+  it("round-trips segments and style unchanged", () => {
+    expect(parseCaptionJson(captionsToJson({ segments, style }))).toEqual({ segments, style });
+  });
+
+  it("round-trips without a style", () => {
+    expect(parseCaptionJson(captionsToJson({ segments }))).toEqual({ segments });
+  });
+
+  it("reads a file with a byte order mark", () => {
+    expect(parseCaptionJson(`\uFEFF${captionsToJson({ segments })}`)).toEqual({ segments });
+  });
+
+  it("rejects other JSON and newer versions", () => {
+    expect(() => parseCaptionJson('{"segments": []}')).toThrow("not a caption export");
+    expect(() => parseCaptionJson('{"format": "luminagen-captions", "version": 2, "segments": []}')).toThrow("Unsupported caption file version 2");
+    expect(() => parseCaptionJson('not json')).toThrow("not valid JSON");
+  });
+
+  it("rejects segments missing their times", () => {
+    expect(() => parseCaptionJson('{"format": "luminagen-captions", "version": 1, "segments": [{"id": "a", "text": "Hi"}]}')).toThrow("Caption segment 1");
+  });
+});
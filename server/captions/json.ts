@@ -0,0 +1,40 @@
+import { CaptionRenderStyle, CaptionSegment } from "../../types";
+
+const FORMAT_ID = 'luminagen-captions';
+const FORMAT_VERSION = 1;
+
+export interface CaptionDocument {
+  segments: CaptionSegment[];
+  style?: CaptionRenderStyle;
+}
+
+/**
+ * Serializes segments and style exactly as they are: order, ids, animations and full-precision
+ * times all survive parseCaptionJson unchanged.
+ */
+export const captionsToJson = (document: CaptionDocument): string =>
+  JSON.stringify({ format: FORMAT_ID, version: FORMAT_VERSION, ...document }, null, 2) + '\n';
+
+/**
+ * Reads a file written by captionsToJson. Rejects other JSON and files from a newer version
+ * rather than guessing at their shape.
+ */
+export const parseCaptionJson = (text: string): CaptionDocument => {
+  let data: any;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error("Caption file is not valid JSON");
+  }
+  if (data?.format !== FORMAT_ID) throw new Error("JSON file is not a caption export");
+  if (typeof data.version !== 'number' || data.version > FORMAT_VERSION) {
+    throw new Error(`Unsupported caption file version ${data.version}`);
+  }
+  if (!Array.isArray(data.segments)) throw new Error("Caption file has no segment list");
+  data.segments.forEach((seg: any, i: number) => {
+    if (typeof seg?.id !== 'string' || typeof seg.text !== 'string' || typeof seg.startTime !== 'number' || typeof seg.endTime !== 'number') {
+      throw new Error(`Caption segment ${i + 1} is missing its id, text or times`);
+    }
+  });
+  return data.style ? { segments: data.segments, style: data.style } : { segments: data.segments };
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { CaptionSegment } from "../../types";
+import { captionsToSrt } from "./srt";
+
+const segments: CaptionSegment[] = [
+  { id: 'b', text: 'Second line', startTime: 2.5, endTime: 4 },
+  { id: 'a', text: 'Hello\n\n  world ', startTime: 0, endTime: 1.2345 },
+  { id: 'blank', text: '   ', startTime: 5, endTime: 6 },
+  { id: 'zero', text: 'Never shown', startTime: 7, endTime: 7 },
+];
+
+describe("captionsToSrt", () => {
+  it("numbers cues in start-time order and skips empty and zero-length segments", () => {
+    expect(captionsToSrt(segments)).toBe(
+      "1\n00:00:00,000 --> 00:00:01,235\nHello\nworld\n\n" +
+      "2\n00:00:02,500 --> 00:00:04,000\nSecond line\n",
+    );
+  });
+
+  it("writes nothing for an empty list", () => {
+    expect(captionsToSrt([])).toBe("");
+  });
+});
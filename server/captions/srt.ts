@@ -0,0 +1,53 @@
+import { CaptionImportWarning, CaptionSegment } from "../../types";
+import { numpadPosition, ParsedCaptions, ParsedCue, parseTimingLine, readCueBlocks, splitLines } from "./cues";
+import { formatSrtTime } from "./time";
+
+// A blank line ends an SRT cue, so multi-line text keeps only its non-empty lines
+const cueText = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).join('\n');
+
+/**
+ * Serializes caption segments as SubRip, numbered in start-time order. Empty and zero-length
+ * segments are skipped. SRT carries no styling.
+ */
+export const captionsToSrt = (segments: CaptionSegment[]): string =>
+  [...segments]
+    .filter(seg => seg.endTime > seg.startTime && seg.text.trim())
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((seg, i) => `${i + 1}\n${formatSrtTime(seg.startTime)} --> ${formatSrtTime(seg.endTime)}\n${cueText(seg.text)}\n`)
+    .join('\n');
+
+// Strips HTML-style formatting and ASS override blocks, which some tools write into SRT
+const plainText = (lines: string[]) => lines.join('\n').replace(/\{\\[^}]*\}/g, '').replace(/<\/?[a-z][^>]*>/gi, '').trim();
+
+/**
+ * Reads SubRip cues. Cue numbers are optional, and cues missing their separating blank line,
+ * unreadable timings and stray text are reported as warnings rather than failing the file.
+ * An {\anN} tag sets the cue's position.
+ */
+export const parseSrt = (text: string): ParsedCaptions => {
+  const cues: ParsedCue[] = [];
+  const warnings: CaptionImportWarning[] = [];
+  for (const block of readCueBlocks(splitLines(text))) {
+    if (!block.timing) {
+      warnings.push({ line: block.line, message: "Text outside a cue; ignored" });
+      continue;
+    }
+    if (block.unseparated) warnings.push({ line: block.line, message: "Missing blank line before this cue" });
+    if (block.lead.length === 0) warnings.push({ line: block.line, message: "Cue has no number" });
+    else if (block.lead.length > 1 || !/^\d+$/.test(block.lead[0])) warnings.push({ line: block.line - block.lead.length, message: "Unexpected text before the timing line; ignored" });
+    const timing = parseTimingLine(block.timing);
+    if (!timing) {
+      warnings.push({ line: block.line, message: "Unreadable timing line; cue skipped" });
+      continue;
+    }
+    const alignment = /\{\\an(\d)\}/.exec(block.text.join(''));
+    cues.push({
+      line: block.line,
+      startTime: timing.startTime,
+      endTime: timing.endTime,
+      text: plainText(block.text),
+      position: alignment ? numpadPosition(Number(alignment[1])) : undefined,
+    });
+  }
+  return { cues, style: {}, warnings };
+};
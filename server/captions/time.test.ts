@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { formatAssTime, formatSrtTime, formatVttTime } from "./time";
+
+describe("formatSrtTime", () => {
+  it("writes HH:MM:SS,mmm", () => {
+    expect(formatSrtTime(0)).toBe("00:00:00,000");
+    expect(formatSrtTime(3723.456)).toBe("01:02:03,456");
+  });
+
+  it("keeps counting hours past 24 and 99", () => {
+    expect(formatSrtTime(25 * 3600)).toBe("25:00:00,000");
+    expect(formatSrtTime(100 * 3600 + 1.5)).toBe("100:00:01,500");
+  });
+
+  it("rounds fractional milliseconds to the nearest one", () => {
+    expect(formatSrtTime(1.2344)).toBe("00:00:01,234");
+    expect(formatSrtTime(1.2346)).toBe("00:00:01,235");
+    // 1.0005 * 1000 lands just under 1000.5 in floating point
+    expect(formatSrtTime(1.0005)).toBe("00:00:01,001");
+  });
+
+  it("carries rounding into the next second and minute", () => {
+    expect(formatSrtTime(59.9996)).toBe("00:01:00,000");
+  });
+
+  it("clamps negative and non-finite times to zero", () => {
+    expect(formatSrtTime(-1)).toBe("00:00:00,000");
+    expect(formatSrtTime(NaN)).toBe("00:00:00,000");
+  });
+});
+
+describe("formatVttTime", () => {
+  it("always writes hours, with a dot before the milliseconds", () => {
+    expect(formatVttTime(1.5)).toBe("00:00:01.500");
+  });
+
+  it("keeps counting hours past 24", () => {
+    expect(formatVttTime(24 * 3600 + 3723.4567)).toBe("25:02:03.457");
+  });
+
+  it("rounds fractional milliseconds to the nearest one", () => {
+    expect(formatVttTime(0.0004)).toBe("00:00:00.000");
+    expect(formatVttTime(0.0005)).toBe("00:00:00.001");
+  });
+});
+
+describe("formatAssTime", () => {
+  it("writes H:MM:SS.cc with unpadded hours", () => {
+    expect(formatAssTime(3723.45)).toBe("1:02:03.45");
+    expect(formatAssTime(30 * 3600)).toBe("30:00:00.00");
+  });
+
+  it("rounds to the nearest centisecond", () => {
+    expect(formatAssTime(1.234)).toBe("0:00:01.23");
+    expect(formatAssTime(1.235)).toBe("0:00:01.24");
+    // 1.005 * 100 lands just under 100.5 in floating point
+    expect(formatAssTime(1.005)).toBe("0:00:01.01");
+  });
+
+  it("carries centisecond rounding into the next minute", () => {
+    expect(formatAssTime(59.996)).toBe("0:01:00.00");
+  });
+});
@@ -0,0 +1,35 @@
+// Float seconds often land a hair below a unit boundary (1.005 * 1000 = 1004.999…); nudge them back up
+const ROUNDING_EPSILON = 1e-7;
+
+const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+// Splits seconds into whole hours, minutes, seconds and fraction units, rounding to the nearest unit
+const splitTime = (seconds: number, unitsPerSecond: number) => {
+  const units = Number.isFinite(seconds) ? Math.max(0, Math.round(seconds * unitsPerSecond + ROUNDING_EPSILON)) : 0;
+  const whole = Math.floor(units / unitsPerSecond);
+  return { h: Math.floor(whole / 3600), m: Math.floor(whole / 60) % 60, s: whole % 60, fraction: units % unitsPerSecond };
+};
+
+/**
+ * SRT timestamp, HH:MM:SS,mmm. Hours keep counting past 99 rather than wrapping.
+ */
+export const formatSrtTime = (seconds: number): string => {
+  const { h, m, s, fraction } = splitTime(seconds, 1000);
+  return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)},${pad(fraction, 3)}`;
+};
+
+/**
+ * WebVTT timestamp, HH:MM:SS.mmm. Hours are always written so every cue lines up.
+ */
+export const formatVttTime = (seconds: number): string => {
+  const { h, m, s, fraction } = splitTime(seconds, 1000);
+  return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)}.${pad(fraction, 3)}`;
+};
+
+/**
+ * ASS timestamp, H:MM:SS.cc, rounded to the nearest centisecond.
+ */
+export const formatAssTime = (seconds: number): string => {
+  const { h, m, s, fraction } = splitTime(seconds, 100);
+  return `${h}:${pad(m, 2)}:${pad(s, 2)}.${pad(fraction, 2)}`;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { CaptionRenderStyle, CaptionSegment } from "../../types";
+import { captionsToVtt } from "./vtt";
+
+const segments: CaptionSegment[] = [
+  { id: 'b', text: 'Fish & <chips>', startTime: 2.5, endTime: 4 },
+  { id: 'a', text: 'Hello world', startTime: 0, endTime: 1.2345 },
+];
+
+const style: CaptionRenderStyle = { font: 'Inter', color: '#ffff00', style: 'bold', size: 'medium', position: 'bottom' };
+
+describe("captionsToVtt", () => {
+  it("writes plain cues with escaped text without a style", () => {
+    expect(captionsToVtt(segments)).toBe([
+      'WEBVTT', '',
+      '1', '00:00:00.000 --> 00:00:01.235', 'Hello world', '',
+      '2', '00:00:02.500 --> 00:00:04.000', 'Fish &amp; &lt;chips&gt;', '',
+    ].join('\n'));
+  });
+
+  it("writes a ::cue STYLE block for colour, font and look", () => {
+    expect(captionsToVtt(segments, style)).toContain([
+      'STYLE',
+      '::cue {',
+      '  color: #ffff00;',
+      '  font-family: "Inter", sans-serif;',
+      '  font-weight: 900;',
+      '}',
+      '',
+    ].join('\n'));
+    expect(captionsToVtt(segments, { ...style, style: 'neon' })).toContain('  text-shadow: 0 0 8px #ffff00;\n');
+  });
+
+  it("places bottom cues on the safe zone's bottom edge", () => {
+    expect(captionsToVtt(segments, style)).toContain('00:00:00.000 --> 00:00:01.235 line:80%,end position:50% size:90% align:center\n');
+  });
+
+  it("places cues inside the platform's safe zone", () => {
+    expect(captionsToVtt(segments, { ...style, position: 'top', platform: 'tiktok' }))
+      .toContain('00:00:00.000 --> 00:00:01.235 line:12%,start position:45% size:78% align:center\n');
+  });
+
+  it("places top and center cues", () => {
+    expect(captionsToVtt(segments, { ...style, position: 'top' }))
+      .toContain('00:00:00.000 --> 00:00:01.235 line:15%,start position:50% size:90% align:center\n');
+    expect(captionsToVtt(segments, { ...style, position: 'center' }))
+      .toContain('00:00:00.000 --> 00:00:01.235 line:50%,center position:50% size:90% align:center\n');
+  });
+
+  it("tags speakers' cues with voices coloured by STYLE rules", () => {
+    const spoken = [{ ...segments[0], speaker: 'Ben' }, { ...segments[1], speaker: 'Ana "A" <host>' }];
+    const vtt = captionsToVtt(spoken, style);
+    expect(vtt).toContain('\n<v Ana A host>Hello world\n');
+    expect(vtt).toContain('\n<v Ben>Fish &amp; &lt;chips&gt;\n');
+    expect(vtt).toContain([
+      '::cue(v[voice="Ana A host"]) {', '  color: #ffff00;', '}',
+      '::cue(v[voice="Ben"]) {', '  color: #fbbf24;', '}',
+    ].join('\n'));
+    expect(captionsToVtt(spoken)).toContain('\n<v Ben>Fish');
+  });
+
+  it("places a speaker's cues at their own position", () => {
+    const spoken = segments.map(seg => ({ ...seg, speaker: seg.id === 'a' ? 'Ana' : 'Ben' }));
+    const vtt = captionsToVtt(spoken, { ...style, speakers: [{ id: 'Ben', position: 'top' }] });
+    expect(vtt).toContain('00:00:00.000 --> 00:00:01.235 line:80%,end');
+    expect(vtt).toContain('00:00:02.500 --> 00:00:04.000 line:15%,start');
+  });
+});
@@ -0,0 +1,141 @@
+import { CaptionImportWarning, CaptionRenderStyle, CaptionSegment } from "../../types";
+import { resolveCaptionColors } from "./ass";
+import { CAPTION_SAFE_ZONES } from "../../shared/captions/render";
+import { resolveSpeakers, ResolvedSpeaker, speakerStyle } from "../../shared/captions/speakers";
+import { nearestCaptionColor, ParsedCaptions, ParsedCue, parseTimingLine, readCueBlocks, splitLines } from "./cues";
+import { formatVttTime } from "./time";
+
+const percent = (fraction: number) => `${Math.round(fraction * 1000) / 10}%`;
+
+// Cue box inside the platform's safe zone, on the same anchor line as burned-in captions and
+// aligned so the text grows away from the edge
+const cueSettings = (style: CaptionRenderStyle) => {
+  const zone = CAPTION_SAFE_ZONES[style.platform || 'generic'] || CAPTION_SAFE_ZONES.generic;
+  const line = style.position === 'top' ? `line:${percent(zone.top)},start`
+    : style.position === 'center' ? 'line:50%,center'
+    : `line:${percent(1 - zone.bottom)},end`;
+  const width = 1 - zone.left - zone.right;
+  return `${line} position:${percent(zone.left + width / 2)} size:${percent(width)} align:center`;
+};
+
+const escapeMarkup = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Cue text is HTML-like: escape markup characters (which also rules out a stray "-->") and drop blank lines
+const cueText = (text: string) => escapeMarkup(text).split(/\r?\n/).map(line => line.trim()).filter(Boolean).join('\n');
+
+// Voice names also sit in a CSS attribute selector, so quotes, backslashes and angle brackets are dropped
+const voiceName = (speaker: ResolvedSpeaker) => speaker.name.replace(/["\\<>]/g, '').trim() || 'Speaker';
+
+// ::cue can't clip a gradient to text, so gradients use their first stop. Each speaker's voice gets its own colour rule
+const styleBlock = (style: CaptionRenderStyle, speakers: ResolvedSpeaker[]) => {
+  const { primary } = resolveCaptionColors(style.color);
+  const rules = [
+    `color: ${primary};`,
+    `font-family: "${style.font.replace(/["\\]/g, '')}", sans-serif;`,
+    style.style === 'minimalist' ? 'font-weight: 500;' : 'font-weight: 900;',
+  ];
+  if (style.style === 'outline' || style.style === '3d') rules.push('text-shadow: 2px 2px 0 #000;');
+  if (style.style === 'neon') rules.push(`text-shadow: 0 0 8px ${primary};`);
+  const voices = speakers.flatMap(speaker => [`::cue(v[voice="${voiceName(speaker)}"]) {`, `  color: ${resolveCaptionColors(speaker.color).primary};`, '}']);
+  return ['STYLE', `::cue {`, ...rules.map(rule => `  ${rule}`), '}', ...voices, ''];
+};
+
+/**
+ * Serializes caption segments as WebVTT, with a <v> voice tag on every cue that has a speaker.
+ * With a style, the file gets a ::cue STYLE block for colour and font (per voice for speakers), and
+ * every cue carries line and alignment settings for its position.
+ */
+export const captionsToVtt = (segments: CaptionSegment[], style?: CaptionRenderStyle): string => {
+  const speakers = resolveSpeakers(segments, style || { color: '#ffffff', position: 'bottom' });
+  const cues = [...segments]
+    .filter(seg => seg.endTime > seg.startTime && seg.text.trim())
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((seg, i) => {
+      const settings = style ? ` ${cueSettings(speakerStyle(style, speakers, seg.speaker))}` : '';
+      const speaker = speakers.find(s => s.id === seg.speaker);
+      const voice = speaker ? `<v ${escapeMarkup(voiceName(speaker))}>` : '';
+      return `${i + 1}\n${formatVttTime(seg.startTime)} --> ${formatVttTime(seg.endTime)}${settings}\n${voice}${cueText(seg.text)}\n`;
+    });
+  return ['WEBVTT', '', ...(style ? styleBlock(style, speakers) : []), ...cues].join('\n');
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', nbsp: ' ', lrm: '', rlm: '', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string) => text.replace(/&(\w+);/g, (entity, name) => ENTITIES[name] ?? entity);
+
+// Drops voice, class and timestamp tags and decodes character references
+const plainText = (lines: string[]) => decodeEntities(lines.join('\n').replace(/<[^>]*>/g, '')).trim();
+
+// Annotation of the cue's first voice tag, <v Name> or <v.class Name>
+const cueVoice = (lines: string[]) => {
+  const name = /<v(?:\.[^\s>]*)?\s+([^>]+)>/.exec(lines.join('\n'))?.[1];
+  return name ? decodeEntities(name).trim() || undefined : undefined;
+};
+
+// A line: setting as a position: percentages by thirds, line numbers by sign (negative counts up from the bottom)
+const linePosition = (settings: string): CaptionRenderStyle['position'] | undefined => {
+  const match = /(?:^|\s)line:(-?\d+(?:\.\d+)?)(%?)/.exec(settings);
+  if (!match) return undefined;
+  const value = Number(match[1]);
+  if (!match[2]) return value < 0 ? 'bottom' : 'top';
+  return value < 35 ? 'top' : value > 65 ? 'bottom' : 'center';
+};
+
+// A rule's color declaration as the nearest caption colour
+const ruleColor = (rule: string): string | undefined => {
+  const color = /(?:^|[;\s])color:\s*(#[0-9a-f]{6}|#[0-9a-f]{3})\b/i.exec(rule)?.[1];
+  const hex = color?.length === 4 ? `#${[...color.slice(1)].map(c => c + c).join('')}` : color;
+  return hex ? nearestCaptionColor(hex) : undefined;
+};
+
+// Colour and font from a ::cue rule in a STYLE block, and speaker colours from ::cue(v[voice="..."]) rules
+const cueStyle = (css: string): Partial<CaptionRenderStyle> => {
+  const rule = /::cue\s*\{([^}]*)\}/.exec(css)?.[1] || '';
+  const color = ruleColor(rule);
+  const font = /font-family:\s*["']?([^"',;]+)/i.exec(rule)?.[1]?.trim();
+  const speakers = [...css.matchAll(/::cue\(\s*v\[voice="([^"]+)"\]\s*\)\s*\{([^}]*)\}/g)].flatMap(([, name, body]) => {
+    const voiceColor = ruleColor(body);
+    return voiceColor ? [{ id: decodeEntities(name).trim(), color: voiceColor }] : [];
+  });
+  return { ...(color ? { color } : {}), ...(font ? { font } : {}), ...(speakers.length ? { speakers } : {}) };
+};
+
+/**
+ * Reads WebVTT cues, taking the caption position from line settings, speakers from voice tags, and
+ * colours and font from ::cue STYLE rules. NOTE and REGION blocks are skipped; a missing header or
+ * blank line is a warning.
+ */
+export const parseVtt = (text: string): ParsedCaptions => {
+  const cues: ParsedCue[] = [];
+  const warnings: CaptionImportWarning[] = [];
+  let style: Partial<CaptionRenderStyle> = {};
+  const blocks = readCueBlocks(splitLines(text));
+  if (!blocks[0]?.lead[0]?.startsWith('WEBVTT')) warnings.push({ line: 1, message: "Missing WEBVTT header" });
+
+  blocks.forEach((block, i) => {
+    if (i === 0 && block.lead[0]?.startsWith('WEBVTT')) {
+      if (!block.timing) return;
+      warnings.push({ line: block.line, message: "Missing blank line after the WEBVTT header" });
+      block.lead = [];
+    }
+    if (!block.timing) {
+      const kind = block.lead[0].split(/\s/)[0];
+      if (kind === 'STYLE') {
+        const found = cueStyle(block.lead.slice(1).join('\n'));
+        style = { ...style, ...found, ...(style.speakers && found.speakers ? { speakers: [...style.speakers, ...found.speakers] } : {}) };
+      }
+      else if (kind !== 'NOTE' && kind !== 'REGION') warnings.push({ line: block.line, message: "Text outside a cue; ignored" });
+      return;
+    }
+    if (block.unseparated) warnings.push({ line: block.line, message: "Missing blank line before this cue" });
+    if (block.lead.length > 1) warnings.push({ line: block.line - block.lead.length, message: "Unexpected text before the timing line; ignored" });
+    const timing = parseTimingLine(block.timing);
+    if (!timing) {
+      warnings.push({ line: block.line, message: "Unreadable timing line; cue skipped" });
+      return;
+    }
+    const speaker = cueVoice(block.text);
+    cues.push({ line: block.line, startTime: timing.startTime, endTime: timing.endTime, text: plainText(block.text), position: linePosition(timing.settings), ...(speaker ? { speaker } : {}) });
+  });
+  return { cues, style, warnings };
+};
@@ -0,0 +1,225 @@
+import { randomUUID } from "crypto";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { JobEvent, VideoExportFormat, VideoExportRequest, VideoExportResult } from "../types";
+import { getAssetStore, parseAssetUrl } from "./assets";
+import { captionsToAss } from "./captions/ass";
+import { findFfmpeg, probeVideo, runFfmpeg } from "./media/ffmpeg";
+import { encodeGif } from "./media/gif";
+import { playbackOrder } from "./media/loop";
+import { decodeDataUrl, detectImageMimeType, safeBaseName } from "./media/mime";
+import { createApngEncoder, decodePng, RgbaImage } from "./media/png";
+import { fitWithin, resizeImage } from "./media/resize";
+import { nextTick } from "./util/async";
+
+export const VIDEO_EXPORT_FORMATS: VideoExportFormat[] = ['gif', 'apng', 'mp4'];
+
+const MIME_TYPES: Record<VideoExportFormat, string> = { gif: 'image/gif', apng: 'image/apng', mp4: 'video/mp4' };
+const EXTENSIONS: Record<VideoExportFormat, string> = { gif: 'gif', apng: 'png', mp4: 'mp4' };
+// GIF and APNG are for short loops; keep them small enough to share
+const MAX_SIDE: Record<VideoExportFormat, number> = { gif: 480, apng: 640, mp4: 1920 };
+// Frame rate for GIF and APNG cut from a video; MP4 keeps the source rate
+const VIDEO_CLIP_FPS = 12;
+// GIF quantizes over every frame at once, so it holds every played frame in memory. This caps
+// GIFs from frame sequences too, and clips cut from a video in either GIF or APNG
+const MAX_CLIP_FRAMES = 360;
+const MAX_SEQUENCE_FRAMES = 600;
+// Finished exports stay downloadable for as long as their jobs stay pollable
+const EXPORT_RETENTION_MS = 30 * 60 * 1000;
+
+type ExportContext = { signal?: AbortSignal; emit?: (event: JobEvent) => void };
+
+interface StoredExport {
+  data: Buffer;
+  mimeType: string;
+  filename: string;
+}
+
+const exportsById = new Map<string, StoredExport>();
+
+export const getExport = (id: string): StoredExport | undefined => exportsById.get(id);
+
+const storeExport = (file: StoredExport, frameCount?: number): VideoExportResult => {
+  const id = randomUUID();
+  exportsById.set(id, file);
+  setTimeout(() => exportsById.delete(id), EXPORT_RETENTION_MS).unref();
+  return { url: `/api/exports/${id}`, filename: file.filename, mimeType: file.mimeType, size: file.data.length, frameCount };
+};
+
+/**
+ * Formats this server can produce: GIF and APNG always, MP4 only when ffmpeg is installed.
+ */
+export const availableExportFormats = async (): Promise<VideoExportFormat[]> =>
+  (await findFfmpeg()) ? VIDEO_EXPORT_FORMATS : VIDEO_EXPORT_FORMATS.filter(format => format !== 'mp4');
+
+export const validateVideoExport = async (request: VideoExportRequest) => {
+  const { format, frames, fps, video, segments, loopMode } = request || {} as VideoExportRequest;
+  if (!VIDEO_EXPORT_FORMATS.includes(format)) {
+    throw new Error(`Unsupported export format. Expected one of: ${VIDEO_EXPORT_FORMATS.join(', ')}`);
+  }
+  const hasFrames = Array.isArray(frames) && frames.length > 0;
+  if (hasFrames === !!video) throw new Error("Send either frames or a video to export.");
+  if (hasFrames && frames.length > MAX_SEQUENCE_FRAMES) throw new Error(`Exports are limited to ${MAX_SEQUENCE_FRAMES} frames.`);
+  // Ping-pong plays the inner frames twice, so count frames as played
+  if (hasFrames && format === 'gif' && playbackOrder(frames.length, loopMode).length > MAX_CLIP_FRAMES) {
+    throw new Error(`GIF exports are limited to ${MAX_CLIP_FRAMES} played frames${loopMode === 'ping-pong' ? ', and ping-pong plays most frames twice' : ''}. Export APNG or MP4 instead.`);
+  }
+  if (fps !== undefined && !(fps > 0 && fps <= 60)) throw new Error("Frame rate must be between 0 and 60 fps.");
+  if (segments !== undefined && !Array.isArray(segments)) throw new Error("Caption segments must be a list.");
+  if ((video || format === 'mp4') && !(await findFfmpeg())) {
+    throw new Error(video ? "Exporting a captioned video needs ffmpeg on the server." : "MP4 export needs ffmpeg on the server. Try GIF or APNG.");
+  }
+};
+
+const readSource = async (url: string): Promise<Buffer> => {
+  const asset = parseAssetUrl(url);
+  if (!asset) return decodeDataUrl(url).bytes;
+  const file = await getAssetStore().readFile(asset.id, asset.frameIndex);
+  if (!file) throw new Error("Export source no longer exists in the asset library");
+  return file.bytes;
+};
+
+const loadFrame = async (url: string): Promise<RgbaImage> => {
+  const bytes = await readSource(url);
+  if (detectImageMimeType(bytes) !== 'image/png') throw new Error("Only PNG frames can be exported");
+  return decodePng(bytes);
+};
+
+const exportFilename = (name: string | undefined, format: VideoExportFormat) =>
+  `${safeBaseName(name, 'lumina-export')}.${EXTENSIONS[format]}`;
+
+const withTempDir = async <T>(run: (dir: string) => Promise<T>): Promise<T> => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'luminagen-export-'));
+  try {
+    return await run(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Encodes a frame sequence at an exact frame rate, in loop order. Frames are decoded one at a
+ * time and scaled to the first frame's size within the format's limit.
+ */
+const exportFrames = async (request: VideoExportRequest, ctx?: ExportContext): Promise<VideoExportResult> => {
+  const { format, frames = [] } = request;
+  const fps = request.fps || 10;
+  const order = playbackOrder(frames.length, request.loopMode);
+  const first = await loadFrame(frames[0]);
+  const { width, height } = fitWithin(first.width, first.height, MAX_SIDE[format], format === 'mp4');
+
+  const report = (i: number) => {
+    if (i % Math.max(1, Math.round(order.length / 10)) === 0 || i === order.length - 1) {
+      ctx?.emit?.({ type: 'progress', message: `Encoding frame ${i + 1}/${order.length}` });
+    }
+  };
+  async function* scaledFrames() {
+    for (const [i, index] of order.entries()) {
+      if (ctx?.signal?.aborted) throw new Error("Job cancelled");
+      const frame = index === 0 ? first : await loadFrame(frames[index]);
+      yield resizeImage(frame, width, height).data;
+      report(i);
+      await nextTick();
+    }
+  }
+
+  let data: Buffer;
+  if (format === 'gif') {
+    const pixels: Uint8Array[] = [];
+    for await (const rgba of scaledFrames()) pixels.push(rgba);
+    ctx?.emit?.({ type: 'progress', message: 'Building GIF palette' });
+    data = encodeGif(width, height, pixels, { delayMs: 1000 / fps });
+  } else if (format === 'apng') {
+    const encoder = createApngEncoder(width, height, { delayMs: 1000 / fps });
+    for await (const rgba of scaledFrames()) encoder.addFrame(rgba);
+    data = encoder.finish();
+  } else {
+    data = await withTempDir(async dir => {
+      const output = path.join(dir, 'output.mp4');
+      await runFfmpeg([
+        '-f', 'rawvideo', '-pix_fmt', 'rgba', '-s', `${width}x${height}`, '-r', String(fps), '-i', 'pipe:0',
+        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-pix_fmt', 'yuv420p', '-movflags', '+faststart', '-y', output,
+      ], { input: scaledFrames(), signal: ctx?.signal });
+      return readFile(output);
+    });
+  }
+  return storeExport({ data, mimeType: MIME_TYPES[format], filename: exportFilename(request.name, format) }, order.length);
+};
+
+/**
+ * Burns captions into a video with ffmpeg's subtitles filter (libass), then writes MP4 with the
+ * original audio, or decodes the result to frames for the GIF and APNG encoders.
+ */
+const exportCaptionedVideo = async (request: VideoExportRequest, ctx?: ExportContext): Promise<VideoExportResult> => {
+  const { format, segments = [], captionStyle } = request;
+  return withTempDir(async dir => {
+    const input = path.join(dir, 'input');
+    await writeFile(input, await readSource(request.video!));
+    const probe = await probeVideo(input);
+
+    const filters: string[] = [];
+    if (segments.length && captionStyle) {
+      const subtitles = path.join(dir, 'captions.ass');
+      await writeFile(subtitles, captionsToAss(segments, captionStyle, probe));
+      filters.push(`subtitles=filename=${subtitles.replace(/\\/g, '/').replace(/:/g, '\\:')}`);
+    }
+    const reportTime = (seconds: number) => {
+      if (probe.duration > 0) ctx?.emit?.({ type: 'progress', message: `Encoding ${Math.min(100, Math.round(seconds / probe.duration * 100))}%` });
+    };
+
+    if (format === 'mp4') {
+      const output = path.join(dir, 'output.mp4');
+      const size = fitWithin(probe.width, probe.height, MAX_SIDE.mp4, true);
+      filters.push(`scale=${size.width}:${size.height}`);
+      await runFfmpeg([
+        '-i', input, '-vf', filters.join(','),
+        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-pix_fmt', 'yuv420p',
+        ...(probe.hasAudio ? ['-c:a', 'aac', '-b:a', '160k'] : ['-an']),
+        '-movflags', '+faststart', '-y', output,
+      ], { signal: ctx?.signal, onTime: reportTime });
+      const data = await readFile(output);
+      return storeExport({ data, mimeType: MIME_TYPES.mp4, filename: exportFilename(request.name, 'mp4') });
+    }
+
+    const fps = request.fps || VIDEO_CLIP_FPS;
+    if (probe.duration * fps > MAX_CLIP_FRAMES) {
+      throw new Error(`Clips longer than ${Math.floor(MAX_CLIP_FRAMES / fps)}s at ${fps} fps are too long for ${format.toUpperCase()}. Export MP4 instead.`);
+    }
+    const { width, height } = fitWithin(probe.width, probe.height, MAX_SIDE[format]);
+    filters.push(`fps=${fps}`, `scale=${width}:${height}:flags=area`);
+
+    // ffmpeg writes raw RGBA; cut the stream into frames as it arrives
+    const frameBytes = width * height * 4;
+    const pixels: Uint8Array[] = [];
+    const apng = format === 'apng' ? createApngEncoder(width, height, { delayMs: 1000 / fps }) : undefined;
+    let pending = Buffer.alloc(0);
+    await runFfmpeg(['-i', input, '-vf', filters.join(','), '-an', '-f', 'rawvideo', '-pix_fmt', 'rgba', 'pipe:1'], {
+      signal: ctx?.signal,
+      onTime: reportTime,
+      onStdout: chunk => {
+        pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+        while (pending.length >= frameBytes) {
+          const frame = new Uint8Array(pending.subarray(0, frameBytes));
+          if (apng) apng.addFrame(frame);
+          else pixels.push(frame);
+          pending = pending.subarray(frameBytes);
+        }
+      },
+    });
+
+    if (apng) {
+      return storeExport({ data: apng.finish(), mimeType: MIME_TYPES.apng, filename: exportFilename(request.name, 'apng') }, apng.frameCount);
+    }
+    if (pixels.length === 0) throw new Error("The video produced no frames");
+    ctx?.emit?.({ type: 'progress', message: 'Building GIF palette' });
+    const data = encodeGif(width, height, pixels, { delayMs: 1000 / fps });
+    return storeExport({ data, mimeType: MIME_TYPES.gif, filename: exportFilename(request.name, 'gif') }, pixels.length);
+  });
+};
+
+/**
+ * Runs a validated export request and keeps the encoded file for download from /api/exports/:id.
+ */
+export const runVideoExport = (request: VideoExportRequest, ctx?: ExportContext): Promise<VideoExportResult> =>
+  request.video ? exportCaptionedVideo(request, ctx) : exportFrames(request, ctx);
@@ -1,32 +1,44 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { ModelType, GenerationConfig, MeshGeometry } from "../types";
-
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+import { Type } from "@google/genai";
+import { ModelType, GenerationConfig, MeshGeometry, RepairedMesh, JobEvent, CaptionSegment, CaptionTrack, ReferenceImage, ReferenceRole, ImageResolution, IMAGE_MODEL_RESOLUTIONS, AspectRatio, DialogTurn, FrameInterpolation, LoopMode, StoryboardFrame, VIDEO_RESOLUTIONS } from "../types";
+import { getProvider, InlineData, VIDEO_POLL_INTERVAL_MS, VideoOperation } from "./providers";
+import { getAssetStore, parseAssetUrl } from "./assets";
+import { detectImageMimeType, parseImageDataUrl } from "./media/mime";
+import { interpolateFrames } from "./media/interpolate";
+import { findQuietestPoint, pcmDurationSeconds, pcmEnergyProfile, pcmSilence, placeClipsOnTimeline } from "./media/pcm";
+import { applyLoopMode, LOOP_MODES } from "./media/loop";
+import { decodePng, encodePng, RgbaImage } from "./media/png";
+import { repairMesh } from "./mesh";
+import { resolveWordTimings } from "../shared/captions/words";
+import { batchSegments, buildTranslatedTrack, captionLanguageName } from "../shared/captions/translate";
+import { MAX_STORYBOARD_SCENES, orderedScenes, storyReferences, storyScenePrompt } from "../shared/story";
 
 /**
- * Shared Gemini client utility on the server.
- * Sets the User-Agent header to 'aistudio-build' for telemetry.
+ * Optional hooks for long-running generations: cancellation and streamed progress events.
  */
-const getGeminiClient = () => {
-  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY environment variable is not defined");
-  }
-  return new GoogleGenAI({
-    apiKey,
-    httpOptions: {
-      headers: {
-        'User-Agent': 'aistudio-build',
-      }
-    }
-  });
-};
+export interface GenerationContext {
+  signal?: AbortSignal;
+  emit?: (event: JobEvent) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new Error("Job cancelled"));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error("Job cancelled"));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
 
 /**
  * Helper to call Gemini API with aggressive exponential backoff for rate limits.
  */
-const callWithRetry = async (fn: () => Promise<any>, retries = 5, baseDelay = 5000) => {
+const callWithRetry = async (fn: () => Promise<any>, ctx?: GenerationContext, retries = 5, baseDelay = 5000) => {
   for (let i = 0; i < retries; i++) {
+    if (ctx?.signal?.aborted) throw new Error("Job cancelled");
     try {
       return await fn();
     } catch (error: any) {
@@ -42,7 +54,8 @@ const callWithRetry = async (fn: () => Promise<any>, retries = 5, baseDelay = 50
         // Longer wait for each consecutive failure
         const waitTime = baseDelay * Math.pow(2.5, i) + Math.random() * 2000;
         console.warn(`[Gemini Quota] Rate limit hit. Backing off for ${Math.round(waitTime / 1000)}s... (Attempt ${i + 1}/${retries})`);
-        await sleep(waitTime);
+        ctx?.emit?.({ type: 'retry', attempt: i + 1, retries, waitMs: Math.round(waitTime) });
+        await sleep(waitTime, ctx?.signal);
         continue;
       }
       throw error;
@@ -51,13 +64,14 @@ const callWithRetry = async (fn: () => Promise<any>, retries = 5, baseDelay = 50
 };
 
 export const serverSuggestCaption = async (prompt: string): Promise<string> => {
-  const ai = getGeminiClient();
+  const provider = getProvider();
   try {
-    const response = await callWithRetry(() => ai.models.generateContent({
+    const text = await callWithRetry(() => provider.generateText({
+      task: 'suggestCaption',
       model: 'gemini-3.5-flash',
-      contents: `Suggest a short, catchy headline (max 5 words) for: "${prompt}". Return ONLY text.`,
+      prompt: `Suggest a short, catchy headline (max 5 words) for: "${prompt}". Return ONLY text.`,
     }));
-    return response.text?.trim() || "Must Watch!";
+    return text || "Must Watch!";
   } catch (error) {
     console.error("suggestCaption failed:", error);
     return "Check this out!";
@@ -65,67 +79,414 @@ export const serverSuggestCaption = async (prompt: string): Promise<string> => {
 };
 
 export const serverEnhancePrompt = async (prompt: string): Promise<string> => {
-  const ai = getGeminiClient();
+  const provider = getProvider();
   try {
-    const response = await callWithRetry(() => ai.models.generateContent({
+    const text = await callWithRetry(() => provider.generateText({
+      task: 'enhancePrompt',
       model: 'gemini-3.5-flash',
-      contents: `Expand and enrich the following description to create a highly detailed, professional, and visually stunning generative AI image/art prompt. Keep it descriptive, elegant, and concise (exactly 1 to 2 sentences).
+      prompt: `Expand and enrich the following description to create a highly detailed, professional, and visually stunning generative AI image/art prompt. Keep it descriptive, elegant, and concise (exactly 1 to 2 sentences).
 Original input: "${prompt}"
 Enhanced prompt text only:`,
     }));
-    return response.text?.trim() || prompt;
+    return text || prompt;
   } catch (error) {
     console.error("enhancePrompt failed:", error);
     return prompt;
   }
 };
 
-export const serverGenerate3DMesh = async (prompt: string): Promise<MeshGeometry> => {
-  const ai = getGeminiClient();
-  const jsonPrompt = `Generate a low-poly 3D humanoid mesh in JSON for: "${prompt}". Return {"vertices": [[x,y,z],...], "faces": [[v1,v2,v3,"hex"],...]}`;
+export const serverGenerate3DMesh = async (prompt: string): Promise<RepairedMesh> => {
+  const provider = getProvider();
+  const jsonPrompt = `Generate a low-poly 3D humanoid mesh in JSON for: "${prompt}". Use Y-up coordinates in meters with faces wound counter-clockwise when seen from outside. Return {"vertices": [[x,y,z],...], "faces": [[v1,v2,v3,"#rrggbb"],...]}`;
   try {
-    const response = await callWithRetry(() => ai.models.generateContent({
+    const mesh = await callWithRetry(() => provider.generateJson<MeshGeometry>({
+      task: 'generate3DMesh',
       model: 'gemini-3.5-flash',
-      contents: jsonPrompt,
-      config: { responseMimeType: "application/json" }
+      prompt: jsonPrompt,
     }));
-    return JSON.parse(response.text || '{"vertices":[],"faces":[]}');
+    // Model output routinely has stray indices, quads and mixed winding
+    return repairMesh(mesh || { vertices: [], faces: [] });
   } catch (e) {
     console.error("generate3DMesh failed:", e);
-    return { vertices: [], faces: [] };
+    return repairMesh({ vertices: [], faces: [] });
+  }
+};
+
+// Audio containers the transcription route accepts from the browser
+export const TRANSCRIBE_MIME_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/webm'];
+
+const TRANSCRIPT_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      startTime: { type: Type.NUMBER },
+      endTime: { type: Type.NUMBER },
+      words: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING },
+            startTime: { type: Type.NUMBER },
+            endTime: { type: Type.NUMBER }
+          },
+          required: ["text", "startTime", "endTime"]
+        }
+      },
+      speaker: { type: Type.STRING }
+    },
+    required: ["text", "startTime", "endTime"]
+  }
+};
+
+export interface TranscribeOptions {
+  // One segment per full sentence instead of short caption-sized phrases
+  bySentence?: boolean;
+  // Ask for per-word times; segments without usable ones get syllable-weighted estimates
+  wordTimings?: boolean;
+  // Label each segment with who is speaking
+  diarize?: boolean;
+  ctx?: GenerationContext;
+}
+
+export const serverTranscribeAudio = async (audioBase64: string, mimeType: string, { bySentence, wordTimings, diarize, ctx }: TranscribeOptions = {}): Promise<CaptionSegment[]> => {
+  const provider = getProvider();
+  try {
+    const data = await callWithRetry(() => provider.generateJson<{ text: string; startTime: number; endTime: number; words?: unknown; speaker?: unknown }[]>({
+      task: 'transcribeAudio',
+      model: 'gemini-3-flash-preview',
+      prompt: (bySentence
+        ? "Analyze this audio. Transcribe the speech with one segment per sentence and precise start and end times in seconds. Format: JSON array of {'text', 'startTime', 'endTime'}."
+        : "Analyze this audio. Transcribe speech into segments. Format: JSON array of {'text', 'startTime', 'endTime'}.")
+        + (wordTimings ? " Also give each segment a 'words' array with every word of its text, in order, as {'text', 'startTime', 'endTime'} in seconds." : "")
+        + (diarize ? " Give each segment a 'speaker' label such as 'Speaker 1' or 'Speaker 2', the same label every time the same person speaks, and start a new segment whenever the speaker changes." : ""),
+      // WAV aliases (audio/x-wav, audio/wave) are normalised for the model
+      media: [{ mimeType: mimeType === 'audio/webm' ? 'audio/webm' : 'audio/wav', data: audioBase64 }],
+      schema: TRANSCRIPT_SCHEMA,
+      signal: ctx?.signal
+    }), ctx);
+    const batchId = Date.now();
+    return (data || []).map((item, i) => ({
+      id: `seg-${batchId}-${i}`,
+      text: item.text,
+      startTime: item.startTime,
+      endTime: item.endTime,
+      ...(wordTimings ? { words: resolveWordTimings(item, item.words) } : {}),
+      ...(diarize && typeof item.speaker === 'string' && item.speaker.trim() ? { speaker: item.speaker.trim() } : {})
+    }));
+  } catch (error: any) {
+    console.error("transcribeAudio failed:", error);
+    throw error;
+  }
+};
+
+const TRANSLATION_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      text: { type: Type.STRING }
+    },
+    required: ["id", "text"]
+  }
+};
+
+/**
+ * Translates caption segments into each language, one prompt per batch of segments. Tracks keep
+ * the source ids and timings, with lines rewrapped for the new language.
+ */
+export const serverTranslateCaptions = async (segments: CaptionSegment[], languages: string[], ctx?: GenerationContext): Promise<CaptionTrack[]> => {
+  const provider = getProvider();
+  const batches = batchSegments(segments);
+  const tracks: CaptionTrack[] = [];
+  for (const language of languages) {
+    const name = captionLanguageName(language);
+    const translations: { id: string; text: string }[] = [];
+    for (const [i, batch] of batches.entries()) {
+      ctx?.emit?.({ type: 'progress', message: batches.length > 1 ? `Translating into ${name} (${i + 1}/${batches.length})` : `Translating into ${name}` });
+      if ((tracks.length || i) && provider.cooldownMs > 0) await sleep(provider.cooldownMs, ctx?.signal);
+      // Line breaks are dropped so each caption reads as one sentence; the track is rewrapped afterwards
+      const captions = batch.map(seg => ({ id: seg.id, text: seg.text.replace(/\s*\n\s*/g, ' ').trim() }));
+      const result = await callWithRetry(() => provider.generateJson<{ id: string; text: string }[]>({
+        task: 'translateCaptions',
+        model: 'gemini-3-flash-preview',
+        prompt: `Translate these video captions into ${name} (${language}). Return one {'id', 'text'} object per caption with its id unchanged, in the same order. Never merge or split captions, and keep each translation close to its original length so it can be read in the same time. Keep names, numbers and hashtags as they are.\nCAPTIONS:\n${JSON.stringify(captions)}`,
+        schema: TRANSLATION_SCHEMA,
+        signal: ctx?.signal
+      }), ctx);
+      if (Array.isArray(result)) translations.push(...result);
+    }
+    const track = buildTranslatedTrack(segments, translations, language);
+    if (track.untranslated) console.warn(`translateCaptions left ${track.untranslated.length} segment(s) untranslated in ${language}`);
+    tracks.push(track);
   }
+  return tracks;
 };
 
-export const serverGenerateSpeechBase64 = async (prompt: string, voice: string = 'zephyr'): Promise<string> => {
-  const ai = getGeminiClient();
+export const serverGenerateSpeechBase64 = async (prompt: string, voice: string = 'zephyr', ctx?: GenerationContext): Promise<string> => {
+  const provider = getProvider();
   try {
-    const response = await callWithRetry(() => ai.models.generateContent({
+    return await callWithRetry(() => provider.generateSpeech({
+      task: 'generateSpeech',
       // TTS Preview model matching previous client setup
       model: 'gemini-3.1-flash-tts-preview',
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice || 'zephyr' } } },
-      },
-    }));
-    const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!data) throw new Error("No audio returned from Gemini Speech API");
-    return data;
+      text: prompt,
+      voice: voice || 'zephyr',
+      signal: ctx?.signal,
+    }), ctx);
   } catch (error: any) {
     console.error("generateSpeech failed:", error);
     throw error;
   }
 };
 
-export const serverGenerateFlipbook = async (config: GenerationConfig): Promise<string[]> => {
-  const ai = getGeminiClient();
+const DEFAULT_DIALOG_GAP_MS = 350;
+const MAX_DIALOG_GAP_MS = 5000;
+// How far either side of the text-length estimate to look for the pause between two turns
+const TURN_BOUNDARY_SEARCH_SECONDS = 1.5;
+
+export interface DialogSpeechResult {
+  // Raw base64 16-bit mono PCM at 24kHz
+  dataBase64: string;
+  // One caption segment per turn, timed against the returned audio
+  segments: CaptionSegment[];
+}
+
+const turnSegmentId = (turn: DialogTurn) => `turn-${turn.id}`;
+
+// Turns are scripted and captioned under their voice's name, e.g. 'Zephyr'
+const voiceSpeaker = (voice: string = 'zephyr') => voice.charAt(0).toUpperCase() + voice.slice(1);
+
+/**
+ * Places turn boundaries in a single multi-speaker render: estimate each one from the
+ * share of text spoken so far, then snap it to the quietest nearby pause.
+ */
+const estimateTurnTimings = (pcm: Buffer, turns: DialogTurn[]): CaptionSegment[] => {
+  const total = pcmDurationSeconds(pcm);
+  const profile = pcmEnergyProfile(pcm);
+  const totalChars = turns.reduce((sum, turn) => sum + turn.text.length, 0) || 1;
+
+  const boundaries = [0];
+  let spokenChars = 0;
+  turns.slice(0, -1).forEach(turn => {
+    spokenChars += turn.text.length;
+    const estimate = total * spokenChars / totalChars;
+    const from = Math.max(boundaries[boundaries.length - 1] + 0.1, estimate - TURN_BOUNDARY_SEARCH_SECONDS);
+    boundaries.push(findQuietestPoint(profile, from, Math.min(total, estimate + TURN_BOUNDARY_SEARCH_SECONDS), estimate));
+  });
+  boundaries.push(total);
+
+  return turns.map((turn, i) => ({
+    id: turnSegmentId(turn),
+    text: turn.text,
+    startTime: Number(boundaries[i].toFixed(2)),
+    endTime: Number(boundaries[i + 1].toFixed(2)),
+    speaker: voiceSpeaker(turn.voice),
+  }));
+};
+
+/**
+ * Voices a list of dialog turns. Two-voice dialogs use a single multi-speaker render; anything
+ * else (or a failed multi-speaker call) is voiced turn by turn and joined with gapMs of silence.
+ */
+export const serverGenerateDialogSpeech = async (
+  turns: DialogTurn[],
+  gapMs: number = DEFAULT_DIALOG_GAP_MS,
+  ctx?: GenerationContext
+): Promise<DialogSpeechResult> => {
+  const provider = getProvider();
+  const spoken = turns.filter(turn => turn.text?.trim());
+  if (spoken.length === 0) throw new Error("Add at least one dialog line to voice.");
+  const gap = Math.max(0, Math.min(MAX_DIALOG_GAP_MS, Number(gapMs) || 0));
+
+  const voices = [...new Set(spoken.map(turn => turn.voice || 'zephyr'))];
+  if (voices.length === 2) {
+    // Speaker names must match the script labels; the voice name keeps them distinct
+    const speakers = voices.map(voice => ({ name: voiceSpeaker(voice), voice }));
+    try {
+      ctx?.emit?.({ type: 'progress', message: `Voicing ${spoken.length} turns with two speakers` });
+      const data: string = await callWithRetry(() => provider.generateDialogSpeech({
+        task: 'generateDialogSpeech',
+        model: 'gemini-3.1-flash-tts-preview',
+        script: spoken.map(turn => `${voiceSpeaker(turn.voice)}: ${turn.text.trim()}`).join('\n'),
+        speakers,
+        signal: ctx?.signal,
+      }), ctx);
+      return { dataBase64: data, segments: estimateTurnTimings(Buffer.from(data, 'base64'), spoken) };
+    } catch (error: any) {
+      if (ctx?.signal?.aborted) throw error;
+      console.warn("Multi-speaker speech failed, voicing turns individually:", error?.message || error);
+    }
+  }
+
+  const clips: Buffer[] = [];
+  const segments: CaptionSegment[] = [];
+  let offset = 0;
+  for (const [i, turn] of spoken.entries()) {
+    ctx?.emit?.({ type: 'progress', message: `Voicing turn ${i + 1}/${spoken.length}` });
+    if (i > 0) {
+      clips.push(pcmSilence(gap));
+      offset += gap / 1000;
+      if (provider.cooldownMs > 0) await sleep(provider.cooldownMs, ctx?.signal);
+    }
+    const clip = Buffer.from(await serverGenerateSpeechBase64(turn.text.trim(), turn.voice, ctx), 'base64');
+    const duration = pcmDurationSeconds(clip);
+    clips.push(clip);
+    segments.push({
+      id: turnSegmentId(turn),
+      text: turn.text.trim(),
+      startTime: Number(offset.toFixed(2)),
+      endTime: Number((offset + duration).toFixed(2)),
+      speaker: voiceSpeaker(turn.voice),
+    });
+    offset += duration;
+  }
+  return { dataBase64: Buffer.concat(clips).toString('base64'), segments };
+};
+
+const REWRITE_SCHEMA = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+/**
+ * Restyles each line while keeping the line count, so rewritten lines still map onto the
+ * original sentence slots. Falls back to the original lines if the model changes the count.
+ */
+const rewriteScriptLines = async (lines: string[], style: string, ctx?: GenerationContext): Promise<string[]> => {
+  const provider = getProvider();
+  const rewritten = await callWithRetry(() => provider.generateJson<string[]>({
+    task: 'rewriteScript',
+    model: 'gemini-3-flash-preview',
+    prompt: `Rewrite each line of this voiceover script following the style instruction. Return exactly ${lines.length} lines in the same order, each close to its original length so it fits the same time slot.\nSTYLE: ${style}\nLINES:\n${JSON.stringify(lines)}`,
+    schema: REWRITE_SCHEMA,
+    signal: ctx?.signal
+  }), ctx);
+  if (!Array.isArray(rewritten) || rewritten.length !== lines.length) {
+    console.warn("rewriteScript returned a different line count; keeping the original wording");
+    return lines;
+  }
+  return rewritten.map((line, i) => String(line || lines[i]).trim());
+};
+
+// Speaking rate of the original take, passed to TTS as a delivery hint so new lines fit their slots
+const paceHintFor = (text: string, seconds: number) => {
+  const wordsPerSecond = text.split(/\s+/).filter(Boolean).length / Math.max(0.5, seconds);
+  if (wordsPerSecond > 3.2) return 'Say briskly: ';
+  if (wordsPerSecond < 2) return 'Say slowly and deliberately: ';
+  return '';
+};
+
+export interface RevoiceOptions {
+  voice: string;
+  // Optional rewrite instruction, e.g. "more energetic, drop the filler words"
+  style?: string;
+}
+
+/**
+ * Speech-to-speech: transcribes a recording by sentence, optionally restyles the script, then voices
+ * each sentence with the chosen voice and places it at the sentence's original start time.
+ */
+export const serverRevoiceSpeech = async (
+  audioBase64: string,
+  mimeType: string,
+  { voice, style }: RevoiceOptions,
+  ctx?: GenerationContext
+): Promise<DialogSpeechResult & { transcript: CaptionSegment[] }> => {
+  const provider = getProvider();
+  ctx?.emit?.({ type: 'progress', message: "Transcribing recording" });
+  const transcript = (await serverTranscribeAudio(audioBase64, mimeType, { bySentence: true, ctx }))
+    .filter(seg => seg.text?.trim());
+  if (transcript.length === 0) throw new Error("No speech was detected in the recording.");
+
+  let lines = transcript.map(seg => seg.text.trim());
+  if (style?.trim()) {
+    ctx?.emit?.({ type: 'progress', message: "Rewriting script" });
+    lines = await rewriteScriptLines(lines, style.trim(), ctx);
+  }
+
+  const clips: Buffer[] = [];
+  for (const [i, line] of lines.entries()) {
+    ctx?.emit?.({ type: 'progress', message: `Voicing sentence ${i + 1}/${lines.length}` });
+    if (i > 0 && provider.cooldownMs > 0) await sleep(provider.cooldownMs, ctx?.signal);
+    const { startTime, endTime } = transcript[i];
+    const pcm = await serverGenerateSpeechBase64(`${paceHintFor(line, endTime - startTime)}${line}`, voice, ctx);
+    clips.push(Buffer.from(pcm, 'base64'));
+  }
+
+  const { pcm, starts } = placeClipsOnTimeline(clips, transcript.map(seg => seg.startTime));
+  const batchId = Date.now();
+  return {
+    dataBase64: pcm.toString('base64'),
+    segments: lines.map((text, i) => ({
+      id: `seg-${batchId}-${i}`,
+      text,
+      startTime: Number(starts[i].toFixed(2)),
+      endTime: Number((starts[i] + pcmDurationSeconds(clips[i])).toFixed(2)),
+    })),
+    transcript,
+  };
+};
+
+const FLIPBOOK_DENSITY_FRAMES = { 'economy': 6, 'balanced': 10, 'ultra': 14 };
+// Interpolated clips place keyframes this many seconds apart, so density sets the clip length
+const FLIPBOOK_KEYFRAME_SPACING = 0.5;
+export const MAX_INTERPOLATED_FRAMES = 120;
+export const FLIPBOOK_FPS_RANGE = { min: 4, max: 30, default: 12 };
+
+export interface FlipbookResult {
+  frames: string[];
+  // Playback rate of interpolated frames; absent when only keyframes were produced
+  fps?: number;
+  loop?: { mode: Exclude<LoopMode, 'auto'>; seamScore: number };
+}
+
+export const validateFlipbookConfig = (config: GenerationConfig) => {
+  if (!config?.referenceImage) throw new Error("Reference image is required for animating.");
+  if (config.frameInterpolation && !['off', 'crossfade', 'flow'].includes(config.frameInterpolation)) {
+    throw new Error(`Unknown frame interpolation "${config.frameInterpolation}".`);
+  }
+  if (config.targetFps !== undefined && !(config.targetFps >= FLIPBOOK_FPS_RANGE.min && config.targetFps <= FLIPBOOK_FPS_RANGE.max)) {
+    throw new Error(`Target frame rate must be between ${FLIPBOOK_FPS_RANGE.min} and ${FLIPBOOK_FPS_RANGE.max} fps.`);
+  }
+  if (config.loopMode && !LOOP_MODES.includes(config.loopMode)) throw new Error(`Unknown loop mode "${config.loopMode}".`);
+};
+
+/**
+ * Synthesizes the in-betweens of a keyframe loop for the requested frame rate.
+ */
+const interpolateFlipbook = async (keyframes: RgbaImage[], config: GenerationConfig, ctx?: GenerationContext) => {
+  const mode = config.frameInterpolation as Exclude<FrameInterpolation, 'off'>;
+  const fps = Math.round(config.targetFps || FLIPBOOK_FPS_RANGE.default);
+  const density = FLIPBOOK_DENSITY_FRAMES[config.frameDensity || 'balanced'];
+  const frameCount = Math.min(MAX_INTERPOLATED_FRAMES, Math.round(density * FLIPBOOK_KEYFRAME_SPACING * fps));
+  ctx?.emit?.({ type: 'progress', message: `Interpolating ${frameCount} frames (${mode}) at ${fps} fps` });
+
+  const frames = await interpolateFrames(keyframes, {
+    mode,
+    frameCount,
+    loop: true,
+    signal: ctx?.signal,
+    onFrame: (i, total) => {
+      if (i % fps === 0) ctx?.emit?.({ type: 'progress', message: `Interpolating frame ${i + 1}/${total}` });
+    },
+  });
+  return { frames, fps };
+};
+
+export const serverGenerateFlipbook = async (
+  config: GenerationConfig,
+  ctx?: GenerationContext
+): Promise<FlipbookResult> => {
+  const provider = getProvider();
   const frames: string[] = [];
 
   if (!config.referenceImage) throw new Error("Reference image is required for animating.");
 
-  // Conservative frame counts to stay within RPM/RPD limits
-  const densityMap = { 'economy': 6, 'balanced': 10, 'ultra': 14 };
-  const frameCount = densityMap[config.frameDensity || 'balanced'];
+  // Conservative frame counts to stay within RPM/RPD limits. Interpolated clips always use the
+  // economy keyframe count and fill the rest locally, whatever the density.
+  const interpolate = !!config.frameInterpolation && config.frameInterpolation !== 'off';
+  const frameCount = FLIPBOOK_DENSITY_FRAMES[interpolate ? 'economy' : config.frameDensity || 'balanced'];
   
   const profile = config.motionProfile || 'fluid';
   
@@ -136,12 +497,7 @@ export const serverGenerateFlipbook = async (config: GenerationConfig): Promise<
     'jitter': 'High-energy stop-motion flickering updates.'
   };
 
-  const imagePart = {
-    inlineData: {
-      data: config.referenceImage.split(',')[1],
-      mimeType: 'image/png'
-    }
-  };
+  const imagePart = await loadImageReference(config.referenceImage);
 
   for (let i = 0; i < frameCount; i++) {
     const step = (i + 1) / frameCount;
@@ -151,29 +507,131 @@ export const serverGenerateFlipbook = async (config: GenerationConfig): Promise<
       GUIDE: Step ${Math.round(step * 100)}%. Maintain 100% character visual identity.
     `;
     
-    const res = await callWithRetry(() => ai.models.generateContent({
+    const frameData: string | undefined = await callWithRetry(() => provider.editImage({
+      task: 'generateFlipbook',
       model: 'gemini-2.5-flash-image',
-      contents: { parts: [imagePart, { text: prompt }] },
-      config: { imageConfig: { aspectRatio: config.aspectRatio } }
-    }));
+      prompt,
+      images: [imagePart],
+      aspectRatio: config.aspectRatio,
+      signal: ctx?.signal
+    }), ctx);
     
-    const frameData = res.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
     if (frameData) {
-      frames.push(`data:image/png;base64,${frameData}`);
+      const dataUrl = `data:image/png;base64,${frameData}`;
+      frames.push(dataUrl);
+      ctx?.emit?.({ type: 'frame', index: i, total: frameCount, dataUrl });
+    } else {
+      ctx?.emit?.({ type: 'progress', message: `Frame ${i + 1}/${frameCount} returned no image, skipping` });
     }
 
     // Mandatory cooldown to prevent 429 RESOURCE_EXHAUSTED on subsequent requests
-    if (i < frameCount - 1) {
-      await sleep(4500); 
+    if (i < frameCount - 1 && provider.cooldownMs > 0) {
+      await sleep(provider.cooldownMs, ctx?.signal);
     }
   }
 
   if (frames.length === 0) throw new Error("Could not synthesize frames. Quota limit reached.");
-  return frames;
+  const buffers = frames.map(url => Buffer.from(url.slice(url.indexOf(',') + 1), 'base64'));
+  if (buffers.some(bytes => detectImageMimeType(bytes) !== 'image/png')) {
+    ctx?.emit?.({ type: 'progress', message: 'Frames are not PNG images; skipping interpolation and loop checks' });
+    return { frames };
+  }
+  const keyframes = buffers.map(decodePng);
+
+  let images = keyframes, fps: number | undefined;
+  if (interpolate && keyframes.length >= 2) ({ frames: images, fps } = await interpolateFlipbook(keyframes, config, ctx));
+
+  const loop = applyLoopMode(images, config.loopMode);
+  ctx?.emit?.({ type: 'progress', message: `Loop seam score ${loop.seamScore.toFixed(3)}, playing as ${loop.mode}` });
+
+  // Untouched keyframes keep their original encoding
+  const encoded = new Map(keyframes.map((image, i) => [image, frames[i]]));
+  return {
+    frames: loop.frames.map(image => encoded.get(image) || `data:image/png;base64,${encodePng(image.width, image.height, image.data).toString('base64')}`),
+    fps,
+    loop: { mode: loop.mode, seamScore: Number(loop.seamScore.toFixed(4)) },
+  };
+};
+
+/**
+ * Accepts either a data: URL or a stored asset URL (e.g. an edited gallery item) and returns inline image data.
+ */
+const loadImageReference = async (urlOrDataUrl: string): Promise<InlineData> => {
+  const asset = parseAssetUrl(urlOrDataUrl);
+  if (!asset) return parseImageDataUrl(urlOrDataUrl);
+  const file = await getAssetStore().readFile(asset.id, asset.frameIndex);
+  if (!file) throw new Error("Reference image no longer exists in the asset library");
+  const mimeType = detectImageMimeType(file.bytes) || file.mimeType;
+  if (!mimeType.startsWith('image/')) throw new Error("Reference asset is not an image");
+  return { mimeType, data: file.bytes.toString('base64') };
+};
+
+// How many reference images each image model takes in a single request
+const MAX_REFERENCE_IMAGES: Partial<Record<ModelType, number>> = {
+  [ModelType.FLASH_IMAGE]: 3,
+  [ModelType.PRO_IMAGE]: 14,
+  [ModelType.IMAGEN]: 0,
+};
+const DEFAULT_MAX_REFERENCE_IMAGES = 3;
+
+const REFERENCE_ROLE_GUIDANCE: Record<ReferenceRole, string> = {
+  subject: "keep this character or object's identity and appearance",
+  scene: "use this as the setting and environment",
+  style: "match this art style, palette and rendering only, not its content",
+  continuity: "this is the previous frame of the sequence; keep its characters, wardrobe, lighting and palette continuous",
+};
+
+const maxReferenceImages = (model: ModelType) => MAX_REFERENCE_IMAGES[model] ?? DEFAULT_MAX_REFERENCE_IMAGES;
+
+const referenceLabel = (role: ReferenceRole, index: number) =>
+  `Reference ${index + 1} (${role}): ${REFERENCE_ROLE_GUIDANCE[role] || REFERENCE_ROLE_GUIDANCE.subject}.`;
+
+/**
+ * Gathers the single referenceImage and any role-tagged referenceImages into labeled inline parts.
+ * Throws when the selected model cannot take that many references or an image cannot be loaded.
+ */
+export const resolveReferenceImages = async (config: GenerationConfig): Promise<InlineData[]> => {
+  const references: ReferenceImage[] = [
+    ...(config.referenceImage ? [{ role: 'subject' as const, dataUrl: config.referenceImage }] : []),
+    ...(config.referenceImages || []),
+  ];
+  const model = config.model || ModelType.FLASH_IMAGE;
+  const limit = maxReferenceImages(model);
+  if (references.length > limit) {
+    throw new Error(limit === 0
+      ? `${model} does not accept reference images. Remove them or switch to an image-editing model.`
+      : `${model} accepts at most ${limit} reference images, but ${references.length} were provided. Deselect some references and try again.`);
+  }
+  return Promise.all(references.map(async (ref, i) => ({
+    ...await loadImageReference(ref.dataUrl),
+    label: referenceLabel(ref.role, i)
+  })));
 };
 
-export const serverGenerateImageBase64 = async (config: GenerationConfig): Promise<string[]> => {
-  const ai = getGeminiClient();
+// Imagen returns at most this many images per generateImages call
+const IMAGEN_MAX_BATCH = 4;
+
+/**
+ * Checks the model/resolution pairing and returns the imageSize to send, or undefined for
+ * fixed-size models. Throws a user-facing message when the pairing is unsupported.
+ */
+export const validateImageConfig = (config: GenerationConfig): string | undefined => {
+  if (!config) throw new Error("A generation config is required.");
+  const model = config.model || ModelType.FLASH_IMAGE;
+  const supported = IMAGE_MODEL_RESOLUTIONS[model] || [ImageResolution.RES_1K];
+  const resolution = config.resolution || supported[0];
+  if (!supported.includes(resolution)) {
+    throw new Error(`${model} cannot render ${resolution} images. Supported resolutions: ${supported.join(", ")}.`);
+  }
+  return supported.length > 1 ? resolution : undefined;
+};
+
+/**
+ * Renders config.count images. references are the config's reference images as returned by
+ * resolveReferenceImages, which the route has already run to validate them.
+ */
+export const serverGenerateImageBase64 = async (config: GenerationConfig, references: InlineData[], ctx?: GenerationContext): Promise<string[]> => {
+  const provider = getProvider();
   const images: string[] = [];
   const count = config.count || 1;
   let finalPrompt = config.stylePrompts?.length ? `${config.prompt}, ${config.stylePrompts.join(", ")}` : config.prompt;
@@ -188,22 +646,155 @@ export const serverGenerateImageBase64 = async (config: GenerationConfig): Promi
   }
 
   const modelUsed = config.model || ModelType.FLASH_IMAGE;
+  const imageSize = validateImageConfig(config);
+  const request = { task: 'generateImage', model: modelUsed, prompt: finalPrompt, aspectRatio: config.aspectRatio, imageSize, signal: ctx?.signal };
 
-  const promises = Array.from({ length: count }).map(() => 
-    callWithRetry(() => ai.models.generateContent({ 
-      model: modelUsed, 
-      contents: config.referenceImage ? { parts: [{ inlineData: { mimeType: 'image/jpeg', data: config.referenceImage!.split(',')[1] } }, { text: finalPrompt }] } : finalPrompt, 
-      config: { imageConfig: { aspectRatio: config.aspectRatio } } 
-    }))
-  );
-  
-  const responses = await Promise.all(promises);
-  responses.forEach((res) => {
-    const data = res.candidates?.[0]?.content?.parts?.find((p: any) => p.inlineData)?.inlineData?.data;
-    if (data) {
-      images.push(data);
+  let completed = 0;
+  const emitImage = (data: string) => {
+    // Stream each image as soon as it lands rather than waiting for the whole batch
+    ctx?.emit?.({ type: 'frame', index: completed++, total: count, dataUrl: `data:image/png;base64,${data}` });
+    images.push(data);
+  };
+
+  if (modelUsed === ModelType.IMAGEN) {
+    // Imagen renders several images per call, so batch instead of fanning out one call per image
+    for (let remaining = count; remaining > 0; remaining -= IMAGEN_MAX_BATCH) {
+      const numberOfImages = Math.min(IMAGEN_MAX_BATCH, remaining);
+      const batch: string[] = await callWithRetry(() => provider.generateImageBatch({ ...request, numberOfImages }), ctx);
+      batch.forEach(emitImage);
     }
-  });
+    return images;
+  }
+
+  await Promise.all(Array.from({ length: count }).map(async () => {
+    const data: string | undefined = await callWithRetry(() => references.length
+      ? provider.editImage({ ...request, images: references })
+      : provider.generateImage(request), ctx);
+    if (data) emitImage(data);
+  }));
 
   return images;
 };
+
+export interface StoryboardOptions {
+  // Render only this scene, chained to previousFrame when given
+  sceneId?: string;
+  // data: or asset URL of the frame before sceneId
+  previousFrame?: string;
+}
+
+/**
+ * Checks a storyboard request up front: it needs described scenes, a supported resolution, and a
+ * model that takes the active pool images plus the chained previous frame.
+ */
+export const validateStoryboardConfig = (config: GenerationConfig, { sceneId }: StoryboardOptions = {}) => {
+  const scenes = orderedScenes(config?.storyScenes);
+  if (scenes.length === 0) throw new Error("Describe at least one scene to build a storyboard.");
+  if (scenes.length > MAX_STORYBOARD_SCENES) throw new Error(`Storyboards are limited to ${MAX_STORYBOARD_SCENES} scenes.`);
+  if (sceneId !== undefined && !scenes.some(scene => scene.id === sceneId)) throw new Error("That scene has no description or is no longer in the storyboard.");
+  validateImageConfig(config);
+  const model = config.model || ModelType.FLASH_IMAGE;
+  const limit = maxReferenceImages(model);
+  if (limit === 0) throw new Error(`${model} cannot take the previous frame as a reference. Switch to an image-editing model to build storyboards.`);
+  const shared = storyReferences(config).length;
+  if (shared + 1 > limit) {
+    throw new Error(`${model} accepts at most ${limit} reference images and storyboards chain the previous frame as one, but ${shared} pool images are active. Deselect some and try again.`);
+  }
+};
+
+/**
+ * Renders the ordered scenes one after another with the active pool images as references. From
+ * the second scene on, the previous frame is chained in as a continuity reference so characters
+ * and styling carry through. With sceneId, only that scene is rendered.
+ */
+export const serverGenerateStoryboard = async (config: GenerationConfig, { sceneId, previousFrame }: StoryboardOptions = {}, ctx?: GenerationContext): Promise<StoryboardFrame[]> => {
+  validateStoryboardConfig(config, { sceneId });
+  const provider = getProvider();
+  const scenes = orderedScenes(config.storyScenes);
+  const targets = sceneId ? scenes.filter(scene => scene.id === sceneId) : scenes;
+  const model = config.model || ModelType.FLASH_IMAGE;
+  const imageSize = validateImageConfig(config);
+  const shared = await resolveReferenceImages({ ...config, referenceImage: undefined, referenceImages: storyReferences(config) });
+  let previous = previousFrame ? await loadImageReference(previousFrame) : undefined;
+  const frames: StoryboardFrame[] = [];
+
+  for (const [i, scene] of targets.entries()) {
+    const index = scenes.indexOf(scene);
+    ctx?.emit?.({ type: 'progress', message: `Rendering scene ${index + 1}/${scenes.length}` });
+    const prompt = storyScenePrompt(config, scene, index, scenes.length, !!previous);
+    const images = previous ? [...shared, { ...previous, label: referenceLabel('continuity', shared.length) }] : shared;
+    const request = { task: 'generateStoryboard', model, prompt, aspectRatio: config.aspectRatio, imageSize, signal: ctx?.signal };
+    const data: string | undefined = await callWithRetry(() => images.length
+      ? provider.editImage({ ...request, images })
+      : provider.generateImage(request), ctx);
+
+    if (data) {
+      const mimeType = detectImageMimeType(Buffer.from(data, 'base64')) || 'image/png';
+      const url = `data:${mimeType};base64,${data}`;
+      frames.push({ sceneId: scene.id, index, prompt: scene.prompt.trim(), url, aspectRatio: config.aspectRatio });
+      ctx?.emit?.({ type: 'frame', index, total: scenes.length, dataUrl: url });
+      previous = { mimeType, data };
+    } else {
+      // Later scenes chain to the last frame that did render
+      ctx?.emit?.({ type: 'progress', message: `Scene ${index + 1} returned no image; regenerate it from the storyboard` });
+    }
+
+    if (i < targets.length - 1 && provider.cooldownMs > 0) await sleep(provider.cooldownMs, ctx?.signal);
+  }
+
+  if (frames.length === 0) throw new Error("Could not render any scenes. Quota limit reached.");
+  return frames;
+};
+
+// Give up on a video operation that hasn't finished after 10 minutes
+const VIDEO_TIMEOUT_MS = 10 * 60 * 1000;
+const VIDEO_ASPECT_RATIOS: string[] = [AspectRatio.LANDSCAPE_16_9, AspectRatio.PORTRAIT_9_16];
+
+/**
+ * Checks aspect ratio and resolution against what Veo accepts. Throws a user-facing message otherwise.
+ */
+export const validateVideoConfig = (config: GenerationConfig) => {
+  if (!config) throw new Error("A generation config is required.");
+  if (!config.prompt?.trim()) throw new Error("Describe the video you want to generate.");
+  if (!VIDEO_ASPECT_RATIOS.includes(config.aspectRatio)) {
+    throw new Error(`Veo renders ${VIDEO_ASPECT_RATIOS.join(" or ")} video, not ${config.aspectRatio}.`);
+  }
+  if (config.videoResolution !== undefined && !VIDEO_RESOLUTIONS.includes(config.videoResolution)) {
+    throw new Error(`Veo renders ${VIDEO_RESOLUTIONS.join(" or ")} video, not ${config.videoResolution}.`);
+  }
+  if (config.videoResolution === '1080p' && config.aspectRatio !== AspectRatio.LANDSCAPE_16_9) {
+    throw new Error("1080p video is only available in 16:9. Switch to 720p for portrait video.");
+  }
+};
+
+/**
+ * Text-to-video, or image-to-video when config.referenceImage is set (used as the first frame).
+ * Returns raw base64 MP4.
+ */
+export const serverGenerateVideo = async (config: GenerationConfig, ctx?: GenerationContext): Promise<string> => {
+  validateVideoConfig(config);
+  const provider = getProvider();
+  const firstFrame = config.referenceImage ? await loadImageReference(config.referenceImage) : undefined;
+
+  let operation: VideoOperation = await callWithRetry(() => provider.startVideo({
+    task: 'generateVideo',
+    model: ModelType.VEO,
+    prompt: config.prompt,
+    firstFrame,
+    aspectRatio: config.aspectRatio,
+    resolution: config.videoResolution || '720p',
+    signal: ctx?.signal
+  }), ctx);
+
+  const startedAt = Date.now();
+  while (!operation.done) {
+    if (Date.now() - startedAt > VIDEO_TIMEOUT_MS) throw new Error("Video generation timed out. Please try again.");
+    ctx?.emit?.({ type: 'progress', message: `Rendering video (${Math.round((Date.now() - startedAt) / 1000)}s elapsed)` });
+    await sleep(operation.pollAfterMs ?? VIDEO_POLL_INTERVAL_MS, ctx?.signal);
+    const current = operation;
+    operation = await callWithRetry(() => provider.pollVideo(current, ctx?.signal), ctx);
+  }
+
+  if (operation.error || !operation.video) throw new Error(operation.error || "Veo returned no video");
+  return operation.video;
+};
@@ -0,0 +1,151 @@
+import { randomUUID } from "crypto";
+import { JobEvent, JobSnapshot, JobStatus } from "../types";
+
+// Keep concurrent Gemini work low; every job already retries on 429s internally.
+const MAX_CONCURRENT_JOBS = 2;
+// Finished jobs stay pollable for this long before they are dropped from memory.
+const JOB_RETENTION_MS = 30 * 60 * 1000;
+
+export interface JobContext {
+  signal: AbortSignal;
+  emit: (event: JobEvent) => void;
+}
+
+type JobRunner<T> = (ctx: JobContext) => Promise<T>;
+type JobListener = (event: JobEvent) => void;
+
+interface Job extends JobSnapshot {
+  result?: unknown;
+  controller: AbortController;
+  run: JobRunner<unknown>;
+  // Event history so late subscribers can replay what they missed. Frames are dropped once the
+  // job settles: the result holds them, and keeping both would double the job's memory
+  events: JobEvent[];
+  listeners: Set<JobListener>;
+}
+
+const jobs = new Map<string, Job>();
+const pending: Job[] = [];
+let activeCount = 0;
+
+const isFinished = (status: JobStatus) => status === 'succeeded' || status === 'failed' || status === 'cancelled';
+
+const toSnapshot = ({ id, kind, status, progress, error, createdAt, updatedAt }: Job): JobSnapshot => ({
+  id, kind, status, progress, error, createdAt, updatedAt
+});
+
+const publish = (job: Job, event: JobEvent) => {
+  job.events.push(event);
+  job.listeners.forEach(listener => listener(event));
+};
+
+const update = (job: Job, changes: Partial<Job>) => {
+  const statusChanged = changes.status !== undefined && changes.status !== job.status;
+  Object.assign(job, changes, { updatedAt: Date.now() });
+  if (!statusChanged) return;
+
+  publish(job, { type: 'status', status: job.status });
+  if (isFinished(job.status)) {
+    publish(job, {
+      type: 'done',
+      status: job.status,
+      error: job.error,
+      elapsedMs: job.updatedAt - job.createdAt,
+      framesDelivered: job.events.filter(e => e.type === 'frame').length
+    });
+    job.listeners.clear();
+    job.events = job.events.filter(e => e.type !== 'frame');
+    setTimeout(() => jobs.delete(job.id), JOB_RETENTION_MS).unref();
+  }
+};
+
+const emitFromRunner = (job: Job, event: JobEvent) => {
+  if (job.status !== 'running') return;
+  if (event.type === 'progress') update(job, { progress: event.message });
+  else if (event.type === 'frame') update(job, { progress: `Frame ${event.index + 1}/${event.total} done` });
+  publish(job, event);
+};
+
+const drainQueue = () => {
+  while (activeCount < MAX_CONCURRENT_JOBS && pending.length > 0) {
+    const job = pending.shift()!;
+    if (job.status !== 'queued') continue;
+    activeCount++;
+    update(job, { status: 'running' });
+
+    job.run({
+      signal: job.controller.signal,
+      emit: (event) => emitFromRunner(job, event)
+    })
+      .then((result) => {
+        if (job.status === 'running') update(job, { result, status: 'succeeded' });
+      })
+      .catch((err: any) => {
+        if (job.status !== 'running') return;
+        console.error(`Job ${job.kind} (${job.id}) failed:`, err);
+        update(job, { error: err?.message || "Job failed", status: 'failed' });
+      })
+      .finally(() => {
+        activeCount--;
+        drainQueue();
+      });
+  }
+};
+
+/**
+ * Queues a long-running generation task and returns immediately.
+ * The runner receives an AbortSignal that fires when the job is cancelled,
+ * and an emitter for progress events streamed to subscribers.
+ */
+export const enqueueJob = <T>(kind: string, run: JobRunner<T>): JobSnapshot => {
+  const now = Date.now();
+  const job: Job = {
+    id: randomUUID(),
+    kind,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    controller: new AbortController(),
+    run,
+    events: [{ type: 'status', status: 'queued' }],
+    listeners: new Set()
+  };
+  jobs.set(job.id, job);
+  pending.push(job);
+  drainQueue();
+  return toSnapshot(job);
+};
+
+export const getJob = (id: string): JobSnapshot | undefined => {
+  const job = jobs.get(id);
+  return job && toSnapshot(job);
+};
+
+export const getJobResult = (id: string): unknown => jobs.get(id)?.result;
+
+/**
+ * Replays the event history (without frames once the job has finished), then forwards new ones
+ * until the job finishes.
+ * Returns an unsubscribe function, or undefined for unknown ids.
+ */
+export const subscribeToJob = (id: string, listener: JobListener): (() => void) | undefined => {
+  const job = jobs.get(id);
+  if (!job) return undefined;
+  job.events.forEach(listener);
+  if (isFinished(job.status)) return () => {};
+  job.listeners.add(listener);
+  return () => { job.listeners.delete(listener); };
+};
+
+/**
+ * Cancels a queued or running job. Returns undefined for unknown ids.
+ */
+export const cancelJob = (id: string): JobSnapshot | undefined => {
+  const job = jobs.get(id);
+  if (!job) return undefined;
+  if (!isFinished(job.status)) {
+    job.controller.abort();
+    update(job, { status: 'cancelled' });
+  }
+  return toSnapshot(job);
+};
@@ -0,0 +1,119 @@
+import { spawn } from "child_process";
+import { once } from "events";
+
+let located: Promise<string | undefined> | undefined;
+
+/**
+ * Resolves the ffmpeg binary (FFMPEG_PATH, else ffmpeg on PATH), or undefined when it isn't
+ * installed. Checked once per process.
+ */
+export const findFfmpeg = (): Promise<string | undefined> => located ??= new Promise(resolve => {
+  const bin = process.env.FFMPEG_PATH || 'ffmpeg';
+  const child = spawn(bin, ['-hide_banner', '-version'], { stdio: 'ignore' });
+  child.on('error', () => resolve(undefined));
+  child.on('exit', code => resolve(code === 0 ? bin : undefined));
+});
+
+const requireFfmpeg = async () => {
+  const bin = await findFfmpeg();
+  if (!bin) throw new Error("ffmpeg is not installed on the server (set FFMPEG_PATH to use a custom binary)");
+  return bin;
+};
+
+export interface FfmpegRunOptions {
+  signal?: AbortSignal;
+  // Streamed to stdin; each chunk waits for the pipe to drain so long frame sequences aren't buffered
+  input?: AsyncIterable<Uint8Array>;
+  // Receives stdout as it arrives instead of collecting it into the returned buffer
+  onStdout?: (chunk: Buffer) => void;
+  // Output position in seconds, from ffmpeg's progress reports
+  onTime?: (seconds: number) => void;
+}
+
+// Keeps the tail of ffmpeg's log so failures can say what went wrong
+const MAX_LOG_LINES = 8;
+
+/**
+ * Runs ffmpeg with the given arguments and resolves with its stdout. Rejects with the last log
+ * lines on a non-zero exit, and kills the process when the signal aborts.
+ */
+export const runFfmpeg = async (args: string[], options: FfmpegRunOptions = {}): Promise<Buffer> => {
+  const bin = await requireFfmpeg();
+  if (options.signal?.aborted) throw new Error("Job cancelled");
+  const child = spawn(bin, ['-hide_banner', '-loglevel', 'error', '-progress', 'pipe:2', '-nostats', ...args], {
+    stdio: [options.input ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+  });
+
+  const stdout: Buffer[] = [];
+  child.stdout.on('data', (chunk: Buffer) => options.onStdout ? options.onStdout(chunk) : stdout.push(chunk));
+
+  const log: string[] = [];
+  let pending = '';
+  child.stderr.on('data', (chunk: Buffer) => {
+    const lines = (pending + chunk.toString()).split('\n');
+    pending = lines.pop() || '';
+    for (const line of lines) {
+      const progress = line.match(/^out_time_(?:us|ms)=(\d+)/);
+      if (progress) options.onTime?.(Number(progress[1]) / 1e6);
+      else if (line.trim() && !/^\w+=/.test(line)) {
+        log.push(line.trim());
+        if (log.length > MAX_LOG_LINES) log.shift();
+      }
+    }
+  });
+
+  const onAbort = () => child.kill('SIGKILL');
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+
+  try {
+    if (options.input && child.stdin) {
+      // ffmpeg may exit early on bad input; the exit code reports that, not the broken pipe
+      child.stdin.on('error', () => {});
+      for await (const chunk of options.input) {
+        if (options.signal?.aborted || child.exitCode !== null) break;
+        if (!child.stdin.write(chunk)) await Promise.race([once(child.stdin, 'drain'), exited]);
+      }
+      child.stdin.end();
+    }
+    const code = await exited;
+    if (options.signal?.aborted) throw new Error("Job cancelled");
+    if (code !== 0) throw new Error(`ffmpeg failed: ${log.join(' / ') || `exit code ${code}`}`);
+    return Buffer.concat(stdout);
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+    if (child.exitCode === null) child.kill('SIGKILL');
+  }
+};
+
+export interface VideoProbe {
+  width: number;
+  height: number;
+  duration: number;
+  hasAudio: boolean;
+}
+
+/**
+ * Reads a video's frame size, duration and audio presence from ffmpeg's input summary.
+ */
+export const probeVideo = async (path: string): Promise<VideoProbe> => {
+  const bin = await requireFfmpeg();
+  const child = spawn(bin, ['-hide_banner', '-i', path], { stdio: ['ignore', 'ignore', 'pipe'] });
+  let summary = '';
+  child.stderr.on('data', (chunk: Buffer) => { summary += chunk.toString(); });
+  // Exits non-zero because no output is given; the summary is still complete
+  await new Promise((resolve, reject) => { child.on('error', reject); child.on('close', resolve); });
+
+  const size = summary.match(/Stream #[^\n]*Video:[^\n]*?, (\d{2,5})x(\d{2,5})/);
+  if (!size) throw new Error("Could not read a video stream from the upload");
+  const duration = summary.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  return {
+    width: Number(size[1]),
+    height: Number(size[2]),
+    duration: duration ? Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]) : 0,
+    hasAudio: /Stream #[^\n]*Audio:/.test(summary),
+  };
+};
@@ -0,0 +1,157 @@
+// Colours are bucketed to 5 bits per channel before ranking, so near-identical shades share a palette slot
+const BUCKET_SHIFT = 3;
+const MAX_PALETTE = 256;
+const MAX_LZW_CODE = 4096;
+
+const bucketOf = (r: number, g: number, b: number) =>
+  ((r >> BUCKET_SHIFT) << 10) | ((g >> BUCKET_SHIFT) << 5) | (b >> BUCKET_SHIFT);
+
+/**
+ * Builds one global palette from the most common colours across all frames (popularity
+ * quantization) and maps every pixel to its nearest entry. Works well for flat-shaded renders
+ * and illustrations; photographic frames will band.
+ */
+const quantize = (frames: Uint8Array[]): { palette: number[][]; indexed: Uint8Array[] } => {
+  const counts = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (const rgba of frames) {
+    for (let i = 0; i < rgba.length; i += 4) {
+      const key = bucketOf(rgba[i], rgba[i + 1], rgba[i + 2]);
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count++; entry.r += rgba[i]; entry.g += rgba[i + 1]; entry.b += rgba[i + 2];
+      } else {
+        counts.set(key, { count: 1, r: rgba[i], g: rgba[i + 1], b: rgba[i + 2] });
+      }
+    }
+  }
+
+  // Each palette entry is the average colour of its bucket
+  const palette = [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_PALETTE)
+    .map(({ count, r, g, b }) => [Math.round(r / count), Math.round(g / count), Math.round(b / count)]);
+
+  const nearest = new Map<number, number>();
+  const lookup = (r: number, g: number, b: number) => {
+    const key = bucketOf(r, g, b);
+    let index = nearest.get(key);
+    if (index === undefined) {
+      let best = Infinity;
+      index = 0;
+      palette.forEach(([pr, pg, pb], i) => {
+        const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+        if (distance < best) { best = distance; index = i; }
+      });
+      nearest.set(key, index);
+    }
+    return index;
+  };
+
+  const indexed = frames.map(rgba => {
+    const out = new Uint8Array(rgba.length / 4);
+    for (let p = 0; p < out.length; p++) out[p] = lookup(rgba[p * 4], rgba[p * 4 + 1], rgba[p * 4 + 2]);
+    return out;
+  });
+  return { palette, indexed };
+};
+
+/**
+ * GIF-flavoured LZW: variable-width codes packed LSB-first, resetting the table when it fills.
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Buffer => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let bitBuffer = 0, bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const symbol = indices[i];
+    const key = (prefix << 8) | symbol;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_LZW_CODE) {
+      emit(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = symbol;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+  return Buffer.from(bytes);
+};
+
+// Image data is stored as length-prefixed sub-blocks of at most 255 bytes, ending with an empty block
+const toSubBlocks = (data: Buffer): Buffer => {
+  const parts: Buffer[] = [];
+  for (let i = 0; i < data.length; i += 255) {
+    const chunk = data.subarray(i, i + 255);
+    parts.push(Buffer.from([chunk.length]), chunk);
+  }
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+};
+
+export interface GifOptions {
+  // Per-frame delay; GIF stores hundredths of a second
+  delayMs: number;
+  // 0 loops forever
+  loopCount?: number;
+}
+
+/**
+ * Encodes equally sized 8-bit RGBA frames as an animated GIF with a shared 256-colour palette.
+ * Alpha is ignored.
+ */
+export const encodeGif = (width: number, height: number, frames: Uint8Array[], { delayMs, loopCount = 0 }: GifOptions): Buffer => {
+  if (frames.length === 0) throw new Error("Cannot encode a GIF without frames");
+  const { palette, indexed } = quantize(frames);
+
+  const colorTable = Buffer.alloc(MAX_PALETTE * 3);
+  palette.forEach(([r, g, b], i) => colorTable.set([r, g, b], i * 3));
+
+  const screen = Buffer.alloc(7);
+  screen.writeUInt16LE(width, 0);
+  screen.writeUInt16LE(height, 2);
+  screen[4] = 0xf7; // global colour table, 8 bits per channel, 256 entries
+  screen[5] = 0;    // background colour index
+  screen[6] = 0;    // square pixels
+
+  const loop = Buffer.from([0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0'), 0x03, 0x01, loopCount & 0xff, loopCount >> 8, 0x00]);
+  const delay = Math.max(2, Math.round(delayMs / 10));
+
+  const frameBlocks = indexed.map(pixels => {
+    const control = Buffer.from([0x21, 0xf9, 0x04, 0x04, delay & 0xff, delay >> 8, 0x00, 0x00]); // dispose: leave in place
+    const descriptor = Buffer.alloc(10);
+    descriptor[0] = 0x2c;
+    descriptor.writeUInt16LE(width, 5);
+    descriptor.writeUInt16LE(height, 7);
+    return Buffer.concat([control, descriptor, Buffer.from([8]), toSubBlocks(lzwEncode(pixels, 8))]);
+  });
+
+  return Buffer.concat([Buffer.from('GIF89a'), screen, colorTable, loop, ...frameBlocks, Buffer.from([0x3b])]);
+};
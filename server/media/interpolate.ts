@@ -0,0 +1,194 @@
+import { FrameInterpolation } from "../../types";
+import { nextTick } from "../util/async";
+import { RgbaImage } from "./png";
+import { resizeNearest } from "./resize";
+
+// Motion is estimated on a downscaled luma plane; blocks and search radius are in those pixels
+const FLOW_MAX_SIDE = 128;
+const BLOCK_SIZE = 8;
+const SEARCH_RADIUS = 8;
+// Small per-pixel penalty on motion so flat regions keep a zero vector instead of matching noise
+const MOTION_PENALTY = 2;
+
+export interface FlowField {
+  // Block grid size and the full-resolution pixels each block covers
+  cols: number;
+  rows: number;
+  blockWidth: number;
+  blockHeight: number;
+  // Per-block displacement from A to B in full-resolution pixels, interleaved x/y
+  vectors: Float32Array;
+}
+
+// Box-filtered luma at reduced resolution
+const downscaledLuma = (image: RgbaImage, width: number, height: number): Float32Array => {
+  const out = new Float32Array(width * height);
+  const counts = new Uint16Array(width * height);
+  for (let y = 0; y < image.height; y++) {
+    const ty = Math.min(height - 1, Math.floor(y * height / image.height));
+    for (let x = 0; x < image.width; x++) {
+      const tx = Math.min(width - 1, Math.floor(x * width / image.width));
+      const i = (y * image.width + x) * 4;
+      out[ty * width + tx] += 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+      counts[ty * width + tx]++;
+    }
+  }
+  for (let i = 0; i < out.length; i++) out[i] /= counts[i] || 1;
+  return out;
+};
+
+/**
+ * Block-matching motion estimate from A to B: each block of A searches a window of B for the
+ * lowest sum of absolute differences, then the field is smoothed with its neighbours to suppress
+ * outliers. Frames must be the same size.
+ */
+export const estimateFlow = (a: RgbaImage, b: RgbaImage): FlowField => {
+  const scale = Math.min(1, FLOW_MAX_SIDE / Math.max(a.width, a.height));
+  const width = Math.max(BLOCK_SIZE, Math.round(a.width * scale));
+  const height = Math.max(BLOCK_SIZE, Math.round(a.height * scale));
+  const lumaA = downscaledLuma(a, width, height), lumaB = downscaledLuma(b, width, height);
+  const cols = Math.ceil(width / BLOCK_SIZE), rows = Math.ceil(height / BLOCK_SIZE);
+
+  const raw = new Float32Array(cols * rows * 2);
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < cols; bx++) {
+      const x0 = bx * BLOCK_SIZE, y0 = by * BLOCK_SIZE;
+      const x1 = Math.min(width, x0 + BLOCK_SIZE), y1 = Math.min(height, y0 + BLOCK_SIZE);
+      let best = Infinity, bestDx = 0, bestDy = 0;
+      for (let dy = -SEARCH_RADIUS; dy <= SEARCH_RADIUS; dy++) {
+        if (y0 + dy < 0 || y1 + dy > height) continue;
+        for (let dx = -SEARCH_RADIUS; dx <= SEARCH_RADIUS; dx++) {
+          if (x0 + dx < 0 || x1 + dx > width) continue;
+          let cost = (Math.abs(dx) + Math.abs(dy)) * MOTION_PENALTY * (x1 - x0) * (y1 - y0) / BLOCK_SIZE;
+          for (let y = y0; y < y1 && cost < best; y++) {
+            for (let x = x0; x < x1; x++) cost += Math.abs(lumaA[y * width + x] - lumaB[(y + dy) * width + x + dx]);
+          }
+          if (cost < best) { best = cost; bestDx = dx; bestDy = dy; }
+        }
+      }
+      raw[(by * cols + bx) * 2] = bestDx;
+      raw[(by * cols + bx) * 2 + 1] = bestDy;
+    }
+  }
+
+  // 3x3 median per component keeps motion edges while dropping isolated mismatches
+  const vectors = new Float32Array(raw.length);
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < cols; bx++) {
+      for (let c = 0; c < 2; c++) {
+        const window: number[] = [];
+        for (let ny = Math.max(0, by - 1); ny <= Math.min(rows - 1, by + 1); ny++) {
+          for (let nx = Math.max(0, bx - 1); nx <= Math.min(cols - 1, bx + 1); nx++) window.push(raw[(ny * cols + nx) * 2 + c]);
+        }
+        window.sort((p, q) => p - q);
+        vectors[(by * cols + bx) * 2 + c] = window[window.length >> 1] * (c === 0 ? a.width / width : a.height / height);
+      }
+    }
+  }
+  return { cols, rows, blockWidth: a.width / cols, blockHeight: a.height / rows, vectors };
+};
+
+// Bilinearly interpolated flow vector at a full-resolution pixel, treating block centres as samples
+const sampleFlow = (flow: FlowField, x: number, y: number, out: number[]) => {
+  const gx = Math.max(0, Math.min(flow.cols - 1, x / flow.blockWidth - 0.5));
+  const gy = Math.max(0, Math.min(flow.rows - 1, y / flow.blockHeight - 0.5));
+  const x0 = Math.floor(gx), y0 = Math.floor(gy);
+  const x1 = Math.min(flow.cols - 1, x0 + 1), y1 = Math.min(flow.rows - 1, y0 + 1);
+  const fx = gx - x0, fy = gy - y0;
+  for (let c = 0; c < 2; c++) {
+    const top = flow.vectors[(y0 * flow.cols + x0) * 2 + c] * (1 - fx) + flow.vectors[(y0 * flow.cols + x1) * 2 + c] * fx;
+    const bottom = flow.vectors[(y1 * flow.cols + x0) * 2 + c] * (1 - fx) + flow.vectors[(y1 * flow.cols + x1) * 2 + c] * fx;
+    out[c] = top * (1 - fy) + bottom * fy;
+  }
+};
+
+// Adds weight * the bilinearly sampled pixel at (x, y), clamped to the image, into out[0..3]
+const accumulateBilinear = (image: RgbaImage, x: number, y: number, weight: number, out: Float32Array) => {
+  const cx = Math.max(0, Math.min(image.width - 1, x)), cy = Math.max(0, Math.min(image.height - 1, y));
+  const x0 = Math.floor(cx), y0 = Math.floor(cy);
+  const x1 = Math.min(image.width - 1, x0 + 1), y1 = Math.min(image.height - 1, y0 + 1);
+  const fx = cx - x0, fy = cy - y0;
+  const w00 = (1 - fx) * (1 - fy) * weight, w10 = fx * (1 - fy) * weight, w01 = (1 - fx) * fy * weight, w11 = fx * fy * weight;
+  const i00 = (y0 * image.width + x0) * 4, i10 = (y0 * image.width + x1) * 4;
+  const i01 = (y1 * image.width + x0) * 4, i11 = (y1 * image.width + x1) * 4;
+  const d = image.data;
+  for (let ch = 0; ch < 4; ch++) out[ch] += d[i00 + ch] * w00 + d[i10 + ch] * w10 + d[i01 + ch] * w01 + d[i11 + ch] * w11;
+};
+
+/**
+ * Linear mix of two same-sized frames; t = 0 is A, t = 1 is B.
+ */
+export const crossfade = (a: RgbaImage, b: RgbaImage, t: number): RgbaImage => {
+  const data = new Uint8Array(a.data.length);
+  for (let i = 0; i < data.length; i++) data[i] = Math.round(a.data[i] + (b.data[i] - a.data[i]) * t);
+  return { width: a.width, height: a.height, data };
+};
+
+/**
+ * Motion-compensated in-between: pulls A forward along t of the flow and B back along the rest,
+ * then blends the two warps by t. Falls back to a plain cross-fade where motion is zero.
+ */
+export const flowBlend = (a: RgbaImage, b: RgbaImage, flow: FlowField, t: number): RgbaImage => {
+  const { width, height } = a;
+  const data = new Uint8Array(a.data.length);
+  const v = [0, 0];
+  const pixel = new Float32Array(4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Backward warp: approximate the flow at the in-between position by the flow at this pixel
+      sampleFlow(flow, x, y, v);
+      pixel.fill(0);
+      accumulateBilinear(a, x - v[0] * t, y - v[1] * t, 1 - t, pixel);
+      accumulateBilinear(b, x + v[0] * (1 - t), y + v[1] * (1 - t), t, pixel);
+      const i = (y * width + x) * 4;
+      for (let ch = 0; ch < 4; ch++) data[i + ch] = Math.round(pixel[ch]);
+    }
+  }
+  return { width, height, data };
+};
+
+export interface InterpolationOptions {
+  mode: Exclude<FrameInterpolation, 'off'>;
+  // Total frames to produce; keyframes are spaced evenly across them
+  frameCount: number;
+  // Treat the sequence as a loop so the last keyframe eases back into the first
+  loop?: boolean;
+  signal?: AbortSignal;
+  onFrame?: (index: number, total: number) => void;
+}
+
+/**
+ * Expands sparse keyframes into an evenly timed sequence. Keyframes land exactly on output
+ * frames and every in-between is synthesized from its two neighbours, so the result is fully
+ * deterministic for a given set of keyframes.
+ */
+export const interpolateFrames = async (keyframes: RgbaImage[], options: InterpolationOptions): Promise<RgbaImage[]> => {
+  if (keyframes.length === 0) throw new Error("Cannot interpolate without keyframes");
+  const { width, height } = keyframes[0];
+  const keys = keyframes.map(frame => resizeNearest(frame, width, height));
+  const spans = options.loop ? keys.length : keys.length - 1;
+  if (spans === 0) return keys;
+  const total = Math.max(options.frameCount, keys.length);
+
+  const flows = new Map<number, FlowField>();
+  const frames: RgbaImage[] = [];
+  for (let i = 0; i < total; i++) {
+    if (options.signal?.aborted) throw new Error("Job cancelled");
+    // Position on the keyframe timeline; a loop spans one extra segment back to the first key
+    const position = options.loop ? i * keys.length / total : i * (keys.length - 1) / (total - 1);
+    const index = Math.min(spans - 1, Math.floor(position));
+    const t = position - index;
+    const a = keys[index], b = keys[(index + 1) % keys.length];
+
+    if (t < 1e-6) frames.push(a);
+    else if (1 - t < 1e-6) frames.push(b);
+    else if (options.mode === 'crossfade') frames.push(crossfade(a, b, t));
+    else {
+      if (!flows.has(index)) flows.set(index, estimateFlow(a, b));
+      frames.push(flowBlend(a, b, flows.get(index)!, t));
+    }
+    options.onFrame?.(i, total);
+    await nextTick();
+  }
+  return frames;
+};
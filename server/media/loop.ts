@@ -0,0 +1,121 @@
+import { LoopMode } from "../../types";
+import { crossfade } from "./interpolate";
+import { RgbaImage } from "./png";
+
+export { playbackOrder } from "../../shared/loop";
+
+export const LOOP_MODES: LoopMode[] = ['auto', 'wrap', 'ping-pong', 'trim', 'crossfade'];
+
+// Frames are compared as small blurred luma thumbnails, so noise and sub-pixel shifts don't count as a seam
+const THUMBNAIL_SIDE = 32;
+// Seam scores at or below this read as a clean wrap; above it 'auto' switches to ping-pong
+export const SEAMLESS_THRESHOLD = 0.04;
+// Longest cross-fade tail, and its share of the clip
+const MAX_TAIL_FRAMES = 4;
+const TAIL_FRACTION = 1 / 3;
+
+export interface LoopResult {
+  frames: RgbaImage[];
+  // The mode actually applied; 'auto' resolves to 'wrap' or 'ping-pong'
+  mode: Exclude<LoopMode, 'auto'>;
+  // Perceptual difference across the seam after processing, 0 (identical) to 1
+  seamScore: number;
+  // Index of the frame removed by 'trim'
+  trimmedFrame?: number;
+}
+
+const thumbnail = (image: RgbaImage): Float32Array => {
+  const out = new Float32Array(THUMBNAIL_SIDE * THUMBNAIL_SIDE);
+  const counts = new Uint32Array(out.length);
+  for (let y = 0; y < image.height; y++) {
+    const ty = Math.floor(y * THUMBNAIL_SIDE / image.height);
+    for (let x = 0; x < image.width; x++) {
+      const t = ty * THUMBNAIL_SIDE + Math.floor(x * THUMBNAIL_SIDE / image.width);
+      const i = (y * image.width + x) * 4;
+      out[t] += (0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2]) / 255;
+      counts[t]++;
+    }
+  }
+  for (let i = 0; i < out.length; i++) out[i] /= counts[i] || 1;
+  return out;
+};
+
+/**
+ * Perceptual difference between two frames: mean absolute difference of their blurred luma
+ * thumbnails plus the difference of their gradients, which catches shifted edges that average
+ * brightness misses. Ranges from 0 to about 1.
+ */
+export const frameDifference = (a: RgbaImage, b: RgbaImage): number => {
+  const ta = thumbnail(a), tb = thumbnail(b);
+  const side = THUMBNAIL_SIDE;
+  let intensity = 0, structure = 0;
+  for (let y = 0; y < side; y++) {
+    for (let x = 0; x < side; x++) {
+      const i = y * side + x;
+      intensity += Math.abs(ta[i] - tb[i]);
+      if (x + 1 < side && y + 1 < side) {
+        const gx = (ta[i + 1] - ta[i]) - (tb[i + 1] - tb[i]);
+        const gy = (ta[i + side] - ta[i]) - (tb[i + side] - tb[i]);
+        structure += Math.hypot(gx, gy);
+      }
+    }
+  }
+  return Math.min(1, intensity / (side * side) + structure / ((side - 1) * (side - 1)));
+};
+
+export const seamScore = (frames: RgbaImage[]): number =>
+  frames.length < 2 ? 0 : frameDifference(frames[frames.length - 1], frames[0]);
+
+/**
+ * Removes the frame whose absence most smooths the loop: the one that differs most from its
+ * neighbours compared with how well those neighbours match each other. The seam counts as a
+ * neighbour pair, so a bad last frame is the usual casualty.
+ */
+const trimWorstFrame = (frames: RgbaImage[]): { frames: RgbaImage[]; index: number } => {
+  const n = frames.length;
+  const step = frames.map((frame, i) => frameDifference(frame, frames[(i + 1) % n]));
+  let worst = 0, bestGain = -Infinity;
+  for (let i = 0; i < n; i++) {
+    const prev = (i - 1 + n) % n, next = (i + 1) % n;
+    const gain = step[prev] + step[i] - frameDifference(frames[prev], frames[next]);
+    if (gain > bestGain) { bestGain = gain; worst = i; }
+  }
+  return { frames: frames.filter((_, i) => i !== worst), index: worst };
+};
+
+// Blends the last few frames progressively towards the first so the wrap lands on a near-copy of it
+const crossfadeTail = (frames: RgbaImage[]): RgbaImage[] => {
+  const tail = Math.min(MAX_TAIL_FRAMES, Math.floor(frames.length * TAIL_FRACTION));
+  return frames.map((frame, i) => {
+    const k = i - (frames.length - tail - 1);
+    return k > 0 ? crossfade(frame, frames[0], k / (tail + 1)) : frame;
+  });
+};
+
+/**
+ * Scores how cleanly a frame set loops and applies the requested mode. 'ping-pong' leaves the
+ * frames alone and is honoured at playback and export time; 'auto' picks it only when the seam
+ * is visibly broken.
+ */
+export const applyLoopMode = (frames: RgbaImage[], mode: LoopMode = 'auto'): LoopResult => {
+  const score = seamScore(frames);
+  if (frames.length < 3) return { frames, mode: 'wrap', seamScore: score };
+  switch (mode) {
+    case 'auto':
+      return { frames, mode: score <= SEAMLESS_THRESHOLD ? 'wrap' : 'ping-pong', seamScore: score };
+    case 'wrap':
+    // Forward then reverse never crosses the seam, so the score is only informative
+    case 'ping-pong':
+      return { frames, mode, seamScore: score };
+    case 'trim': {
+      const trimmed = trimWorstFrame(frames);
+      return { frames: trimmed.frames, mode, seamScore: seamScore(trimmed.frames), trimmedFrame: trimmed.index };
+    }
+    case 'crossfade': {
+      const faded = crossfadeTail(frames);
+      return { frames: faded, mode, seamScore: seamScore(faded) };
+    }
+    default:
+      throw new Error(`Unknown loop mode "${mode}"`);
+  }
+};
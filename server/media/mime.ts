@@ -0,0 +1,66 @@
+// Magic-byte signatures for the image formats browsers hand us via FileReader/canvas
+const IMAGE_SIGNATURES: { mimeType: string; matches: (bytes: Buffer) => boolean }[] = [
+  { mimeType: 'image/png', matches: (b) => b.length >= 8 && b.readUInt32BE(0) === 0x89504e47 },
+  { mimeType: 'image/jpeg', matches: (b) => b.length >= 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { mimeType: 'image/gif', matches: (b) => b.length >= 6 && b.toString('ascii', 0, 4) === 'GIF8' },
+  { mimeType: 'image/webp', matches: (b) => b.length >= 12 && b.toString('ascii', 0, 4) === 'RIFF' && b.toString('ascii', 8, 12) === 'WEBP' },
+  { mimeType: 'image/heic', matches: (b) => b.length >= 12 && b.toString('ascii', 4, 8) === 'ftyp' && /^hei[cx]|^mif1/.test(b.toString('ascii', 8, 12)) },
+];
+
+/**
+ * Sniffs the image format from its leading bytes. Returns undefined for anything unrecognised.
+ */
+export const detectImageMimeType = (bytes: Buffer): string | undefined =>
+  IMAGE_SIGNATURES.find(sig => sig.matches(bytes))?.mimeType;
+
+/**
+ * Splits a data: URL (or bare base64) into raw base64 and the MIME type its bytes actually carry.
+ * The declared type is only a fallback: canvas exports and renamed uploads often mislabel it.
+ */
+export const parseImageDataUrl = (input: string): { mimeType: string; data: string } => {
+  const match = /^data:([^;,]+)?(?:;[^,]*)?,(.*)$/s.exec(input);
+  const data = match ? match[2] : input;
+  const sniffed = detectImageMimeType(Buffer.from(data.slice(0, 64), 'base64'));
+  const mimeType = sniffed || match?.[1];
+  if (!mimeType?.startsWith('image/')) {
+    throw new Error("Reference image is not a recognised image format (expected PNG, JPEG, GIF, WebP or HEIC)");
+  }
+  return { mimeType, data };
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/webp': 'webp', 'image/heic': 'heic',
+  'audio/wav': 'wav', 'audio/webm': 'webm', 'audio/mpeg': 'mp3',
+  'video/mp4': 'mp4', 'video/webm': 'webm',
+  'application/json': 'json',
+};
+
+export const extensionForMimeType = (mimeType: string): string => EXTENSIONS[mimeType] || 'bin';
+
+/**
+ * Keeps download names portable: letters, digits, dashes and underscores only, falling back
+ * when nothing is left.
+ */
+export const safeBaseName = (name: string | undefined, fallback: string): string =>
+  (name || '').trim().replace(/[^a-z0-9_-]+/gi, '-').replace(/^-+|-+$/g, '').slice(0, 64) || fallback;
+
+const matchBase64DataUrl = (input: string) => {
+  const match = /^data:([^;,]+)?((?:;[^;,]*)*),(.*)$/s.exec(input);
+  return match && /;base64/i.test(match[2]) ? match : null;
+};
+
+/**
+ * True when decodeDataUrl can read the input.
+ */
+export const isBase64DataUrl = (input: string): boolean => matchBase64DataUrl(input) !== null;
+
+/**
+ * Decodes a base64 data: URL into its bytes and declared MIME type.
+ */
+export const decodeDataUrl = (input: string): { mimeType: string; bytes: Buffer } => {
+  const match = matchBase64DataUrl(input);
+  if (!match) throw new Error("Expected a base64 data: URL");
+  const bytes = Buffer.from(match[3], 'base64');
+  const mimeType = detectImageMimeType(bytes) || (match[1] || 'application/octet-stream').toLowerCase();
+  return { mimeType, bytes };
+};
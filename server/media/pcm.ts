@@ -0,0 +1,73 @@
+// Every speech provider returns 16-bit little-endian mono PCM at this rate
+export const PCM_SAMPLE_RATE = 24000;
+const BYTES_PER_SAMPLE = 2;
+
+export const pcmDurationSeconds = (pcm: Buffer) => pcm.length / BYTES_PER_SAMPLE / PCM_SAMPLE_RATE;
+
+export const pcmSilence = (ms: number): Buffer =>
+  Buffer.alloc(Math.round(ms / 1000 * PCM_SAMPLE_RATE) * BYTES_PER_SAMPLE);
+
+const ENERGY_WINDOW_SECONDS = 0.02;
+
+/**
+ * RMS loudness per 20ms window, used to find pauses in rendered speech.
+ */
+export const pcmEnergyProfile = (pcm: Buffer): number[] => {
+  const windowSamples = Math.round(PCM_SAMPLE_RATE * ENERGY_WINDOW_SECONDS);
+  const sampleCount = Math.floor(pcm.length / BYTES_PER_SAMPLE);
+  const profile: number[] = [];
+  for (let start = 0; start < sampleCount; start += windowSamples) {
+    const end = Math.min(sampleCount, start + windowSamples);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const sample = pcm.readInt16LE(i * BYTES_PER_SAMPLE) / 0x8000;
+      sum += sample * sample;
+    }
+    profile.push(Math.sqrt(sum / (end - start)));
+  }
+  return profile;
+};
+
+/**
+ * Returns the time (seconds) at the centre of the quietest 200ms stretch between from and to.
+ * Equally quiet stretches (e.g. two pauses of pure silence) are resolved towards `near`.
+ */
+export const findQuietestPoint = (profile: number[], from: number, to: number, near = (from + to) / 2): number => {
+  const span = Math.round(0.2 / ENERGY_WINDOW_SECONDS);
+  const first = Math.max(0, Math.floor(from / ENERGY_WINDOW_SECONDS));
+  const last = Math.min(profile.length - span, Math.ceil(to / ENERGY_WINDOW_SECONDS));
+  if (last < first) return (from + to) / 2;
+
+  const centreOf = (i: number) => (i + span / 2) * ENERGY_WINDOW_SECONDS;
+  let best = first, bestEnergy = Infinity;
+  for (let i = first; i <= last; i++) {
+    let energy = 0;
+    for (let j = i; j < i + span; j++) energy += profile[j];
+    const quieter = energy < bestEnergy - 1e-3;
+    const asQuietButCloser = Math.abs(energy - bestEnergy) <= 1e-3 && Math.abs(centreOf(i) - near) < Math.abs(centreOf(best) - near);
+    if (quieter || asQuietButCloser) {
+      bestEnergy = Math.min(energy, bestEnergy);
+      best = i;
+    }
+  }
+  return centreOf(best);
+};
+
+/**
+ * Lays clips out on one timeline, each starting at its target time unless the previous clip is
+ * still playing, in which case it follows after minGapSeconds. Returns the mixed PCM and actual start times.
+ */
+export const placeClipsOnTimeline = (clips: Buffer[], targetStarts: number[], minGapSeconds = 0.15) => {
+  const parts: Buffer[] = [];
+  const starts: number[] = [];
+  let cursor = 0;
+  clips.forEach((clip, i) => {
+    const earliest = i === 0 ? 0 : cursor + minGapSeconds;
+    const start = Math.max(earliest, targetStarts[i] ?? earliest);
+    if (start > cursor) parts.push(pcmSilence((start - cursor) * 1000));
+    parts.push(clip);
+    starts.push(start);
+    cursor = start + pcmDurationSeconds(clip);
+  });
+  return { pcm: Buffer.concat(parts), starts };
+};
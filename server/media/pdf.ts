@@ -0,0 +1,96 @@
+import { deflateSync } from "zlib";
+import { RgbaImage } from "./png";
+
+// Coordinates and sizes are in points (1/72 inch) from the page's bottom-left corner
+export type PdfItem =
+  | { type: 'image'; image: RgbaImage; x: number; y: number; width: number; height: number }
+  | { type: 'text'; text: string; x: number; y: number; size: number; bold?: boolean; gray?: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; gray: number };
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  items: PdfItem[];
+}
+
+// Approximate Helvetica advance per character, as a fraction of the font size, for line wrapping
+export const HELVETICA_CHAR_WIDTH = 0.5;
+
+const number = (v: number) => Number(v.toFixed(2)).toString();
+
+// The standard fonts use WinAnsiEncoding: typographic punctuation is flattened to ASCII and
+// anything else outside Latin-1 prints as '?'
+const pdfString = (text: string) => {
+  const latin1 = text
+    .replace(/[\u2018\u2019]/g, "'").replace(/[\u201c\u201d]/g, '"').replace(/[\u2013\u2014]/g, '-').replace(/\u2026/g, '...')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+  return `(${latin1.replace(/[\\()]/g, c => `\\${c}`)})`;
+};
+
+// Alpha is composited over white, since the sheet is printed on white paper
+const rgbOverWhite = (image: RgbaImage): Buffer => {
+  const rgb = Buffer.alloc(image.width * image.height * 3);
+  for (let i = 0, o = 0; i < image.data.length; i += 4, o += 3) {
+    const a = image.data[i + 3] / 255;
+    rgb[o] = Math.round(image.data[i] * a + 255 * (1 - a));
+    rgb[o + 1] = Math.round(image.data[i + 1] * a + 255 * (1 - a));
+    rgb[o + 2] = Math.round(image.data[i + 2] * a + 255 * (1 - a));
+  }
+  return rgb;
+};
+
+/**
+ * Writes a PDF 1.4 document: images as deflated RGB XObjects, text in the built-in Helvetica
+ * fonts and flat grey rectangles. Enough for contact sheets, not a general layout engine.
+ */
+export const createPdf = (pages: PdfPage[]): Buffer => {
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length;
+  };
+  const stream = (dict: string, data: Buffer) =>
+    Buffer.concat([Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'), data, Buffer.from('\nendstream', 'latin1')]);
+
+  // Object 1 is the catalog and 2 the page tree; both are filled in once the pages are numbered
+  add('');
+  add('');
+  const regular = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const bold = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const pageIds = pages.map(page => {
+    const images: string[] = [];
+    const ops = page.items.map(item => {
+      if (item.type === 'image') {
+        const id = add(stream(`/Type /XObject /Subtype /Image /Width ${item.image.width} /Height ${item.image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode`, deflateSync(rgbOverWhite(item.image))));
+        images.push(`/Im${images.length} ${id} 0 R`);
+        return `q ${number(item.width)} 0 0 ${number(item.height)} ${number(item.x)} ${number(item.y)} cm /Im${images.length - 1} Do Q`;
+      }
+      if (item.type === 'rect') {
+        return `q ${number(item.gray)} g ${number(item.x)} ${number(item.y)} ${number(item.width)} ${number(item.height)} re f Q`;
+      }
+      return `BT /${item.bold ? 'F2' : 'F1'} ${number(item.size)} Tf ${number(item.gray ?? 0)} g ${number(item.x)} ${number(item.y)} Td ${pdfString(item.text)} Tj ET`;
+    });
+    const content = add(stream('/Filter /FlateDecode', deflateSync(Buffer.from(ops.join('\n'), 'latin1'))));
+    return add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${number(page.width)} ${number(page.height)}] /Contents ${content} 0 R /Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> /XObject << ${images.join(' ')} >> >> >>`);
+  });
+  objects[0] = Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1');
+  objects[1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, 'latin1');
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+  objects.forEach((body, i) => {
+    const part = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    offsets.push(length);
+    parts.push(part);
+    length += part.length;
+  });
+  const xref = [
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`,
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`),
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`,
+  ].join('');
+  parts.push(Buffer.from(xref, 'latin1'));
+  return Buffer.concat(parts);
+};
@@ -0,0 +1,199 @@
+import { deflateSync, inflateSync } from "zlib";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (buf: Uint8Array, crc = 0xffffffff): number => {
+  for (let i = 0; i < buf.length; i++) crc = CRC_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+// Prefixes every scanline with filter type 0 (None) and deflates the result
+const compressScanlines = (width: number, height: number, rgba: Uint8Array): Buffer => {
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  return deflateSync(raw);
+};
+
+const pngHeader = (width: number, height: number): Buffer => {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;  // bit depth
+  ihdr[9] = 6;  // colour type: RGBA
+  ihdr[10] = 0; // compression
+  ihdr[11] = 0; // filter
+  ihdr[12] = 0; // interlace
+  return Buffer.concat([PNG_SIGNATURE, pngChunk("IHDR", ihdr)]);
+};
+
+/**
+ * Encodes an 8-bit RGBA pixel buffer as a PNG file.
+ */
+export const encodePng = (width: number, height: number, rgba: Uint8Array): Buffer => Buffer.concat([
+  pngHeader(width, height),
+  pngChunk("IDAT", compressScanlines(width, height, rgba)),
+  pngChunk("IEND", new Uint8Array(0)),
+]);
+
+export interface ApngOptions {
+  delayMs: number;
+  // 0 loops forever
+  loopCount?: number;
+}
+
+/**
+ * Streaming APNG writer: frames are compressed as they are added, so only the encoded output is
+ * held in memory. The animation control chunk is written last, once the frame count is known.
+ */
+export const createApngEncoder = (width: number, height: number, { delayMs, loopCount = 0 }: ApngOptions) => {
+  const parts: Buffer[] = [];
+  // fcTL and fdAT chunks share one sequence counter
+  let sequence = 0, frameCount = 0;
+
+  const frameControl = () => {
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(sequence++, 0);
+    fctl.writeUInt32BE(width, 4);
+    fctl.writeUInt32BE(height, 8);
+    // x and y offsets stay 0
+    fctl.writeUInt16BE(Math.max(1, Math.min(65535, Math.round(delayMs))), 20);
+    fctl.writeUInt16BE(1000, 22);
+    fctl[24] = 0; // dispose: none
+    fctl[25] = 0; // blend: source
+    return pngChunk("fcTL", fctl);
+  };
+
+  return {
+    addFrame(rgba: Uint8Array) {
+      const compressed = compressScanlines(width, height, rgba);
+      parts.push(frameControl());
+      if (frameCount === 0) {
+        // The first frame doubles as the still image for viewers without APNG support
+        parts.push(pngChunk("IDAT", compressed));
+      } else {
+        const seq = Buffer.alloc(4);
+        seq.writeUInt32BE(sequence++);
+        parts.push(pngChunk("fdAT", Buffer.concat([seq, compressed])));
+      }
+      frameCount++;
+    },
+    get frameCount() {
+      return frameCount;
+    },
+    finish(): Buffer {
+      if (frameCount === 0) throw new Error("Cannot encode an APNG without frames");
+      const actl = Buffer.alloc(8);
+      actl.writeUInt32BE(frameCount, 0);
+      actl.writeUInt32BE(loopCount, 4);
+      return Buffer.concat([pngHeader(width, height), pngChunk("acTL", actl), ...parts, pngChunk("IEND", new Uint8Array(0))]);
+    },
+  };
+};
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  // 8-bit RGBA, row-major
+  data: Uint8Array;
+}
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// Bytes per pixel for each 8-bit colour type: greyscale, RGB, palette, grey+alpha, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Decodes a non-interlaced 8-bit PNG (any colour type) to RGBA.
+ */
+export const decodePng = (file: Buffer): RgbaImage => {
+  if (!file.subarray(0, 8).equals(PNG_SIGNATURE)) throw new Error("Not a PNG file");
+  let width = 0, height = 0, colorType = 0;
+  let palette: Buffer | undefined, transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset < file.length;) {
+    const length = file.readUInt32BE(offset);
+    const type = file.toString('ascii', offset + 4, offset + 8);
+    const data = file.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      colorType = data[9];
+      if (data[8] !== 8) throw new Error(`Unsupported PNG bit depth ${data[8]}`);
+      if (data[12] !== 0) throw new Error("Interlaced PNGs are not supported");
+    } else if (type === 'PLTE') palette = data;
+    else if (type === 'tRNS') transparency = data;
+    else if (type === 'IDAT') idat.push(data);
+    else if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels) throw new Error(`Unsupported PNG colour type ${colorType}`);
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+
+  // Undo the per-scanline filters
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = pixels.subarray(y * stride, (y + 1) * stride);
+    const prev = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : undefined;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= channels ? out[x - channels] : 0;
+      const b = prev ? prev[x] : 0;
+      const c = prev && x >= channels ? prev[x - channels] : 0;
+      const predictor = filter === 1 ? a : filter === 2 ? b : filter === 3 ? (a + b) >> 1 : filter === 4 ? paeth(a, b, c) : 0;
+      out[x] = (line[x] + predictor) & 0xff;
+    }
+  }
+
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0, src = 0; i < width * height; i++, src += channels) {
+    const dst = i * 4;
+    if (colorType === 3) {
+      const entry = pixels[src] * 3;
+      rgba[dst] = palette?.[entry] ?? 0;
+      rgba[dst + 1] = palette?.[entry + 1] ?? 0;
+      rgba[dst + 2] = palette?.[entry + 2] ?? 0;
+      rgba[dst + 3] = transparency?.[pixels[src]] ?? 255;
+    } else if (colorType === 0 || colorType === 4) {
+      rgba[dst] = rgba[dst + 1] = rgba[dst + 2] = pixels[src];
+      rgba[dst + 3] = colorType === 4 ? pixels[src + 1] : 255;
+    } else {
+      rgba[dst] = pixels[src];
+      rgba[dst + 1] = pixels[src + 1];
+      rgba[dst + 2] = pixels[src + 2];
+      rgba[dst + 3] = colorType === 6 ? pixels[src + 3] : 255;
+    }
+  }
+  return { width, height, data: rgba };
+};
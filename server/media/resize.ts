@@ -0,0 +1,54 @@
+import { RgbaImage } from "./png";
+
+/**
+ * Nearest-neighbour resize, used to bring frames that came back at slightly different sizes
+ * onto a common canvas.
+ */
+export const resizeNearest = (image: RgbaImage, width: number, height: number): RgbaImage => {
+  if (image.width === width && image.height === height) return image;
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(image.height - 1, Math.floor(y * image.height / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(image.width - 1, Math.floor(x * image.width / width));
+      data.set(image.data.subarray((sy * image.width + sx) * 4, (sy * image.width + sx) * 4 + 4), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Box-filter downscale: each output pixel averages the block of source pixels it covers.
+ * Upscaling falls back to nearest-neighbour.
+ */
+export const resizeImage = (image: RgbaImage, width: number, height: number): RgbaImage => {
+  if (width >= image.width || height >= image.height) return resizeNearest(image, width, height);
+  const data = new Uint8Array(width * height * 4);
+  const sum = new Float64Array(4);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * image.height / height), y1 = Math.max(y0 + 1, Math.floor((y + 1) * image.height / height));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * image.width / width), x1 = Math.max(x0 + 1, Math.floor((x + 1) * image.width / width));
+      sum.fill(0);
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          sum[0] += image.data[i]; sum[1] += image.data[i + 1]; sum[2] += image.data[i + 2]; sum[3] += image.data[i + 3];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0), o = (y * width + x) * 4;
+      for (let ch = 0; ch < 4; ch++) data[o + ch] = Math.round(sum[ch] / count);
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Largest size with the same aspect ratio whose longer side is at most maxSide. Pass even to round
+ * both sides down to even numbers, as yuv420p video requires.
+ */
+export const fitWithin = (width: number, height: number, maxSide: number, even = false) => {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  const round = (v: number) => even ? Math.max(2, Math.floor(v / 2) * 2) : Math.max(1, Math.round(v));
+  return { width: round(width * scale), height: round(height * scale) };
+};
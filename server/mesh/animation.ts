@@ -0,0 +1,110 @@
+import { AnimationFormat, AnimationKeyframe, AnimationQuality, Bone, BonePose, JobEvent, MeshRig, ModelPose, ModelView, RepairedMesh, RIG_BONES, Vector3 } from "../../types";
+import { encodeGif } from "../media/gif";
+import { encodePng } from "../media/png";
+import { nextTick } from "../util/async";
+import { createMeshRenderer, meshBounds, MODEL_VIEW_ORBITS } from "./render";
+import { applyPose, fitSkeleton, resolveBoneRotations } from "./rig";
+
+export const ANIMATION_QUALITY: Record<AnimationQuality, { size: number; fps: number; supersample: number }> = {
+  standard: { size: 320, fps: 10, supersample: 1 },
+  high: { size: 480, fps: 15, supersample: 2 },
+};
+
+export const MAX_ANIMATION_SECONDS = 8;
+
+export interface MeshAnimationOptions {
+  keyframes?: AnimationKeyframe[];
+  // Used when no keyframes are given: ease from rest into this pose and back
+  pose?: ModelPose;
+  bones?: BonePose[];
+  duration?: number;
+  format?: AnimationFormat;
+  quality?: AnimationQuality;
+  view?: ModelView;
+}
+
+export interface MeshAnimationResult {
+  // PNG data URLs, one per frame
+  frames: string[];
+  // Animated GIF data URL when format is 'gif'
+  gif?: string;
+  fps: number;
+  duration: number;
+}
+
+type ResolvedKey = { time: number; rotations: Record<Bone, Vector3> };
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Bone rotations at time t, eased between the surrounding keyframes. Holds the first and last
+ * keyframe outside their range.
+ */
+export const sampleKeyframes = (keys: ResolvedKey[], t: number): Record<Bone, Vector3> => {
+  const nextIndex = keys.findIndex(key => key.time > t);
+  if (nextIndex === -1) return keys[keys.length - 1].rotations;
+  if (nextIndex === 0) return keys[0].rotations;
+  const from = keys[nextIndex - 1], to = keys[nextIndex];
+  const u = smoothstep((t - from.time) / (to.time - from.time));
+  const lerp = (a: number, b: number) => a + (b - a) * u;
+  return Object.fromEntries(RIG_BONES.map(bone => {
+    const a = from.rotations[bone], b = to.rotations[bone];
+    return [bone, { x: lerp(a.x, b.x), y: lerp(a.y, b.y), z: lerp(a.z, b.z) }];
+  })) as Record<Bone, Vector3>;
+};
+
+const resolveKeyframes = (rig: MeshRig, options: MeshAnimationOptions, duration: number): ResolvedKey[] => {
+  const keyframes = options.keyframes?.length
+    ? options.keyframes
+    : [
+      { id: 'start', time: 0, bones: [] },
+      { id: 'peak', time: duration / 2, pose: options.pose || 'walking', bones: options.bones || [] },
+      { id: 'end', time: duration, bones: [] },
+    ];
+  return keyframes
+    .map(key => ({
+      time: Math.max(0, Math.min(duration, Number(key.time) || 0)),
+      rotations: resolveBoneRotations(rig, key.pose, key.bones),
+    }))
+    .sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Rigs the mesh, poses it at every frame of the keyframe timeline and rasterizes each pose with a
+ * camera framed on the whole clip. Frames are returned as PNGs, plus an animated GIF when requested.
+ */
+export const renderMeshAnimation = async (
+  mesh: RepairedMesh,
+  options: MeshAnimationOptions,
+  ctx?: { signal?: AbortSignal; emit?: (event: JobEvent) => void }
+): Promise<MeshAnimationResult> => {
+  const duration = Math.max(0.5, Math.min(MAX_ANIMATION_SECONDS, Number(options.duration) || 3));
+  const { size, fps, supersample } = ANIMATION_QUALITY[options.quality!] || ANIMATION_QUALITY.standard;
+  const frameCount = Math.max(2, Math.round(duration * fps));
+
+  const rig = fitSkeleton(mesh);
+  const keys = resolveKeyframes(rig, options, duration);
+  const posed = Array.from({ length: frameCount }, (_, i) => applyPose(mesh, rig, sampleKeyframes(keys, i / fps)).mesh);
+
+  const render = createMeshRenderer(meshBounds(posed), {
+    width: size, height: size, supersample, ...(MODEL_VIEW_ORBITS[options.view!] || MODEL_VIEW_ORBITS.isometric),
+  });
+
+  const pixels: Uint8Array[] = [];
+  const frames: string[] = [];
+  for (const [i, frameMesh] of posed.entries()) {
+    if (ctx?.signal?.aborted) throw new Error("Job cancelled");
+    const rgba = render(frameMesh);
+    if (options.format === 'gif') pixels.push(rgba);
+    frames.push(`data:image/png;base64,${encodePng(size, size, rgba).toString('base64')}`);
+    if (i % fps === 0 || i === frameCount - 1) ctx?.emit?.({ type: 'progress', message: `Rendering frame ${i + 1}/${frameCount}` });
+    await nextTick();
+  }
+
+  let gif: string | undefined;
+  if (options.format === 'gif') {
+    ctx?.emit?.({ type: 'progress', message: 'Encoding GIF' });
+    gif = `data:image/gif;base64,${encodeGif(size, size, pixels, { delayMs: 1000 / fps }).toString('base64')}`;
+  }
+  return { frames, gif, fps, duration };
+};
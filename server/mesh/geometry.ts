@@ -0,0 +1,181 @@
+import { MeshRepairReport, RepairedMesh } from "../../types";
+
+type Vec3 = [number, number, number];
+type Triangle = [number, number, number];
+
+// Faces the model leaves uncoloured (or colours with something unparseable) fall back to neutral grey
+export const DEFAULT_FACE_COLOR = '#a1a1aa';
+
+// Generous for low-poly output while keeping a runaway response from pinning the server
+const MAX_MESH_VERTICES = 200000;
+const MAX_MESH_FACES = 400000;
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+
+/**
+ * Accepts "#rgb", "#rrggbb", "#rrggbbaa" (with or without "#") and "rgb(r, g, b)"; returns lowercase "#rrggbb".
+ */
+export const normalizeColor = (value?: string): string => {
+  const input = value?.trim().toLowerCase() ?? '';
+  const long = /^#?([0-9a-f]{6})(?:[0-9a-f]{2})?$/.exec(input);
+  if (long) return `#${long[1]}`;
+  const short = /^#?([0-9a-f]{3})$/.exec(input);
+  if (short) return `#${[...short[1]].map(c => c + c).join('')}`;
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/.exec(input);
+  if (rgb) return `#${rgb.slice(1, 4).map(n => Math.min(255, Number(n)).toString(16).padStart(2, '0')).join('')}`;
+  return DEFAULT_FACE_COLOR;
+};
+
+// sRGB channels (0-1) of a normalized "#rrggbb" colour
+export const colorToRgb = (color: string): Vec3 =>
+  [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16) / 255) as Vec3;
+
+/**
+ * Splits a convex polygon into a triangle fan around its first corner.
+ */
+export const triangulatePolygon = (polygon: number[]): Triangle[] =>
+  polygon.slice(1, -1).map((index, i) => [polygon[0], index, polygon[i + 2]]);
+
+// Unnormalized: its length is twice the triangle's area
+const areaVector = (vertices: Vec3[], [a, b, c]: Triangle): Vec3 =>
+  cross(sub(vertices[b], vertices[a]), sub(vertices[c], vertices[a]));
+
+/**
+ * Unit normal per triangle, following the right-hand rule on its winding.
+ */
+export const computeFaceNormals = (vertices: number[][], faces: Triangle[]): number[][] =>
+  faces.map(face => {
+    const n = areaVector(vertices as Vec3[], face);
+    const len = length(n) || 1;
+    return [n[0] / len, n[1] / len, n[2] / len];
+  });
+
+const edgeKey = (a: number, b: number) => a < b ? `${a}:${b}` : `${b}:${a}`;
+
+const hasDirectedEdge = (face: Triangle, a: number, b: number) =>
+  (face[0] === a && face[1] === b) || (face[1] === a && face[2] === b) || (face[2] === a && face[0] === b);
+
+/**
+ * Makes winding consistent across each connected surface, then flips any surface whose signed
+ * volume is negative so its normals point outward. Mutates faces; returns how many were reversed.
+ */
+const orientFaces = (vertices: Vec3[], faces: Triangle[]): number => {
+  const edgeFaces = new Map<string, number[]>();
+  faces.forEach((face, i) => {
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(face[k], face[(k + 1) % 3]);
+      const shared = edgeFaces.get(key);
+      if (shared) shared.push(i);
+      else edgeFaces.set(key, [i]);
+    }
+  });
+
+  const reversed = new Uint8Array(faces.length);
+  const visited = new Uint8Array(faces.length);
+  const flip = (i: number) => {
+    const [a, b, c] = faces[i];
+    faces[i] = [a, c, b];
+    reversed[i] ^= 1;
+  };
+
+  for (let start = 0; start < faces.length; start++) {
+    if (visited[start]) continue;
+    visited[start] = 1;
+    const component = [start];
+    for (let q = 0; q < component.length; q++) {
+      const face = faces[component[q]];
+      for (let k = 0; k < 3; k++) {
+        const a = face[k], b = face[(k + 1) % 3];
+        for (const j of edgeFaces.get(edgeKey(a, b)) || []) {
+          if (visited[j]) continue;
+          // A consistently wound neighbour walks the shared edge in the opposite direction
+          if (hasDirectedEdge(faces[j], a, b)) flip(j);
+          visited[j] = 1;
+          component.push(j);
+        }
+      }
+    }
+
+    const centroid = component
+      .flatMap(i => faces[i].map(v => vertices[v]))
+      .reduce<Vec3>((sum, v) => [sum[0] + v[0], sum[1] + v[1], sum[2] + v[2]], [0, 0, 0])
+      .map(total => total / (component.length * 3)) as Vec3;
+    const volume = component.reduce((sum, i) => {
+      const [a, b, c] = faces[i].map(v => sub(vertices[v], centroid));
+      return sum + dot(a, cross(b, c));
+    }, 0);
+    if (volume < 0) component.forEach(flip);
+  }
+
+  return reversed.reduce((count, r) => count + r, 0);
+};
+
+const isVertex = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length >= 3 && value.slice(0, 3).every(n => typeof n === 'number' && Number.isFinite(n));
+
+/**
+ * Validates and repairs a model-generated mesh: drops malformed vertices, out-of-range and
+ * degenerate faces, fan-triangulates polygons, normalizes colours, orients faces outward and
+ * removes vertices no face uses. Throws when the input isn't mesh-shaped at all.
+ */
+export const repairMesh = (raw: unknown): RepairedMesh => {
+  const input = raw as { vertices?: unknown; faces?: unknown } | null;
+  if (!input || !Array.isArray(input.vertices) || !Array.isArray(input.faces)) {
+    throw new Error("Mesh must be an object with vertices and faces arrays");
+  }
+  if (input.vertices.length > MAX_MESH_VERTICES || input.faces.length > MAX_MESH_FACES) {
+    throw new Error(`Mesh is too large (limit ${MAX_MESH_VERTICES} vertices, ${MAX_MESH_FACES} faces)`);
+  }
+
+  const report: MeshRepairReport = { droppedVertices: 0, droppedFaces: 0, triangulatedFaces: 0, flippedFaces: 0 };
+  const vertices = (input.vertices as unknown[]).map(v => isVertex(v) ? v.slice(0, 3) as Vec3 : null);
+
+  const extent = vertices.reduce((max, v) => v ? Math.max(max, ...v.map(Math.abs)) : max, 0) || 1;
+  // Triangles smaller than this (relative to the mesh size) are treated as zero-area
+  const minDoubleArea = (extent * 1e-6) ** 2;
+
+  const triangles: Triangle[] = [];
+  const colors: string[] = [];
+  for (const face of input.faces as unknown[]) {
+    if (!Array.isArray(face)) { report.droppedFaces++; continue; }
+    const color = normalizeColor(face.find((entry): entry is string => typeof entry === 'string'));
+    const corners = face.filter((entry): entry is number => typeof entry === 'number');
+    // Drop repeated corners ("a b b c", or a polygon that closes on its first index)
+    const polygon = corners.filter((index, i) => index !== corners[(i + 1) % corners.length]);
+    const inRange = polygon.every(index => Number.isInteger(index) && vertices[index] != null);
+    if (polygon.length < 3 || !inRange) { report.droppedFaces++; continue; }
+
+    if (polygon.length > 3) report.triangulatedFaces++;
+    for (const tri of triangulatePolygon(polygon)) {
+      if (length(areaVector(vertices as Vec3[], tri)) <= minDoubleArea) { report.droppedFaces++; continue; }
+      triangles.push(tri);
+      colors.push(color);
+    }
+  }
+
+  // Compact to the vertices that survive and are referenced
+  const remap = new Map<number, number>();
+  const kept: Vec3[] = [];
+  for (const tri of triangles) {
+    for (const index of tri) {
+      if (!remap.has(index)) {
+        remap.set(index, kept.length);
+        kept.push(vertices[index]!);
+      }
+    }
+  }
+  report.droppedVertices = vertices.length - kept.length;
+  const faces = triangles.map(tri => tri.map(index => remap.get(index)!) as Triangle);
+
+  report.flippedFaces = orientFaces(kept, faces);
+
+  return {
+    vertices: kept,
+    faces: faces.map((tri, i) => [...tri, colors[i]] as [number, number, number, string]),
+    normals: computeFaceNormals(kept, faces),
+    report,
+  };
+};
@@ -0,0 +1,119 @@
+import { RepairedMesh } from "../../types";
+import { colorToRgb } from "./geometry";
+
+const GLB_MAGIC = 0x46546c67;   // "glTF"
+const CHUNK_JSON = 0x4e4f534a;  // "JSON"
+const CHUNK_BIN = 0x004e4942;   // "BIN\0"
+
+const FLOAT = 5126;
+const ARRAY_BUFFER = 34962;
+
+// glTF colour factors are linear; hex colours are sRGB
+const srgbToLinear = (c: number) => c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+
+const padTo4 = (buffer: Buffer, fill: number) => {
+  const padding = (4 - (buffer.length % 4)) % 4;
+  return padding ? Buffer.concat([buffer, Buffer.alloc(padding, fill)]) : buffer;
+};
+
+/**
+ * Accumulates binary data and the JSON that indexes it, for assembling a single-buffer GLB.
+ */
+export const createGltfBuilder = () => {
+  const json: any = {
+    asset: { version: '2.0', generator: 'LuminaGen' },
+    buffers: [], bufferViews: [], accessors: [], materials: [], meshes: [], nodes: [], scenes: [], scene: 0,
+  };
+  const chunks: Buffer[] = [];
+  let byteLength = 0;
+
+  // Adds a tightly packed VEC3/VEC4/MAT4/SCALAR float accessor and returns its index
+  const addAccessor = (data: Float32Array, type: 'SCALAR' | 'VEC3' | 'VEC4' | 'MAT4', options: { target?: number; bounds?: boolean } = {}) => {
+    const width = { SCALAR: 1, VEC3: 3, VEC4: 4, MAT4: 16 }[type];
+    const bytes = padTo4(Buffer.from(data.buffer, data.byteOffset, data.byteLength), 0);
+    json.bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: data.byteLength, ...(options.target ? { target: options.target } : {}) });
+    chunks.push(bytes);
+    byteLength += bytes.length;
+
+    const accessor: any = { bufferView: json.bufferViews.length - 1, componentType: FLOAT, count: data.length / width, type };
+    if (options.bounds) {
+      accessor.min = new Array(width).fill(Infinity);
+      accessor.max = new Array(width).fill(-Infinity);
+      data.forEach((value, i) => {
+        accessor.min[i % width] = Math.min(accessor.min[i % width], value);
+        accessor.max[i % width] = Math.max(accessor.max[i % width], value);
+      });
+    }
+    json.accessors.push(accessor);
+    return json.accessors.length - 1;
+  };
+
+  const toGlb = (): Buffer => {
+    const bin = Buffer.concat(chunks);
+    json.buffers = [{ byteLength: bin.length }];
+    // The spec forbids empty top-level arrays
+    for (const key of Object.keys(json)) {
+      if (Array.isArray(json[key]) && json[key].length === 0) delete json[key];
+    }
+    const jsonChunk = padTo4(Buffer.from(JSON.stringify(json)), 0x20);
+    const header = Buffer.alloc(12);
+    header.writeUInt32LE(GLB_MAGIC, 0);
+    header.writeUInt32LE(2, 4);
+    header.writeUInt32LE(12 + 8 + jsonChunk.length + 8 + bin.length, 8);
+    const chunkHeader = (length: number, type: number) => {
+      const buf = Buffer.alloc(8);
+      buf.writeUInt32LE(length, 0);
+      buf.writeUInt32LE(type, 4);
+      return buf;
+    };
+    return Buffer.concat([header, chunkHeader(jsonChunk.length, CHUNK_JSON), jsonChunk, chunkHeader(bin.length, CHUNK_BIN), bin]);
+  };
+
+  return { json, addAccessor, toGlb };
+};
+
+/**
+ * Lays out a repaired mesh as one primitive per face colour. Corners are unwelded so every
+ * triangle carries its own face normal, which keeps low-poly shading flat in any viewer.
+ */
+export const addMeshPrimitives = (builder: ReturnType<typeof createGltfBuilder>, mesh: RepairedMesh, name = 'model') => {
+  const colors = [...new Set(mesh.faces.map(face => face[3]))];
+  const primitives = colors.map(color => {
+    const faceIndices = mesh.faces.flatMap((face, i) => face[3] === color ? [i] : []);
+    const positions = new Float32Array(faceIndices.length * 9);
+    const normals = new Float32Array(faceIndices.length * 9);
+    faceIndices.forEach((faceIndex, f) => {
+      const [a, b, c] = mesh.faces[faceIndex];
+      [a, b, c].forEach((vertex, corner) => {
+        positions.set(mesh.vertices[vertex], f * 9 + corner * 3);
+        normals.set(mesh.normals[faceIndex], f * 9 + corner * 3);
+      });
+    });
+
+    builder.json.materials.push({
+      name: `mat_${color.slice(1)}`,
+      pbrMetallicRoughness: { baseColorFactor: [...colorToRgb(color).map(srgbToLinear), 1], metallicFactor: 0, roughnessFactor: 0.8 },
+    });
+    return {
+      attributes: {
+        POSITION: builder.addAccessor(positions, 'VEC3', { target: ARRAY_BUFFER, bounds: true }),
+        NORMAL: builder.addAccessor(normals, 'VEC3', { target: ARRAY_BUFFER }),
+      },
+      material: builder.json.materials.length - 1,
+    };
+  });
+
+  builder.json.meshes.push({ name, primitives });
+  return builder.json.meshes.length - 1;
+};
+
+/**
+ * Serializes a repaired mesh as a self-contained binary glTF (.glb).
+ */
+export const meshToGlb = (mesh: RepairedMesh, name = 'model'): Buffer => {
+  const builder = createGltfBuilder();
+  const meshIndex = addMeshPrimitives(builder, mesh, name);
+  builder.json.nodes.push({ name, mesh: meshIndex });
+  builder.json.scenes.push({ nodes: [0] });
+  return builder.toGlb();
+};
@@ -0,0 +1,32 @@
+import { Export3DFormat, RepairedMesh } from "../../types";
+import { safeBaseName } from "../media/mime";
+import { createZip } from "../media/zip";
+import { meshToGlb } from "./gltf";
+import { meshToObj } from "./obj";
+
+export * from "./geometry";
+export * from "./gltf";
+export * from "./obj";
+export * from "./rig";
+export * from "./render";
+export * from "./animation";
+
+export const EXPORT_3D_FORMATS: Export3DFormat[] = ['obj', 'gltf'];
+
+/**
+ * Serializes a repaired mesh for download. OBJ is zipped together with its MTL library;
+ * glTF is written as a single binary .glb.
+ */
+export const exportMesh = (mesh: RepairedMesh, format: Export3DFormat, name?: string): { data: Buffer; mimeType: string; filename: string } => {
+  if (mesh.faces.length === 0) throw new Error("Mesh has no valid faces to export");
+  const baseName = safeBaseName(name, 'model');
+  if (format === 'gltf') {
+    return { data: meshToGlb(mesh, baseName), mimeType: 'model/gltf-binary', filename: `${baseName}.glb` };
+  }
+  const { obj, mtl } = meshToObj(mesh, baseName);
+  return {
+    data: createZip([{ name: `${baseName}.obj`, data: Buffer.from(obj) }, { name: `${baseName}.mtl`, data: Buffer.from(mtl) }]),
+    mimeType: 'application/zip',
+    filename: `${baseName}-obj.zip`,
+  };
+};
@@ -0,0 +1,41 @@
+import { RepairedMesh } from "../../types";
+import { colorToRgb } from "./geometry";
+
+const formatNumber = (n: number) => String(Number(n.toFixed(6)));
+
+const materialName = (color: string) => `mat_${color.slice(1)}`;
+
+/**
+ * Serializes a repaired mesh as Wavefront OBJ plus its MTL library, one material per face colour.
+ * Normals are written per face so low-poly models keep their hard edges.
+ */
+export const meshToObj = (mesh: RepairedMesh, name = 'model'): { obj: string; mtl: string } => {
+  const colors = [...new Set(mesh.faces.map(face => face[3]))];
+
+  const mtl = colors.map(color => [
+    `newmtl ${materialName(color)}`,
+    `Kd ${colorToRgb(color).map(formatNumber).join(' ')}`,
+    'Ka 0 0 0',
+    'Ks 0 0 0',
+    'd 1',
+    'illum 1',
+  ].join('\n')).join('\n\n');
+
+  const lines = [
+    '# Generated by LuminaGen',
+    `mtllib ${name}.mtl`,
+    `o ${name}`,
+    ...mesh.vertices.map(v => `v ${v.map(formatNumber).join(' ')}`),
+    ...mesh.normals.map(n => `vn ${n.map(formatNumber).join(' ')}`),
+  ];
+  // Group faces by material so each usemtl appears once; OBJ indices are 1-based
+  for (const color of colors) {
+    lines.push(`usemtl ${materialName(color)}`);
+    mesh.faces.forEach(([a, b, c, faceColor], i) => {
+      if (faceColor !== color) return;
+      lines.push(`f ${[a, b, c].map(v => `${v + 1}//${i + 1}`).join(' ')}`);
+    });
+  }
+
+  return { obj: `${lines.join('\n')}\n`, mtl: `${mtl}\n` };
+};
@@ -0,0 +1,120 @@
+import { ModelView, RepairedMesh } from "../../types";
+
+export interface MeshBounds {
+  min: number[];
+  max: number[];
+}
+
+export interface MeshRenderOptions {
+  width: number;
+  height: number;
+  // Camera orbit in radians around the framing centre
+  yaw: number;
+  pitch: number;
+  background?: number[];
+  // Renders at this multiple of the output size and averages down, smoothing edges
+  supersample?: number;
+}
+
+// Orbit angles for each camera preset; the model faces +Z, so yaw 0 looks at its front
+export const MODEL_VIEW_ORBITS: Record<ModelView, { yaw: number; pitch: number }> = {
+  front: { yaw: 0, pitch: 0.1 },
+  isometric: { yaw: Math.PI / 4, pitch: 0.5 },
+  side: { yaw: Math.PI / 2, pitch: 0.1 },
+  back: { yaw: Math.PI, pitch: 0.1 },
+  top: { yaw: 0, pitch: 1.3 },
+};
+
+// Same lighting as the browser preview: view-space light from upper left, plus ambient
+const LIGHT = [-0.4, 0.6, 0.7].map(v => v / Math.hypot(-0.4, 0.6, 0.7));
+const AMBIENT = 0.35;
+const DEFAULT_BACKGROUND = [24, 24, 27];
+
+export const meshBounds = (meshes: RepairedMesh[]): MeshBounds => {
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+  for (const mesh of meshes) {
+    mesh.vertices.forEach(v => v.forEach((c, k) => { min[k] = Math.min(min[k], c); max[k] = Math.max(max[k], c); }));
+  }
+  return { min, max };
+};
+
+const parseHex = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+/**
+ * Returns a z-buffered, flat-shaded software rasterizer with a camera fixed to the given bounds,
+ * so every frame of an animation is framed identically. Output is 8-bit RGBA.
+ */
+export const createMeshRenderer = (bounds: MeshBounds, options: MeshRenderOptions) => {
+  const ss = Math.max(1, Math.floor(options.supersample || 1));
+  const width = options.width * ss, height = options.height * ss;
+  const background = options.background || DEFAULT_BACKGROUND;
+
+  const center = bounds.min.map((m, k) => (m + bounds.max[k]) / 2);
+  const radius = Math.hypot(...bounds.max.map((m, k) => m - bounds.min[k])) / 2 || 1;
+  const cameraDistance = radius * 3;
+  const scale = Math.min(width, height) / (radius * 2.4);
+  const [cy, sy, cp, sp] = [Math.cos(options.yaw), Math.sin(options.yaw), Math.cos(options.pitch), Math.sin(options.pitch)];
+  const rotate = ([x, y, z]: number[]) => {
+    const x1 = x * cy + z * sy, z1 = -x * sy + z * cy;
+    return [x1, y * cp - z1 * sp, y * sp + z1 * cp];
+  };
+
+  return (mesh: RepairedMesh): Uint8Array => {
+    const color = new Uint8Array(width * height * 4);
+    for (let i = 0; i < width * height; i++) color.set([background[0], background[1], background[2], 255], i * 4);
+    // View-space z of the nearest surface so far; larger is closer to the camera
+    const depth = new Float32Array(width * height).fill(-Infinity);
+
+    const screen = mesh.vertices.map(v => {
+      const [x, y, z] = rotate(v.map((c, k) => c - center[k]));
+      const perspective = cameraDistance / (cameraDistance - z);
+      return [width / 2 + x * scale * perspective, height / 2 - y * scale * perspective, z];
+    });
+
+    mesh.faces.forEach(([a, b, c, hex], f) => {
+      const n = rotate(mesh.normals[f]);
+      const view = [a, b, c].map(i => rotate(mesh.vertices[i].map((v, k) => v - center[k])));
+      const centroid = [0, 1, 2].map(k => (view[0][k] + view[1][k] + view[2][k]) / 3);
+      if (n[0] * -centroid[0] + n[1] * -centroid[1] + n[2] * (cameraDistance - centroid[2]) <= 0) return;
+
+      const light = AMBIENT + (1 - AMBIENT) * Math.max(0, n[0] * LIGHT[0] + n[1] * LIGHT[1] + n[2] * LIGHT[2]);
+      const rgb = parseHex(hex).map(ch => Math.min(255, Math.round(ch * light)));
+      const [p0, p1, p2] = [screen[a], screen[b], screen[c]];
+      const area = (p1[0] - p0[0]) * (p2[1] - p0[1]) - (p1[1] - p0[1]) * (p2[0] - p0[0]);
+      if (area === 0) return;
+
+      const minX = Math.max(0, Math.floor(Math.min(p0[0], p1[0], p2[0])));
+      const maxX = Math.min(width - 1, Math.ceil(Math.max(p0[0], p1[0], p2[0])));
+      const minY = Math.max(0, Math.floor(Math.min(p0[1], p1[1], p2[1])));
+      const maxY = Math.min(height - 1, Math.ceil(Math.max(p0[1], p1[1], p2[1])));
+      for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+          const px = x + 0.5, py = y + 0.5;
+          // Barycentric weights; all share the triangle's sign when the pixel centre is inside
+          const w0 = ((p1[0] - px) * (p2[1] - py) - (p1[1] - py) * (p2[0] - px)) / area;
+          const w1 = ((p2[0] - px) * (p0[1] - py) - (p2[1] - py) * (p0[0] - px)) / area;
+          const w2 = 1 - w0 - w1;
+          if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+          const z = w0 * p0[2] + w1 * p1[2] + w2 * p2[2];
+          const i = y * width + x;
+          if (z <= depth[i]) continue;
+          depth[i] = z;
+          color[i * 4] = rgb[0]; color[i * 4 + 1] = rgb[1]; color[i * 4 + 2] = rgb[2];
+        }
+      }
+    });
+
+    if (ss === 1) return color;
+    const out = new Uint8Array(options.width * options.height * 4);
+    for (let y = 0; y < options.height; y++) {
+      for (let x = 0; x < options.width; x++) {
+        for (let ch = 0; ch < 4; ch++) {
+          let sum = 0;
+          for (let dy = 0; dy < ss; dy++) for (let dx = 0; dx < ss; dx++) sum += color[((y * ss + dy) * width + x * ss + dx) * 4 + ch];
+          out[(y * options.width + x) * 4 + ch] = Math.round(sum / (ss * ss));
+        }
+      }
+    }
+    return out;
+  };
+};
@@ -0,0 +1,200 @@
+import { Bone, BonePose, MeshRig, ModelPose, RepairedMesh, RigBone, RIG_BONES, Vector3 } from "../../types";
+import { computeFaceNormals } from "./geometry";
+
+// Row-major 3x4 affine transform: [r00 r01 r02 tx, r10 r11 r12 ty, r20 r21 r22 tz]
+type Affine = number[];
+
+const multiply = (a: Affine, b: Affine): Affine => {
+  const out = new Array(12).fill(0);
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 4; c++) {
+      out[r * 4 + c] = a[r * 4] * b[c] + a[r * 4 + 1] * b[4 + c] + a[r * 4 + 2] * b[8 + c] + (c === 3 ? a[r * 4 + 3] : 0);
+    }
+  }
+  return out;
+};
+
+const transformPoint = (m: Affine, [x, y, z]: number[]): number[] => [
+  m[0] * x + m[1] * y + m[2] * z + m[3],
+  m[4] * x + m[5] * y + m[6] * z + m[7],
+  m[8] * x + m[9] * y + m[10] * z + m[11],
+];
+
+const translation = ({ x, y, z }: Vector3): Affine => [1, 0, 0, x, 0, 1, 0, y, 0, 0, 1, z];
+
+/**
+ * Rotation from Euler angles in degrees, applied about X, then Y, then Z.
+ */
+export const eulerToAffine = ({ x, y, z }: Vector3): Affine => {
+  const [a, b, c] = [x, y, z].map(deg => deg * Math.PI / 180);
+  const [ca, sa, cb, sb, cc, sc] = [Math.cos(a), Math.sin(a), Math.cos(b), Math.sin(b), Math.cos(c), Math.sin(c)];
+  const rx: Affine = [1, 0, 0, 0, 0, ca, -sa, 0, 0, sa, ca, 0];
+  const ry: Affine = [cb, 0, sb, 0, 0, 1, 0, 0, -sb, 0, cb, 0];
+  const rz: Affine = [cc, -sc, 0, 0, sc, cc, 0, 0, 0, 0, 1, 0];
+  return multiply(rz, multiply(ry, rx));
+};
+
+// Legs hang from the hips rather than the torso so bending the spine leaves them planted
+const BONE_PARENTS: Record<Bone, Bone | null> = {
+  torso: null, head: 'torso', 'left-arm': 'torso', 'right-arm': 'torso', 'left-leg': null, 'right-leg': null,
+};
+
+const vec = (x: number, y: number, z: number): Vector3 => ({ x, y, z });
+
+/**
+ * Fits the six-bone skeleton to a Y-up humanoid facing +Z (its left side at +X) using
+ * bounding-box proportions, then weights each vertex to its body region. Vertices close to a
+ * joint are blended with the torso so limbs bend instead of shearing away from the body.
+ */
+export const fitSkeleton = (mesh: RepairedMesh): MeshRig => {
+  if (mesh.vertices.length === 0) throw new Error("Cannot rig an empty mesh");
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+  mesh.vertices.forEach(v => v.forEach((c, k) => { min[k] = Math.min(min[k], c); max[k] = Math.max(max[k], c); }));
+  const height = max[1] - min[1] || 1;
+  const cx = (min[0] + max[0]) / 2, cz = (min[2] + max[2]) / 2;
+  const at = (fraction: number) => min[1] + height * fraction;
+
+  const hipY = at(0.45), shoulderY = at(0.78), neckY = at(0.805);
+  // Widest point between hips and neck: the hands in a T-pose, the outside of the arms otherwise
+  const halfSpan = mesh.vertices.reduce((span, [x, y]) => y >= hipY && y <= neckY ? Math.max(span, Math.abs(x - cx)) : span, 0) || height * 0.2;
+  const tPose = halfSpan > height * 0.3;
+  const shoulderX = tPose ? height * 0.13 : halfSpan * 0.8;
+  const torsoHalfWidth = tPose ? height * 0.11 : halfSpan * 0.6;
+  const handY = tPose ? shoulderY : at(0.42);
+  const handX = tPose ? halfSpan : shoulderX;
+  const feet = mesh.vertices.filter(([, y]) => y < at(0.25));
+  const legX = feet.length ? feet.reduce((sum, [x]) => sum + Math.abs(x - cx), 0) / feet.length : height * 0.1;
+
+  const bones: RigBone[] = [
+    { bone: 'torso', parent: null, head: vec(cx, hipY, cz), tail: vec(cx, neckY, cz) },
+    { bone: 'head', parent: 'torso', head: vec(cx, neckY, cz), tail: vec(cx, max[1], cz) },
+    { bone: 'left-arm', parent: 'torso', head: vec(cx + shoulderX, shoulderY, cz), tail: vec(cx + handX, handY, cz) },
+    { bone: 'right-arm', parent: 'torso', head: vec(cx - shoulderX, shoulderY, cz), tail: vec(cx - handX, handY, cz) },
+    { bone: 'left-leg', parent: null, head: vec(cx + legX, hipY, cz), tail: vec(cx + legX, min[1], cz) },
+    { bone: 'right-leg', parent: null, head: vec(cx - legX, hipY, cz), tail: vec(cx - legX, min[1], cz) },
+  ];
+  const byName = new Map(bones.map(b => [b.bone, b]));
+
+  const armTop = Math.min(handY, shoulderY) - height * 0.08;
+  const regionOf = ([x, y]: number[]): Bone => {
+    const side = x >= cx ? 'left' : 'right';
+    if (Math.abs(x - cx) > torsoHalfWidth && y > armTop && y < neckY + height * 0.05) return `${side}-arm`;
+    if (y >= neckY) return 'head';
+    if (y < hipY) return `${side}-leg`;
+    return 'torso';
+  };
+
+  const blendRadius = height * 0.05;
+  const weights = mesh.vertices.map(v => {
+    const bone = regionOf(v);
+    const row = RIG_BONES.map(() => 0);
+    if (bone === 'torso') {
+      row[RIG_BONES.indexOf('torso')] = 1;
+      return row;
+    }
+    // Distance past the joint along the bone decides how much the limb owns the vertex
+    const { head, tail } = byName.get(bone)!;
+    const dir = [tail.x - head.x, tail.y - head.y, tail.z - head.z];
+    const len = Math.hypot(dir[0], dir[1], dir[2]) || 1;
+    const along = ((v[0] - head.x) * dir[0] + (v[1] - head.y) * dir[1] + (v[2] - head.z) * dir[2]) / len;
+    const own = Math.max(0, Math.min(1, 0.5 + 0.5 * along / blendRadius));
+    row[RIG_BONES.indexOf(bone)] = own;
+    row[RIG_BONES.indexOf('torso')] += 1 - own;
+    return row;
+  });
+
+  return { bones, weights, restPose: tPose ? 't-pose' : 'standing' };
+};
+
+// Rotations from an arms-down rest pose. Positive X swings a limb backwards; positive Z raises the left arm.
+const POSE_PRESETS: Record<ModelPose, Partial<Record<Bone, Vector3>>> = {
+  standing: { 'left-arm': vec(0, 0, 8), 'right-arm': vec(0, 0, -8) },
+  't-pose': { 'left-arm': vec(0, 0, 90), 'right-arm': vec(0, 0, -90) },
+  walking: { 'left-arm': vec(20, 0, 6), 'right-arm': vec(-20, 0, -6), 'left-leg': vec(-20, 0, 0), 'right-leg': vec(20, 0, 0) },
+  running: {
+    torso: vec(12, 0, 0), 'left-arm': vec(45, 0, 10), 'right-arm': vec(-45, 0, -10),
+    'left-leg': vec(-40, 0, 0), 'right-leg': vec(35, 0, 0),
+  },
+  action: {
+    torso: vec(8, 25, 0), head: vec(0, -20, 0), 'left-arm': vec(-30, 0, 35), 'right-arm': vec(-85, 0, 0),
+    'left-leg': vec(-15, 0, 12), 'right-leg': vec(15, 0, -12),
+  },
+  sitting: { torso: vec(-5, 0, 0), 'left-arm': vec(-30, 0, 5), 'right-arm': vec(-30, 0, -5), 'left-leg': vec(-90, 0, 4), 'right-leg': vec(-90, 0, -4) },
+};
+
+/**
+ * Combines a preset with per-bone overrides into one rotation per bone. Presets assume arms at
+ * the sides, so a T-pose rest gets its arms lowered first.
+ */
+export const resolveBoneRotations = (rig: MeshRig, pose?: ModelPose, overrides: BonePose[] = []): Record<Bone, Vector3> => {
+  if (pose && !POSE_PRESETS[pose]) throw new Error(`Unknown pose "${pose}"`);
+  const rotations = Object.fromEntries(RIG_BONES.map(bone => [bone, vec(0, 0, 0)])) as Record<Bone, Vector3>;
+  if (pose) {
+    for (const [bone, rotation] of Object.entries(POSE_PRESETS[pose]) as [Bone, Vector3][]) rotations[bone] = { ...rotation };
+    if (rig.restPose === 't-pose') {
+      rotations['left-arm'].z -= 90;
+      rotations['right-arm'].z += 90;
+    }
+  }
+  for (const { bone, rotation } of overrides) {
+    if (!RIG_BONES.includes(bone)) throw new Error(`Unknown bone "${bone}"`);
+    const current = rotations[bone];
+    rotations[bone] = vec(current.x + (Number(rotation?.x) || 0), current.y + (Number(rotation?.y) || 0), current.z + (Number(rotation?.z) || 0));
+  }
+  return rotations;
+};
+
+/**
+ * World transform of every bone: each rotates about its own joint, on top of its parent's motion.
+ */
+const boneTransforms = (rig: MeshRig, rotations: Record<Bone, Vector3>): Record<Bone, Affine> => {
+  const transforms = {} as Record<Bone, Affine>;
+  // RIG_BONES lists parents before children
+  for (const bone of RIG_BONES) {
+    const { head } = rig.bones.find(b => b.bone === bone)!;
+    const local = multiply(translation(head), multiply(eulerToAffine(rotations[bone]), translation(vec(-head.x, -head.y, -head.z))));
+    const parent = BONE_PARENTS[bone];
+    transforms[bone] = parent ? multiply(transforms[parent], local) : local;
+  }
+  return transforms;
+};
+
+/**
+ * Deforms the mesh with linear blend skinning and returns it alongside the skeleton in the same pose.
+ */
+export const applyPose = (mesh: RepairedMesh, rig: MeshRig, rotations: Record<Bone, Vector3>): { mesh: RepairedMesh; rig: MeshRig } => {
+  if (rig.weights.length !== mesh.vertices.length) throw new Error("Rig weights do not match the mesh vertices");
+  const transforms = boneTransforms(rig, rotations);
+  const matrices = RIG_BONES.map(bone => transforms[bone]);
+
+  const vertices = mesh.vertices.map((v, i) => {
+    const out = [0, 0, 0];
+    rig.weights[i].forEach((weight, b) => {
+      if (!weight) return;
+      const p = transformPoint(matrices[b], v);
+      out[0] += p[0] * weight; out[1] += p[1] * weight; out[2] += p[2] * weight;
+    });
+    return out;
+  });
+
+  const toVector = ([x, y, z]: number[]): Vector3 => vec(x, y, z);
+  const bones = rig.bones.map(b => ({
+    ...b,
+    head: toVector(transformPoint(transforms[b.bone], [b.head.x, b.head.y, b.head.z])),
+    tail: toVector(transformPoint(transforms[b.bone], [b.tail.x, b.tail.y, b.tail.z])),
+  }));
+
+  const triangles = mesh.faces.map(([a, b, c]) => [a, b, c] as [number, number, number]);
+  return {
+    mesh: { ...mesh, vertices, normals: computeFaceNormals(vertices, triangles) },
+    rig: { ...rig, bones },
+  };
+};
+
+/**
+ * Rigs a repaired mesh and poses it from a preset and/or per-bone rotations in one step.
+ */
+export const poseMesh = (mesh: RepairedMesh, pose?: ModelPose, overrides: BonePose[] = []) => {
+  const rig = fitSkeleton(mesh);
+  return applyPose(mesh, rig, resolveBoneRotations(rig, pose, overrides));
+};
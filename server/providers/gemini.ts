@@ -0,0 +1,166 @@
+import { GenerateVideosOperation, GoogleGenAI, Modality } from "@google/genai";
+import { GenerationProvider, InlineData, VIDEO_POLL_INTERVAL_MS, VideoOperation } from "./types";
+
+/**
+ * Shared Gemini client utility on the server.
+ * Sets the User-Agent header to 'aistudio-build' for telemetry.
+ */
+const getGeminiClient = () => {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY environment variable is not defined");
+  }
+  return new GoogleGenAI({
+    apiKey,
+    httpOptions: {
+      headers: {
+        'User-Agent': 'aistudio-build',
+      }
+    }
+  });
+};
+
+const toParts = (prompt: string, media: InlineData[] = []) => [
+  ...media.flatMap(({ label, ...inlineData }) => label ? [{ text: label }, { inlineData }] : [{ inlineData }]),
+  { text: prompt }
+];
+
+const firstInlineData = (response: any): string | undefined =>
+  response.candidates?.[0]?.content?.parts?.find((p: any) => p.inlineData)?.inlineData?.data;
+
+// Finished Veo operations usually return a download URI rather than inline bytes
+const downloadVideo = async (uri: string, signal?: AbortSignal): Promise<string> => {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY || '';
+  const response = await fetch(uri, { headers: { 'x-goog-api-key': apiKey }, signal });
+  if (!response.ok) throw new Error(`Failed to download generated video (HTTP ${response.status})`);
+  return Buffer.from(await response.arrayBuffer()).toString('base64');
+};
+
+const toVideoOperation = async (operation: GenerateVideosOperation, signal?: AbortSignal): Promise<VideoOperation> => {
+  if (!operation.done) return { handle: operation, done: false, pollAfterMs: VIDEO_POLL_INTERVAL_MS };
+  if (operation.error) {
+    return { handle: operation, done: true, error: String(operation.error.message || JSON.stringify(operation.error)) };
+  }
+  const video = operation.response?.generatedVideos?.[0]?.video;
+  if (video?.videoBytes) return { handle: operation, done: true, video: video.videoBytes };
+  if (video?.uri) return { handle: operation, done: true, video: await downloadVideo(video.uri, signal) };
+  const filtered = operation.response?.raiMediaFilteredReasons?.join('; ');
+  return { handle: operation, done: true, error: filtered ? `Video was blocked: ${filtered}` : "Veo returned no video" };
+};
+
+export const createGeminiProvider = (): GenerationProvider => ({
+  name: 'gemini',
+  cooldownMs: 4500,
+
+  async generateText({ model, prompt, media, signal }) {
+    const ai = getGeminiClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: media?.length ? { parts: toParts(prompt, media) } : prompt,
+      config: { abortSignal: signal }
+    });
+    return response.text?.trim() || "";
+  },
+
+  async generateJson({ model, prompt, media, schema, signal }) {
+    const ai = getGeminiClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: media?.length ? { parts: toParts(prompt, media) } : prompt,
+      config: {
+        responseMimeType: "application/json",
+        ...(schema ? { responseSchema: schema } : {}),
+        abortSignal: signal
+      }
+    });
+    return JSON.parse(response.text?.trim() || "null");
+  },
+
+  async generateImage({ model, prompt, aspectRatio, imageSize, signal }) {
+    const ai = getGeminiClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: { imageConfig: { aspectRatio, imageSize }, abortSignal: signal }
+    });
+    return firstInlineData(response);
+  },
+
+  async editImage({ model, prompt, images, aspectRatio, imageSize, signal }) {
+    const ai = getGeminiClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts: toParts(prompt, images) },
+      config: { imageConfig: { aspectRatio, imageSize }, abortSignal: signal }
+    });
+    return firstInlineData(response);
+  },
+
+  async generateImageBatch({ model, prompt, aspectRatio, imageSize, numberOfImages, signal }) {
+    const ai = getGeminiClient();
+    const response = await ai.models.generateImages({
+      model,
+      prompt,
+      config: { numberOfImages, aspectRatio, imageSize, outputMimeType: 'image/png', abortSignal: signal }
+    });
+    return (response.generatedImages || [])
+      .map(generated => generated.image?.imageBytes)
+      .filter((data): data is string => !!data);
+  },
+
+  async generateSpeech({ model, text, voice, signal }) {
+    const ai = getGeminiClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+        abortSignal: signal,
+      },
+    });
+    const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!data) throw new Error("No audio returned from Gemini Speech API");
+    return data;
+  },
+
+  async generateDialogSpeech({ model, script, speakers, signal }) {
+    const ai = getGeminiClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: [{ parts: [{ text: `TTS the following conversation:\n${script}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: speakers.map(({ name, voice }) => ({
+              speaker: name,
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } }
+            }))
+          }
+        },
+        abortSignal: signal,
+      },
+    });
+    const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!data) throw new Error("No audio returned from Gemini Speech API");
+    return data;
+  },
+
+  async startVideo({ model, prompt, firstFrame, aspectRatio, resolution, signal }) {
+    const ai = getGeminiClient();
+    const operation = await ai.models.generateVideos({
+      model,
+      prompt,
+      ...(firstFrame ? { image: { imageBytes: firstFrame.data, mimeType: firstFrame.mimeType } } : {}),
+      config: { numberOfVideos: 1, aspectRatio, resolution, abortSignal: signal }
+    });
+    return toVideoOperation(operation, signal);
+  },
+
+  async pollVideo({ handle }, signal) {
+    const ai = getGeminiClient();
+    const operation = await ai.operations.getVideosOperation({ operation: handle as GenerateVideosOperation });
+    return toVideoOperation(operation, signal);
+  },
+});
@@ -0,0 +1,28 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { GenerationProvider } from "./types";
+
+export * from "./types";
+
+const PROVIDER_FACTORIES: Record<string, () => GenerationProvider> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+};
+
+let activeProvider: GenerationProvider | null = null;
+
+/**
+ * Returns the provider selected by GENERATION_PROVIDER (default: gemini).
+ * Set GENERATION_PROVIDER=mock to run the whole app offline.
+ */
+export const getProvider = (): GenerationProvider => {
+  if (activeProvider) return activeProvider;
+  const name = (process.env.GENERATION_PROVIDER || 'gemini').toLowerCase();
+  const factory = PROVIDER_FACTORIES[name];
+  if (!factory) {
+    throw new Error(`Unknown GENERATION_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDER_FACTORIES).join(', ')}`);
+  }
+  activeProvider = factory();
+  console.log(`Generation provider: ${activeProvider.name}`);
+  return activeProvider;
+};
@@ -0,0 +1,209 @@
+import { encodePng } from "../media/png";
+import { PCM_SAMPLE_RATE, pcmSilence } from "../media/pcm";
+import { GenerationProvider, InlineData } from "./types";
+
+// Long edge of procedurally generated images, in pixels
+const MOCK_IMAGE_SIZE = 512;
+
+const VOICE_PITCH_HZ: Record<string, number> = {
+  puck: 110, charon: 98, kore: 220, fenrir: 123, zephyr: 247, aoede: 196, leda: 175, orus: 131
+};
+
+// FNV-1a, so identical requests always render identical output
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) >>> 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const dimensionsFor = (aspectRatio = '1:1') => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) return { width: MOCK_IMAGE_SIZE, height: MOCK_IMAGE_SIZE };
+  return w >= h
+    ? { width: MOCK_IMAGE_SIZE, height: Math.round(MOCK_IMAGE_SIZE * h / w) }
+    : { width: Math.round(MOCK_IMAGE_SIZE * w / h), height: MOCK_IMAGE_SIZE };
+};
+
+/**
+ * Renders a seeded gradient with translucent circles, encoded as base64 PNG.
+ */
+const renderProceduralImage = (seedText: string, aspectRatio?: string): string => {
+  const random = createRandom(hashString(seedText));
+  const { width, height } = dimensionsFor(aspectRatio);
+  const pixels = new Uint8Array(width * height * 4);
+  const top = [random() * 255, random() * 255, random() * 255];
+  const bottom = [random() * 255, random() * 255, random() * 255];
+
+  for (let y = 0; y < height; y++) {
+    const t = y / (height - 1 || 1);
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      pixels[i] = top[0] + (bottom[0] - top[0]) * t;
+      pixels[i + 1] = top[1] + (bottom[1] - top[1]) * t;
+      pixels[i + 2] = top[2] + (bottom[2] - top[2]) * t;
+      pixels[i + 3] = 255;
+    }
+  }
+
+  const circleCount = 4 + Math.floor(random() * 5);
+  for (let c = 0; c < circleCount; c++) {
+    const cx = random() * width;
+    const cy = random() * height;
+    const radius = (0.05 + random() * 0.25) * Math.min(width, height);
+    const color = [random() * 255, random() * 255, random() * 255];
+    const alpha = 0.35 + random() * 0.4;
+    const minY = Math.max(0, Math.floor(cy - radius)), maxY = Math.min(height - 1, Math.ceil(cy + radius));
+    const minX = Math.max(0, Math.floor(cx - radius)), maxX = Math.min(width - 1, Math.ceil(cx + radius));
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        if ((x - cx) ** 2 + (y - cy) ** 2 > radius ** 2) continue;
+        const i = (y * width + x) * 4;
+        for (let ch = 0; ch < 3; ch++) pixels[i + ch] = pixels[i + ch] * (1 - alpha) + color[ch] * alpha;
+      }
+    }
+  }
+
+  return encodePng(width, height, pixels).toString('base64');
+};
+
+/**
+ * Renders a voice-pitched sine tone whose length tracks the text, as base64 16-bit PCM.
+ */
+const renderSineSpeech = (text: string, voice: string): string => {
+  const seconds = Math.max(1, Math.min(30, text.length * 0.06));
+  const frequency = VOICE_PITCH_HZ[voice] || 165;
+  const sampleCount = Math.round(seconds * PCM_SAMPLE_RATE);
+  const pcm = Buffer.alloc(sampleCount * 2);
+  const fadeSamples = Math.round(PCM_SAMPLE_RATE * 0.02);
+  for (let i = 0; i < sampleCount; i++) {
+    // Short fades avoid clicks at either end
+    const envelope = Math.min(1, i / fadeSamples, (sampleCount - i) / fadeSamples);
+    const sample = Math.sin(2 * Math.PI * frequency * i / PCM_SAMPLE_RATE) * 0.3 * envelope;
+    pcm.writeInt16LE(Math.round(sample * 0x7fff), i * 2);
+  }
+  return pcm.toString('base64');
+};
+
+// Axis-aligned box as 8 vertices and 12 coloured triangles, matching the MeshGeometry JSON shape
+const addBox = (mesh: { vertices: number[][]; faces: (number | string)[][] }, center: number[], size: number[], color: string) => {
+  const base = mesh.vertices.length;
+  const [cx, cy, cz] = center;
+  const [hx, hy, hz] = size.map(s => s / 2);
+  for (const dx of [-hx, hx]) for (const dy of [-hy, hy]) for (const dz of [-hz, hz]) {
+    mesh.vertices.push([cx + dx, cy + dy, cz + dz]);
+  }
+  const quads = [[0, 1, 3, 2], [4, 6, 7, 5], [0, 4, 5, 1], [2, 3, 7, 6], [0, 2, 6, 4], [1, 5, 7, 3]];
+  quads.forEach(([a, b, c, d]) => {
+    mesh.faces.push([base + a, base + b, base + c, color]);
+    mesh.faces.push([base + a, base + c, base + d, color]);
+  });
+};
+
+const cannedHumanoidMesh = () => {
+  const mesh = { vertices: [] as number[][], faces: [] as (number | string)[][] };
+  addBox(mesh, [0, 1.7, 0], [0.35, 0.35, 0.35], '#f5c49c');
+  addBox(mesh, [0, 1.15, 0], [0.6, 0.7, 0.3], '#4f46e5');
+  addBox(mesh, [-0.45, 1.15, 0], [0.2, 0.65, 0.2], '#6366f1');
+  addBox(mesh, [0.45, 1.15, 0], [0.2, 0.65, 0.2], '#6366f1');
+  addBox(mesh, [-0.16, 0.4, 0], [0.22, 0.8, 0.22], '#27272a');
+  addBox(mesh, [0.16, 0.4, 0], [0.22, 0.8, 0.22], '#27272a');
+  return mesh;
+};
+
+const cannedTranscript = () => [
+  { text: "This is an offline transcript.", startTime: 0, endTime: 2.2, speaker: "Speaker 1" },
+  { text: "Captions are generated by the mock provider.", startTime: 2.4, endTime: 5.1, speaker: "Speaker 2" },
+  { text: "Switch GENERATION_PROVIDER to gemini for real speech.", startTime: 5.3, endTime: 8.4, speaker: "Speaker 1" },
+];
+
+// Style rewrites keep the original lines, which the server embeds as a trailing JSON array
+const echoScriptLines = (prompt: string) => JSON.parse(prompt.slice(prompt.lastIndexOf('\n') + 1));
+
+// Translations tag each caption with the target language so tracks are easy to tell apart offline
+const echoTranslations = (prompt: string) => {
+  const language = /into (.+?) \(/.exec(prompt)?.[1] || 'Translated';
+  return echoScriptLines(prompt).map((caption: { id: string; text: string }) => ({ id: caption.id, text: `[${language}] ${caption.text}` }));
+};
+
+// Canned JSON payloads keyed by request task
+const CANNED_JSON: Record<string, (prompt: string) => unknown> = {
+  generate3DMesh: cannedHumanoidMesh,
+  transcribeAudio: cannedTranscript,
+  rewriteScript: echoScriptLines,
+  translateCaptions: echoTranslations,
+};
+
+const CANNED_TEXT: Record<string, (prompt: string) => string> = {
+  suggestCaption: () => "You Won't Believe This",
+  enhancePrompt: (prompt) => `${prompt}, cinematic lighting, rich detail, balanced composition`,
+};
+
+const seedFromImages = (images: InlineData[]) => images.map(img => img.data.slice(0, 64)).join('|');
+
+/**
+ * Offline provider for CI and demos: deterministic output, no network or API key.
+ */
+export const createMockProvider = (): GenerationProvider => ({
+  name: 'mock',
+  cooldownMs: 0,
+
+  async generateText({ task, prompt }) {
+    return CANNED_TEXT[task]?.(prompt) ?? `[mock ${task}] ${prompt.slice(0, 200)}`;
+  },
+
+  async generateJson<T>({ task, prompt }: { task: string; prompt: string }) {
+    const canned = CANNED_JSON[task];
+    if (!canned) throw new Error(`Mock provider has no canned JSON for task "${task}"`);
+    return canned(prompt) as T;
+  },
+
+  async generateImage({ prompt, aspectRatio }) {
+    return renderProceduralImage(prompt, aspectRatio);
+  },
+
+  async editImage({ prompt, images, aspectRatio }) {
+    return renderProceduralImage(`${seedFromImages(images)}|${prompt}`, aspectRatio);
+  },
+
+  async generateImageBatch({ prompt, aspectRatio, numberOfImages }) {
+    return Array.from({ length: numberOfImages }, (_, i) => renderProceduralImage(`${prompt}|${i}`, aspectRatio));
+  },
+
+  async generateSpeech({ text, voice }) {
+    return renderSineSpeech(text, voice);
+  },
+
+  async generateDialogSpeech({ script, speakers }) {
+    const voiceFor = new Map(speakers.map(({ name, voice }) => [name, voice]));
+    const clips = script.split('\n').filter(Boolean).flatMap((line, i) => {
+      const [name, ...rest] = line.split(':');
+      const clip = Buffer.from(renderSineSpeech(rest.join(':').trim(), voiceFor.get(name.trim()) || ''), 'base64');
+      return i === 0 ? [clip] : [pcmSilence(400), clip];
+    });
+    return Buffer.concat(clips).toString('base64');
+  },
+
+  // There is no MP4 encoder offline; fail through the normal operation path so polling is still exercised
+  async startVideo() {
+    return { handle: 0, done: false, pollAfterMs: 500 };
+  },
+
+  async pollVideo({ handle }) {
+    const polls = (handle as number) + 1;
+    return polls < 2
+      ? { handle: polls, done: false, pollAfterMs: 500 }
+      : { handle: polls, done: true, error: "The mock provider cannot render video; set GENERATION_PROVIDER=gemini" };
+  },
+});
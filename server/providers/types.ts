@@ -0,0 +1,95 @@
+export interface InlineData {
+  mimeType: string;
+  // Raw base64 without the data: URL prefix
+  data: string;
+  // Optional caption sent as a text part just before the media, e.g. "Reference 2 (style)"
+  label?: string;
+}
+
+export interface ProviderRequest {
+  // Stable label for the call site; used in logs and by offline providers to pick canned output
+  task: string;
+  model: string;
+  signal?: AbortSignal;
+}
+
+export interface TextRequest extends ProviderRequest {
+  prompt: string;
+  media?: InlineData[];
+}
+
+export interface JsonRequest extends TextRequest {
+  schema?: unknown;
+}
+
+export interface ImageRequest extends ProviderRequest {
+  prompt: string;
+  aspectRatio?: string;
+  // "1K" | "2K" | "4K"; omitted for models with a fixed output size
+  imageSize?: string;
+}
+
+export interface ImageBatchRequest extends ImageRequest {
+  numberOfImages: number;
+}
+
+export interface ImageEditRequest extends ImageRequest {
+  images: InlineData[];
+}
+
+export interface SpeechRequest extends ProviderRequest {
+  text: string;
+  voice: string;
+}
+
+export interface VideoRequest extends ProviderRequest {
+  prompt: string;
+  // Optional still used as the opening frame (image-to-video)
+  firstFrame?: InlineData;
+  aspectRatio?: string;
+  resolution?: string;
+}
+
+// Video operations typically finish in 1-3 minutes; poll this often unless the provider suggests otherwise
+export const VIDEO_POLL_INTERVAL_MS = 10000;
+
+export interface VideoOperation {
+  // Opaque provider state handed back to pollVideo
+  handle: unknown;
+  done: boolean;
+  // Suggested wait before the next poll while not done; VIDEO_POLL_INTERVAL_MS when absent
+  pollAfterMs?: number;
+  // Raw base64 MP4 bytes once done
+  video?: string;
+  error?: string;
+}
+
+export interface DialogSpeechRequest extends ProviderRequest {
+  // Lines formatted as "<speaker name>: <text>", one per turn
+  script: string;
+  speakers: { name: string; voice: string }[];
+}
+
+/**
+ * The generation operations the server performs, independent of the backing service.
+ * Implementations make a single attempt per call; retries and cooldowns stay with the caller.
+ */
+export interface GenerationProvider {
+  name: string;
+  // Pause between sequential calls (e.g. flipbook frames) to stay under per-minute quotas
+  cooldownMs: number;
+  generateText(req: TextRequest): Promise<string>;
+  generateJson<T = unknown>(req: JsonRequest): Promise<T>;
+  // Image results are raw base64 PNG/JPEG bytes, or undefined when the model declined to draw
+  generateImage(req: ImageRequest): Promise<string | undefined>;
+  editImage(req: ImageEditRequest): Promise<string | undefined>;
+  // Dedicated text-to-image models (Imagen) that return several images per call; filtered images are dropped
+  generateImageBatch(req: ImageBatchRequest): Promise<string[]>;
+  // Speech results are raw base64 16-bit mono PCM at 24kHz
+  generateSpeech(req: SpeechRequest): Promise<string>;
+  // Multi-speaker speech in a single render; Gemini accepts exactly two speakers
+  generateDialogSpeech(req: DialogSpeechRequest): Promise<string>;
+  // Video is a long-running operation: start it once, then poll until done
+  startVideo(req: VideoRequest): Promise<VideoOperation>;
+  pollVideo(operation: VideoOperation, signal?: AbortSignal): Promise<VideoOperation>;
+}
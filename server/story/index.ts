@@ -0,0 +1,33 @@
+import { StoryboardExportFormat, StoryboardFrame } from "../../types";
+import { safeBaseName } from "../media/mime";
+import { MAX_STORYBOARD_SCENES } from "../../shared/story";
+import { storyboardToPdf, storyboardToStrip } from "./sheet";
+
+export * from "../../shared/story";
+export * from "./sheet";
+
+export const STORYBOARD_EXPORT_FORMATS: StoryboardExportFormat[] = ['pdf', 'strip'];
+
+export const validateStoryboardFrames = (frames: unknown): StoryboardFrame[] => {
+  if (!Array.isArray(frames) || frames.length === 0) throw new Error("Send at least one storyboard frame.");
+  if (frames.length > MAX_STORYBOARD_SCENES) throw new Error(`Storyboards are limited to ${MAX_STORYBOARD_SCENES} scenes.`);
+  frames.forEach((frame, i) => {
+    if (typeof frame?.url !== 'string' || typeof frame.prompt !== 'string' || !Number.isInteger(frame.index)) {
+      throw new Error(`Storyboard frame ${i + 1} needs a url, prompt and index.`);
+    }
+  });
+  return [...frames].sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Renders storyboard frames for download: a PDF contact sheet with scene numbers and
+ * descriptions, or a single PNG strip of the frames in order.
+ */
+export const exportStoryboard = (frames: StoryboardFrame[], format: StoryboardExportFormat, name?: string): { data: Buffer; mimeType: string; filename: string } => {
+  const baseName = safeBaseName(name, 'storyboard');
+  switch (format) {
+    case 'pdf': return { data: storyboardToPdf(frames, name?.trim() || 'Storyboard'), mimeType: 'application/pdf', filename: `${baseName}.pdf` };
+    case 'strip': return { data: storyboardToStrip(frames), mimeType: 'image/png', filename: `${baseName}-strip.png` };
+    default: throw new Error(`Unsupported storyboard format. Expected one of: ${STORYBOARD_EXPORT_FORMATS.join(', ')}`);
+  }
+};
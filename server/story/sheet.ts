@@ -0,0 +1,106 @@
+import { StoryboardFrame } from "../../types";
+import { rewrapText } from "../../shared/captions/edit";
+import { decodeDataUrl, detectImageMimeType } from "../media/mime";
+import { createPdf, HELVETICA_CHAR_WIDTH, PdfItem, PdfPage } from "../media/pdf";
+import { decodePng, encodePng, RgbaImage } from "../media/png";
+import { fitWithin, resizeImage } from "../media/resize";
+
+// A4 landscape, in points
+const SHEET = { width: 842, height: 595, margin: 36, gutter: 14 };
+const TITLE_SIZE = 14;
+const LABEL_SIZE = 8;
+const CAPTION_SIZE = 7;
+// Scene descriptions longer than this are cut short with an ellipsis
+const CAPTION_LINES = 3;
+// Frames are embedded no larger than this, plenty for a printed cell
+const SHEET_IMAGE_MAX_SIDE = 1024;
+
+const STRIP_FRAME_HEIGHT = 360;
+const STRIP_GUTTER = 12;
+const STRIP_BACKGROUND = [10, 10, 10, 255];
+
+const loadFrame = (frame: StoryboardFrame): RgbaImage => {
+  const { bytes } = decodeDataUrl(frame.url);
+  // Go by the bytes, not the data: URL's label
+  if (detectImageMimeType(bytes) !== 'image/png') throw new Error(`Scene ${frame.index + 1} is not a PNG image`);
+  return decodePng(bytes);
+};
+
+const captionLines = (prompt: string, width: number): string[] => {
+  const lines = rewrapText(prompt.replace(/\s+/g, ' ').trim(), Math.floor(width / (CAPTION_SIZE * HELVETICA_CHAR_WIDTH))).split('\n');
+  if (lines.length <= CAPTION_LINES) return lines;
+  return [...lines.slice(0, CAPTION_LINES - 1), `${lines[CAPTION_LINES - 1]}...`];
+};
+
+/**
+ * Lays frames out as a printable contact sheet: a grid sized to the first frame's aspect ratio,
+ * each frame numbered with its scene description underneath, over as many pages as it takes.
+ */
+export const storyboardToPdf = (frames: StoryboardFrame[], title: string): Buffer => {
+  const images = frames.map(frame => {
+    const image = loadFrame(frame);
+    const size = fitWithin(image.width, image.height, SHEET_IMAGE_MAX_SIDE);
+    return resizeImage(image, size.width, size.height);
+  });
+  const aspect = images[0].width / images[0].height;
+  const columns = aspect >= 1.2 ? 3 : aspect >= 0.8 ? 4 : 5;
+  const cellWidth = (SHEET.width - 2 * SHEET.margin - (columns - 1) * SHEET.gutter) / columns;
+  const captionHeight = LABEL_SIZE + 4 + CAPTION_LINES * (CAPTION_SIZE + 2);
+  const available = SHEET.height - 2 * SHEET.margin - TITLE_SIZE - 12;
+  const imageHeight = Math.min(cellWidth / aspect, available - captionHeight - 6);
+  const rowHeight = imageHeight + 6 + captionHeight;
+  const rows = Math.max(1, Math.floor((available + SHEET.gutter) / (rowHeight + SHEET.gutter)));
+  const perPage = rows * columns;
+  const pageCount = Math.ceil(frames.length / perPage);
+
+  const pages: PdfPage[] = [];
+  for (let p = 0; p < pageCount; p++) {
+    const top = SHEET.height - SHEET.margin;
+    const pageLabel = `Page ${p + 1} of ${pageCount}`;
+    const items: PdfItem[] = [
+      { type: 'text', text: `${title} - ${frames.length} scene${frames.length === 1 ? '' : 's'}`, x: SHEET.margin, y: top - TITLE_SIZE, size: TITLE_SIZE, bold: true },
+      { type: 'text', text: pageLabel, x: SHEET.width - SHEET.margin - pageLabel.length * LABEL_SIZE * HELVETICA_CHAR_WIDTH, y: top - TITLE_SIZE, size: LABEL_SIZE, gray: 0.4 },
+    ];
+    frames.slice(p * perPage, (p + 1) * perPage).forEach((frame, i) => {
+      const image = images[p * perPage + i];
+      const x = SHEET.margin + (i % columns) * (cellWidth + SHEET.gutter);
+      const cellTop = top - TITLE_SIZE - 12 - Math.floor(i / columns) * (rowHeight + SHEET.gutter);
+      // Frames with another aspect ratio are letterboxed in the cell
+      const scale = Math.min(cellWidth / image.width, imageHeight / image.height);
+      const width = image.width * scale, height = image.height * scale;
+      items.push(
+        { type: 'rect', x, y: cellTop - imageHeight, width: cellWidth, height: imageHeight, gray: 0.1 },
+        { type: 'image', image, x: x + (cellWidth - width) / 2, y: cellTop - imageHeight + (imageHeight - height) / 2, width, height },
+        { type: 'text', text: `SCENE ${frame.index + 1}`, x, y: cellTop - imageHeight - 6 - LABEL_SIZE, size: LABEL_SIZE, bold: true },
+        ...captionLines(frame.prompt, cellWidth).map((line, l): PdfItem => ({
+          type: 'text', text: line, x, y: cellTop - imageHeight - 10 - LABEL_SIZE - (l + 1) * (CAPTION_SIZE + 2), size: CAPTION_SIZE, gray: 0.3,
+        })),
+      );
+    });
+    pages.push({ width: SHEET.width, height: SHEET.height, items });
+  }
+  return createPdf(pages);
+};
+
+/**
+ * Joins frames left to right into a single PNG, each scaled to the same height with a dark
+ * gutter between them.
+ */
+export const storyboardToStrip = (frames: StoryboardFrame[]): Buffer => {
+  const images = frames.map(frame => {
+    const image = loadFrame(frame);
+    return resizeImage(image, Math.max(1, Math.round(image.width * STRIP_FRAME_HEIGHT / image.height)), STRIP_FRAME_HEIGHT);
+  });
+  const width = images.reduce((sum, image) => sum + image.width, 0) + (images.length + 1) * STRIP_GUTTER;
+  const height = STRIP_FRAME_HEIGHT + 2 * STRIP_GUTTER;
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(STRIP_BACKGROUND, i);
+  let left = STRIP_GUTTER;
+  for (const image of images) {
+    for (let y = 0; y < image.height; y++) {
+      data.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), ((STRIP_GUTTER + y) * width + left) * 4);
+    }
+    left += image.width + STRIP_GUTTER;
+  }
+  return encodePng(width, height, data);
+};
@@ -0,0 +1,5 @@
+/**
+ * Resolves on the next turn of the event loop. Synchronous per-frame work (rendering, encoding,
+ * synthesis) awaits this between frames so job events and cancellation get through.
+ */
+export const nextTick = () => new Promise<void>(resolve => setImmediate(resolve));
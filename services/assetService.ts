@@ -0,0 +1,52 @@
+import { AssetPage, AssetQuery, GeneratedContent } from "../types";
+
+const readError = async (response: Response, fallback: string) => {
+  const errData = await response.json().catch(() => ({}));
+  return new Error(errData.error || fallback);
+};
+
+// The store only accepts data: URLs, so blob: URLs (e.g. synthesized WAVs) are inlined first
+export const toDataUrl = async (url: string): Promise<string> => {
+  if (!url.startsWith("blob:")) return url;
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const listAssets = async (query: AssetQuery = {}): Promise<AssetPage> => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+  const response = await fetch(`/api/assets?${params}`);
+  if (!response.ok) throw await readError(response, "Failed to load asset library");
+  return response.json();
+};
+
+/**
+ * Persists a generated item and returns it with stable /api/assets URLs in place of its data URLs.
+ */
+export const saveAsset = async (item: GeneratedContent): Promise<GeneratedContent> => {
+  const { isPending, ...rest } = item;
+  const payload = {
+    ...rest,
+    url: await toDataUrl(item.url),
+    ...(item.frames ? { frames: await Promise.all(item.frames.map(toDataUrl)) } : {}),
+  };
+  const response = await fetch("/api/assets", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ item: payload })
+  });
+  if (!response.ok) throw await readError(response, "Failed to save asset");
+  return response.json();
+};
+
+export const deleteAsset = async (id: string): Promise<void> => {
+  const response = await fetch(`/api/assets/${id}`, { method: "DELETE" });
+  if (!response.ok && response.status !== 404) throw await readError(response, "Failed to delete asset");
+};
@@ -0,0 +1,52 @@
+import { CaptionExportFormat, CaptionImportResult, CaptionRenderStyle, CaptionSegment, CaptionTrack } from "../types";
+import { attachmentFilename, runJob } from "./geminiService";
+
+export interface CaptionExportOptions {
+  style?: CaptionRenderStyle;
+  // Frame size the ASS script is laid out for; defaults to 1080x1920
+  video?: { width: number; height: number };
+  name?: string;
+}
+
+/**
+ * Serializes caption segments on the server as SRT, WebVTT, ASS or lossless JSON.
+ */
+export const exportCaptions = async (segments: CaptionSegment[], format: CaptionExportFormat, options: CaptionExportOptions = {}): Promise<{ blob: Blob; filename: string }> => {
+  const response = await fetch("/api/captions/export", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ segments, format, ...options })
+  });
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    throw new Error(errData.error || "Failed to export captions");
+  }
+  const filename = attachmentFilename(response, `captions.${format}`);
+  return { blob: await response.blob(), filename };
+};
+
+/**
+ * Parses an SRT, WebVTT, ASS/SSA or caption JSON file into segments, with any style it maps to
+ * and line-numbered warnings for the parts that were skipped or repaired.
+ */
+export const importCaptions = async (file: File): Promise<CaptionImportResult> => {
+  const response = await fetch("/api/captions/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text: await file.text(), filename: file.name })
+  });
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    throw new Error(errData.error || "Failed to import subtitles");
+  }
+  return response.json();
+};
+
+/**
+ * Translates segments into each language as a server job. Each track keeps the segment ids and
+ * timings, with lines rewrapped for its language.
+ */
+export const translateCaptions = async (segments: CaptionSegment[], languages: string[], onProgress?: (msg: string) => void): Promise<CaptionTrack[]> => {
+  const { tracks } = await runJob<{ tracks: CaptionTrack[] }>("/api/captions/translate", { segments, languages }, { onProgress, fallbackError: "Failed to translate captions" });
+  return tracks;
+};
@@ -0,0 +1,33 @@
+import { VideoExportFormat, VideoExportRequest, VideoExportResult } from "../types";
+import { toDataUrl } from "./assetService";
+import { runJob } from "./geminiService";
+
+/**
+ * Formats the server can encode right now; MP4 is missing when it has no ffmpeg.
+ */
+export const getExportFormats = async (): Promise<VideoExportFormat[]> => {
+  const response = await fetch("/api/export/formats");
+  if (!response.ok) return ['gif', 'apng'];
+  const { formats } = await response.json();
+  return formats;
+};
+
+/**
+ * Encodes frames or a captioned video on the server and starts the download. Local blob: sources
+ * are inlined first since the server can't read them.
+ */
+export const exportVideo = async (request: VideoExportRequest, onProgress?: (msg: string) => void): Promise<VideoExportResult> => {
+  const body: VideoExportRequest = {
+    ...request,
+    frames: request.frames && await Promise.all(request.frames.map(toDataUrl)),
+    video: request.video && await toDataUrl(request.video),
+  };
+  const result = await runJob<VideoExportResult>("/api/export/video", body, { onProgress, fallbackError: "Export failed" });
+  const link = document.createElement('a');
+  link.href = result.url;
+  link.download = result.filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  return result;
+};
@@ -1,4 +1,93 @@
-import { ModelType, GenerationConfig, GeneratedContent, GenerationMode, MeshGeometry } from "../types";
+import { ModelType, GenerationConfig, GeneratedContent, GenerationMode, RepairedMesh, JobSnapshot, JobEvent, CaptionSegment } from "../types";
+
+const JOB_POLL_INTERVAL_MS = 1500;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface JobOptions {
+    onProgress?: (msg: string) => void;
+    // When set, the job is followed over Server-Sent Events instead of polling
+    onEvent?: (event: JobEvent) => void;
+    fallbackError?: string;
+}
+
+const pollJob = async (job: JobSnapshot, { onProgress, fallbackError = "Generation failed" }: JobOptions): Promise<JobSnapshot> => {
+    let lastProgress = job.progress;
+    while (job.status === 'queued' || job.status === 'running') {
+        await wait(JOB_POLL_INTERVAL_MS);
+        const statusResponse = await fetch(`/api/jobs/${job.id}`);
+        if (!statusResponse.ok) throw new Error(fallbackError);
+        job = await statusResponse.json();
+        if (job.progress && job.progress !== lastProgress) {
+            lastProgress = job.progress;
+            onProgress?.(job.progress);
+        }
+    }
+    return job;
+};
+
+const streamJob = (job: JobSnapshot, { onProgress, onEvent }: JobOptions): Promise<JobSnapshot> => new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${job.id}/events`);
+    const handle = (message: MessageEvent) => {
+        const event: JobEvent = JSON.parse(message.data);
+        onEvent?.(event);
+        if (event.type === 'progress') onProgress?.(event.message);
+        else if (event.type === 'frame') onProgress?.(`Frame ${event.index + 1}/${event.total} done`);
+        else if (event.type === 'retry') onProgress?.(`Rate limited, retrying in ${Math.round(event.waitMs / 1000)}s (attempt ${event.attempt}/${event.retries})`);
+        else if (event.type === 'done') {
+            source.close();
+            resolve({ ...job, status: event.status, error: event.error });
+        }
+    };
+    (['status', 'progress', 'frame', 'retry', 'done'] as const).forEach(type => source.addEventListener(type, handle));
+    source.onerror = () => {
+        // The stream dropped (proxy timeout, server restart); fall back to polling
+        source.close();
+        pollJob(job, { onProgress }).then(resolve, reject);
+    };
+});
+
+// Submits a generation request to a job-backed route and waits for the job to settle.
+// Blob bodies (recordings) are uploaded raw; anything else is sent as JSON.
+export const runJob = async <T>(route: string, body: unknown, options: JobOptions = {}): Promise<T> => {
+    const fallbackError = options.fallbackError || "Generation failed";
+    const response = await fetch(route, body instanceof Blob ? {
+        method: "POST",
+        headers: { "Content-Type": body.type || "application/octet-stream" },
+        body
+    } : {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+        const errData = await response.json().catch(() => ({}));
+        throw new Error(errData.error || fallbackError);
+    }
+
+    const submitted: JobSnapshot = await response.json();
+    const job = options.onEvent ? await streamJob(submitted, options) : await pollJob(submitted, options);
+
+    if (job.status === 'cancelled') throw new Error("Generation was cancelled");
+    if (job.status === 'failed') throw new Error(job.error || fallbackError);
+
+    const resultResponse = await fetch(`/api/jobs/${job.id}/result`);
+    if (!resultResponse.ok) {
+        const errData = await resultResponse.json().catch(() => ({}));
+        throw new Error(errData.error || fallbackError);
+    }
+    return resultResponse.json();
+};
+
+/**
+ * The filename a download route sent in its Content-Disposition header, or the fallback.
+ */
+export const attachmentFilename = (response: Response, fallback: string): string =>
+    /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") || "")?.[1] || fallback;
+
+export const cancelJob = async (jobId: string): Promise<void> => {
+    await fetch(`/api/jobs/${jobId}/cancel`, { method: "POST" });
+};
 
 // Convert Base64 PCM to a Playable WAV Blob directly in the browser
 const base64ToWavBlob = (base64: string, sampleRate: number = 24000): Blob => {
@@ -73,7 +162,8 @@ export const enhancePrompt = async (prompt: string): Promise<string> => {
     }
 };
 
-export const generate3DMesh = async (prompt: string): Promise<MeshGeometry> => {
+// Returns the server-repaired mesh; an empty mesh when generation fails
+export const generate3DMesh = async (prompt: string): Promise<RepairedMesh> => {
     try {
         const response = await fetch("/api/gemini/generate3DMesh", {
             method: "POST",
@@ -84,23 +174,38 @@ export const generate3DMesh = async (prompt: string): Promise<MeshGeometry> => {
         return await response.json();
     } catch (e) {
         console.error("Client proxy generate3DMesh failed, fallback active", e);
-        return { vertices: [], faces: [] };
+        return { vertices: [], faces: [], normals: [], report: { droppedVertices: 0, droppedFaces: 0, triangulatedFaces: 0, flippedFaces: 0 } };
     }
 };
 
-export const generateSpeech = async (config: GenerationConfig): Promise<GeneratedContent> => {
-  const timestamp = Date.now();
+// Uploads a WAV or WebM clip; the server holds the API key and returns timed segments
+export const transcribeAudio = async (audio: Blob): Promise<CaptionSegment[]> => {
   try {
-    const response = await fetch("/api/gemini/generateSpeech", {
+    const response = await fetch("/api/gemini/transcribe", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ prompt: config.prompt, voice: config.voice })
+        headers: { "Content-Type": audio.type || "audio/wav" },
+        body: audio
     });
     if (!response.ok) {
         const errData = await response.json().catch(() => ({}));
-        throw new Error(errData.error || "Failed to generate speech audio");
+        throw new Error(errData.error || "Failed to transcribe audio");
     }
-    const { dataBase64 } = await response.json();
+    const { segments } = await response.json();
+    return segments;
+  } catch (error: any) {
+    console.error("Client transcribeAudio failed:", error);
+    throw error;
+  }
+};
+
+export const generateSpeech = async (config: GenerationConfig): Promise<GeneratedContent> => {
+  const timestamp = Date.now();
+  try {
+    const { dataBase64 } = await runJob<{ dataBase64: string }>(
+        "/api/gemini/generateSpeech",
+        { prompt: config.prompt, voice: config.voice },
+        { fallbackError: "Failed to generate speech audio" }
+    );
     
     return {
       id: `${timestamp}-audio`,
@@ -117,25 +222,100 @@ export const generateSpeech = async (config: GenerationConfig): Promise<Generate
   }
 };
 
-export const generateFlipbook = async (config: GenerationConfig, onProgress?: (msg: string) => void): Promise<GeneratedContent> => {
+// Veo runs as a long-running server job; the finished MP4 is already saved to the asset library
+export const generateVideo = async (config: GenerationConfig, onProgress?: (msg: string) => void): Promise<GeneratedContent> => {
+  try {
+    const { item } = await runJob<{ item: GeneratedContent }>(
+        "/api/gemini/generateVideo",
+        { config },
+        { onProgress, fallbackError: "Failed to generate video" }
+    );
+    return item;
+  } catch (error: any) {
+    console.error("Client generateVideo failed:", error);
+    throw error;
+  }
+};
+
+// Re-voices the recording in config.audioInput with config.voice, keeping the original sentence timing
+export const revoiceRecording = async (config: GenerationConfig, onProgress?: (msg: string) => void): Promise<GeneratedContent> => {
+  const timestamp = Date.now();
+  if (!config.audioInput) throw new Error("Record something to re-voice first.");
+  try {
+    const recording = await (await fetch(config.audioInput)).blob();
+    const params = new URLSearchParams({ voice: config.voice || 'zephyr' });
+    if (config.revoiceStyle?.trim()) params.set('style', config.revoiceStyle.trim());
+    const { dataBase64, segments } = await runJob<{ dataBase64: string; segments: CaptionSegment[] }>(
+        `/api/gemini/revoice?${params}`,
+        recording,
+        { onProgress, fallbackError: "Failed to re-voice recording" }
+    );
+
+    return {
+      id: `${timestamp}-revoice`,
+      type: 'audio',
+      url: URL.createObjectURL(base64ToWavBlob(dataBase64)),
+      prompt: segments.map(seg => seg.text).join(" "),
+      model: ModelType.TTS,
+      timestamp,
+      voice: config.voice,
+      duration: segments[segments.length - 1]?.endTime,
+      segments
+    };
+  } catch (error: any) {
+    console.error("Client revoiceRecording failed:", error);
+    throw error;
+  }
+};
+
+// Voices config.dialogTurns as one clip; segments carry per-turn timings for Caption Studio
+export const generateDialogSpeech = async (config: GenerationConfig, onProgress?: (msg: string) => void): Promise<GeneratedContent> => {
+  const timestamp = Date.now();
+  const turns = (config.dialogTurns || []).filter(turn => turn.text.trim());
+  try {
+    const { dataBase64, segments } = await runJob<{ dataBase64: string; segments: CaptionSegment[] }>(
+        "/api/gemini/generateDialog",
+        { turns, gapMs: config.dialogGapMs },
+        { onProgress, fallbackError: "Failed to generate dialog audio" }
+    );
+
+    return {
+      id: `${timestamp}-dialog`,
+      type: 'audio',
+      url: URL.createObjectURL(base64ToWavBlob(dataBase64)),
+      prompt: turns.map(turn => turn.text.trim()).join(" / "),
+      model: ModelType.TTS,
+      timestamp,
+      voice: [...new Set(turns.map(turn => turn.voice))].join(", "),
+      duration: segments[segments.length - 1]?.endTime,
+      segments
+    };
+  } catch (error: any) {
+    console.error("Client generateDialogSpeech failed:", error);
+    throw error;
+  }
+};
+
+export const generateFlipbook = async (
+    config: GenerationConfig,
+    onProgress?: (msg: string) => void,
+    onFrame?: (frame: string, index: number, total: number) => void
+): Promise<GeneratedContent> => {
     const timestamp = Date.now();
     if (!config.referenceImage) throw new Error("Reference image is required.");
 
     try {
         onProgress?.(`Temporal Engine: Connecting to secure full-stack rendering server...`);
         
-        const response = await fetch("/api/gemini/generateFlipbook", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ config })
-        });
-        
-        if (!response.ok) {
-            const errData = await response.json().catch(() => ({}));
-            throw new Error(errData.error || "Failed to generate video frames on backend");
-        }
-        
-        const { frames } = await response.json();
+        const { frames, fps, loop } = await runJob<{ frames: string[]; fps?: number; loop?: { mode: GeneratedContent['loopMode']; seamScore: number } }>(
+            "/api/gemini/generateFlipbook",
+            { config },
+            {
+                onProgress,
+                onEvent: (event) => { if (event.type === 'frame') onFrame?.(event.dataUrl, event.index, event.total); },
+                fallbackError: "Failed to generate video frames on backend"
+            }
+        );
         if (!frames || frames.length === 0) throw new Error("Could not synthesize frames. Quota limit reached.");
 
         onProgress?.(`Syncing rendering blocks...`);
@@ -149,7 +329,10 @@ export const generateFlipbook = async (config: GenerationConfig, onProgress?: (m
             model: 'gemini-2.5-flash-image',
             timestamp,
             aspectRatio: config.aspectRatio,
-            duration: 10
+            // Interpolated clips play at their target rate; bare keyframes keep the slow flipbook pace
+            duration: fps ? Number((frames.length / fps).toFixed(2)) : 10,
+            loopMode: loop?.mode,
+            loopSeamScore: loop?.seamScore
         };
     } catch (error: any) {
         console.error("Client flipbook generation failed:", error);
@@ -157,20 +340,17 @@ export const generateFlipbook = async (config: GenerationConfig, onProgress?: (m
     }
 };
 
-export const generateImage = async (config: GenerationConfig): Promise<GeneratedContent[]> => {
+export const generateImage = async (config: GenerationConfig, onImage?: (dataUrl: string, index: number, total: number) => void): Promise<GeneratedContent[]> => {
   const timestamp = Date.now();
   try {
-    const response = await fetch("/api/gemini/generateImage", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ config })
-    });
-    if (!response.ok) {
-        const errData = await response.json().catch(() => ({}));
-        throw new Error(errData.error || "Failed to generate image on backend");
-    }
-    
-    const { imagesBytes } = await response.json();
+    const { imagesBytes } = await runJob<{ imagesBytes: string[] }>(
+        "/api/gemini/generateImage",
+        { config },
+        {
+            onEvent: onImage && ((event) => { if (event.type === 'frame') onImage(event.dataUrl, event.index, event.total); }),
+            fallbackError: "Failed to generate image on backend"
+        }
+    );
     const images: GeneratedContent[] = [];
 
     imagesBytes.forEach((data: string, idx: number) => {
@@ -0,0 +1,54 @@
+import { BonePose, Export3DFormat, GeneratedContent, GenerationConfig, MeshGeometry, MeshRig, ModelPose, RepairedMesh } from "../types";
+import { attachmentFilename, runJob } from "./geminiService";
+
+export interface MeshPoseOptions {
+  pose?: ModelPose;
+  bones?: BonePose[];
+}
+
+/**
+ * Auto-rigs the mesh and returns it deformed into the pose, with the skeleton in the same pose.
+ */
+export const poseMesh = async (mesh: MeshGeometry, options: MeshPoseOptions): Promise<{ mesh: RepairedMesh; rig: MeshRig }> => {
+  const response = await fetch("/api/mesh/pose", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ mesh, ...options })
+  });
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    throw new Error(errData.error || "Failed to pose mesh");
+  }
+  return response.json();
+};
+
+/**
+ * Converts a mesh to a downloadable file on the server: an OBJ+MTL zip or a binary glTF.
+ * Pass pose options to export the rigged mesh in that pose.
+ */
+export const exportMesh = async (mesh: MeshGeometry, format: Export3DFormat, name?: string, options: MeshPoseOptions = {}): Promise<{ blob: Blob; filename: string }> => {
+  const response = await fetch("/api/mesh/export", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ mesh, format, name, ...options })
+  });
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    throw new Error(errData.error || "Failed to export mesh");
+  }
+  const filename = attachmentFilename(response, `model.${format === 'gltf' ? 'glb' : 'zip'}`);
+  return { blob: await response.blob(), filename };
+};
+
+/**
+ * Renders the keyframe timeline in config as an animation on the server. The finished item is
+ * already saved to the asset library.
+ */
+export const renderMeshAnimation = async (mesh: MeshGeometry, config: GenerationConfig, onProgress?: (msg: string) => void): Promise<GeneratedContent> => {
+  const { item } = await runJob<{ item: GeneratedContent }>(
+    "/api/mesh/animate",
+    { mesh, config },
+    { onProgress, fallbackError: "Failed to render animation" }
+  );
+  return item;
+};
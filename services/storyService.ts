@@ -0,0 +1,42 @@
+import { GenerationConfig, StoryboardExportFormat, StoryboardFrame } from "../types";
+import { attachmentFilename, runJob } from "./geminiService";
+
+export interface StoryboardRequest {
+  // Render only this scene, chained to previousFrame
+  sceneId?: string;
+  previousFrame?: string;
+}
+
+/**
+ * Renders the config's ordered story scenes as a server job, each chained to the frame before it.
+ * onFrame receives each frame as it lands, at its position in the storyboard.
+ */
+export const generateStoryboard = async (
+  config: GenerationConfig,
+  request: StoryboardRequest = {},
+  { onFrame, onProgress }: { onFrame?: (dataUrl: string, index: number, total: number) => void; onProgress?: (msg: string) => void } = {}
+): Promise<StoryboardFrame[]> => {
+  const { frames } = await runJob<{ frames: StoryboardFrame[] }>("/api/story/storyboard", { config, ...request }, {
+    onProgress,
+    onEvent: (event) => { if (event.type === 'frame') onFrame?.(event.dataUrl, event.index, event.total); },
+    fallbackError: "Failed to generate storyboard"
+  });
+  return frames;
+};
+
+/**
+ * Renders storyboard frames on the server as a PDF contact sheet or a PNG image strip.
+ */
+export const exportStoryboard = async (frames: StoryboardFrame[], format: StoryboardExportFormat, name?: string): Promise<{ blob: Blob; filename: string }> => {
+  const response = await fetch("/api/story/export", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ frames, format, name })
+  });
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    throw new Error(errData.error || "Failed to export storyboard");
+  }
+  const filename = attachmentFilename(response, `storyboard.${format === 'pdf' ? 'pdf' : 'png'}`);
+  return { blob: await response.blob(), filename };
+};
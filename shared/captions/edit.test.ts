@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { CaptionSegment } from "../../types";
+import { mergeWithNext, MIN_SEGMENT_DURATION, nudgeSegment, offsetSegments, reflowSegments, resolveOverlaps, rewrapText, rippleShift, scaleSegmentSpeed, snapToWordStart, splitSegment, validateSegments, wordStartIndex } from "./edit";
+
+const seg = (id: string, startTime: number, endTime: number, text = id): CaptionSegment => ({ id, text, startTime, endTime });
+
+const timed: CaptionSegment = {
+  id: 'a', text: 'one two three four', startTime: 0, endTime: 4,
+  words: [
+    { text: 'one', startTime: 0, endTime: 1 },
+    { text: 'two', startTime: 1, endTime: 2 },
+    { text: 'three', startTime: 2, endTime: 3 },
+    { text: 'four', startTime: 3, endTime: 4 },
+  ],
+};
+
+const times = (segments: CaptionSegment[]) => segments.map(s => [s.id, s.startTime, s.endTime]);
+
+describe("word positions", () => {
+  it("finds word starts and snaps a cursor inside a word back to its start", () => {
+    expect(wordStartIndex('one two three', 2)).toBe(8);
+    expect(wordStartIndex('one two', 5)).toBe(7);
+    expect(snapToWordStart('one two three', 10)).toBe(8);
+    expect(snapToWordStart('one two three', 7)).toBe(7);
+  });
+});
+
+describe("splitSegment", () => {
+  it("splits between words at the time the second part is spoken", () => {
+    const [first, second] = splitSegment([timed], 'a', wordStartIndex(timed.text, 2));
+    expect(first).toMatchObject({ id: 'a', text: 'one two', startTime: 0, endTime: 2 });
+    expect(first.words!.map(w => w.text)).toEqual(['one', 'two']);
+    expect(second).toMatchObject({ text: 'three four', startTime: 2, endTime: 4 });
+    expect(second.id).not.toBe('a');
+    expect(second.words!.map(w => [w.text, w.startTime])).toEqual([['three', 2], ['four', 3]]);
+  });
+
+  it("splits a word cut in half between both parts", () => {
+    const [first, second] = splitSegment([timed], 'a', 'one two th'.length);
+    expect(first.endTime).toBe(2.4);
+    expect(first.words!.at(-1)).toEqual({ text: 'th', startTime: 2, endTime: 2.4 });
+    expect(second.words![0]).toEqual({ text: 'ree', startTime: 2.4, endTime: 3 });
+  });
+
+  it("leaves the segment alone when a part would be empty", () => {
+    const segments = [timed];
+    expect(splitSegment(segments, 'a', 0)).toBe(segments);
+    expect(splitSegment(segments, 'a', timed.text.length)).toBe(segments);
+    expect(splitSegment(segments, 'missing', 4)).toBe(segments);
+  });
+});
+
+describe("mergeWithNext", () => {
+  it("joins a segment with the next one, keeping the first id", () => {
+    const merged = mergeWithNext([seg('b', 2, 3, 'world'), seg('a', 0, 1, 'hello')], 'a');
+    expect(merged).toEqual([{ id: 'a', text: 'hello world', startTime: 0, endTime: 3 }]);
+  });
+
+  it("does nothing for the last segment", () => {
+    expect(times(mergeWithNext([seg('a', 0, 1), seg('b', 2, 3)], 'b'))).toEqual([['a', 0, 1], ['b', 2, 3]]);
+  });
+});
+
+describe("ripple edits", () => {
+  const segments = [seg('a', 0, 1), seg('b', 2, 3), seg('c', 4, 5)];
+
+  it("moves a segment and everything after it", () => {
+    expect(times(rippleShift(segments, 'b', 0.5))).toEqual([['a', 0, 1], ['b', 2.5, 3.5], ['c', 4.5, 5.5]]);
+  });
+
+  it("stops moving back at the end of the segment before", () => {
+    expect(times(rippleShift(segments, 'b', -5))).toEqual([['a', 0, 1], ['b', 1, 2], ['c', 3, 4]]);
+  });
+
+  it("stops a nudged edge at its neighbours without ripple", () => {
+    expect(times(nudgeSegment(segments, 'b', 'endTime', 5))).toEqual([['a', 0, 1], ['b', 2, 4], ['c', 4, 5]]);
+    expect(times(nudgeSegment(segments, 'b', 'startTime', 5))).toEqual([['a', 0, 1], ['b', 3 - MIN_SEGMENT_DURATION, 3], ['c', 4, 5]]);
+  });
+
+  it("carries the following segments along when the end moves with ripple", () => {
+    expect(times(nudgeSegment(segments, 'b', 'endTime', 1, true))).toEqual([['a', 0, 1], ['b', 2, 4], ['c', 5, 6]]);
+  });
+});
+
+describe("retiming", () => {
+  it("offsets everything, stopping the earliest segment at zero", () => {
+    expect(times(offsetSegments([seg('a', 1, 2), seg('b', 3, 4)], -2))).toEqual([['a', 0, 1], ['b', 2, 3]]);
+  });
+
+  it("scales times and word timings for a playback speed", () => {
+    const [scaled] = scaleSegmentSpeed([timed], 2);
+    expect(scaled.endTime).toBe(2);
+    expect(scaled.words!.map(w => w.startTime)).toEqual([0, 0.5, 1, 1.5]);
+    expect(scaleSegmentSpeed([timed], 0)).toEqual([timed]);
+  });
+});
+
+describe("resolveOverlaps", () => {
+  it("ends a segment where the next one starts", () => {
+    expect(times(resolveOverlaps([seg('a', 0, 3), seg('b', 2, 4)]))).toEqual([['a', 0, 2], ['b', 2, 4]]);
+  });
+
+  it("moves the next segment later when trimming would leave too little", () => {
+    expect(times(resolveOverlaps([seg('a', 1, 3), seg('b', 1.05, 2)]))).toEqual([['a', 1, 3], ['b', 3, 3.95]]);
+  });
+
+  it("fixes negative starts and backwards segments", () => {
+    expect(times(resolveOverlaps([seg('a', -1, 2), seg('b', 5, 4)]))).toEqual([['a', 0, 2], ['b', 5, 5.1]]);
+  });
+});
+
+describe("reflow", () => {
+  it("rewraps text between words", () => {
+    expect(rewrapText('the quick brown fox jumps', 10)).toBe('the quick\nbrown fox\njumps');
+  });
+
+  it("splits segments that need more lines than allowed, timed by their words", () => {
+    const reflowed = reflowSegments([timed], { maxCharsPerLine: 9, maxLines: 1, maxDuration: 7 });
+    expect(reflowed.map(s => [s.text, s.startTime, s.endTime])).toEqual([['one two', 0, 2], ['three', 2, 3], ['four', 3, 4]]);
+    expect(reflowed[0].id).toBe('a');
+  });
+
+  it("splits segments that stay up too long", () => {
+    const reflowed = reflowSegments([timed], { maxCharsPerLine: 42, maxLines: 2, maxDuration: 2 });
+    expect(reflowed.map(s => s.text)).toEqual(['one two', 'three four']);
+  });
+});
+
+describe("validateSegments", () => {
+  it("reports timeline errors and limit warnings", () => {
+    const issues = validateSegments([seg('a', 0, 2, ' '), seg('b', 1, 9, 'x'.repeat(50))]);
+    expect(issues).toEqual([
+      { id: 'a', severity: 'error', message: 'No text' },
+      { id: 'a', severity: 'error', message: 'Overlaps the next segment by 1s' },
+      { id: 'b', severity: 'warning', message: 'Line 1 has 50 characters (max 42)' },
+      { id: 'b', severity: 'warning', message: 'Lasts 8s (max 7s)' },
+    ]);
+  });
+
+  it("only warns when different speakers overlap", () => {
+    const overlapping = [{ ...seg('a', 0, 2), speaker: 'Ana' }, { ...seg('b', 1, 3), speaker: 'Ben' }];
+    expect(validateSegments(overlapping)).toEqual([{ id: 'a', severity: 'warning', message: 'Overlaps the next segment by 1s' }]);
+    expect(validateSegments(overlapping.map(s => ({ ...s, speaker: 'Ana' })))[0].severity).toBe('error');
+  });
+});
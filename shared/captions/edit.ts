@@ -0,0 +1,259 @@
+import { CaptionSegment, CaptionSegmentIssue, CaptionWord } from "../../types";
+import { resolveWordTimings, segmentWords, splitWords } from "./words";
+
+// Shortest segment an edit will leave behind, in seconds
+export const MIN_SEGMENT_DURATION = 0.1;
+
+export interface CaptionLimits {
+  maxCharsPerLine: number;
+  maxLines: number;
+  // Longest a segment should stay on screen, in seconds
+  maxDuration: number;
+}
+
+export const DEFAULT_CAPTION_LIMITS: CaptionLimits = { maxCharsPerLine: 42, maxLines: 2, maxDuration: 7 };
+
+const round3 = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+let idCounter = 0;
+const newSegmentId = () => `seg-${Date.now()}-${idCounter++}`;
+
+const byStart = (segments: CaptionSegment[]) => [...segments].sort((a, b) => a.startTime - b.startTime);
+
+// Word boundaries in the text, matching the words segmentWords returns
+const wordTokens = (text: string) => [...text.matchAll(/\S+/g)].map(m => ({ text: m[0], start: m.index!, end: m.index! + m[0].length }));
+
+const shifted = (seg: CaptionSegment, delta: number): CaptionSegment => ({
+  ...seg,
+  startTime: round3(seg.startTime + delta),
+  endTime: round3(seg.endTime + delta),
+  ...(seg.words ? { words: seg.words.map(w => ({ ...w, startTime: round3(w.startTime + delta), endTime: round3(w.endTime + delta) })) } : {}),
+});
+
+// New times for a segment, with its stored words clamped into them
+const retimed = (seg: CaptionSegment, startTime: number, endTime: number, words: CaptionWord[] | undefined = seg.words): CaptionSegment => {
+  const next: CaptionSegment = { ...seg, startTime: round3(startTime), endTime: round3(endTime) };
+  delete next.words;
+  return words ? { ...next, words: resolveWordTimings(next, words).map(w => ({ ...w, startTime: round3(w.startTime), endTime: round3(w.endTime) })) } : next;
+};
+
+/**
+ * Start of the word-th word in a segment's text, as a character index for splitSegment.
+ */
+export const wordStartIndex = (text: string, word: number): number => wordTokens(text)[word]?.start ?? text.length;
+
+/**
+ * Character index of the start of the word a cursor sits in, or the cursor itself between words.
+ */
+export const snapToWordStart = (text: string, index: number): number =>
+  wordTokens(text).find(token => index > token.start && index < token.end)?.start ?? index;
+
+// Spoken time at a character index, interpolated inside the word it falls in
+const timeAtChar = (seg: CaptionSegment, index: number): number => {
+  const words = segmentWords(seg);
+  const tokens = wordTokens(seg.text);
+  for (let i = 0; i < tokens.length; i++) {
+    if (index <= tokens[i].start) return words[i].startTime;
+    if (index < tokens[i].end) return words[i].startTime + (words[i].endTime - words[i].startTime) * (index - tokens[i].start) / (tokens[i].end - tokens[i].start);
+  }
+  return seg.endTime;
+};
+
+/**
+ * Splits a segment in two at a character index, at the time that point is spoken. A word cut in
+ * half is split between both parts. Nothing changes when either part would be empty.
+ */
+export const splitSegment = (segments: CaptionSegment[], id: string, index: number): CaptionSegment[] => {
+  const seg = segments.find(s => s.id === id);
+  if (!seg) return segments;
+  const before = seg.text.slice(0, index).trim(), after = seg.text.slice(index).trim();
+  if (!before || !after) return segments;
+  const at = seg.endTime - seg.startTime < 2 * MIN_SEGMENT_DURATION
+    ? (seg.startTime + seg.endTime) / 2
+    : Math.min(seg.endTime - MIN_SEGMENT_DURATION, Math.max(seg.startTime + MIN_SEGMENT_DURATION, timeAtChar(seg, index)));
+
+  let firstWords: CaptionWord[] | undefined, secondWords: CaptionWord[] | undefined;
+  if (seg.words) {
+    const words = segmentWords(seg);
+    firstWords = [];
+    secondWords = [];
+    wordTokens(seg.text).forEach((token, i) => {
+      if (token.end <= index) firstWords!.push(words[i]);
+      else if (token.start >= index) secondWords!.push(words[i]);
+      else {
+        const cut = index - token.start;
+        firstWords!.push({ text: token.text.slice(0, cut), startTime: words[i].startTime, endTime: at });
+        secondWords!.push({ text: token.text.slice(cut), startTime: at, endTime: words[i].endTime });
+      }
+    });
+  }
+  const first = retimed({ ...seg, text: before }, seg.startTime, at, firstWords);
+  const second = retimed({ ...seg, id: newSegmentId(), text: after }, at, seg.endTime, secondWords);
+  return byStart(segments.flatMap(s => s.id === id ? [first, second] : [s]));
+};
+
+/**
+ * Joins a segment with the one after it. The merged segment keeps the first one's id and
+ * animation and runs until the later of the two ends.
+ */
+export const mergeWithNext = (segments: CaptionSegment[], id: string): CaptionSegment[] => {
+  const sorted = byStart(segments);
+  const i = sorted.findIndex(s => s.id === id);
+  if (i < 0 || i === sorted.length - 1) return sorted;
+  const [a, b] = [sorted[i], sorted[i + 1]];
+  const merged = retimed({ ...a, text: `${a.text.trim()} ${b.text.trim()}` }, a.startTime, Math.max(a.endTime, b.endTime),
+    a.words || b.words ? [...segmentWords(a), ...segmentWords(b)] : undefined);
+  return [...sorted.slice(0, i), merged, ...sorted.slice(i + 2)];
+};
+
+/**
+ * Moves a segment and every segment after it by delta seconds. Moving back stops at the end of
+ * the segment before, or at zero.
+ */
+export const rippleShift = (segments: CaptionSegment[], id: string, delta: number): CaptionSegment[] => {
+  const sorted = byStart(segments);
+  const i = sorted.findIndex(s => s.id === id);
+  if (i < 0) return sorted;
+  const floor = i > 0 ? sorted[i - 1].endTime : 0;
+  const applied = Math.max(delta, floor - sorted[i].startTime);
+  return sorted.map((seg, j) => j >= i ? shifted(seg, applied) : seg);
+};
+
+/**
+ * Nudges one edge of a segment. Without ripple the edge stops at its neighbours and at the
+ * minimum duration. With ripple, moving the start moves the whole segment and everything after
+ * it, and moving the end moves everything after it.
+ */
+export const nudgeSegment = (segments: CaptionSegment[], id: string, field: 'startTime' | 'endTime', delta: number, ripple = false): CaptionSegment[] => {
+  const sorted = byStart(segments);
+  const i = sorted.findIndex(s => s.id === id);
+  if (i < 0) return sorted;
+  const seg = sorted[i];
+  if (ripple && field === 'startTime') return rippleShift(sorted, id, delta);
+  if (ripple) {
+    const applied = Math.max(delta, seg.startTime + MIN_SEGMENT_DURATION - seg.endTime);
+    return sorted.map((s, j) => j === i ? retimed(s, s.startTime, s.endTime + applied) : j > i ? shifted(s, applied) : s);
+  }
+  const prevEnd = i > 0 ? sorted[i - 1].endTime : 0;
+  const nextStart = i < sorted.length - 1 ? sorted[i + 1].startTime : Infinity;
+  const next = field === 'startTime'
+    ? retimed(seg, Math.min(seg.endTime - MIN_SEGMENT_DURATION, Math.max(prevEnd, seg.startTime + delta)), seg.endTime)
+    : retimed(seg, seg.startTime, Math.max(seg.startTime + MIN_SEGMENT_DURATION, Math.min(nextStart, seg.endTime + delta)));
+  return sorted.map((s, j) => j === i ? next : s);
+};
+
+/**
+ * Moves every segment by delta seconds, stopping the earliest at zero.
+ */
+export const offsetSegments = (segments: CaptionSegment[], delta: number): CaptionSegment[] => {
+  const earliest = Math.min(...segments.map(s => s.startTime));
+  const applied = Math.max(delta, -earliest);
+  return byStart(segments).map(seg => shifted(seg, applied));
+};
+
+/**
+ * Retimes captions for media played at a different speed: at 2x, every time halves.
+ */
+export const scaleSegmentSpeed = (segments: CaptionSegment[], speed: number): CaptionSegment[] => {
+  if (!(speed > 0)) return segments;
+  const scale = (t: number) => round3(t / speed);
+  return byStart(segments).map(seg => ({
+    ...seg,
+    startTime: scale(seg.startTime),
+    endTime: scale(seg.endTime),
+    ...(seg.words ? { words: seg.words.map(w => ({ ...w, startTime: scale(w.startTime), endTime: scale(w.endTime) })) } : {}),
+  }));
+};
+
+/**
+ * Makes the timeline valid: negative starts move to zero, backwards or too-short segments get the
+ * minimum duration, and a segment running into the next ends where the next starts. When that
+ * would leave it too short, the next one moves later instead, keeping its duration.
+ */
+export const resolveOverlaps = (segments: CaptionSegment[]): CaptionSegment[] => {
+  const resolved: CaptionSegment[] = [];
+  for (const seg of byStart(segments)) {
+    const start = Math.max(0, seg.startTime);
+    let current = retimed(seg, start, Math.max(start + MIN_SEGMENT_DURATION, seg.endTime));
+    const prev = resolved[resolved.length - 1];
+    if (prev && current.startTime < prev.endTime) {
+      if (current.startTime - prev.startTime >= MIN_SEGMENT_DURATION) {
+        resolved[resolved.length - 1] = retimed(prev, prev.startTime, current.startTime);
+      } else {
+        current = shifted(current, prev.endTime - current.startTime);
+      }
+    }
+    resolved.push(current);
+  }
+  return resolved;
+};
+
+// Greedy line break by characters; a word longer than a line gets one to itself
+const breakLines = (words: string[], maxChars: number): string[][] => {
+  const lines: string[][] = [];
+  for (const word of words) {
+    const line = lines[lines.length - 1];
+    if (line && [...line, word].join(' ').length <= maxChars) line.push(word);
+    else lines.push([word]);
+  }
+  return lines;
+};
+
+/**
+ * Rewraps text into lines of at most maxChars characters, breaking only between words.
+ */
+export const rewrapText = (text: string, maxChars: number): string =>
+  breakLines(splitWords(text), maxChars).map(line => line.join(' ')).join('\n');
+
+/**
+ * Rewraps segments to the line length, and splits any that need more lines than allowed or stay
+ * up longer than the maximum duration. Splits fall between words, timed by the word timings.
+ */
+export const reflowSegments = (segments: CaptionSegment[], limits: CaptionLimits = DEFAULT_CAPTION_LIMITS): CaptionSegment[] => byStart(segments).flatMap(seg => {
+  const words = segmentWords(seg);
+  if (!words.length) return [seg];
+  const chunks: CaptionWord[][] = [[]];
+  for (const word of words) {
+    const chunk = chunks[chunks.length - 1];
+    const candidate = [...chunk, word];
+    const tooManyLines = breakLines(candidate.map(w => w.text), limits.maxCharsPerLine).length > limits.maxLines;
+    const tooLong = word.endTime - (chunk[0]?.startTime ?? word.startTime) > limits.maxDuration;
+    if (chunk.length && (tooManyLines || tooLong)) chunks.push([word]);
+    else chunk.push(word);
+  }
+  return chunks.map((chunk, i) => {
+    const startTime = i === 0 ? seg.startTime : chunk[0].startTime;
+    const endTime = i === chunks.length - 1 ? seg.endTime : chunks[i + 1][0].startTime;
+    const text = breakLines(chunk.map(w => w.text), limits.maxCharsPerLine).map(line => line.join(' ')).join('\n');
+    return retimed({ ...seg, id: i === 0 ? seg.id : newSegmentId(), text }, startTime, endTime, seg.words ? chunk : undefined);
+  });
+});
+
+/**
+ * Problems with the timeline, one per segment and rule. Errors make the timeline invalid;
+ * warnings break the line length and duration limits, or mark two speakers talking at once.
+ */
+export const validateSegments = (segments: CaptionSegment[], limits: CaptionLimits = DEFAULT_CAPTION_LIMITS): CaptionSegmentIssue[] => {
+  const issues: CaptionSegmentIssue[] = [];
+  const sorted = byStart(segments);
+  sorted.forEach((seg, i) => {
+    const error = (message: string) => issues.push({ id: seg.id, severity: 'error', message });
+    const warning = (message: string) => issues.push({ id: seg.id, severity: 'warning', message });
+    if (!seg.text.trim()) error("No text");
+    if (seg.startTime < 0) error("Starts before 0s");
+    if (seg.endTime <= seg.startTime) error("Ends before it starts");
+    const next = sorted[i + 1];
+    // Different speakers may talk over each other; the same speaker can't
+    if (next && next.startTime < seg.endTime) {
+      const message = `Overlaps the next segment by ${round3(seg.endTime - next.startTime)}s`;
+      if (seg.speaker && next.speaker && seg.speaker !== next.speaker) warning(message);
+      else error(message);
+    }
+    seg.text.split(/\r?\n/).forEach((line, n) => {
+      if (line.trim().length > limits.maxCharsPerLine) warning(`Line ${n + 1} has ${line.trim().length} characters (max ${limits.maxCharsPerLine})`);
+    });
+    if (seg.text.split(/\r?\n/).filter(line => line.trim()).length > limits.maxLines) warning(`More than ${limits.maxLines} lines`);
+    if (seg.endTime - seg.startTime > limits.maxDuration) warning(`Lasts ${round3(seg.endTime - seg.startTime)}s (max ${limits.maxDuration}s)`);
+  });
+  return issues;
+};
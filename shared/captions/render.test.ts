@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { CaptionRenderStyle } from "../../types";
+import { captionFill, captionFontSize, captionMotion, CAPTION_POP, fillColorAt, layoutCaption, typewriterCharDelays } from "./render";
+
+const PORTRAIT = { width: 1080, height: 1920 };
+
+const style: CaptionRenderStyle = { font: 'Inter', color: '#ffffff', style: 'bold', size: 'large', position: 'bottom' };
+
+describe("captionFontSize", () => {
+  it("scales by the frame's shorter side", () => {
+    expect(captionFontSize('large', PORTRAIT)).toBe(80);
+    expect(captionFontSize('large', { width: 1920, height: 1080 })).toBe(80);
+    expect(captionFontSize('medium', { width: 540, height: 960 })).toBe(32);
+  });
+});
+
+describe("layoutCaption", () => {
+  it("anchors captions inside the platform's safe zone", () => {
+    expect(layoutCaption('Hi', style, PORTRAIT)).toMatchObject({
+      margins: { top: 288, bottom: 384, left: 54, right: 54 },
+      anchor: { x: 540, y: 1536 },
+    });
+    expect(layoutCaption('Hi', { ...style, position: 'top', platform: 'tiktok' }, PORTRAIT)).toMatchObject({
+      margins: { top: 230, bottom: 384, left: 65, right: 173 },
+      anchor: { x: 486, y: 230 },
+    });
+  });
+
+  it("wraps long text to fit between the margins", () => {
+    const text = 'This caption is far too long to sit on a single line of a portrait frame';
+    const layout = layoutCaption(text, style, PORTRAIT);
+    expect(layout.lines.length).toBeGreaterThan(1);
+    expect(layout.lines.flat().join(' ')).toBe(text);
+    expect(layout.width).toBeLessThanOrEqual(PORTRAIT.width - 2 * 54);
+  });
+});
+
+describe("caption fills", () => {
+  it("uses a gradient's stops, or fades a solid colour under the gradient look", () => {
+    expect(captionFill({ color: 'gradient-ocean', style: 'bold' })).toEqual(['#22d3ee', '#3b82f6']);
+    expect(captionFill({ color: 'Pure White', style: 'bold' })).toEqual(['#ffffff']);
+    expect(captionFill({ color: '#000000', style: 'gradient' })).toEqual(['#000000', '#8c8c8c']);
+  });
+
+  it("interpolates colours along the stops", () => {
+    expect(fillColorAt(['#000000', '#ffffff'], 0.5)).toBe('#808080');
+    expect(fillColorAt(['#000000', '#ffffff'], 2)).toBe('#ffffff');
+  });
+});
+
+describe("animations", () => {
+  it("eases entrances from the shared timings", () => {
+    expect(captionMotion('pop', 0, 1000).scale).toBe(CAPTION_POP.from);
+    expect(captionMotion('pop', CAPTION_POP.ms, 1000).scale).toBe(1);
+    expect(captionMotion('fade', 100, 50).opacity).toBe(0.25);
+    expect(captionMotion('slide-up', 0, 1000)).toEqual({ opacity: 0, scale: 1, offsetY: 0.5 });
+  });
+
+  it("reveals typewriter characters at most 50ms apart", () => {
+    expect(typewriterCharDelays({ text: 'abcd', startTime: 0, endTime: 10 })).toEqual([0, 50, 100, 150]);
+    expect(typewriterCharDelays({ text: 'abcd', startTime: 0, endTime: 0.1 })).toEqual([0, 20, 40, 60]);
+  });
+});
@@ -0,0 +1,208 @@
+import { CAPTION_COLORS, CaptionAnimation, CaptionPlatform, CaptionRenderStyle, CaptionSegment } from "../../types";
+import { splitWords } from "./words";
+
+// Font sizes in pixels on a 1080px frame; other frames scale by their shorter side
+export const CAPTION_FONT_SIZES: Record<CaptionRenderStyle['size'], number> = { small: 48, medium: 64, large: 80, xl: 104 };
+export const CAPTION_REFERENCE_SIZE = 1080;
+
+// Line spacing as a multiple of the font size
+export const CAPTION_LINE_HEIGHT = 1.2;
+
+// Fractions of the frame kept clear of captions on each edge
+export interface SafeZone {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// Platform zones leave room for the app's own overlays: the vertical feeds put buttons down the
+// right and the description along the bottom; YouTube keeps clear of the player controls
+export const CAPTION_SAFE_ZONES: Record<CaptionPlatform, SafeZone> = {
+  generic: { top: 0.15, bottom: 0.2, left: 0.05, right: 0.05 },
+  tiktok: { top: 0.12, bottom: 0.2, left: 0.06, right: 0.16 },
+  reels: { top: 0.12, bottom: 0.22, left: 0.06, right: 0.14 },
+  shorts: { top: 0.1, bottom: 0.2, left: 0.06, right: 0.14 },
+  youtube: { top: 0.06, bottom: 0.12, left: 0.05, right: 0.05 },
+};
+
+export interface CaptionLook {
+  // CSS weight; ASS bolds at 700 and above
+  weight: number;
+  // Outline width, shadow offset and glow radius as fractions of the font size
+  stroke: number;
+  shadow: number;
+  glow: number;
+  shadowOpacity: number;
+  // Neon outlines in its fill colour, every other look in black
+  strokeColor: 'fill' | 'black';
+}
+
+export const CAPTION_LOOKS: Record<CaptionRenderStyle['style'], CaptionLook> = {
+  bold: { weight: 900, stroke: 0, shadow: 0, glow: 0, shadowOpacity: 0, strokeColor: 'black' },
+  outline: { weight: 900, stroke: 0.045, shadow: 0.045, glow: 0, shadowOpacity: 1, strokeColor: 'black' },
+  neon: { weight: 900, stroke: 0.06, shadow: 0, glow: 0.16, shadowOpacity: 0, strokeColor: 'fill' },
+  '3d': { weight: 900, stroke: 0.02, shadow: 0.08, glow: 0, shadowOpacity: 0.75, strokeColor: 'black' },
+  minimalist: { weight: 500, stroke: 0, shadow: 0.02, glow: 0, shadowOpacity: 0.5, strokeColor: 'black' },
+  gradient: { weight: 900, stroke: 0.03, shadow: 0, glow: 0, shadowOpacity: 0, strokeColor: 'black' },
+};
+
+export const captionLook = (style: Pick<CaptionRenderStyle, 'style'>): CaptionLook => CAPTION_LOOKS[style.style] || CAPTION_LOOKS.bold;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const toRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+/**
+ * Colour a fraction t of the way from a to b, as #rrggbb.
+ */
+export const mixColors = (a: string, b: string, t: number): string => {
+  const [from, to] = [toRgb(a), toRgb(b)];
+  return '#' + from.map((c, i) => Math.round(c + (to[i] - c) * t).toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Fill colour stops, left to right: a gradient colour's stops, or the colour alone. The gradient
+ * look turns a solid colour into a fade towards a lighter tint of it.
+ */
+export const captionFill = (style: Pick<CaptionRenderStyle, 'color' | 'style'>): string[] => {
+  const entry = CAPTION_COLORS.find(c => c.hex === style.color || c.value === style.color);
+  const stops = (entry?.stops || [entry?.hex || style.color]).map(hex => HEX_COLOR.test(hex) ? hex.toLowerCase() : '#ffffff');
+  return stops.length === 1 && style.style === 'gradient' ? [stops[0], mixColors(stops[0], '#ffffff', 0.55)] : stops;
+};
+
+/**
+ * Colour at a fraction t (0-1) along evenly spaced stops.
+ */
+export const fillColorAt = (stops: string[], t: number): string => {
+  if (stops.length === 1) return stops[0];
+  const at = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(at));
+  return mixColors(stops[i], stops[i + 1], at - i);
+};
+
+// Average advance per character in em, for a bold sans-serif; CJK and Hangul are full width
+const charWidth = (ch: string): number => {
+  if (/[\u3000-\u9FFF\uAC00-\uD7AF\uFF00-\uFFEF]/.test(ch)) return 1;
+  if (/[iljI.,:;'!|]/.test(ch)) return 0.28;
+  if (/[ftr()[\]\s-]/.test(ch)) return 0.36;
+  if (/[mwMW@]/.test(ch)) return 0.9;
+  if (/[A-Z0-9#%&]/.test(ch)) return 0.68;
+  return 0.56;
+};
+
+/**
+ * Estimated width of a line in em. Neither side can measure the other's fonts, so both wrap by
+ * this estimate and break lines in the same places.
+ */
+export const measureCaptionText = (text: string, weight = 900): number =>
+  [...text].reduce((sum, ch) => sum + charWidth(ch), 0) * (weight >= 700 ? 1.06 : 1);
+
+/**
+ * Greedy word wrap to a width in em. Line breaks in the text are kept, and a word wider than the
+ * line gets a line to itself. Flattened, the lines are the text's words in order.
+ */
+export const wrapCaptionWords = (text: string, maxWidth: number, weight = 900): string[][] => {
+  const lines: string[][] = [];
+  for (const paragraph of text.trim().split(/\r?\n/)) {
+    let line: string[] = [];
+    for (const word of splitWords(paragraph)) {
+      if (line.length && measureCaptionText([...line, word].join(' '), weight) > maxWidth) {
+        lines.push(line);
+        line = [];
+      }
+      line.push(word);
+    }
+    if (line.length) lines.push(line);
+  }
+  return lines;
+};
+
+export interface CaptionFrame {
+  width: number;
+  height: number;
+}
+
+export interface CaptionLayout {
+  fontSize: number;
+  lines: string[][];
+  // Estimated width of the widest line, in pixels
+  width: number;
+  // Alignment point: the middle of the safe area across, and the block's top, middle or bottom edge
+  anchor: { x: number; y: number };
+  // Safe-zone margins in pixels
+  margins: SafeZone;
+}
+
+export const captionFontSize = (size: CaptionRenderStyle['size'], frame: CaptionFrame): number =>
+  Math.round((CAPTION_FONT_SIZES[size] || CAPTION_FONT_SIZES.large) * Math.min(frame.width, frame.height) / CAPTION_REFERENCE_SIZE);
+
+/**
+ * Places a caption in a frame: font size, wrapped lines inside the platform's safe zone, and the
+ * point the text block is aligned to.
+ */
+export const layoutCaption = (text: string, style: CaptionRenderStyle, frame: CaptionFrame): CaptionLayout => {
+  const look = captionLook(style);
+  const fontSize = captionFontSize(style.size, frame);
+  const zone = CAPTION_SAFE_ZONES[style.platform || 'generic'] || CAPTION_SAFE_ZONES.generic;
+  const margins = {
+    top: Math.round(frame.height * zone.top),
+    bottom: Math.round(frame.height * zone.bottom),
+    left: Math.round(frame.width * zone.left),
+    right: Math.round(frame.width * zone.right),
+  };
+  // Outlines and glow spill past the glyphs on both sides
+  const available = frame.width - margins.left - margins.right - 2 * fontSize * (look.stroke + look.glow);
+  const lines = wrapCaptionWords(text, available / fontSize, look.weight);
+  const widest = Math.max(0, ...lines.map(line => measureCaptionText(line.join(' '), look.weight)));
+  const y = style.position === 'top' ? margins.top : style.position === 'center' ? frame.height / 2 : frame.height - margins.bottom;
+  return {
+    fontSize,
+    lines,
+    width: Math.round(widest * fontSize),
+    anchor: { x: Math.round(margins.left + (frame.width - margins.left - margins.right) / 2), y: Math.round(y) },
+    margins,
+  };
+};
+
+// Whole-segment entrances. Scales grow from `from` to full size; slide-up rises `offset` font sizes
+export const CAPTION_FADE_MS = 200;
+export const CAPTION_POP = { from: 0.7, ms: 150 };
+export const CAPTION_ZOOM_IN = { from: 0.4, ms: 400 };
+export const CAPTION_SLIDE_UP = { offset: 0.5, ms: 250 };
+
+export interface CaptionMotion {
+  opacity: number;
+  scale: number;
+  // Downward offset in font sizes
+  offsetY: number;
+}
+
+const ease = (elapsed: number, ms: number) => Math.min(1, Math.max(0, elapsed / ms));
+
+/**
+ * Opacity, scale and offset of a segment under its entrance animation, elapsed ms after it
+ * appears and remaining ms before it goes. Word animations move words, not the segment.
+ */
+export const captionMotion = (animation: CaptionAnimation | undefined, elapsed: number, remaining: number): CaptionMotion => {
+  switch (animation) {
+    case 'fade': return { opacity: Math.min(ease(elapsed, CAPTION_FADE_MS), ease(remaining, CAPTION_FADE_MS)), scale: 1, offsetY: 0 };
+    case 'pop': return { opacity: 1, scale: CAPTION_POP.from + (1 - CAPTION_POP.from) * ease(elapsed, CAPTION_POP.ms), offsetY: 0 };
+    case 'zoom-in': return { opacity: 1, scale: CAPTION_ZOOM_IN.from + (1 - CAPTION_ZOOM_IN.from) * ease(elapsed, CAPTION_ZOOM_IN.ms), offsetY: 0 };
+    case 'slide-up': {
+      const t = ease(elapsed, CAPTION_SLIDE_UP.ms);
+      return { opacity: t, scale: 1, offsetY: CAPTION_SLIDE_UP.offset * (1 - t) };
+    }
+    default: return { opacity: 1, scale: 1, offsetY: 0 };
+  }
+};
+
+/**
+ * When each character of a typewriter segment without word timings appears, in ms from its start:
+ * evenly across the first 80% of the segment, at most 50ms apart.
+ */
+export const typewriterCharDelays = (segment: Pick<CaptionSegment, 'text' | 'startTime' | 'endTime'>): number[] => {
+  const chars = [...segment.text];
+  const revealMs = Math.min(chars.length * 50, (segment.endTime - segment.startTime) * 800);
+  return chars.map((_, i) => Math.round(i * revealMs / Math.max(1, chars.length)));
+};
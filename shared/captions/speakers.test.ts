@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { CaptionSegment } from "../../types";
+import { nextSpeakerId, resolveSpeakers, segmentSpeakers, speakerStyle } from "./speakers";
+
+const segments: CaptionSegment[] = [
+  { id: 'b', text: 'Hi Ana', startTime: 2, endTime: 3, speaker: 'Ben' },
+  { id: 'a', text: 'Hello', startTime: 0, endTime: 1, speaker: 'Ana' },
+  { id: 'c', text: 'Narration', startTime: 4, endTime: 5 },
+];
+
+const style = { color: '#fbbf24', position: 'bottom' as const };
+
+describe("segmentSpeakers", () => {
+  it("lists speakers in the order they first speak", () => {
+    expect(segmentSpeakers(segments)).toEqual(['Ana', 'Ben']);
+  });
+});
+
+describe("resolveSpeakers", () => {
+  it("keeps the caption colour for the first speaker and skips it for the rest", () => {
+    expect(resolveSpeakers(segments, style)).toEqual([
+      { id: 'Ana', name: 'Ana', color: '#fbbf24', position: 'bottom' },
+      { id: 'Ben', name: 'Ben', color: '#3b82f6', position: 'bottom' },
+    ]);
+  });
+
+  it("applies overrides and keeps configured speakers nobody speaks as", () => {
+    const speakers = resolveSpeakers(segments, {
+      ...style,
+      speakers: [{ id: 'Ana', name: ' Ana Lopez ', color: '#3b82f6', position: 'top' }, { id: 'Cy' }],
+    });
+    expect(speakers).toEqual([
+      { id: 'Ana', name: 'Ana Lopez', color: '#3b82f6', position: 'top' },
+      { id: 'Ben', name: 'Ben', color: '#a3e635', position: 'bottom' },
+      { id: 'Cy', name: 'Cy', color: '#ec4899', position: 'bottom' },
+    ]);
+  });
+});
+
+describe("speakerStyle", () => {
+  it("draws a segment in its speaker's colour and position", () => {
+    const speakers = resolveSpeakers(segments, { ...style, speakers: [{ id: 'Ben', position: 'top' }] });
+    expect(speakerStyle({ ...style, font: 'Inter' }, speakers, 'Ben')).toEqual({ color: '#3b82f6', position: 'top', font: 'Inter' });
+    expect(speakerStyle(style, speakers)).toBe(style);
+    expect(speakerStyle(style, speakers, 'Nobody')).toBe(style);
+  });
+});
+
+describe("nextSpeakerId", () => {
+  it("numbers new speakers past the ones in use", () => {
+    expect(nextSpeakerId(segments)).toBe('Speaker 3');
+    expect(nextSpeakerId([], [{ id: 'Speaker 1' }])).toBe('Speaker 2');
+    expect(nextSpeakerId([{ ...segments[0], speaker: 'Speaker 2' }])).toBe('Speaker 3');
+  });
+});
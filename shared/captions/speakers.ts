@@ -0,0 +1,47 @@
+import { CaptionRenderStyle, CaptionSegment, CaptionSpeaker } from "../../types";
+
+export type ResolvedSpeaker = Required<CaptionSpeaker>;
+
+// Handed out in order to speakers without a colour, skipping the caption colour and colours in use.
+// All are CAPTION_COLORS entries that stay readable over video
+export const SPEAKER_COLORS = ['#fbbf24', '#3b82f6', '#a3e635', '#ec4899', '#f97316', '#9333ea', '#ffffff'];
+
+/**
+ * Speaker ids in the order they first speak.
+ */
+export const segmentSpeakers = (segments: CaptionSegment[]): string[] =>
+  [...new Set([...segments].sort((a, b) => a.startTime - b.startTime).map(seg => seg.speaker).filter((id): id is string => !!id))];
+
+/**
+ * Every speaker in the segments or the style, with its overrides filled in. The first speaker
+ * keeps the caption colour and later ones get distinct colours; positions default to the style's.
+ */
+export const resolveSpeakers = (segments: CaptionSegment[], style: Pick<CaptionRenderStyle, 'color' | 'position' | 'speakers'>): ResolvedSpeaker[] => {
+  const configured = style.speakers || [];
+  const ids = [...new Set([...segmentSpeakers(segments), ...configured.map(s => s.id)])];
+  const used = new Set([style.color.toLowerCase(), ...configured.map(s => s.color?.toLowerCase()).filter(Boolean)]);
+  const palette = SPEAKER_COLORS.filter(color => !used.has(color));
+  return ids.map((id, i) => {
+    const speaker = configured.find(s => s.id === id);
+    const color = speaker?.color || (i === 0 ? style.color : palette.shift() || style.color);
+    return { id, name: speaker?.name?.trim() || id, color, position: speaker?.position || style.position };
+  });
+};
+
+/**
+ * The style a segment is drawn in: the caption style with its speaker's colour and position.
+ */
+export const speakerStyle = <S extends Pick<CaptionRenderStyle, 'color' | 'position'>>(style: S, speakers: ResolvedSpeaker[], id?: string): S => {
+  const speaker = id ? speakers.find(s => s.id === id) : undefined;
+  return speaker ? { ...style, color: speaker.color, position: speaker.position } : style;
+};
+
+/**
+ * A speaker id not used by any segment, as 'Speaker n'.
+ */
+export const nextSpeakerId = (segments: CaptionSegment[], speakers: CaptionSpeaker[] = []): string => {
+  const taken = new Set([...segmentSpeakers(segments), ...speakers.map(s => s.id)]);
+  let n = taken.size + 1;
+  while (taken.has(`Speaker ${n}`)) n++;
+  return `Speaker ${n}`;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { CaptionSegment } from "../../types";
+import { alignTrack, batchSegments, buildTranslatedTrack, captionLanguageName, charsPerLine, setTrackText, untranslatedIds, wrapForLanguage } from "./translate";
+
+const source: CaptionSegment[] = [
+  { id: 'a', text: 'Hello', startTime: 0, endTime: 1, words: [{ text: 'Hello', startTime: 0, endTime: 1 }] },
+  { id: 'b', text: 'Goodbye', startTime: 1, endTime: 2, animation: 'pop' },
+];
+
+describe("languages", () => {
+  it("names languages by code, falling back to the code", () => {
+    expect(captionLanguageName('es')).toBe('Spanish');
+    expect(captionLanguageName('xx')).toBe('xx');
+  });
+
+  it("gives unspaced scripts shorter lines", () => {
+    expect(charsPerLine('fr')).toBe(42);
+    expect(charsPerLine('ja')).toBe(16);
+    expect(charsPerLine('zh-CN')).toBe(16);
+  });
+});
+
+describe("wrapForLanguage", () => {
+  it("breaks spaced languages between words", () => {
+    const text = 'Una frase bastante larga que no cabe en una sola línea';
+    expect(wrapForLanguage(text, 'es')).toBe('Una frase bastante larga que no cabe en\nuna sola línea');
+  });
+
+  it("breaks unspaced scripts between characters, keeping closing punctuation and Latin words", () => {
+    expect(wrapForLanguage('今日はとても良い天気ですね。明日も晴れるでしょう。', 'ja')).toBe('今日はとても良い天気ですね。明日\nも晴れるでしょう。');
+    // Sixteen characters, then a full stop that would otherwise start a line
+    expect(wrapForLanguage('これは十六文字ちょうどの文ですね。', 'ja')).toBe('これは十六文字ちょうどの文ですね。');
+    expect(wrapForLanguage('新しいLuminaの機能をお試しください', 'ja')).toBe('新しいLuminaの機能をお試し\nください');
+  });
+});
+
+describe("batchSegments", () => {
+  it("splits segments into prompts of a fixed size", () => {
+    const segments = Array.from({ length: 5 }, (_, i) => ({ id: `${i}`, text: `${i}`, startTime: i, endTime: i + 1 }));
+    expect(batchSegments(segments, 2).map(batch => batch.map(s => s.id))).toEqual([['0', '1'], ['2', '3'], ['4']]);
+    expect(batchSegments([], 2)).toEqual([]);
+  });
+});
+
+describe("buildTranslatedTrack", () => {
+  it("keeps timings and animation but drops word timings", () => {
+    const track = buildTranslatedTrack(source, [{ id: 'a', text: 'Hola' }, { id: 'b', text: 'Adiós' }], 'es');
+    expect(track).toEqual({
+      language: 'es',
+      segments: [
+        { id: 'a', text: 'Hola', startTime: 0, endTime: 1 },
+        { id: 'b', text: 'Adiós', startTime: 1, endTime: 2, animation: 'pop' },
+      ],
+    });
+  });
+
+  it("keeps the source text for segments the model skipped or left blank", () => {
+    const track = buildTranslatedTrack(source, [{ id: 'b', text: ' ' }], 'es');
+    expect(track.segments).toEqual(source);
+    expect(track.untranslated).toEqual(['a', 'b']);
+  });
+});
+
+describe("editing tracks", () => {
+  const track = buildTranslatedTrack(source, [{ id: 'a', text: 'Hola' }], 'es');
+
+  it("lays translations over the current source timings", () => {
+    const retimed = source.map(s => ({ ...s, startTime: s.startTime + 5, endTime: s.endTime + 5 }));
+    const added = { id: 'c', text: 'New', startTime: 9, endTime: 10 };
+    expect(alignTrack([...retimed, added], track).map(s => [s.text, s.startTime])).toEqual([['Hola', 5], ['Goodbye', 6], ['New', 9]]);
+    expect(untranslatedIds([...source, added], track)).toEqual(['b', 'c']);
+  });
+
+  it("sets a segment's text and clears it from the untranslated list", () => {
+    const edited = setTrackText(track, source[1], 'Adiós');
+    expect(edited.segments[1].text).toBe('Adiós');
+    expect(edited.untranslated).toBeUndefined();
+    const added = setTrackText(edited, { id: 'c', text: 'New', startTime: 2, endTime: 3 }, 'Nuevo');
+    expect(added.segments.map(s => s.text)).toEqual(['Hola', 'Adiós', 'Nuevo']);
+  });
+});
@@ -0,0 +1,110 @@
+import { CAPTION_LANGUAGES, CaptionSegment, CaptionTrack } from "../../types";
+import { DEFAULT_CAPTION_LIMITS, rewrapText } from "./edit";
+
+// Segments per translation prompt: enough context for consistent wording, small enough to come back whole
+export const TRANSLATION_BATCH_SIZE = 40;
+
+// Languages written without spaces between words, wrapped by character instead
+const UNSPACED_LANGUAGES = ['ja', 'zh'];
+
+// Full-width characters take about twice the room, so these lines hold half as many
+const UNSPACED_CHARS_PER_LINE = 16;
+
+const baseLanguage = (code: string) => code.split('-')[0].toLowerCase();
+
+export const captionLanguageName = (code: string): string =>
+  CAPTION_LANGUAGES.find(l => l.code === code)?.name || code;
+
+export const charsPerLine = (language: string): number =>
+  UNSPACED_LANGUAGES.includes(baseLanguage(language)) ? UNSPACED_CHARS_PER_LINE : DEFAULT_CAPTION_LIMITS.maxCharsPerLine;
+
+// One full-width character, a run of other text, or a space
+const UNSPACED_UNITS = /[\u3000-\u9FFF\uFF00-\uFFEF]|[^\s\u3000-\u9FFF\uFF00-\uFFEF]+|\s+/g;
+
+// Closing punctuation stays on the line it closes
+const CLOSING_PUNCTUATION = /^[\u3001\u3002\u300D\u300F\u3011\uFF01\uFF09\uFF0C\uFF1F]$/;
+
+/**
+ * Rewraps translated text for its language's line length. Unspaced scripts can break between any
+ * two full-width characters, keeping embedded Latin words whole; the rest break between words.
+ */
+export const wrapForLanguage = (text: string, language: string): string => {
+  const flat = text.replace(/\s*\n\s*/g, ' ').trim();
+  const max = charsPerLine(language);
+  if (!UNSPACED_LANGUAGES.includes(baseLanguage(language))) return rewrapText(flat, max);
+  const lines: string[] = [];
+  let line = '';
+  for (const unit of flat.match(UNSPACED_UNITS) || []) {
+    const breakable = line.trim() && !/^\s/.test(unit) && !CLOSING_PUNCTUATION.test(unit);
+    if (breakable && [...(line + unit).trim()].length > max) {
+      lines.push(line.trim());
+      line = unit;
+    } else {
+      line += unit;
+    }
+  }
+  if (line.trim()) lines.push(line.trim());
+  return lines.join('\n');
+};
+
+export const batchSegments = (segments: CaptionSegment[], size = TRANSLATION_BATCH_SIZE): CaptionSegment[][] => {
+  const batches: CaptionSegment[][] = [];
+  for (let i = 0; i < segments.length; i += size) batches.push(segments.slice(i, i + size));
+  return batches;
+};
+
+/**
+ * Builds a language's track from the source segments and the model's {id, text} pairs. Segments
+ * keep their ids, timings and animation; word timings are dropped since they timed the source
+ * words. Ids the model skipped keep the source text and are listed as untranslated.
+ */
+export const buildTranslatedTrack = (source: CaptionSegment[], translations: { id: string; text: string }[], language: string): CaptionTrack => {
+  const texts = new Map(translations.filter(t => typeof t?.text === 'string' && t.text.trim()).map(t => [String(t.id), t.text]));
+  const untranslated: string[] = [];
+  const segments = source.map(seg => {
+    const text = texts.get(seg.id);
+    if (text === undefined) {
+      untranslated.push(seg.id);
+      return seg;
+    }
+    const { words, ...rest } = seg;
+    return { ...rest, text: wrapForLanguage(text, language) };
+  });
+  return { language, segments, ...(untranslated.length ? { untranslated } : {}) };
+};
+
+/**
+ * A track's text laid over the current source segments, so timing edits made after translating
+ * carry over. Segments added since the translation show in the source language.
+ */
+export const alignTrack = (source: CaptionSegment[], track: CaptionTrack): CaptionSegment[] => {
+  const translated = new Map(track.segments.filter(s => !track.untranslated?.includes(s.id)).map(s => [s.id, s.text]));
+  return source.map(seg => {
+    const text = translated.get(seg.id);
+    if (text === undefined) return seg;
+    const { words, ...rest } = seg;
+    return { ...rest, text };
+  });
+};
+
+/**
+ * Ids of source segments a track has no translation for.
+ */
+export const untranslatedIds = (source: CaptionSegment[], track: CaptionTrack): string[] => {
+  const translated = new Set(track.segments.filter(s => !track.untranslated?.includes(s.id)).map(s => s.id));
+  return source.filter(seg => !translated.has(seg.id)).map(seg => seg.id);
+};
+
+/**
+ * Sets one segment's text in a track, adding the segment if the track doesn't have it yet.
+ */
+export const setTrackText = (track: CaptionTrack, segment: CaptionSegment, text: string): CaptionTrack => {
+  const exists = track.segments.some(s => s.id === segment.id);
+  const { words, ...seg } = segment;
+  const untranslated = track.untranslated?.filter(id => id !== segment.id);
+  return {
+    ...track,
+    segments: exists ? track.segments.map(s => s.id === segment.id ? { ...s, text } : s) : [...track.segments, { ...seg, text }],
+    untranslated: untranslated?.length ? untranslated : undefined,
+  };
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { CaptionSegment } from "../../types";
+import { activeWordIndex, bounceScale, BOUNCE_SCALE, countSyllables, estimateWordTimings, resolveWordTimings, segmentWords, wordProgress } from "./words";
+
+const segment: CaptionSegment = { id: 'a', text: 'Hello there, friend', startTime: 1, endTime: 3 };
+
+describe("countSyllables", () => {
+  it("counts vowel groups, skipping a silent final e", () => {
+    expect(countSyllables('hello')).toBe(2);
+    expect(countSyllables('time')).toBe(1);
+    expect(countSyllables('table')).toBe(2);
+  });
+
+  it("counts digits and characters of unspaced scripts", () => {
+    expect(countSyllables('2024')).toBe(4);
+    expect(countSyllables('日本語')).toBe(3);
+  });
+});
+
+describe("estimateWordTimings", () => {
+  it("spreads the segment over its words by syllables, pausing after punctuation", () => {
+    const words = estimateWordTimings(segment);
+    expect(words.map(w => w.text)).toEqual(['Hello', 'there,', 'friend']);
+    expect(words[0].startTime).toBe(1);
+    expect(words[2].endTime).toBe(3);
+    // Two syllables to one, and a half-syllable gap after the comma
+    expect(words[0].endTime - words[0].startTime).toBeCloseTo(2 * (words[1].endTime - words[1].startTime));
+    expect(words[2].startTime - words[1].endTime).toBeCloseTo((words[1].endTime - words[1].startTime) / 2);
+  });
+});
+
+describe("resolveWordTimings", () => {
+  it("clamps model timings into the segment and keeps them in order", () => {
+    expect(resolveWordTimings(segment, [
+      { text: 'Hello', startTime: 0.5, endTime: 1.5 },
+      { text: 'there,', startTime: 1.4, endTime: 2 },
+      { text: 'friend', startTime: 2.2, endTime: 9 },
+    ])).toEqual([
+      { text: 'Hello', startTime: 1, endTime: 1.5 },
+      { text: 'there,', startTime: 1.5, endTime: 2 },
+      { text: 'friend', startTime: 2.2, endTime: 3 },
+    ]);
+  });
+
+  it("estimates when the timings don't match the words", () => {
+    expect(resolveWordTimings(segment, [{ text: 'Hello', startTime: 1, endTime: 2 }])).toEqual(estimateWordTimings(segment));
+  });
+});
+
+describe("segmentWords", () => {
+  it("keeps stored words only while they match the text and times", () => {
+    const words = resolveWordTimings(segment, [
+      { text: 'Hello', startTime: 1, endTime: 1.5 },
+      { text: 'there,', startTime: 1.5, endTime: 2 },
+      { text: 'friend', startTime: 2, endTime: 3 },
+    ]);
+    expect(segmentWords({ ...segment, words })).toBe(words);
+    expect(segmentWords({ ...segment, text: 'Hello there', words })).toEqual(estimateWordTimings({ ...segment, text: 'Hello there' }));
+    expect(segmentWords({ ...segment, endTime: 2.5, words })).toEqual(estimateWordTimings({ ...segment, endTime: 2.5 }));
+  });
+});
+
+describe("word playback", () => {
+  const words = [{ text: 'a', startTime: 1, endTime: 2 }, { text: 'b', startTime: 2, endTime: 3 }];
+
+  it("finds the word being spoken and how far along it is", () => {
+    expect(activeWordIndex(words, 0.5)).toBe(-1);
+    expect(activeWordIndex(words, 2.5)).toBe(1);
+    expect(wordProgress(words[0], 1.25)).toBe(0.25);
+    expect(wordProgress(words[0], 5)).toBe(1);
+  });
+
+  it("bounces a word up to BOUNCE_SCALE and back", () => {
+    expect(bounceScale(words[0], 0.9)).toBe(1);
+    expect(bounceScale(words[0], 1.1)).toBeCloseTo(BOUNCE_SCALE);
+    expect(bounceScale(words[0], 1.5)).toBe(1);
+  });
+});
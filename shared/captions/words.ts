@@ -0,0 +1,110 @@
+import { CaptionAnimation, CaptionSegment, CaptionWord } from "../../types";
+
+// Animations that follow individual words rather than the whole segment
+export const WORD_ANIMATIONS: CaptionAnimation[] = ['highlight', 'bounce', 'karaoke', 'typewriter'];
+
+// Extra weight after a word for the pause its punctuation implies, in syllables
+const PAUSE_WEIGHTS: [RegExp, number][] = [[/[.!?…]["')\]]*$/, 1], [/[,;:—–]["')\]]*$/, 0.5]];
+
+export const splitWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+/**
+ * Rough syllable count: vowel groups for Latin-script words, ignoring a silent final "e", one
+ * per digit, and one per character for scripts without spaces between words (CJK, Thai).
+ */
+export const countSyllables = (word: string): number => {
+  const digits = (word.match(/\d/g) || []).length;
+  const ideographs = (word.match(/[\u0E00-\u0E7F\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF]/g) || []).length;
+  const letters = word.toLowerCase().replace(/[^a-z\u00E0-\u00FF]/g, '');
+  let vowelGroups = (letters.match(/[aeiouy\u00E0-\u00FF]+/g) || []).length;
+  if (vowelGroups > 1 && /[^aeiouy]e$/.test(letters) && !/le$/.test(letters)) vowelGroups--;
+  return Math.max(1, vowelGroups + digits + ideographs);
+};
+
+const pauseAfter = (word: string) => PAUSE_WEIGHTS.find(([pattern]) => pattern.test(word))?.[1] || 0;
+
+/**
+ * Spreads a segment's duration over its words by syllable count. Words run back to back, with
+ * sentence and clause punctuation leaving a short gap after the word that carries it.
+ */
+export const estimateWordTimings = (segment: Pick<CaptionSegment, 'text' | 'startTime' | 'endTime'>): CaptionWord[] => {
+  const words = splitWords(segment.text);
+  const duration = Math.max(0, segment.endTime - segment.startTime);
+  // The last word's pause would only pad the end of the segment
+  const weights = words.map((word, i) => ({ speech: countSyllables(word), pause: i < words.length - 1 ? pauseAfter(word) : 0 }));
+  const total = weights.reduce((sum, w) => sum + w.speech + w.pause, 0) || 1;
+  let cursor = segment.startTime;
+  return words.map((text, i) => {
+    const startTime = cursor;
+    const endTime = i === words.length - 1 ? segment.endTime : startTime + duration * weights[i].speech / total;
+    cursor = endTime + duration * weights[i].pause / total;
+    return { text, startTime, endTime };
+  });
+};
+
+/**
+ * Cleans word timings from a transcription model: they must cover the segment's words in order,
+ * and are clamped into the segment and made non-overlapping. Anything unusable is estimated instead.
+ */
+export const resolveWordTimings = (segment: Pick<CaptionSegment, 'text' | 'startTime' | 'endTime'>, words?: unknown): CaptionWord[] => {
+  const expected = splitWords(segment.text);
+  const usable = Array.isArray(words) && words.length === expected.length && words.every(w =>
+    typeof w?.text === 'string' && Number.isFinite(w.startTime) && Number.isFinite(w.endTime));
+  if (!usable) return estimateWordTimings(segment);
+  let floor = segment.startTime;
+  return expected.map((text, i) => {
+    const startTime = Math.min(segment.endTime, Math.max(floor, words[i].startTime));
+    const endTime = Math.min(segment.endTime, Math.max(startTime, words[i].endTime));
+    floor = endTime;
+    return { text, startTime, endTime };
+  });
+};
+
+/**
+ * The segment's word timings when they still match its text, otherwise an estimate. Editing a
+ * segment's text or times doesn't need to touch its words.
+ */
+export const segmentWords = (segment: CaptionSegment): CaptionWord[] => {
+  const words = segment.words;
+  const current = words && words.map(w => w.text).join(' ') === splitWords(segment.text).join(' ')
+    && words.every(w => w.startTime >= segment.startTime - 1e-3 && w.endTime <= segment.endTime + 1e-3);
+  return current ? words! : estimateWordTimings(segment);
+};
+
+/**
+ * Index of the word being spoken at a time: the last word that has started, or -1 before the first.
+ */
+export const activeWordIndex = (words: CaptionWord[], time: number): number => {
+  let active = -1;
+  for (let i = 0; i < words.length && words[i].startTime <= time; i++) active = i;
+  return active;
+};
+
+/**
+ * How far a word has been spoken at a time, from 0 before it starts to 1 once it ends.
+ */
+export const wordProgress = (word: CaptionWord, time: number): number => {
+  if (time >= word.endTime) return 1;
+  if (time <= word.startTime) return 0;
+  return (time - word.startTime) / (word.endTime - word.startTime);
+};
+
+// Bounce: a word grows to BOUNCE_SCALE as it starts, then settles back to full size
+export const BOUNCE_SCALE = 1.25;
+export const BOUNCE_RISE_MS = 100;
+export const BOUNCE_SETTLE_MS = 120;
+
+/**
+ * Scale of a bouncing word at a time, matching the transforms in ASS exports.
+ */
+export const bounceScale = (word: CaptionWord, time: number): number => {
+  const elapsed = (time - word.startTime) * 1000;
+  if (elapsed < 0 || elapsed >= BOUNCE_RISE_MS + BOUNCE_SETTLE_MS) return 1;
+  const peak = BOUNCE_SCALE - 1;
+  return elapsed < BOUNCE_RISE_MS ? 1 + peak * elapsed / BOUNCE_RISE_MS : BOUNCE_SCALE - peak * (elapsed - BOUNCE_RISE_MS) / BOUNCE_SETTLE_MS;
+};
+
+/**
+ * Colour for the word being spoken under 'highlight': gold, or white when the caption itself is gold.
+ */
+export const activeWordColor = (primary: string): string => primary.toLowerCase() === '#fbbf24' ? '#ffffff' : '#fbbf24';
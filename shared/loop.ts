@@ -0,0 +1,9 @@
+import { LoopMode } from "../types";
+
+/**
+ * Frame indices for one playback cycle. Ping-pong runs back without repeating the end frames.
+ */
+export const playbackOrder = (frameCount: number, mode?: LoopMode): number[] => {
+  const forward = Array.from({ length: frameCount }, (_, i) => i);
+  return mode === 'ping-pong' && frameCount > 2 ? [...forward, ...forward.slice(1, -1).reverse()] : forward;
+};
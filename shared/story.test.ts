@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { AspectRatio, GenerationConfig, GenerationMode, ImageResolution, ModelType, StoryEntity } from "../types";
+import { activeEntities, orderedScenes, storyGuidelines, storyReferences, storyScenePrompt } from "./story";
+
+const entity = (id: string, text: string, image: string | null, isActive = true): StoryEntity => ({ id, text, image, isActive });
+
+const config: GenerationConfig = {
+  mode: GenerationMode.STORY,
+  prompt: ' A fox finds a lantern ',
+  model: ModelType.FLASH_IMAGE,
+  aspectRatio: AspectRatio.LANDSCAPE_16_9,
+  resolution: ImageResolution.RES_1K,
+  storySubjects: [entity('s1', 'Red fox', 'data:image/png;base64,Zm94'), entity('s2', 'Owl', 'data:image/png;base64,b3ds', false)],
+  storyEnvironments: [entity('e1', 'Pine forest', null)],
+  storyArtStyles: [entity('a1', 'Watercolour', 'data:image/png;base64,YXJ0')],
+  stylePrompts: ['soft light'],
+};
+
+const scene = { id: 'one', prompt: ' The fox wakes ', order: 0 };
+
+describe("story scenes", () => {
+  it("orders scenes and skips empty ones", () => {
+    const scenes = [{ id: 'b', prompt: 'Second', order: 2 }, { id: 'x', prompt: '  ', order: 1 }, { id: 'a', prompt: 'First', order: 0 }];
+    expect(orderedScenes(scenes).map(s => s.id)).toEqual(['a', 'b']);
+    expect(orderedScenes()).toEqual([]);
+  });
+
+  it("uses only active entities, and only those with images as references", () => {
+    expect(activeEntities(config.storySubjects).map(e => e.id)).toEqual(['s1']);
+    expect(storyReferences(config)).toEqual([
+      { role: 'subject', dataUrl: 'data:image/png;base64,Zm94' },
+      { role: 'style', dataUrl: 'data:image/png;base64,YXJ0' },
+    ]);
+  });
+});
+
+describe("storyScenePrompt", () => {
+  it("numbers the scene and carries the story and shared guidelines", () => {
+    const prompt = storyScenePrompt(config, scene, 1, 3, false);
+    expect(prompt.startsWith(storyGuidelines(config))).toBe(true);
+    expect(storyGuidelines(config)).toContain('- Main characters: Red fox\n- Setting: Pine forest\n');
+    expect(prompt).toContain('\nSTORYBOARD: Scene 2 of 3.\nSTORY: A fox finds a lantern\nSCENE: The fox wakes\n');
+    expect(prompt).toContain('Aspect Ratio: 16:9.');
+    expect(prompt).not.toContain('previous frame');
+  });
+
+  it("asks for continuity with the previous frame when it is chained in", () => {
+    const prompt = storyScenePrompt({ ...config, prompt: '' }, scene, 1, 3, true);
+    expect(prompt).toContain('STORYBOARD: Scene 2 of 3. Continue from the previous frame (the continuity reference)');
+    expect(prompt).not.toContain('STORY:');
+  });
+});
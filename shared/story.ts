@@ -0,0 +1,58 @@
+import { GenerationConfig, ReferenceImage, StoryEntity, StoryScene } from "../types";
+
+// Scenes render one after another, so long storyboards take a while and cost a call each
+export const MAX_STORYBOARD_SCENES = 24;
+
+export const activeEntities = (entities: StoryEntity[] = []): StoryEntity[] => entities.filter(e => e.isActive);
+
+/**
+ * Scenes with a description, in storyboard order. Empty scenes are skipped.
+ */
+export const orderedScenes = (scenes: StoryScene[] = []): StoryScene[] =>
+  scenes.filter(scene => scene.prompt?.trim()).sort((a, b) => a.order - b.order);
+
+/**
+ * Images of the active subjects, environments and art styles, tagged with their roles.
+ */
+export const storyReferences = (config: GenerationConfig): ReferenceImage[] => {
+  const withRole = (role: ReferenceImage['role'], entities?: StoryEntity[]): ReferenceImage[] =>
+    activeEntities(entities).filter(e => !!e.image).map(e => ({ role, dataUrl: e.image as string }));
+  return [
+    ...withRole('subject', config.storySubjects),
+    ...withRole('scene', config.storyEnvironments),
+    ...withRole('style', config.storyArtStyles),
+  ];
+};
+
+/**
+ * Composition and style guidelines shared by every image in a story: the active pool entries
+ * and the style presets.
+ */
+export const storyGuidelines = (config: GenerationConfig): string => {
+  const subjects = activeEntities(config.storySubjects);
+  const scenes = activeEntities(config.storyEnvironments);
+  const styles = activeEntities(config.storyArtStyles);
+  const presetText = (config.stylePrompts || []).join(", ");
+
+  let guidelines = "COMPOSITION GUIDELINES:\n";
+  if (subjects.length > 0) guidelines += `- Main characters: ${subjects.map(s => s.text).join(", ")}\n`;
+  if (scenes.length > 0) guidelines += `- Setting: ${scenes.map(e => e.text).join(", ")}\n`;
+
+  let styleInstructions = "";
+  if (styles.length > 0) styleInstructions += `- Reference Styles: Replicate the aesthetic from these uploads: ${styles.map(s => s.text).join(", ")}. `;
+  if (presetText) styleInstructions += `- Style Presets: Apply these artistic qualities: ${presetText}.`;
+  if (styleInstructions) guidelines += `STYLE: ${styleInstructions}\n`;
+  return guidelines;
+};
+
+/**
+ * Prompt for one storyboard scene. When the previous frame is chained in, the model is told to
+ * carry its characters, wardrobe and lighting over while framing a new shot.
+ */
+export const storyScenePrompt = (config: GenerationConfig, scene: StoryScene, index: number, total: number, chained: boolean): string => {
+  const continuity = chained
+    ? " Continue from the previous frame (the continuity reference): keep the same characters, wardrobe, props, lighting and palette, but frame a new shot for this scene."
+    : "";
+  const story = config.prompt?.trim() ? `\nSTORY: ${config.prompt.trim()}` : "";
+  return `${storyGuidelines(config)}\nSTORYBOARD: Scene ${index + 1} of ${total}.${continuity}${story}\nSCENE: ${scene.prompt.trim()}\n\nTask: Synthesis of high-detail cinematic imagery. Aspect Ratio: ${config.aspectRatio}.`;
+};
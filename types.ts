@@ -36,8 +36,17 @@ export enum ImageResolution {
   RES_4K = '4K'
 }
 
+// Output sizes each image model can render. Flash Image has a fixed 1K output and takes no size option.
+export const IMAGE_MODEL_RESOLUTIONS: Partial<Record<ModelType, ImageResolution[]>> = {
+  [ModelType.FLASH_IMAGE]: [ImageResolution.RES_1K],
+  [ModelType.PRO_IMAGE]: [ImageResolution.RES_1K, ImageResolution.RES_2K, ImageResolution.RES_4K],
+  [ModelType.IMAGEN]: [ImageResolution.RES_1K, ImageResolution.RES_2K],
+};
+
 export type VideoResolution = '720p' | '1080p';
 
+export const VIDEO_RESOLUTIONS: VideoResolution[] = ['720p', '1080p'];
+
 export type VoiceName = 'puck' | 'charon' | 'kore' | 'fenrir' | 'zephyr' | 'aoede' | 'leda' | 'orus';
 
 export type ModelPose = 't-pose' | 'standing' | 'walking' | 'running' | 'action' | 'sitting';
@@ -46,6 +55,9 @@ export type ModelMaterial = 'realistic' | 'clay' | 'low-poly' | 'voxel' | 'anime
 
 export type Bone = 'head' | 'torso' | 'left-arm' | 'right-arm' | 'left-leg' | 'right-leg';
 
+// Skeleton order used for rig weights; parents come before their children
+export const RIG_BONES: Bone[] = ['torso', 'head', 'left-arm', 'right-arm', 'left-leg', 'right-leg'];
+
 export interface Vector3 {
   x: number;
   y: number;
@@ -57,9 +69,43 @@ export interface BoneConfiguration {
   action: string;
 }
 
+// Euler angles in degrees about the bone's joint, applied X, then Y, then Z
+export interface BonePose {
+  bone: Bone;
+  rotation: Vector3;
+}
+
+export interface RigBone {
+  bone: Bone;
+  parent: Bone | null;
+  // Joint the bone rotates about, and the point it extends to
+  head: Vector3;
+  tail: Vector3;
+}
+
+export interface MeshRig {
+  bones: RigBone[];
+  // Per vertex, one weight per bone in RIG_BONES order, summing to 1
+  weights: number[][];
+  // Arm placement the mesh was modelled in; pose presets are adjusted for it
+  restPose: 't-pose' | 'standing';
+}
+
 export type AnimationFormat = 'mp4' | 'gif';
+export type FrameInterpolation = 'off' | 'crossfade' | 'flow';
+// How an animation's last frame leads back to its first; 'auto' wraps clean seams and ping-pongs the rest
+export type LoopMode = 'auto' | 'wrap' | 'ping-pong' | 'trim' | 'crossfade';
+
+// A pose on the animation timeline; bone rotations are added on top of the preset
+export interface AnimationKeyframe {
+  id: string;
+  // Seconds from the start of the clip
+  time: number;
+  pose?: ModelPose;
+  bones: BonePose[];
+}
 export type AnimationQuality = 'standard' | 'high';
-export type Export3DFormat = 'obj' | 'gltf' | 'fbx';
+export type Export3DFormat = 'obj' | 'gltf';
 
 export interface StoryScene {
   id: string;
@@ -67,6 +113,19 @@ export interface StoryScene {
   order: number;
 }
 
+// One rendered scene of a storyboard
+export interface StoryboardFrame {
+  sceneId: string;
+  // Position in the ordered storyboard, from 0
+  index: number;
+  // The scene description it was rendered from
+  prompt: string;
+  url: string;
+  aspectRatio?: string;
+}
+
+export type StoryboardExportFormat = 'pdf' | 'strip';
+
 export interface StoryEntity {
   id: string;
   text: string;
@@ -74,13 +133,28 @@ export interface StoryEntity {
   isActive: boolean;
 }
 
+// 'continuity' is the previous storyboard frame, chained into the next scene
+export type ReferenceRole = 'subject' | 'scene' | 'style' | 'continuity';
+
+export interface ReferenceImage {
+  role: ReferenceRole;
+  dataUrl: string;
+}
+
 export interface DialogTurn {
   id: string;
   voice: VoiceName;
   text: string;
 }
 
-export type CaptionAnimation = 'none' | 'fade' | 'pop' | 'slide-up' | 'zoom-in' | 'typewriter';
+// highlight, bounce and karaoke follow the spoken word; typewriter reveals word by word when timings exist
+export type CaptionAnimation = 'none' | 'fade' | 'pop' | 'slide-up' | 'zoom-in' | 'typewriter' | 'highlight' | 'bounce' | 'karaoke';
+
+export interface CaptionWord {
+  text: string;
+  startTime: number;
+  endTime: number;
+}
 
 export interface CaptionSegment {
   id: string;
@@ -88,6 +162,121 @@ export interface CaptionSegment {
   startTime: number;
   endTime: number;
   animation?: CaptionAnimation;
+  // Per-word timings in reading order, from transcription or estimated by syllables
+  words?: CaptionWord[];
+  // Who says it: a diarization label such as 'Speaker 1', or a dialog voice. Matches a CaptionSpeaker id
+  speaker?: string;
+}
+
+// Per-speaker overrides of the caption style, so each voice in an interview reads as its own
+export interface CaptionSpeaker {
+  // The value segments carry in `speaker`
+  id: string;
+  // Label for VTT voice tags and ASS style names; the id when absent
+  name?: string;
+  // #rrggbb or a gradient id; speakers without one get a distinct colour
+  color?: string;
+  position?: CaptionRenderStyle['position'];
+}
+
+// Platform whose safe zone keeps captions clear of its on-screen buttons and text
+export type CaptionPlatform = 'generic' | 'tiktok' | 'reels' | 'shorts' | 'youtube';
+
+// Caption appearance resolved for server-side rendering. color is #rrggbb or a gradient id such as 'gradient-sunset'
+export interface CaptionRenderStyle {
+  font: string;
+  color: string;
+  style: NonNullable<GenerationConfig['captionStyle']>;
+  size: NonNullable<GenerationConfig['captionSize']>;
+  position: NonNullable<GenerationConfig['captionPosition']>;
+  // Safe zone to lay captions out in; 'generic' when absent
+  platform?: CaptionPlatform;
+  // Overrides for segments with a speaker
+  speakers?: CaptionSpeaker[];
+}
+
+export interface CaptionColor {
+  name: string;
+  // Stored in GenerationConfig.captionColor
+  value: string;
+  // Tailwind swatch class
+  class: string;
+  // #rrggbb, or a gradient id for gradient entries
+  hex: string;
+  // Gradient colour stops, left to right
+  stops?: string[];
+}
+
+export const CAPTION_COLORS: CaptionColor[] = [
+  { name: 'White', value: 'Pure White', class: 'bg-white', hex: '#ffffff' },
+  { name: 'Black', value: 'Matte Black', class: 'bg-black', hex: '#000000' },
+  { name: 'Red', value: 'Crimson Red', class: 'bg-red-600', hex: '#dc2626' },
+  { name: 'Blue', value: 'Electric Blue', class: 'bg-blue-500', hex: '#3b82f6' },
+  { name: 'Gold', value: 'Metallic Gold', class: 'bg-amber-500', hex: '#fbbf24' },
+  { name: 'Neon', value: 'Cyber Lime', class: 'bg-lime-400', hex: '#a3e635' },
+  { name: 'Pink', value: 'Vivid Pink', class: 'bg-pink-500', hex: '#ec4899' },
+  { name: 'Purple', value: 'Deep Purple', class: 'bg-purple-600', hex: '#9333ea' },
+  { name: 'Orange', value: 'Sunset Orange', class: 'bg-orange-500', hex: '#f97316' },
+  { name: 'Grad1', value: 'Sunset Gradient', class: 'bg-gradient-to-r from-orange-400 to-red-500', hex: 'gradient-sunset', stops: ['#fb923c', '#ef4444'] },
+  { name: 'Grad2', value: 'Ocean Gradient', class: 'bg-gradient-to-r from-cyan-400 to-blue-500', hex: 'gradient-ocean', stops: ['#22d3ee', '#3b82f6'] },
+  { name: 'Grad3', value: 'Cyber Gradient', class: 'bg-gradient-to-r from-purple-400 to-pink-500', hex: 'gradient-cyber', stops: ['#c084fc', '#ec4899'] },
+];
+
+export type CaptionExportFormat = 'srt' | 'vtt' | 'ass' | 'json';
+
+export interface CaptionImportWarning {
+  // 1-based line in the imported file
+  line: number;
+  message: string;
+}
+
+// A problem with a caption segment, shown inline in Caption Studio
+export interface CaptionSegmentIssue {
+  id: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// A caption segment list in another language. Segments keep the source track's ids and timings
+export interface CaptionTrack {
+  // A CAPTION_LANGUAGES code
+  language: string;
+  segments: CaptionSegment[];
+  // Source segment ids the model left out, kept in the source language
+  untranslated?: string[];
+}
+
+export interface CaptionLanguage {
+  // BCP 47 tag
+  code: string;
+  name: string;
+}
+
+export const CAPTION_LANGUAGES: CaptionLanguage[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'id', name: 'Indonesian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'zh-CN', name: 'Chinese (Simplified)' },
+];
+
+export interface CaptionImportResult {
+  format: CaptionExportFormat;
+  segments: CaptionSegment[];
+  // Appearance read from the file, where it maps onto Caption Studio's options; color is a CAPTION_COLORS hex
+  style: Partial<CaptionRenderStyle>;
+  warnings: CaptionImportWarning[];
 }
 
 export enum ThumbnailNiche {
@@ -109,13 +298,17 @@ export interface GenerationConfig {
   count?: number;
   stylePrompts?: string[];
   referenceImage?: string | null;
-  referenceImages?: string[];
+  referenceImages?: ReferenceImage[];
   
   // Audio specific
   voice?: VoiceName;
   audioInput?: string | null;
   speechMode?: 'text' | 'mic' | 'dialog';
   dialogTurns?: DialogTurn[];
+  // Silence inserted between turns when dialog is voiced turn by turn
+  dialogGapMs?: number;
+  // Optional rewrite instruction applied when re-voicing a mic recording
+  revoiceStyle?: string;
 
   // Thumbnail specific
   thumbnailTitle?: string;
@@ -128,6 +321,7 @@ export interface GenerationConfig {
   captionStyle?: 'bold' | 'outline' | 'neon' | '3d' | 'minimalist' | 'gradient';
   captionPosition?: 'top' | 'center' | 'bottom';
   captionFont?: string;
+  captionPlatform?: CaptionPlatform;
 
   // Story specific
   storyScenes?: StoryScene[];
@@ -144,21 +338,31 @@ export interface GenerationConfig {
   modelMaterial?: ModelMaterial;
   isRigging?: boolean;
   boneConfigurations?: BoneConfiguration[];
+  // Explicit joint rotations for rigged meshes, on top of modelPose
+  bonePoses?: BonePose[];
   renderAnimation?: boolean;
   animationDuration?: number;
   animationFormat?: AnimationFormat;
   animationQuality?: AnimationQuality;
+  animationKeyframes?: AnimationKeyframe[];
 
   // Flipbook/Motion specific
   motionIntensity?: number;
   motionProfile?: 'fluid' | 'subtle' | 'epic' | 'jitter';
   frameDensity?: 'economy' | 'balanced' | 'ultra';
+  // Synthesize in-between frames locally from economy keyframes instead of generating every frame
+  frameInterpolation?: FrameInterpolation;
+  targetFps?: number;
+  loopMode?: LoopMode;
 
   // Caption Studio Specific
   captionScript?: string;
   captionAudioUrl?: string | null;
   captionVideoUrl?: string | null;
   captionSegments?: CaptionSegment[];
+  // Translations of captionSegments, one per language
+  captionTracks?: CaptionTrack[];
+  captionSpeakers?: CaptionSpeaker[];
   defaultCaptionAnimation?: CaptionAnimation;
 }
 
@@ -175,9 +379,92 @@ export interface GeneratedContent {
   frames?: string[];
   duration?: number;
   segments?: CaptionSegment[];
+  // Loop handling applied to the frames; 'ping-pong' plays forward then back
+  loopMode?: Exclude<LoopMode, 'auto'>;
+  // Perceptual difference between the last and first frame, 0 to 1
+  loopSeamScore?: number;
+  // True while frames are still streaming in from the server
+  isPending?: boolean;
+}
+
+export type VideoExportFormat = 'gif' | 'apng' | 'mp4';
+
+// Body of POST /api/export/video: a frame sequence, or a video with captions burned in
+export interface VideoExportRequest {
+  format: VideoExportFormat;
+  // data: or asset URLs, played at fps in loopMode order
+  frames?: string[];
+  fps?: number;
+  loopMode?: GeneratedContent['loopMode'];
+  // data: or asset URL of the source video
+  video?: string;
+  segments?: CaptionSegment[];
+  captionStyle?: CaptionRenderStyle;
+  // Base for the download filename
+  name?: string;
 }
 
+export interface VideoExportResult {
+  // Download URL, valid for as long as the server keeps the export
+  url: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  frameCount?: number;
+}
+
+// Mesh as the model returns it: each face lists vertex indices followed by an optional colour
 export interface MeshGeometry {
     vertices: number[][];
     faces: (number | string)[][];
 }
+
+export interface MeshRepairReport {
+  droppedVertices: number;
+  droppedFaces: number;
+  // Polygons with more than three corners that were split into triangles
+  triangulatedFaces: number;
+  // Triangles whose winding was reversed so they face outward
+  flippedFaces: number;
+}
+
+// Triangulated, outward-wound geometry with "#rrggbb" colours and one unit normal per face
+export interface RepairedMesh extends MeshGeometry {
+  faces: [number, number, number, string][];
+  normals: number[][];
+  report: MeshRepairReport;
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobSnapshot {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  progress?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Events pushed over /api/jobs/:id/events while a job runs
+export type JobEvent =
+  | { type: 'status'; status: JobStatus }
+  | { type: 'progress'; message: string }
+  | { type: 'frame'; index: number; total: number; dataUrl: string }
+  | { type: 'retry'; attempt: number; retries: number; waitMs: number }
+  | { type: 'done'; status: JobStatus; error?: string; elapsedMs: number; framesDelivered: number };
+
+export interface AssetQuery {
+  mode?: GenerationMode;
+  type?: GeneratedContent['type'];
+  offset?: number;
+  limit?: number;
+}
+
+export interface AssetPage {
+  items: GeneratedContent[];
+  total: number;
+  offset: number;
+  limit: number;
+}